@@ -1,6 +1,8 @@
 import type { AppProps } from 'next/app';
 import Head from 'next/head';
 import { ThemeProvider } from '@/contexts/ThemeContext';
+import { StackProvider } from '@/contexts/StackContext';
+import { getFeedLinks } from '@/utils/feeds';
 import '@/styles/globals.css';
 
 function MyApp({ Component, pageProps }: AppProps) {
@@ -8,9 +10,14 @@ function MyApp({ Component, pageProps }: AppProps) {
     <>
       <Head>
         <meta name='viewport' content='width=device-width, initial-scale=1, maximum-scale=5' />
+        {getFeedLinks({ type: 'all' }, 'Claude Marketplace Aggregator').map((link) => (
+          <link key={link.href} {...link} />
+        ))}
       </Head>
       <ThemeProvider>
-        <Component {...pageProps} />
+        <StackProvider>
+          <Component {...pageProps} />
+        </StackProvider>
       </ThemeProvider>
     </>
   );
@@ -4,6 +4,7 @@ import { useRouter } from 'next/router';
 import Link from 'next/link';
 import MainLayout from '@/components/layout/MainLayout';
 import PluginCard from '@/components/Marketplace/PluginCard';
+import QualityScorePanel from '@/components/Marketplace/QualityScorePanel';
 import {
   Star,
   Github,
@@ -18,9 +19,12 @@ import {
   Copy,
   Check,
   Share2,
+  GitFork,
 } from 'lucide-react';
+import type { MarketplaceDuplicateRef } from '@/types/marketplace';
 import { MarketplacePlugin } from '@/data/mock-data';
 import { useRealMarketplaceData } from '@/hooks/useRealMarketplaceData';
+import { getFeedLinks } from '@/utils/feeds';
 
 interface _MarketplaceDetailProps {
   marketplace: MarketplacePlugin['marketplace'] & {
@@ -71,7 +75,7 @@ const MarketplaceDetailPage: React.FC = () => {
       stars: marketplace.stars,
       downloads: 0,
       lastUpdated: marketplace.updatedAt,
-      version: String(plugin.version || '1.0.0'),
+      version: plugin.version ? String(plugin.version) : undefined,
       license: marketplace.license,
       marketplace: marketplace.name,
       marketplaceUrl: marketplace.url,
@@ -258,6 +262,13 @@ const MarketplaceDetailPage: React.FC = () => {
           name='twitter:image'
           content={`${process.env.NEXT_PUBLIC_SITE_URL}/images/og-image.png`}
         />
+
+        {/* Feed discovery */}
+        {getFeedLinks({ type: 'marketplace', key: marketplace.id }, marketplace.name).map(
+          (link) => (
+            <link key={link.href} {...link} />
+          )
+        )}
       </Head>
 
       <MainLayout>
@@ -315,6 +326,22 @@ const MarketplaceDetailPage: React.FC = () => {
                   {marketplace.description}
                 </p>
 
+                {marketplace.duplicateOf && (
+                  <div className='flex items-center space-x-2 mb-6 text-sm text-gray-600 dark:text-gray-400'>
+                    <GitFork className='w-4 h-4 flex-shrink-0' />
+                    <span>
+                      {marketplace.duplicateOf.kind === 'fork' ? 'Fork' : 'Mirror'} of{' '}
+                      <Link
+                        href={`/marketplaces/${marketplace.duplicateOf.id}`}
+                        className='text-primary-600 dark:text-primary-400 hover:underline'
+                      >
+                        {marketplace.duplicateOf.name}
+                      </Link>
+                      , not counted in ecosystem totals
+                    </span>
+                  </div>
+                )}
+
                 {/* Rating and Stats */}
                 <div className='flex flex-wrap items-center gap-4 mb-6'>
                   <div className='flex items-center space-x-1'>
@@ -418,6 +445,11 @@ const MarketplaceDetailPage: React.FC = () => {
                 <div className='text-xs text-gray-500 dark:text-gray-400 text-center'>
                   <span className='badge badge-secondary'>{marketplace.category}</span>
                 </div>
+
+                <QualityScorePanel
+                  breakdown={marketplace.qualityBreakdown}
+                  emptyMessage='No quality score has been calculated for this marketplace yet.'
+                />
               </div>
             </div>
           </div>
@@ -595,10 +627,38 @@ const MarketplaceDetailPage: React.FC = () => {
           </div>
         </section>
 
+        {/* Forks and mirrors grouped under this marketplace */}
+        {marketplace.duplicates?.length > 0 && (
+          <section className='py-12 bg-gray-50 dark:bg-gray-800/50'>
+            <div className='max-w-7xl mx-auto px-4 sm:px-6 lg:px-8'>
+              <h2 className='text-2xl font-bold text-gray-900 dark:text-gray-100 mb-6'>
+                Forks and Mirrors
+              </h2>
+              <ul className='space-y-2'>
+                {marketplace.duplicates.map((duplicate: MarketplaceDuplicateRef) => (
+                  <li
+                    key={duplicate.id}
+                    className='flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-300'
+                  >
+                    <GitFork className='w-4 h-4 flex-shrink-0' />
+                    <Link
+                      href={`/marketplaces/${duplicate.id}`}
+                      className='text-primary-600 dark:text-primary-400 hover:underline'
+                    >
+                      {duplicate.name}
+                    </Link>
+                    <span className='badge badge-secondary text-xs'>{duplicate.kind}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </section>
+        )}
+
         {/* Related Marketplaces */}
         {marketplaceData?.marketplaces &&
           marketplaceData.marketplaces.filter(
-            (m) => m.id !== marketplace.id && m.category === marketplace.category
+            (m) => m.id !== marketplace.id && !m.duplicateOf && m.category === marketplace.category
           ).length > 0 && (
             <section className='py-12 bg-white dark:bg-gray-900'>
               <div className='max-w-7xl mx-auto px-4 sm:px-6 lg:px-8'>
@@ -607,7 +667,12 @@ const MarketplaceDetailPage: React.FC = () => {
                 </h2>
                 <div className='grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6'>
                   {marketplaceData.marketplaces
-                    .filter((m) => m.id !== marketplace.id && m.category === marketplace.category)
+                    .filter(
+                      (m) =>
+                        m.id !== marketplace.id &&
+                        !m.duplicateOf &&
+                        m.category === marketplace.category
+                    )
                     .slice(0, 3)
                     .map((relatedMarketplace) => (
                       <div
@@ -1,8 +1,10 @@
-import React, { useState, useMemo } from 'react';
+import React, { useMemo } from 'react';
 import Head from 'next/head';
 import MainLayout from '@/components/layout/MainLayout';
 import SearchBar from '@/components/Search/SearchBar';
 import { useRealMarketplaceData } from '@/hooks/useRealMarketplaceData';
+import { useListingUrlState } from '@/hooks/useListingUrlState';
+import type { ListingStateOptions } from '@/utils/url-state';
 import { mockMarketplaces, categories } from '@/data/mock-data';
 import LoadingState from '@/components/ui/LoadingState';
 import { Star, Github, ExternalLink, Shield, Filter, Grid, List } from 'lucide-react';
@@ -20,12 +22,18 @@ interface _Marketplace {
   plugins?: number;
 }
 
+type MarketplaceSort = 'stars' | 'name' | 'updated';
+
+const LISTING_OPTIONS: ListingStateOptions<MarketplaceSort> = {
+  sorts: ['stars', 'name', 'updated'],
+  defaultSort: 'stars',
+  categories,
+};
+
 const MarketplacesPage: React.FC = () => {
-  const [searchQuery, setSearchQuery] = useState('');
-  const [selectedCategory, setSelectedCategory] = useState('All');
-  const [sortBy, setSortBy] = useState<'stars' | 'name' | 'updated'>('stars');
-  const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
-  const [currentPage, setCurrentPage] = useState(1);
+  // Search, category, sort, view and page live in the query string so views can be shared
+  const { state: listingState, update: updateListing } = useListingUrlState(LISTING_OPTIONS);
+  const { q: searchQuery, category: selectedCategory, sort: sortBy, view: viewMode } = listingState;
   const itemsPerPage = 12;
 
   // Use real marketplace data with fallback to mock data
@@ -35,6 +43,9 @@ const MarketplacesPage: React.FC = () => {
   // Filter and sort marketplaces
   const filteredAndSortedMarketplaces = useMemo(() => {
     const filtered = marketplaces.filter((marketplace) => {
+      // Forks and mirrors are linked from their canonical marketplace's page
+      if (marketplace.duplicateOf) return false;
+
       const matchesSearch =
         searchQuery === '' ||
         marketplace.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -66,6 +77,7 @@ const MarketplacesPage: React.FC = () => {
 
   // Pagination
   const totalPages = Math.ceil(filteredAndSortedMarketplaces.length / itemsPerPage);
+  const currentPage = Math.min(listingState.page, Math.max(totalPages, 1));
   const startIndex = (currentPage - 1) * itemsPerPage;
   const paginatedMarketplaces = filteredAndSortedMarketplaces.slice(
     startIndex,
@@ -73,22 +85,20 @@ const MarketplacesPage: React.FC = () => {
   );
 
   const handleSearch = (query: string) => {
-    setSearchQuery(query);
-    setCurrentPage(1); // Reset to first page on search
+    // Refining an existing search replaces the history entry instead of adding one per keystroke
+    updateListing({ q: query, page: 1 }, { replace: Boolean(query && searchQuery) });
   };
 
   const handleCategoryChange = (category: string) => {
-    setSelectedCategory(category);
-    setCurrentPage(1); // Reset to first page on category change
+    updateListing({ category, page: 1 }); // Reset to first page on category change
   };
 
-  const handleSortChange = (sort: 'stars' | 'name' | 'updated') => {
-    setSortBy(sort);
-    setCurrentPage(1); // Reset to first page on sort change
+  const handleSortChange = (sort: MarketplaceSort) => {
+    updateListing({ sort, page: 1 }); // Reset to first page on sort change
   };
 
   const handlePageChange = (page: number) => {
-    setCurrentPage(page);
+    updateListing({ page });
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
@@ -147,7 +157,12 @@ const MarketplacesPage: React.FC = () => {
 
                 {/* Search Bar */}
                 <div className='max-w-2xl mx-auto mb-8'>
-                  <SearchBar onSearch={handleSearch} onFilterClick={() => {}} className='w-full' />
+                  <SearchBar
+                    onSearch={handleSearch}
+                    onFilterClick={() => {}}
+                    value={searchQuery}
+                    className='w-full'
+                  />
                 </div>
               </div>
 
@@ -178,9 +193,7 @@ const MarketplacesPage: React.FC = () => {
                     </label>
                     <select
                       value={sortBy}
-                      onChange={(e) =>
-                        handleSortChange(e.target.value as 'stars' | 'name' | 'updated')
-                      }
+                      onChange={(e) => handleSortChange(e.target.value as MarketplaceSort)}
                       className='px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-primary-500 focus:border-transparent'
                     >
                       <option value='stars'>Stars</option>
@@ -191,14 +204,14 @@ const MarketplacesPage: React.FC = () => {
 
                   <div className='flex items-center gap-1 bg-gray-100 dark:bg-gray-700 rounded-lg p-1'>
                     <button
-                      onClick={() => setViewMode('grid')}
+                      onClick={() => updateListing({ view: 'grid' })}
                       className={`p-2 rounded ${viewMode === 'grid' ? 'bg-white dark:bg-gray-600 shadow-sm' : ''}`}
                       aria-label='Grid view'
                     >
                       <Grid className='w-4 h-4' />
                     </button>
                     <button
-                      onClick={() => setViewMode('list')}
+                      onClick={() => updateListing({ view: 'list' })}
                       className={`p-2 rounded ${viewMode === 'list' ? 'bg-white dark:bg-gray-600 shadow-sm' : ''}`}
                       aria-label='List view'
                     >
@@ -376,9 +389,7 @@ const MarketplacesPage: React.FC = () => {
                 {(searchQuery || selectedCategory !== 'All') && (
                   <button
                     onClick={() => {
-                      setSearchQuery('');
-                      setSelectedCategory('All');
-                      setCurrentPage(1);
+                      updateListing({ q: '', category: 'All', page: 1 });
                     }}
                     className='btn btn-primary'
                     aria-label='Clear all filters'
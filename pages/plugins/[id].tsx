@@ -27,38 +27,60 @@ import {
   Lock,
   ChevronRight,
   ArrowLeft,
+  History,
+  Layers,
 } from 'lucide-react';
-import { mockPlugins, mockMarketplaces } from '@/data/mock-data';
+import QualityScorePanel from '@/components/Marketplace/QualityScorePanel';
 import { usePluginData } from '@/hooks/usePluginData';
+import { usePluginVersions } from '@/hooks/usePluginVersions';
+import { usePluginDetails } from '@/hooks/usePluginDetails';
+import { useStack } from '@/contexts/StackContext';
+import { inventoryFromComponents } from '@/utils/plugin-inventory';
+import { assessMcpServers, MCP_RISK_LABELS } from '@/utils/mcp-analysis';
+import { getFeedLinks, FeedScope } from '@/utils/feeds';
+import { PLUGIN_CONFLICT_LABELS } from '@/utils/plugin-conflicts';
+import {
+  getInstallCommands,
+  getPluginInstallTarget,
+  renderTeamPluginSettings,
+} from '@/utils/install-commands';
+import type { McpRiskLevel } from '@/types/plugin';
+
+const RISK_BADGES: Record<McpRiskLevel, string> = {
+  none: 'badge-secondary',
+  low: 'badge-success',
+  medium: 'badge-warning',
+  high: 'badge-error',
+};
 
 const PluginDetailPage: React.FC = () => {
   const router = useRouter();
   const { id } = router.query;
   const [copied, setCopied] = useState('');
-  const [rating, setRating] = useState(0);
   const [userRating, setUserRating] = useState(0);
-  const [activeTab, setActiveTab] = useState<'overview' | 'installation' | 'usage' | 'security'>(
-    'overview'
-  );
+  const [activeTab, setActiveTab] = useState<
+    'overview' | 'installation' | 'usage' | 'security' | 'versions'
+  >('overview');
   const [showFeedbackForm, setShowFeedbackForm] = useState(false);
   const [feedback, setFeedback] = useState({ type: '', message: '' });
 
-  // Find plugin by ID (real data first, fall back to mock)
+  // Find plugin by ID
   const { plugins: realPlugins, loading: pluginsLoading } = usePluginData();
-  const plugin = useMemo(() => {
-    return realPlugins.find((p) => p.id === id) ?? mockPlugins.find((p) => p.id === id);
-  }, [id, realPlugins]);
-
-  // Find marketplace
-  const marketplace = useMemo(() => {
-    if (!plugin) return null;
-    return mockMarketplaces.find((m) => m.name === plugin.marketplace);
-  }, [plugin]);
+  const plugin = useMemo(() => realPlugins.find((p) => p.id === id), [id, realPlugins]);
+
+  // Version history recorded across scans
+  const { history: versionHistory, loading: versionsLoading } = usePluginVersions(plugin?.id);
+
+  // Components and repository statistics captured by the scanner
+  const { details, loading: detailsLoading } = usePluginDetails(plugin?.id);
+
+  // Plugins the visitor is collecting for a team settings.json
+  const { selection, isInStack, toggleInStack } = useStack();
 
   // Find related plugins
   const relatedPlugins = useMemo(() => {
     if (!plugin) return [];
-    return mockPlugins
+    return realPlugins
       .filter(
         (p) =>
           p.id !== plugin.id &&
@@ -67,49 +89,7 @@ const PluginDetailPage: React.FC = () => {
             p.author === plugin.author)
       )
       .slice(0, 6);
-  }, [plugin]);
-
-  // Mock additional plugin data for demonstration
-  const pluginDetails = useMemo(() => {
-    if (!plugin) return null;
-
-    return {
-      commands: [
-        `${plugin.name.toLowerCase().replace(/\s+/g, '-')} --help`,
-        `${plugin.name.toLowerCase().replace(/\s+/g, '-')} install`,
-        `${plugin.name.toLowerCase().replace(/\s+/g, '-')} config --set`,
-        `${plugin.name.toLowerCase().replace(/\s+/g, '-')} run --verbose`,
-      ],
-      agents: ['code-reviewer', 'documentation-generator', 'test-automation', 'security-analyzer'],
-      hooks: {
-        'pre-commit': 'Runs automated checks before commit',
-        'pre-push': 'Validates code before pushing',
-        'post-checkout': 'Sets up environment after checkout',
-      },
-      mcpServers: {
-        main: {
-          command: `${plugin.name.toLowerCase().replace(/\s+/g, '-')}`,
-          args: ['--server'],
-          description: 'Main MCP server for plugin functionality',
-        },
-      },
-      securityMetrics: {
-        vulnerabilities: Math.floor(Math.random() * 3),
-        dependencies: Math.floor(Math.random() * 50) + 10,
-        licenseCheck:
-          plugin.license === 'MIT' || plugin.license === 'Apache-2.0' ? 'pass' : 'warning',
-        securityScore: Math.floor(Math.random() * 30) + 70,
-      },
-      githubStats: {
-        commits: Math.floor(Math.random() * 500) + 50,
-        contributors: Math.floor(Math.random() * 20) + 1,
-        lastCommit: new Date(Date.now() - Math.random() * 30 * 24 * 60 * 60 * 1000).toISOString(),
-        defaultBranch: 'main',
-        openIssues: Math.floor(Math.random() * 10),
-        closedIssues: Math.floor(Math.random() * 50) + 10,
-      },
-    };
-  }, [plugin]);
+  }, [plugin, realPlugins]);
 
   // Load saved rating from localStorage
   useEffect(() => {
@@ -118,17 +98,6 @@ const PluginDetailPage: React.FC = () => {
       if (savedRating) {
         setUserRating(parseInt(savedRating));
       }
-
-      // Load average rating (mock data for now)
-      const avgRating = localStorage.getItem(`avg-rating-plugin-${plugin.id}`);
-      if (avgRating) {
-        setRating(parseFloat(avgRating));
-      } else {
-        // Mock average rating
-        const mockRating = 3.5 + Math.random() * 1.5;
-        setRating(mockRating);
-        localStorage.setItem(`avg-rating-plugin-${plugin.id}`, mockRating.toString());
-      }
     }
   }, [plugin]);
 
@@ -146,11 +115,6 @@ const PluginDetailPage: React.FC = () => {
     setUserRating(newRating);
     if (typeof window !== 'undefined' && plugin) {
       localStorage.setItem(`rating-plugin-${plugin.id}`, newRating.toString());
-
-      // Update average rating (simple calculation)
-      const newAvgRating = (rating + newRating) / 2;
-      setRating(newAvgRating);
-      localStorage.setItem(`avg-rating-plugin-${plugin.id}`, newAvgRating.toString());
     }
   };
 
@@ -178,21 +142,46 @@ const PluginDetailPage: React.FC = () => {
     setFeedback({ type: '', message: '' });
   };
 
-  const getInstallCommand = () => {
-    if (!plugin) return '';
-    return `claude install ${plugin.name.toLowerCase().replace(/\s+/g, '-')}`;
-  };
-
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString();
   };
 
-  const getSecurityLevel = (score: number) => {
-    if (score >= 90) return { level: 'Excellent', color: 'text-green-600', bg: 'bg-green-100' };
-    if (score >= 70) return { level: 'Good', color: 'text-blue-600', bg: 'bg-blue-100' };
-    if (score >= 50) return { level: 'Fair', color: 'text-yellow-600', bg: 'bg-yellow-100' };
-    return { level: 'Poor', color: 'text-red-600', bg: 'bg-red-100' };
-  };
+  const formatCount = (entries?: unknown[]) => (entries ? entries.length.toString() : 'Unknown');
+
+  // Explicit state for component types the scan could not determine
+  const renderUnknown = (label: string) => (
+    <p className='text-sm text-gray-500 dark:text-gray-400'>
+      {detailsLoading
+        ? 'Loading plugin details...'
+        : details
+          ? `Unknown: the plugin directory has not been scanned and the manifest does not declare ${label}.`
+          : `Unknown: ${label} have not been scanned for this plugin yet.`}
+    </p>
+  );
+
+  const renderCopyBlock = (code: string, copyKey: string, caption?: string) => (
+    <div className='bg-gray-900 text-gray-100 p-4 rounded-lg font-mono text-sm'>
+      <div className='flex items-start justify-between'>
+        <div className='min-w-0 overflow-x-auto'>
+          {caption && <div className='text-gray-400 mb-2'># {caption}</div>}
+          <pre>
+            <code>{code}</code>
+          </pre>
+        </div>
+        <button
+          onClick={() => copyToClipboard(code, copyKey)}
+          className='ml-4 text-gray-400 hover:text-white transition-colors'
+          aria-label='Copy to clipboard'
+        >
+          {copied === copyKey ? (
+            <Check className='w-4 h-4 text-green-500' />
+          ) : (
+            <Copy className='w-4 h-4' />
+          )}
+        </button>
+      </div>
+    </div>
+  );
 
   if (pluginsLoading || !id) {
     return (
@@ -207,7 +196,7 @@ const PluginDetailPage: React.FC = () => {
     );
   }
 
-  if (!plugin || !pluginDetails) {
+  if (!plugin) {
     return (
       <MainLayout>
         <div className='min-h-screen flex items-center justify-center'>
@@ -231,7 +220,30 @@ const PluginDetailPage: React.FC = () => {
     );
   }
 
-  const securityLevel = getSecurityLevel(pluginDetails.securityMetrics.securityScore);
+  // Prefer the walked directory inventory; fall back to what the manifest declares
+  const inventory = details?.inventory ?? inventoryFromComponents(details?.components ?? {});
+  const repositoryStats = details?.repository ?? null;
+  const runsLocalCode = [inventory.hooks, inventory.mcpServers].some(
+    (entries) => entries !== undefined && entries.length > 0
+  );
+  // details.json files written before risk classification only carry the inventory
+  const mcpRisk =
+    details?.mcpRisk ??
+    (details?.inventory ? assessMcpServers(details.inventory.mcpServers) : null);
+
+  // Install commands refer to the marketplace repository and the name in its marketplace.json
+  const installTarget = getPluginInstallTarget(plugin);
+  const installCommands = installTarget ? getInstallCommands(installTarget) : [];
+  const teamSettings = installTarget ? renderTeamPluginSettings([installTarget]) : '';
+  const inStack = isInStack(plugin.id);
+
+  const feedScopes: Array<[FeedScope, string]> = [
+    [{ type: 'author', key: plugin.author }, plugin.author],
+    [{ type: 'category', key: plugin.category }, `${plugin.category} plugins`],
+  ];
+  if (plugin.marketplaceId) {
+    feedScopes.unshift([{ type: 'marketplace', key: plugin.marketplaceId }, plugin.marketplace]);
+  }
 
   return (
     <>
@@ -262,6 +274,13 @@ const PluginDetailPage: React.FC = () => {
           name='twitter:image'
           content={`${process.env.NEXT_PUBLIC_SITE_URL}/images/og-image.png`}
         />
+
+        {/* Feed discovery */}
+        {feedScopes
+          .flatMap(([scope, title]) => getFeedLinks(scope, title))
+          .map((link) => (
+            <link key={link.href} {...link} />
+          ))}
       </Head>
 
       <MainLayout>
@@ -329,17 +348,15 @@ const PluginDetailPage: React.FC = () => {
                       >
                         <Star
                           className={`w-5 h-5 ${
-                            star <= rating
-                              ? 'fill-current text-yellow-500'
-                              : star <= userRating
-                                ? 'fill-current text-yellow-400'
-                                : 'text-gray-300 dark:text-gray-600'
+                            star <= userRating
+                              ? 'fill-current text-yellow-400'
+                              : 'text-gray-300 dark:text-gray-600'
                           } hover:text-yellow-400`}
                         />
                       </button>
                     ))}
                     <span className='ml-2 text-sm text-gray-600 dark:text-gray-400'>
-                      {rating.toFixed(1)} ratings
+                      {userRating > 0 ? `Your rating: ${userRating}/5` : 'Rate this plugin'}
                     </span>
                   </div>
 
@@ -348,10 +365,6 @@ const PluginDetailPage: React.FC = () => {
                       <Star className='w-4 h-4' />
                       <span>{plugin.stars.toLocaleString()}</span>
                     </div>
-                    <div className='flex items-center space-x-1'>
-                      <Download className='w-4 h-4' />
-                      <span>{plugin.downloads.toLocaleString()}</span>
-                    </div>
                   </div>
                 </div>
 
@@ -369,8 +382,9 @@ const PluginDetailPage: React.FC = () => {
               {/* Action Buttons */}
               <div className='flex flex-col space-y-3 lg:w-64'>
                 <button
-                  onClick={() => copyToClipboard(getInstallCommand(), 'install')}
+                  onClick={() => copyToClipboard(installCommands.join('\n'), 'install')}
                   className='btn btn-primary group justify-center'
+                  disabled={!installTarget}
                 >
                   <Terminal className='w-4 h-4 mr-2' />
                   {copied === 'install' ? 'Copied!' : 'Copy Install Command'}
@@ -381,6 +395,23 @@ const PluginDetailPage: React.FC = () => {
                   )}
                 </button>
 
+                <button
+                  onClick={() => toggleInStack(plugin)}
+                  className={`btn justify-center ${inStack ? 'btn-secondary' : 'btn-outline'}`}
+                  aria-pressed={inStack}
+                >
+                  <Layers className='w-4 h-4 mr-2' />
+                  {inStack ? 'In Team Stack' : 'Add to Team Stack'}
+                </button>
+                {inStack && (
+                  <Link
+                    href='/stack'
+                    className='text-xs text-center text-primary-600 dark:text-primary-400 hover:underline'
+                  >
+                    Review stack ({selection.selectedIds.length})
+                  </Link>
+                )}
+
                 <div className='flex space-x-2'>
                   <a
                     href={plugin.repositoryUrl}
@@ -412,8 +443,8 @@ const PluginDetailPage: React.FC = () => {
                 </div>
 
                 <div className='text-xs text-gray-500 dark:text-gray-400 text-center space-y-1'>
-                  <div>Version {plugin.version}</div>
-                  <div>{plugin.license} license</div>
+                  <div>Version {plugin.version ?? 'Unknown'}</div>
+                  <div>License: {plugin.license ?? 'Unknown'}</div>
                   <div>Updated {formatDate(plugin.lastUpdated)}</div>
                 </div>
               </div>
@@ -424,14 +455,21 @@ const PluginDetailPage: React.FC = () => {
               <div className='flex items-center justify-between'>
                 <div>
                   <div className='text-sm text-gray-600 dark:text-gray-400 mb-1'>
-                    Install command:
+                    Install in Claude Code:
                   </div>
-                  <code className='text-sm text-gray-900 dark:text-gray-100 font-mono'>
-                    {getInstallCommand()}
-                  </code>
+                  {installTarget ? (
+                    <code className='block text-sm text-gray-900 dark:text-gray-100 font-mono whitespace-pre'>
+                      {installCommands.join('\n')}
+                    </code>
+                  ) : (
+                    <p className='text-sm text-gray-500 dark:text-gray-400'>
+                      Unknown: the marketplace repository of this plugin has not been recorded.
+                    </p>
+                  )}
                 </div>
                 <button
-                  onClick={() => copyToClipboard(getInstallCommand(), 'install-main')}
+                  onClick={() => copyToClipboard(installCommands.join('\n'), 'install-main')}
+                  disabled={!installTarget}
                   className='ml-4 p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors'
                 >
                   {copied === 'install-main' ? (
@@ -454,6 +492,7 @@ const PluginDetailPage: React.FC = () => {
                 { id: 'installation', label: 'Installation', icon: Download },
                 { id: 'usage', label: 'Usage', icon: Terminal },
                 { id: 'security', label: 'Security', icon: Shield },
+                { id: 'versions', label: 'Versions', icon: History },
               ].map((tab) => (
                 <button
                   key={tab.id}
@@ -493,51 +532,193 @@ const PluginDetailPage: React.FC = () => {
                   <div className='card'>
                     <h3 className='text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4'>
                       <Terminal className='w-5 h-5 inline mr-2' />
-                      Available Commands
+                      Commands
                     </h3>
-                    <div className='space-y-3'>
-                      {pluginDetails.commands.map((command, index) => (
-                        <div
-                          key={index}
-                          className='flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-800 rounded-lg'
-                        >
-                          <code className='text-sm font-mono text-gray-900 dark:text-gray-100'>
-                            {command}
-                          </code>
-                          <button
-                            onClick={() => copyToClipboard(command, `cmd-${index}`)}
-                            className='ml-4 p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors'
+                    {!inventory.commands ? (
+                      renderUnknown('commands')
+                    ) : inventory.commands.length === 0 ? (
+                      <p className='text-sm text-gray-600 dark:text-gray-300'>
+                        No commands found in this plugin.
+                      </p>
+                    ) : (
+                      <div className='space-y-3'>
+                        {inventory.commands.map((command, index) => (
+                          <div
+                            key={command.path}
+                            className='flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-800 rounded-lg'
                           >
-                            {copied === `cmd-${index}` ? (
-                              <Check className='w-4 h-4 text-green-500' />
-                            ) : (
-                              <Copy className='w-4 h-4' />
-                            )}
-                          </button>
-                        </div>
-                      ))}
-                    </div>
+                            <div>
+                              <code className='text-sm font-mono text-gray-900 dark:text-gray-100'>
+                                /{command.name}
+                                {command.argumentHint && (
+                                  <span className='text-gray-500 dark:text-gray-400'>
+                                    {' '}
+                                    {command.argumentHint}
+                                  </span>
+                                )}
+                              </code>
+                              {command.description && (
+                                <div className='text-sm text-gray-600 dark:text-gray-300'>
+                                  {command.description}
+                                </div>
+                              )}
+                            </div>
+                            <button
+                              onClick={() => copyToClipboard(`/${command.name}`, `cmd-${index}`)}
+                              className='ml-4 p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors'
+                            >
+                              {copied === `cmd-${index}` ? (
+                                <Check className='w-4 h-4 text-green-500' />
+                              ) : (
+                                <Copy className='w-4 h-4' />
+                              )}
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </div>
 
                   {/* Agents */}
                   <div className='card'>
                     <h3 className='text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4'>
                       <Users className='w-5 h-5 inline mr-2' />
-                      Compatible Agents
+                      Agents
+                    </h3>
+                    {!inventory.agents ? (
+                      renderUnknown('agents')
+                    ) : inventory.agents.length === 0 ? (
+                      <p className='text-sm text-gray-600 dark:text-gray-300'>
+                        No agents found in this plugin.
+                      </p>
+                    ) : (
+                      <div className='grid grid-cols-1 sm:grid-cols-2 gap-3'>
+                        {inventory.agents.map((agent) => (
+                          <div
+                            key={agent.path}
+                            className='p-3 bg-gray-50 dark:bg-gray-800 rounded-lg'
+                            title={agent.path}
+                          >
+                            <div className='flex items-center space-x-2'>
+                              <Zap className='w-4 h-4 text-primary-500' />
+                              <span className='text-sm font-medium text-gray-900 dark:text-gray-100'>
+                                {agent.name}
+                              </span>
+                            </div>
+                            {agent.description && (
+                              <p className='mt-1 text-sm text-gray-600 dark:text-gray-300 line-clamp-2'>
+                                {agent.description}
+                              </p>
+                            )}
+                            <div className='mt-2 text-xs text-gray-500 dark:text-gray-400'>
+                              Tools: {agent.tools ? agent.tools.join(', ') : 'all (inherited)'}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Skills */}
+                  <div className='card'>
+                    <h3 className='text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4'>
+                      <Book className='w-5 h-5 inline mr-2' />
+                      Skills
+                    </h3>
+                    {!inventory.skills ? (
+                      renderUnknown('skills')
+                    ) : inventory.skills.length === 0 ? (
+                      <p className='text-sm text-gray-600 dark:text-gray-300'>
+                        No skills found in this plugin.
+                      </p>
+                    ) : (
+                      <div className='space-y-3'>
+                        {inventory.skills.map((skill) => (
+                          <div
+                            key={skill.path}
+                            className='p-3 bg-gray-50 dark:bg-gray-800 rounded-lg'
+                            title={skill.path}
+                          >
+                            <div className='text-sm font-medium text-gray-900 dark:text-gray-100'>
+                              {skill.name}
+                            </div>
+                            {skill.description && (
+                              <p className='text-sm text-gray-600 dark:text-gray-300'>
+                                {skill.description}
+                              </p>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Conflicts */}
+                  <div className='card'>
+                    <h3 className='text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4'>
+                      <AlertTriangle className='w-5 h-5 inline mr-2' />
+                      Conflicts with
                     </h3>
-                    <div className='grid grid-cols-1 sm:grid-cols-2 gap-3'>
-                      {pluginDetails.agents.map((agent) => (
-                        <div
-                          key={agent}
-                          className='flex items-center space-x-2 p-3 bg-gray-50 dark:bg-gray-800 rounded-lg'
+                    {details?.canonicalPluginId ? (
+                      <p className='text-sm text-gray-600 dark:text-gray-300'>
+                        This plugin is listed by a fork or mirror. Conflicts are shown on{' '}
+                        <Link
+                          href={`/plugins/${details.canonicalPluginId}`}
+                          className='text-primary-600 dark:text-primary-400 hover:underline'
                         >
-                          <Zap className='w-4 h-4 text-primary-500' />
-                          <span className='text-sm font-medium text-gray-900 dark:text-gray-100'>
-                            {agent}
-                          </span>
-                        </div>
-                      ))}
-                    </div>
+                          the same plugin in the original marketplace
+                        </Link>
+                        .
+                      </p>
+                    ) : !details?.conflicts ? (
+                      <p className='text-sm text-gray-500 dark:text-gray-400'>
+                        {detailsLoading
+                          ? 'Loading plugin details...'
+                          : 'Unknown: conflicts with other plugins have not been analysed yet.'}
+                      </p>
+                    ) : details.conflicts.length === 0 ? (
+                      <p className='text-sm text-gray-600 dark:text-gray-300'>
+                        No other plugin uses the same command, agent or MCP server names, or hooks
+                        the same tools.
+                      </p>
+                    ) : (
+                      <div className='space-y-3'>
+                        {details.conflicts.map((conflict) => (
+                          <div
+                            key={`${conflict.kind}:${conflict.name}`}
+                            className='p-3 bg-gray-50 dark:bg-gray-800 rounded-lg'
+                          >
+                            <div className='text-sm text-gray-900 dark:text-gray-100'>
+                              {PLUGIN_CONFLICT_LABELS[conflict.kind]}{' '}
+                              <code className='font-mono'>{conflict.name}</code>
+                            </div>
+                            <div className='mt-1 text-sm text-gray-600 dark:text-gray-300'>
+                              Also used by{' '}
+                              {conflict.plugins
+                                .filter((party) => party.pluginId !== plugin.id)
+                                .map((party, index) => (
+                                  <React.Fragment key={party.pluginId}>
+                                    {index > 0 && ', '}
+                                    <Link
+                                      href={`/plugins/${party.pluginId}`}
+                                      className='text-primary-600 dark:text-primary-400 hover:underline'
+                                    >
+                                      {party.name}
+                                    </Link>
+                                  </React.Fragment>
+                                ))}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    <Link
+                      href='/plugins/conflicts'
+                      className='mt-4 text-sm text-primary-600 dark:text-primary-400 hover:underline flex items-center'
+                    >
+                      All conflicts in the ecosystem
+                      <ChevronRight className='w-4 h-4 ml-1' />
+                    </Link>
                   </div>
                 </div>
 
@@ -567,23 +748,18 @@ const PluginDetailPage: React.FC = () => {
                   </div>
 
                   {/* Marketplace Info */}
-                  {marketplace && (
+                  {plugin.marketplaceId && (
                     <div className='card'>
                       <h3 className='text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4'>
                         <Package className='w-5 h-5 inline mr-2' />
                         Marketplace
                       </h3>
                       <div className='space-y-3'>
-                        <div>
-                          <div className='font-medium text-gray-900 dark:text-gray-100'>
-                            {marketplace.name}
-                          </div>
-                          <p className='text-sm text-gray-600 dark:text-gray-300'>
-                            {marketplace.description}
-                          </p>
+                        <div className='font-medium text-gray-900 dark:text-gray-100'>
+                          {plugin.marketplace}
                         </div>
                         <Link
-                          href={`/marketplaces/${marketplace.id}`}
+                          href={`/marketplaces/${plugin.marketplaceId}`}
                           className='text-sm text-primary-600 dark:text-primary-400 hover:underline flex items-center'
                         >
                           View marketplace
@@ -599,39 +775,50 @@ const PluginDetailPage: React.FC = () => {
                       <Github className='w-5 h-5 inline mr-2' />
                       Repository Stats
                     </h3>
-                    <div className='space-y-3'>
-                      <div className='flex justify-between'>
-                        <span className='text-sm text-gray-600 dark:text-gray-400'>Commits</span>
-                        <span className='text-sm font-medium text-gray-900 dark:text-gray-100'>
-                          {pluginDetails.githubStats.commits}
-                        </span>
-                      </div>
-                      <div className='flex justify-between'>
-                        <span className='text-sm text-gray-600 dark:text-gray-400'>
-                          Contributors
-                        </span>
-                        <span className='text-sm font-medium text-gray-900 dark:text-gray-100'>
-                          {pluginDetails.githubStats.contributors}
-                        </span>
-                      </div>
-                      <div className='flex justify-between'>
-                        <span className='text-sm text-gray-600 dark:text-gray-400'>
-                          Open Issues
-                        </span>
-                        <span className='text-sm font-medium text-gray-900 dark:text-gray-100'>
-                          {pluginDetails.githubStats.openIssues}
-                        </span>
-                      </div>
-                      <div className='flex justify-between'>
-                        <span className='text-sm text-gray-600 dark:text-gray-400'>
-                          Last Commit
-                        </span>
-                        <span className='text-sm font-medium text-gray-900 dark:text-gray-100'>
-                          {formatDate(pluginDetails.githubStats.lastCommit)}
-                        </span>
+                    {repositoryStats ? (
+                      <div className='space-y-3'>
+                        {[
+                          { label: 'Stars', value: repositoryStats.stars.toLocaleString() },
+                          { label: 'Forks', value: repositoryStats.forks.toLocaleString() },
+                          {
+                            label: 'Open Issues',
+                            value: repositoryStats.openIssues.toLocaleString(),
+                          },
+                          { label: 'Default Branch', value: repositoryStats.defaultBranch },
+                          { label: 'Last Push', value: formatDate(repositoryStats.pushedAt) },
+                        ].map((row) => (
+                          <div key={row.label} className='flex justify-between'>
+                            <span className='text-sm text-gray-600 dark:text-gray-400'>
+                              {row.label}
+                            </span>
+                            <span className='text-sm font-medium text-gray-900 dark:text-gray-100'>
+                              {row.value}
+                            </span>
+                          </div>
+                        ))}
+                        <div className='text-xs text-gray-500 dark:text-gray-400 pt-2'>
+                          {repositoryStats.fullName} · fetched{' '}
+                          {formatDate(repositoryStats.fetchedAt)}
+                        </div>
                       </div>
-                    </div>
+                    ) : (
+                      <p className='text-sm text-gray-500 dark:text-gray-400'>
+                        {detailsLoading
+                          ? 'Loading plugin details...'
+                          : 'Unknown: repository statistics were not captured by the latest scan.'}
+                      </p>
+                    )}
                   </div>
+
+                  {/* Quality Score */}
+                  <QualityScorePanel
+                    breakdown={details?.quality}
+                    emptyMessage={
+                      detailsLoading
+                        ? 'Loading plugin details...'
+                        : 'No quality score has been calculated for this plugin yet.'
+                    }
+                  />
                 </div>
               </div>
             )}
@@ -644,97 +831,69 @@ const PluginDetailPage: React.FC = () => {
                     <h2 className='text-xl font-semibold text-gray-900 dark:text-gray-100 mb-4'>
                       Installation Instructions
                     </h2>
-                    <div className='space-y-6'>
-                      <div>
-                        <h3 className='text-lg font-medium text-gray-900 dark:text-gray-100 mb-3'>
-                          1. Install via Claude
-                        </h3>
-                        <p className='text-gray-600 dark:text-gray-300 mb-3'>
-                          Run the following command in your Claude Code session:
-                        </p>
-                        <div className='relative'>
-                          <div className='bg-gray-900 text-gray-100 p-4 rounded-lg font-mono text-sm'>
-                            <div className='flex items-center justify-between'>
-                              <code>{getInstallCommand()}</code>
-                              <button
-                                onClick={() =>
-                                  copyToClipboard(getInstallCommand(), 'install-step1')
-                                }
-                                className='ml-4 text-gray-400 hover:text-white transition-colors'
-                              >
-                                {copied === 'install-step1' ? (
-                                  <Check className='w-4 h-4 text-green-500' />
-                                ) : (
-                                  <Copy className='w-4 h-4' />
-                                )}
-                              </button>
-                            </div>
-                          </div>
+                    {installTarget ? (
+                      <div className='space-y-6'>
+                        <div>
+                          <h3 className='text-lg font-medium text-gray-900 dark:text-gray-100 mb-3'>
+                            1. Add the marketplace
+                          </h3>
+                          <p className='text-gray-600 dark:text-gray-300 mb-3'>
+                            Run this in a Claude Code session to make the{' '}
+                            <code className='font-mono'>{installTarget.marketplace}</code>{' '}
+                            marketplace available:
+                          </p>
+                          {renderCopyBlock(installCommands[0], 'install-step1')}
                         </div>
-                      </div>
 
-                      <div>
-                        <h3 className='text-lg font-medium text-gray-900 dark:text-gray-100 mb-3'>
-                          2. Configure Plugin
-                        </h3>
-                        <p className='text-gray-600 dark:text-gray-300 mb-3'>
-                          Add the plugin configuration to your Claude config file:
-                        </p>
-                        <div className='bg-gray-900 text-gray-100 p-4 rounded-lg font-mono text-sm'>
-                          <div className='flex items-center justify-between mb-2'>
-                            <span className='text-gray-400'># ~/.claude/config.json</span>
-                            <button
-                              onClick={() =>
-                                copyToClipboard('config.json content', 'install-step2')
-                              }
-                              className='text-gray-400 hover:text-white transition-colors'
-                            >
-                              {copied === 'install-step2' ? (
-                                <Check className='w-4 h-4 text-green-500' />
-                              ) : (
-                                <Copy className='w-4 h-4' />
-                              )}
-                            </button>
-                          </div>
-                          <code>{`{
-  "plugins": {
-    "${plugin.name.toLowerCase().replace(/\s+/g, '-')}": {
-      "enabled": true,
-      "config": {
-        // Add your plugin-specific configuration here
-      }
-    }
-  }
-}`}</code>
+                        <div>
+                          <h3 className='text-lg font-medium text-gray-900 dark:text-gray-100 mb-3'>
+                            2. Install the plugin
+                          </h3>
+                          <p className='text-gray-600 dark:text-gray-300 mb-3'>
+                            Install {plugin.name} from that marketplace:
+                          </p>
+                          {renderCopyBlock(installCommands[1], 'install-step2')}
                         </div>
-                      </div>
 
-                      <div>
-                        <h3 className='text-lg font-medium text-gray-900 dark:text-gray-100 mb-3'>
-                          3. Verify Installation
-                        </h3>
-                        <p className='text-gray-600 dark:text-gray-300 mb-3'>
-                          Verify the plugin is installed and working:
-                        </p>
-                        <div className='bg-gray-900 text-gray-100 p-4 rounded-lg font-mono text-sm'>
-                          <div className='flex items-center justify-between'>
-                            <code>claude plugins list</code>
-                            <button
-                              onClick={() =>
-                                copyToClipboard('claude plugins list', 'install-step3')
-                              }
-                              className='text-gray-400 hover:text-white transition-colors'
-                            >
-                              {copied === 'install-step3' ? (
-                                <Check className='w-4 h-4 text-green-500' />
-                              ) : (
-                                <Copy className='w-4 h-4' />
-                              )}
-                            </button>
-                          </div>
+                        <div>
+                          <h3 className='text-lg font-medium text-gray-900 dark:text-gray-100 mb-3'>
+                            3. Roll out to your team
+                          </h3>
+                          <p className='text-gray-600 dark:text-gray-300 mb-3'>
+                            Commit these settings to your project so everyone who trusts the project
+                            folder is offered the marketplace and gets the plugin enabled. Merge
+                            them into an existing settings file rather than replacing it.
+                          </p>
+                          {renderCopyBlock(teamSettings, 'install-step3', '.claude/settings.json')}
+                        </div>
+
+                        <div>
+                          <h3 className='text-lg font-medium text-gray-900 dark:text-gray-100 mb-3'>
+                            4. Verify installation
+                          </h3>
+                          <p className='text-gray-600 dark:text-gray-300 mb-3'>
+                            Open the plugin manager and check the installed plugins, or run{' '}
+                            <code className='font-mono'>/help</code> to see the plugin&apos;s
+                            commands:
+                          </p>
+                          {renderCopyBlock('/plugin', 'install-step4')}
                         </div>
                       </div>
-                    </div>
+                    ) : (
+                      <p className='text-gray-600 dark:text-gray-300'>
+                        Install instructions are unavailable because the marketplace repository of
+                        this plugin has not been recorded. See the{' '}
+                        <a
+                          href={plugin.repositoryUrl}
+                          target='_blank'
+                          rel='noopener noreferrer'
+                          className='text-primary-600 dark:text-primary-400 hover:underline'
+                        >
+                          repository
+                        </a>{' '}
+                        for instructions.
+                      </p>
+                    )}
                   </div>
 
                   {/* Requirements */}
@@ -751,10 +910,6 @@ const PluginDetailPage: React.FC = () => {
                         <CheckCircle className='w-5 h-5 text-green-500 mr-2 flex-shrink-0 mt-0.5' />
                         <span>Node.js 16.0 or higher (if applicable)</span>
                       </li>
-                      <li className='flex items-start'>
-                        <CheckCircle className='w-5 h-5 text-green-500 mr-2 flex-shrink-0 mt-0.5' />
-                        <span>{pluginDetails.securityMetrics.dependencies}MB disk space</span>
-                      </li>
                     </ul>
                   </div>
                 </div>
@@ -767,24 +922,27 @@ const PluginDetailPage: React.FC = () => {
                 <div className='space-y-8'>
                   <div className='card'>
                     <h2 className='text-xl font-semibold text-gray-900 dark:text-gray-100 mb-4'>
-                      Usage Examples
+                      Usage
                     </h2>
-                    <div className='space-y-6'>
-                      {pluginDetails.commands.slice(0, 3).map((command, index) => (
-                        <div key={index}>
-                          <h3 className='text-lg font-medium text-gray-900 dark:text-gray-100 mb-3'>
-                            Example {index + 1}
-                          </h3>
-                          <p className='text-gray-600 dark:text-gray-300 mb-3'>
-                            {index === 0 && 'Display help information and available options.'}
-                            {index === 1 && 'Install the plugin in your current project.'}
-                            {index === 2 && 'Set configuration values for the plugin.'}
-                          </p>
-                          <div className='bg-gray-900 text-gray-100 p-4 rounded-lg font-mono text-sm'>
+                    {inventory.commands && inventory.commands.length > 0 ? (
+                      <div className='space-y-4'>
+                        <p className='text-gray-600 dark:text-gray-300'>
+                          Run these commands in a Claude Code session:
+                        </p>
+                        {inventory.commands.map((command, index) => (
+                          <div
+                            key={command.path}
+                            className='bg-gray-900 text-gray-100 p-4 rounded-lg font-mono text-sm'
+                          >
                             <div className='flex items-center justify-between'>
-                              <code>{command}</code>
+                              <code>
+                                /{command.name}
+                                {command.argumentHint && ` ${command.argumentHint}`}
+                              </code>
                               <button
-                                onClick={() => copyToClipboard(command, `usage-${index}`)}
+                                onClick={() =>
+                                  copyToClipboard(`/${command.name}`, `usage-${index}`)
+                                }
                                 className='text-gray-400 hover:text-white transition-colors'
                               >
                                 {copied === `usage-${index}` ? (
@@ -795,34 +953,68 @@ const PluginDetailPage: React.FC = () => {
                               </button>
                             </div>
                           </div>
-                        </div>
-                      ))}
-                    </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className='text-gray-600 dark:text-gray-300'>
+                        No slash commands are known for this plugin. See the{' '}
+                        <a
+                          href={plugin.repositoryUrl}
+                          target='_blank'
+                          rel='noopener noreferrer'
+                          className='text-primary-600 dark:text-primary-400 hover:underline'
+                        >
+                          repository
+                        </a>{' '}
+                        for usage instructions.
+                      </p>
+                    )}
                   </div>
 
                   {/* Hooks */}
                   <div className='card'>
                     <h3 className='text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4'>
                       <GitBranch className='w-5 h-5 inline mr-2' />
-                      Git Hooks
+                      Hooks
                     </h3>
-                    <div className='space-y-4'>
-                      {Object.entries(pluginDetails.hooks).map(([hook, description]) => (
-                        <div key={hook} className='flex items-start space-x-3'>
-                          <div className='flex-shrink-0'>
-                            <GitCommit className='w-5 h-5 text-primary-500' />
-                          </div>
-                          <div>
-                            <div className='font-medium text-gray-900 dark:text-gray-100'>
-                              {hook}
+                    {!inventory.hooks ? (
+                      renderUnknown('hooks')
+                    ) : inventory.hooks.length === 0 ? (
+                      <p className='text-sm text-gray-600 dark:text-gray-300'>
+                        No hooks found in this plugin.
+                      </p>
+                    ) : (
+                      <div className='space-y-4'>
+                        {inventory.hooks.map((hook, index) => (
+                          <div
+                            key={`${hook.event}-${hook.matcher ?? ''}-${index}`}
+                            className='flex items-start space-x-3'
+                          >
+                            <div className='flex-shrink-0'>
+                              <GitCommit className='w-5 h-5 text-primary-500' />
                             </div>
-                            <div className='text-sm text-gray-600 dark:text-gray-300'>
-                              {description}
+                            <div>
+                              <div className='font-medium text-gray-900 dark:text-gray-100'>
+                                {hook.event}
+                                {hook.matcher && (
+                                  <span className='ml-2 text-sm font-normal text-gray-500 dark:text-gray-400'>
+                                    matches <code>{hook.matcher}</code>
+                                  </span>
+                                )}
+                              </div>
+                              {hook.commands.map((command) => (
+                                <code
+                                  key={command}
+                                  className='block text-sm text-gray-600 dark:text-gray-300 break-all'
+                                >
+                                  {command}
+                                </code>
+                              ))}
                             </div>
                           </div>
-                        </div>
-                      ))}
-                    </div>
+                        ))}
+                      </div>
+                    )}
                   </div>
 
                   {/* MCP Servers */}
@@ -831,23 +1023,40 @@ const PluginDetailPage: React.FC = () => {
                       <Zap className='w-5 h-5 inline mr-2' />
                       MCP Servers
                     </h3>
-                    <div className='space-y-4'>
-                      {Object.entries(pluginDetails.mcpServers).map(([name, server]) => (
-                        <div key={name} className='p-4 bg-gray-50 dark:bg-gray-800 rounded-lg'>
-                          <div className='font-medium text-gray-900 dark:text-gray-100 mb-2'>
-                            {name}
-                          </div>
-                          <p className='text-sm text-gray-600 dark:text-gray-300 mb-3'>
-                            {server.description}
-                          </p>
-                          <div className='bg-gray-900 text-gray-100 p-3 rounded-lg font-mono text-sm'>
-                            <code>
-                              {server.command} {server.args.join(' ')}
-                            </code>
+                    {!inventory.mcpServers ? (
+                      renderUnknown('MCP servers')
+                    ) : inventory.mcpServers.length === 0 ? (
+                      <p className='text-sm text-gray-600 dark:text-gray-300'>
+                        No MCP servers found in this plugin.
+                      </p>
+                    ) : (
+                      <div className='space-y-4'>
+                        {inventory.mcpServers.map((server) => (
+                          <div
+                            key={server.name}
+                            className='p-4 bg-gray-50 dark:bg-gray-800 rounded-lg'
+                          >
+                            <div className='flex items-center gap-2 mb-2'>
+                              <span className='font-medium text-gray-900 dark:text-gray-100'>
+                                {server.name}
+                              </span>
+                              <span className='badge badge-secondary text-xs'>
+                                {server.transport}
+                              </span>
+                            </div>
+                            {(server.command || server.url) && (
+                              <div className='bg-gray-900 text-gray-100 p-3 rounded-lg font-mono text-sm break-all'>
+                                <code>
+                                  {server.command
+                                    ? [server.command, ...(server.args ?? [])].join(' ')
+                                    : server.url}
+                                </code>
+                              </div>
+                            )}
                           </div>
-                        </div>
-                      ))}
-                    </div>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
@@ -859,68 +1068,73 @@ const PluginDetailPage: React.FC = () => {
                 <div className='space-y-8'>
                   <div className='card'>
                     <h2 className='text-xl font-semibold text-gray-900 dark:text-gray-100 mb-4'>
-                      Security Analysis
+                      Security Overview
                     </h2>
-                    <div className='grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8'>
+                    <div className='grid grid-cols-2 md:grid-cols-4 gap-6 mb-8'>
                       <div className='text-center'>
-                        <div className={`text-3xl font-bold ${securityLevel.color} mb-2`}>
-                          {pluginDetails.securityMetrics.securityScore}
-                        </div>
-                        <div
-                          className={`inline-block px-3 py-1 rounded-full text-sm font-medium ${securityLevel.bg} ${securityLevel.color}`}
-                        >
-                          {securityLevel.level}
-                        </div>
-                        <div className='text-sm text-gray-600 dark:text-gray-400 mt-2'>
-                          Security Score
+                        <div className='text-3xl font-bold text-gray-900 dark:text-gray-100 mb-2'>
+                          {formatCount(inventory.hooks)}
                         </div>
+                        <div className='text-sm text-gray-600 dark:text-gray-400'>Hooks</div>
                       </div>
                       <div className='text-center'>
                         <div className='text-3xl font-bold text-gray-900 dark:text-gray-100 mb-2'>
-                          {pluginDetails.securityMetrics.vulnerabilities}
-                        </div>
-                        <div className='text-sm text-gray-600 dark:text-gray-400'>
-                          Vulnerabilities
+                          {formatCount(inventory.mcpServers)}
                         </div>
+                        <div className='text-sm text-gray-600 dark:text-gray-400'>MCP Servers</div>
                       </div>
                       <div className='text-center'>
                         <div className='text-3xl font-bold text-gray-900 dark:text-gray-100 mb-2'>
-                          {pluginDetails.securityMetrics.dependencies}
+                          {mcpRisk ? MCP_RISK_LABELS[mcpRisk.level] : 'Unknown'}
                         </div>
-                        <div className='text-sm text-gray-600 dark:text-gray-400'>Dependencies</div>
+                        <div className='text-sm text-gray-600 dark:text-gray-400'>MCP Risk</div>
                       </div>
                       <div className='text-center'>
                         <div className='text-3xl font-bold text-gray-900 dark:text-gray-100 mb-2'>
-                          {pluginDetails.securityMetrics.licenseCheck === 'pass' ? '✓' : '!'}
+                          {repositoryStats?.license ?? 'Unknown'}
                         </div>
                         <div className='text-sm text-gray-600 dark:text-gray-400'>
-                          License Check
+                          Repository License
                         </div>
                       </div>
                     </div>
 
                     <div className='space-y-4'>
-                      {pluginDetails.securityMetrics.vulnerabilities === 0 ? (
+                      {runsLocalCode ? (
+                        <div className='flex items-start space-x-3 p-4 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg border border-yellow-200 dark:border-yellow-800'>
+                          <AlertTriangle className='w-5 h-5 text-yellow-600 dark:text-yellow-400 flex-shrink-0 mt-0.5' />
+                          <div>
+                            <div className='font-medium text-yellow-800 dark:text-yellow-200'>
+                              Runs code on your machine
+                            </div>
+                            <div className='text-sm text-yellow-700 dark:text-yellow-300'>
+                              This plugin ships hooks or MCP servers, which run commands locally.
+                              Review their configuration before installing.
+                            </div>
+                          </div>
+                        </div>
+                      ) : inventory.hooks && inventory.mcpServers ? (
                         <div className='flex items-start space-x-3 p-4 bg-green-50 dark:bg-green-900/20 rounded-lg border border-green-200 dark:border-green-800'>
                           <CheckCircle className='w-5 h-5 text-green-600 dark:text-green-400 flex-shrink-0 mt-0.5' />
                           <div>
                             <div className='font-medium text-green-800 dark:text-green-200'>
-                              No vulnerabilities found
+                              No hooks or MCP servers
                             </div>
                             <div className='text-sm text-green-700 dark:text-green-300'>
-                              This plugin has no known security vulnerabilities.
+                              The plugin does not configure anything that runs automatically.
                             </div>
                           </div>
                         </div>
                       ) : (
-                        <div className='flex items-start space-x-3 p-4 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg border border-yellow-200 dark:border-yellow-800'>
-                          <AlertTriangle className='w-5 h-5 text-yellow-600 dark:text-yellow-400 flex-shrink-0 mt-0.5' />
+                        <div className='flex items-start space-x-3 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700'>
+                          <AlertTriangle className='w-5 h-5 text-gray-500 dark:text-gray-400 flex-shrink-0 mt-0.5' />
                           <div>
-                            <div className='font-medium text-yellow-800 dark:text-yellow-200'>
-                              {pluginDetails.securityMetrics.vulnerabilities} vulnerabilities found
+                            <div className='font-medium text-gray-800 dark:text-gray-200'>
+                              Hooks and MCP servers unknown
                             </div>
-                            <div className='text-sm text-yellow-700 dark:text-yellow-300'>
-                              This plugin has security vulnerabilities that should be reviewed.
+                            <div className='text-sm text-gray-600 dark:text-gray-300'>
+                              The plugin directory has not been scanned, so the plugin may ship them
+                              even though its manifest does not declare them.
                             </div>
                           </div>
                         </div>
@@ -930,17 +1144,126 @@ const PluginDetailPage: React.FC = () => {
                         <Shield className='w-5 h-5 text-blue-600 dark:text-blue-400 flex-shrink-0 mt-0.5' />
                         <div>
                           <div className='font-medium text-blue-800 dark:text-blue-200'>
-                            License: {plugin.license}
+                            No automated vulnerability scan
                           </div>
                           <div className='text-sm text-blue-700 dark:text-blue-300'>
-                            This plugin is licensed under {plugin.license}, which is compatible with
-                            most projects.
+                            The registry does not scan plugin code for vulnerabilities. Review the
+                            source before installing.
                           </div>
                         </div>
                       </div>
                     </div>
                   </div>
 
+                  {/* MCP Server Analysis */}
+                  <div className='card'>
+                    <div className='flex items-center justify-between mb-4'>
+                      <h3 className='text-lg font-semibold text-gray-900 dark:text-gray-100'>
+                        <Zap className='w-5 h-5 inline mr-2' />
+                        MCP Server Analysis
+                      </h3>
+                      {mcpRisk && (
+                        <span className={`badge ${RISK_BADGES[mcpRisk.level]} text-xs`}>
+                          {mcpRisk.level === 'none'
+                            ? MCP_RISK_LABELS.none
+                            : `${MCP_RISK_LABELS[mcpRisk.level]} risk`}
+                        </span>
+                      )}
+                    </div>
+                    {!mcpRisk ? (
+                      renderUnknown('MCP servers')
+                    ) : mcpRisk.servers === 0 ? (
+                      <p className='text-sm text-gray-600 dark:text-gray-300'>
+                        This plugin does not configure any MCP servers.
+                      </p>
+                    ) : (
+                      <div className='space-y-4'>
+                        {(inventory.mcpServers ?? []).map((server) => {
+                          const findings = mcpRisk.findings.filter(
+                            (finding) => finding.server === server.name
+                          );
+                          return (
+                            <div
+                              key={server.name}
+                              className='p-4 bg-gray-50 dark:bg-gray-800 rounded-lg space-y-3'
+                            >
+                              <div className='flex items-center gap-2'>
+                                <span className='font-medium text-gray-900 dark:text-gray-100'>
+                                  {server.name}
+                                </span>
+                                <span className='badge badge-secondary text-xs'>
+                                  {server.transport}
+                                </span>
+                              </div>
+                              {server.url && (
+                                <div className='text-sm text-gray-600 dark:text-gray-300 break-all'>
+                                  Endpoint: <code>{server.url}</code>
+                                </div>
+                              )}
+                              {server.command && (
+                                <div className='text-sm text-gray-600 dark:text-gray-300 break-all'>
+                                  Command:{' '}
+                                  <code>{[server.command, ...(server.args ?? [])].join(' ')}</code>
+                                </div>
+                              )}
+                              {server.packages && server.packages.length > 0 && (
+                                <div className='text-sm text-gray-600 dark:text-gray-300'>
+                                  Fetches:{' '}
+                                  {server.packages.map((pkg) => (
+                                    <span key={`${pkg.runner}-${pkg.name}`} className='mr-3'>
+                                      <code>
+                                        {pkg.name}
+                                        {pkg.version ? `@${pkg.version}` : ''}
+                                      </code>{' '}
+                                      via {pkg.runner} ({pkg.pinned ? 'pinned' : 'unpinned'})
+                                    </span>
+                                  ))}
+                                </div>
+                              )}
+                              {server.env && server.env.length > 0 && (
+                                <div className='text-sm text-gray-600 dark:text-gray-300'>
+                                  Environment:{' '}
+                                  {server.env.map((variable) => (
+                                    <code key={variable} className='mr-2'>
+                                      {variable}
+                                    </code>
+                                  ))}
+                                </div>
+                              )}
+                              {findings.length > 0 ? (
+                                <ul className='space-y-2'>
+                                  {findings.map((finding) => (
+                                    <li
+                                      key={`${finding.kind}-${finding.message}`}
+                                      className='flex items-start gap-2 text-sm'
+                                    >
+                                      <span
+                                        className={`badge ${RISK_BADGES[finding.level]} text-xs`}
+                                      >
+                                        {MCP_RISK_LABELS[finding.level]}
+                                      </span>
+                                      <span className='text-gray-700 dark:text-gray-300'>
+                                        {finding.message}
+                                      </span>
+                                    </li>
+                                  ))}
+                                </ul>
+                              ) : server.transport === 'unknown' ? (
+                                <p className='text-sm text-gray-500 dark:text-gray-400'>
+                                  Configuration not scanned.
+                                </p>
+                              ) : (
+                                <p className='text-sm text-gray-600 dark:text-gray-300'>
+                                  No remote endpoints, unpinned packages or shell invocation found.
+                                </p>
+                              )}
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </div>
+
                   {/* Best Practices */}
                   <div className='card'>
                     <h3 className='text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4'>
@@ -968,6 +1291,75 @@ const PluginDetailPage: React.FC = () => {
                 </div>
               </div>
             )}
+
+            {/* Versions Tab */}
+            {activeTab === 'versions' && (
+              <div className='max-w-4xl'>
+                <div className='card'>
+                  <h2 className='text-xl font-semibold text-gray-900 dark:text-gray-100 mb-4'>
+                    Version History
+                  </h2>
+                  {versionsLoading ? (
+                    <p className='text-gray-500 dark:text-gray-400'>Loading version history...</p>
+                  ) : !versionHistory || versionHistory.versions.length === 0 ? (
+                    <p className='text-gray-600 dark:text-gray-300'>
+                      No version history has been recorded for this plugin yet. Versions are tracked
+                      from the first scan that sees the plugin.
+                    </p>
+                  ) : (
+                    <ol className='space-y-6'>
+                      {versionHistory.versions.map((entry, index) => (
+                        <li
+                          key={`${entry.version}-${entry.firstSeen}`}
+                          className='border-l-2 border-gray-200 dark:border-gray-700 pl-4'
+                        >
+                          <div className='flex flex-wrap items-center gap-3 mb-2'>
+                            <span className='font-mono font-semibold text-gray-900 dark:text-gray-100'>
+                              v{entry.version}
+                            </span>
+                            {index === 0 && <span className='badge badge-secondary'>Latest</span>}
+                            <span className='text-sm text-gray-500 dark:text-gray-400'>
+                              First seen {formatDate(entry.firstSeen)}
+                            </span>
+                          </div>
+                          {entry.changes.length > 0 ? (
+                            <ul className='space-y-1 text-sm text-gray-600 dark:text-gray-300'>
+                              {entry.changes.map((change) => (
+                                <li key={change.field}>
+                                  <code className='font-mono text-gray-900 dark:text-gray-100'>
+                                    {change.field}
+                                  </code>
+                                  {change.previous === undefined
+                                    ? ' added'
+                                    : change.current === undefined
+                                      ? ' removed'
+                                      : ' changed'}
+                                  {typeof change.previous !== 'object' &&
+                                    typeof change.current !== 'object' &&
+                                    change.previous !== undefined &&
+                                    change.current !== undefined && (
+                                      <span className='text-gray-500 dark:text-gray-400'>
+                                        {' '}
+                                        ({String(change.previous)} → {String(change.current)})
+                                      </span>
+                                    )}
+                                </li>
+                              ))}
+                            </ul>
+                          ) : (
+                            <p className='text-sm text-gray-500 dark:text-gray-400'>
+                              {index === versionHistory.versions.length - 1
+                                ? 'First observed version.'
+                                : 'No manifest changes recorded.'}
+                            </p>
+                          )}
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                </div>
+              </div>
+            )}
           </div>
         </section>
 
@@ -1003,10 +1395,6 @@ const PluginDetailPage: React.FC = () => {
                           <Star className='w-4 h-4' />
                           <span>{relatedPlugin.stars.toLocaleString()}</span>
                         </div>
-                        <div className='flex items-center space-x-1'>
-                          <Download className='w-4 h-4' />
-                          <span>{relatedPlugin.downloads.toLocaleString()}</span>
-                        </div>
                       </div>
                     </div>
 
@@ -0,0 +1,120 @@
+import React, { useMemo, useState } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { AlertTriangle, ArrowLeft } from 'lucide-react';
+import MainLayout from '@/components/layout/MainLayout';
+import LoadingState from '@/components/ui/LoadingState';
+import { useConflictReport } from '@/hooks/useConflictReport';
+import { PLUGIN_CONFLICT_KINDS, PLUGIN_CONFLICT_LABELS } from '@/utils/plugin-conflicts';
+import type { PluginConflictKind } from '@/types/plugin';
+
+const PluginConflictsPage: React.FC = () => {
+  const { report, loading, error } = useConflictReport();
+  const [kind, setKind] = useState<PluginConflictKind | 'all'>('all');
+
+  const conflicts = useMemo(
+    () => (report?.conflicts ?? []).filter((conflict) => kind === 'all' || conflict.kind === kind),
+    [report, kind]
+  );
+
+  return (
+    <>
+      <Head>
+        <title>Plugin Conflicts - Claude Marketplace Aggregator</title>
+        <meta
+          name='description'
+          content='Claude Code plugins that claim the same command, agent or MCP server names, or hook the same tools.'
+        />
+        <meta name='viewport' content='width=device-width, initial-scale=1' />
+        <link rel='icon' href='/favicon.ico' />
+      </Head>
+
+      <MainLayout>
+        <div className='min-h-screen bg-gray-50 dark:bg-gray-900'>
+          <div className='max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12'>
+            <Link
+              href='/plugins'
+              className='inline-flex items-center text-sm text-primary-600 dark:text-primary-400 hover:underline mb-6'
+            >
+              <ArrowLeft className='w-4 h-4 mr-1' />
+              All plugins
+            </Link>
+
+            <h1 className='text-3xl font-bold text-gray-900 dark:text-gray-100 mb-2'>
+              <AlertTriangle className='w-7 h-7 inline mr-2 text-warning-500' />
+              Plugin conflicts
+            </h1>
+            <p className='text-gray-600 dark:text-gray-300 mb-8'>
+              Plugins that declare the same slash command, agent or MCP server name, or register
+              hooks for the same event and tool. Installing more than one of them makes it unclear
+              which one runs.
+            </p>
+
+            {loading ? (
+              <LoadingState variant='skeleton' className='max-w-4xl' />
+            ) : error || !report ? (
+              <p className='text-gray-600 dark:text-gray-400'>
+                {error || 'No conflicts report has been generated yet.'}
+              </p>
+            ) : (
+              <>
+                <div className='flex flex-wrap gap-2 mb-6'>
+                  {(['all', ...PLUGIN_CONFLICT_KINDS] as const).map((option) => (
+                    <button
+                      key={option}
+                      onClick={() => setKind(option)}
+                      className={`btn text-sm ${kind === option ? 'btn-primary' : 'btn-secondary'}`}
+                      aria-pressed={kind === option}
+                    >
+                      {option === 'all'
+                        ? `All (${report.conflicts.length})`
+                        : `${PLUGIN_CONFLICT_LABELS[option]}s (${report.summary[option]})`}
+                    </button>
+                  ))}
+                </div>
+
+                <p className='text-sm text-gray-500 dark:text-gray-400 mb-4'>
+                  {report.affectedPlugins} plugins take part in at least one conflict · updated{' '}
+                  {new Date(report.lastUpdated).toLocaleDateString()}
+                </p>
+
+                {conflicts.length === 0 ? (
+                  <p className='text-gray-600 dark:text-gray-300'>No conflicts found.</p>
+                ) : (
+                  <div className='space-y-3'>
+                    {conflicts.map((conflict) => (
+                      <div key={`${conflict.kind}:${conflict.name}`} className='card'>
+                        <div className='flex items-center justify-between mb-2'>
+                          <div className='text-gray-900 dark:text-gray-100'>
+                            {PLUGIN_CONFLICT_LABELS[conflict.kind]}{' '}
+                            <code className='font-mono'>{conflict.name}</code>
+                          </div>
+                          <span className='badge badge-warning'>
+                            {conflict.plugins.length} plugins
+                          </span>
+                        </div>
+                        <div className='flex flex-wrap gap-x-3 gap-y-1 text-sm'>
+                          {conflict.plugins.map((party) => (
+                            <Link
+                              key={party.pluginId}
+                              href={`/plugins/${party.pluginId}`}
+                              className='text-primary-600 dark:text-primary-400 hover:underline'
+                            >
+                              {party.name}
+                            </Link>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </MainLayout>
+    </>
+  );
+};
+
+export default PluginConflictsPage;
@@ -1,35 +1,63 @@
-import React, { useState, useMemo } from 'react';
+import React, { useMemo } from 'react';
 import Head from 'next/head';
 import MainLayout from '@/components/layout/MainLayout';
 import SearchBar from '@/components/Search/SearchBar';
 import PluginCard from '@/components/Marketplace/PluginCard';
 import { usePluginData } from '@/hooks/usePluginData';
+import { useSearchIndex } from '@/hooks/useSearchIndex';
+import { useMcpRisk } from '@/hooks/useMcpRisk';
+import { useListingUrlState } from '@/hooks/useListingUrlState';
+import type { ListingStateOptions } from '@/utils/url-state';
+import {
+  buildCompletionSource,
+  matchesPluginFilters,
+  parseSearchQuery,
+  setQueryField,
+} from '@/utils/search-query';
+import { MCP_RISK_LABELS, MCP_RISK_LEVELS } from '@/utils/mcp-analysis';
+import { getFeedLinks } from '@/utils/feeds';
 import { categories } from '@/data/mock-data';
 import LoadingState from '@/components/ui/LoadingState';
 import { Star, Download, Grid, List, Package } from 'lucide-react';
 import Link from 'next/link';
 
+type PluginSort = 'relevance' | 'stars' | 'downloads' | 'name' | 'updated';
+
+const LISTING_OPTIONS: ListingStateOptions<PluginSort> = {
+  sorts: ['relevance', 'stars', 'downloads', 'name', 'updated'],
+  defaultSort: 'stars',
+  categories,
+};
+
 const PluginsPage: React.FC = () => {
-  const [searchQuery, setSearchQuery] = useState('');
-  const [selectedCategory, setSelectedCategory] = useState('All');
-  const [sortBy, setSortBy] = useState<'stars' | 'downloads' | 'name' | 'updated'>('stars');
-  const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
-  const [currentPage, setCurrentPage] = useState(1);
+  // Search, category, sort, view and page live in the query string so views can be shared
+  const { state: listingState, update: updateListing } = useListingUrlState(LISTING_OPTIONS);
+  const { q: searchQuery, category: selectedCategory, sort: sortBy, view: viewMode } = listingState;
   const itemsPerPage = 12;
 
   // Use plugin data hook
-  const { plugins, loading, error, totalCount } = usePluginData();
+  const { plugins: loadedPlugins, loading, error, totalCount } = usePluginData();
+  const plugins = useMcpRisk(loadedPlugins);
+  const searchEngine = useSearchIndex(plugins);
+  const completionSource = useMemo(() => buildCompletionSource(plugins), [plugins]);
+
+  // Split the query into field:value filters and free text
+  const parsedQuery = useMemo(() => parseSearchQuery(searchQuery), [searchQuery]);
+
+  // Relevance score per matching plugin ID, or null when there is no free text
+  const searchScores = useMemo(() => {
+    if (!parsedQuery.text || !searchEngine) return null;
+    return new Map(
+      searchEngine.search(parsedQuery.text).map((result) => [result.id, result.score])
+    );
+  }, [searchEngine, parsedQuery]);
 
   // Filter and sort plugins
   const filteredAndSortedPlugins = useMemo(() => {
     const filtered = plugins.filter((plugin) => {
       const matchesSearch =
-        searchQuery === '' ||
-        plugin.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        plugin.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        plugin.tags.some((tag) => tag.toLowerCase().includes(searchQuery.toLowerCase())) ||
-        plugin.author.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        plugin.marketplace.toLowerCase().includes(searchQuery.toLowerCase());
+        (!searchScores || searchScores.has(plugin.id)) &&
+        matchesPluginFilters(plugin, parsedQuery.filters);
 
       const matchesCategory = selectedCategory === 'All' || plugin.category === selectedCategory;
 
@@ -39,6 +67,11 @@ const PluginsPage: React.FC = () => {
     // Sort plugins
     filtered.sort((a, b) => {
       switch (sortBy) {
+        case 'relevance':
+          if (searchScores) {
+            return (searchScores.get(b.id) || 0) - (searchScores.get(a.id) || 0);
+          }
+          return (b.stars || 0) - (a.stars || 0);
         case 'stars':
           return (b.stars || 0) - (a.stars || 0);
         case 'downloads':
@@ -53,30 +86,44 @@ const PluginsPage: React.FC = () => {
     });
 
     return filtered;
-  }, [plugins, searchQuery, selectedCategory, sortBy]);
+  }, [plugins, parsedQuery, searchScores, selectedCategory, sortBy]);
 
   // Pagination
   const totalPages = Math.ceil(filteredAndSortedPlugins.length / itemsPerPage);
+  const currentPage = Math.min(listingState.page, Math.max(totalPages, 1));
   const startIndex = (currentPage - 1) * itemsPerPage;
   const paginatedPlugins = filteredAndSortedPlugins.slice(startIndex, startIndex + itemsPerPage);
 
   const handleSearch = (query: string) => {
-    setSearchQuery(query);
-    setCurrentPage(1); // Reset to first page on search
+    // Rank by relevance when a search starts; relevance is meaningless without a query
+    let sort = sortBy;
+    if (query && !searchQuery) {
+      sort = 'relevance';
+    } else if (!query && sortBy === 'relevance') {
+      sort = 'stars';
+    }
+    // Refining an existing search replaces the history entry instead of adding one per keystroke
+    updateListing({ q: query, sort, page: 1 }, { replace: Boolean(query && searchQuery) });
   };
 
   const handleCategoryChange = (category: string) => {
-    setSelectedCategory(category);
-    setCurrentPage(1); // Reset to first page on category change
+    updateListing({ category, page: 1 }); // Reset to first page on category change
   };
 
-  const handleSortChange = (sort: 'stars' | 'downloads' | 'name' | 'updated') => {
-    setSortBy(sort);
-    setCurrentPage(1); // Reset to first page on sort change
+  const handleSortChange = (sort: PluginSort) => {
+    updateListing({ sort, page: 1 }); // Reset to first page on sort change
+  };
+
+  // The risk select edits the `risk:` clause so the filter stays part of the shareable query
+  const selectedRisk =
+    parsedQuery.filters.mcpRisk?.length === 1 ? parsedQuery.filters.mcpRisk[0] : '';
+
+  const handleRiskChange = (risk: string) => {
+    updateListing({ q: setQueryField(searchQuery, 'risk', risk), page: 1 });
   };
 
   const handlePageChange = (page: number) => {
-    setCurrentPage(page);
+    updateListing({ page });
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
@@ -117,6 +164,11 @@ const PluginsPage: React.FC = () => {
         />
         <meta name='viewport' content='width=device-width, initial-scale=1' />
         <link rel='icon' href='/favicon.ico' />
+        {selectedCategory !== 'All' &&
+          getFeedLinks(
+            { type: 'category', key: selectedCategory },
+            `${selectedCategory} plugins`
+          ).map((link) => <link key={link.href} {...link} />)}
       </Head>
 
       <MainLayout>
@@ -135,7 +187,15 @@ const PluginsPage: React.FC = () => {
 
                 {/* Search Bar */}
                 <div className='max-w-2xl mx-auto mb-8'>
-                  <SearchBar onSearch={handleSearch} onFilterClick={() => {}} className='w-full' />
+                  <SearchBar
+                    onSearch={handleSearch}
+                    onFilterClick={() => {}}
+                    searchEngine={searchEngine}
+                    completionSource={completionSource}
+                    value={searchQuery}
+                    placeholder='Search plugins, or filter with category:, author:, stars:>100, has:mcp'
+                    className='w-full'
+                  />
                 </div>
               </div>
 
@@ -160,19 +220,38 @@ const PluginsPage: React.FC = () => {
 
                 {/* Sort and View Controls */}
                 <div className='flex items-center gap-4'>
+                  <div className='flex items-center gap-2'>
+                    <label
+                      htmlFor='mcp-risk-filter'
+                      className='text-sm font-medium text-gray-700 dark:text-gray-300'
+                    >
+                      MCP risk:
+                    </label>
+                    <select
+                      id='mcp-risk-filter'
+                      value={selectedRisk}
+                      onChange={(e) => handleRiskChange(e.target.value)}
+                      className='px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-primary-500 focus:border-transparent'
+                    >
+                      <option value=''>Any</option>
+                      {MCP_RISK_LEVELS.map((level) => (
+                        <option key={level} value={level}>
+                          {MCP_RISK_LABELS[level]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
                   <div className='flex items-center gap-2'>
                     <label className='text-sm font-medium text-gray-700 dark:text-gray-300'>
                       Sort by:
                     </label>
                     <select
                       value={sortBy}
-                      onChange={(e) =>
-                        handleSortChange(
-                          e.target.value as 'stars' | 'downloads' | 'name' | 'updated'
-                        )
-                      }
+                      onChange={(e) => handleSortChange(e.target.value as PluginSort)}
                       className='px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-primary-500 focus:border-transparent'
                     >
+                      {searchQuery && <option value='relevance'>Relevance</option>}
                       <option value='stars'>Stars</option>
                       <option value='downloads'>Downloads</option>
                       <option value='name'>Name</option>
@@ -182,14 +261,14 @@ const PluginsPage: React.FC = () => {
 
                   <div className='flex items-center gap-1 bg-gray-100 dark:bg-gray-700 rounded-lg p-1'>
                     <button
-                      onClick={() => setViewMode('grid')}
+                      onClick={() => updateListing({ view: 'grid' })}
                       className={`p-2 rounded ${viewMode === 'grid' ? 'bg-white dark:bg-gray-600 shadow-sm' : ''}`}
                       aria-label='Grid view'
                     >
                       <Grid className='w-4 h-4' />
                     </button>
                     <button
-                      onClick={() => setViewMode('list')}
+                      onClick={() => updateListing({ view: 'list' })}
                       className={`p-2 rounded ${viewMode === 'list' ? 'bg-white dark:bg-gray-600 shadow-sm' : ''}`}
                       aria-label='List view'
                     >
@@ -262,7 +341,9 @@ const PluginsPage: React.FC = () => {
                               <Download className='w-4 h-4' />
                               <span>{plugin.downloads.toLocaleString()}</span>
                             </div>
-                            <span className='text-xs'>v{plugin.version}</span>
+                            <span className='text-xs'>
+                              {plugin.version ? `v${plugin.version}` : 'Version unknown'}
+                            </span>
                           </div>
                         </div>
                         <div className='flex flex-col gap-2'>
@@ -306,9 +387,12 @@ const PluginsPage: React.FC = () => {
                 {(searchQuery || selectedCategory !== 'All') && (
                   <button
                     onClick={() => {
-                      setSearchQuery('');
-                      setSelectedCategory('All');
-                      setCurrentPage(1);
+                      updateListing({
+                        q: '',
+                        category: 'All',
+                        sort: sortBy === 'relevance' ? 'stars' : sortBy,
+                        page: 1,
+                      });
                     }}
                     className='btn btn-primary'
                     aria-label='Clear all filters'
@@ -0,0 +1,283 @@
+import React, { useMemo, useState } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { ArrowLeft, ClipboardCheck, Upload } from 'lucide-react';
+import MainLayout from '@/components/layout/MainLayout';
+import LoadingState from '@/components/ui/LoadingState';
+import { usePluginData } from '@/hooks/usePluginData';
+import { usePluginValidations } from '@/hooks/usePluginValidations';
+import { usePluginVersions } from '@/hooks/usePluginVersions';
+import { usePluginDetails } from '@/hooks/usePluginDetails';
+import { formatMarketplaceSource } from '@/utils/install-commands';
+import {
+  auditTeamSettings,
+  ImportedSettings,
+  parseTeamSettings,
+  PluginAuditEntry,
+  PluginAuditStatus,
+} from '@/utils/settings-audit';
+
+const STATUS_BADGES: Record<PluginAuditStatus, [string, string]> = {
+  found: ['badge-success', 'Listed'],
+  missing: ['badge-error', 'Gone from marketplace'],
+  'unknown-marketplace': ['badge-secondary', 'Unknown marketplace'],
+};
+
+/**
+ * One audited plugin; found plugins load their version history and quality score
+ */
+const AuditRow: React.FC<{ entry: PluginAuditEntry }> = ({ entry }) => {
+  const { history } = usePluginVersions(entry.match?.id);
+  const { details } = usePluginDetails(entry.match?.id);
+  const [badge, label] = STATUS_BADGES[entry.status];
+  const latestSeen = history?.versions[0]?.version;
+  const validation = entry.validation;
+
+  return (
+    <tr className='border-t border-gray-100 dark:border-gray-700 align-top'>
+      <td className='py-3 pr-4'>
+        {entry.match ? (
+          <Link
+            href={`/plugins/${entry.match.id}`}
+            className='font-medium text-primary-600 dark:text-primary-400 hover:underline'
+          >
+            {entry.plugin}
+          </Link>
+        ) : (
+          <span className='font-medium text-gray-900 dark:text-gray-100'>{entry.plugin}</span>
+        )}
+        <code className='block text-xs font-mono text-gray-500 dark:text-gray-400'>
+          {entry.key}
+        </code>
+        {!entry.enabled && (
+          <span className='text-xs text-gray-500 dark:text-gray-400'>disabled</span>
+        )}
+      </td>
+      <td className='py-3 pr-4'>
+        <span className={`badge ${badge}`}>{label}</span>
+      </td>
+      <td className='py-3 pr-4 text-sm text-gray-700 dark:text-gray-300'>
+        {entry.match ? (
+          <>
+            <div>{entry.match.version ?? 'Unknown'}</div>
+            {latestSeen && entry.match.version && latestSeen !== entry.match.version && (
+              <div className='text-xs text-warning-600 dark:text-warning-400'>
+                latest seen {latestSeen}
+              </div>
+            )}
+          </>
+        ) : (
+          '—'
+        )}
+      </td>
+      <td className='py-3 pr-4 text-sm text-gray-700 dark:text-gray-300'>
+        {details?.quality ? `${details.quality.score}/100` : '—'}
+      </td>
+      <td className='py-3 pr-4 text-sm'>
+        {validation ? (
+          <span
+            className={validation.isValid ? 'text-success-600' : 'text-error-600'}
+            title={[...validation.errors, ...validation.warnings].join('\n') || undefined}
+          >
+            {validation.isValid ? 'Valid' : `${validation.errors.length} errors`}
+            {validation.warnings.length > 0 && `, ${validation.warnings.length} warnings`}
+          </span>
+        ) : (
+          <span className='text-gray-500 dark:text-gray-400'>—</span>
+        )}
+      </td>
+      <td className='py-3 text-sm text-gray-700 dark:text-gray-300'>
+        {entry.match?.license ?? '—'}
+      </td>
+    </tr>
+  );
+};
+
+const SettingsAuditPage: React.FC = () => {
+  const { plugins, loading: pluginsLoading } = usePluginData();
+  const { validations, loading: validationsLoading } = usePluginValidations();
+  const [text, setText] = useState('');
+  const [settings, setSettings] = useState<ImportedSettings | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+
+  const audit = useMemo(
+    () => (settings ? auditTeamSettings(settings, plugins, validations) : null),
+    [settings, plugins, validations]
+  );
+  const missing = audit?.plugins.filter((entry) => entry.status === 'missing') ?? [];
+
+  const runAudit = (contents: string) => {
+    setText(contents);
+    try {
+      setSettings(parseTeamSettings(contents));
+      setParseError(null);
+    } catch (err) {
+      setSettings(null);
+      setParseError(err instanceof Error ? err.message : 'Could not read the settings file');
+    }
+  };
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      runAudit(await file.text());
+    }
+  };
+
+  return (
+    <>
+      <Head>
+        <title>Settings Audit - Claude Marketplace Aggregator</title>
+        <meta
+          name='description'
+          content="Check a project's .claude/settings.json against the registry: versions, quality, validation and licenses of the enabled plugins."
+        />
+        <meta name='viewport' content='width=device-width, initial-scale=1' />
+        <link rel='icon' href='/favicon.ico' />
+      </Head>
+
+      <MainLayout>
+        <div className='min-h-screen bg-gray-50 dark:bg-gray-900'>
+          <div className='max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-12'>
+            <Link
+              href='/stack'
+              className='inline-flex items-center text-sm text-primary-600 dark:text-primary-400 hover:underline mb-6'
+            >
+              <ArrowLeft className='w-4 h-4 mr-1' />
+              Team stack
+            </Link>
+
+            <h1 className='text-3xl font-bold text-gray-900 dark:text-gray-100 mb-2'>
+              <ClipboardCheck className='w-7 h-7 inline mr-2 text-primary-600 dark:text-primary-400' />
+              Settings audit
+            </h1>
+            <p className='text-gray-600 dark:text-gray-300 mb-8'>
+              Paste or upload a project&apos;s{' '}
+              <code className='font-mono'>.claude/settings.json</code> to check every enabled plugin
+              and known marketplace against the registry. Nothing is uploaded; the file is read in
+              your browser.
+            </p>
+
+            <div className='card mb-6'>
+              <label
+                htmlFor='settings-json'
+                className='block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2'
+              >
+                settings.json
+              </label>
+              <textarea
+                id='settings-json'
+                value={text}
+                onChange={(event) => setText(event.target.value)}
+                rows={8}
+                spellCheck={false}
+                className='w-full p-3 font-mono text-sm rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100'
+                placeholder='{ "enabledPlugins": { "plugin@marketplace": true } }'
+              />
+              <div className='flex flex-wrap items-center gap-2 mt-3'>
+                <button
+                  onClick={() => runAudit(text)}
+                  className='btn btn-primary text-sm'
+                  disabled={!text.trim()}
+                >
+                  Audit
+                </button>
+                <label className='btn btn-secondary text-sm cursor-pointer'>
+                  <Upload className='w-4 h-4 mr-1' />
+                  Upload file
+                  <input
+                    type='file'
+                    accept='.json,application/json'
+                    onChange={handleUpload}
+                    className='sr-only'
+                  />
+                </label>
+                {parseError && (
+                  <span className='text-sm text-error-600 dark:text-error-400'>{parseError}</span>
+                )}
+              </div>
+            </div>
+
+            {audit &&
+              (pluginsLoading || validationsLoading ? (
+                <LoadingState variant='skeleton' className='max-w-4xl' />
+              ) : (
+                <div className='space-y-6'>
+                  {missing.length > 0 && (
+                    <div className='card border-error-200 dark:border-error-800'>
+                      <p className='text-gray-700 dark:text-gray-300'>
+                        {missing.length} enabled plugins are no longer listed by their marketplace:{' '}
+                        {missing.map((entry) => entry.key).join(', ')}
+                      </p>
+                    </div>
+                  )}
+
+                  <div className='card overflow-x-auto'>
+                    <h2 className='text-xl font-semibold text-gray-900 dark:text-gray-100 mb-4'>
+                      Plugins ({audit.plugins.length})
+                    </h2>
+                    <table className='w-full text-left'>
+                      <thead>
+                        <tr className='text-xs uppercase text-gray-500 dark:text-gray-400'>
+                          <th className='pb-2 pr-4'>Plugin</th>
+                          <th className='pb-2 pr-4'>Status</th>
+                          <th className='pb-2 pr-4'>Version</th>
+                          <th className='pb-2 pr-4'>Quality</th>
+                          <th className='pb-2 pr-4'>Validation</th>
+                          <th className='pb-2'>License</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {audit.plugins.map((entry) => (
+                          <AuditRow key={entry.key} entry={entry} />
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  <div className='card'>
+                    <h2 className='text-xl font-semibold text-gray-900 dark:text-gray-100 mb-4'>
+                      Marketplaces ({audit.marketplaces.length})
+                    </h2>
+                    <ul className='divide-y divide-gray-100 dark:divide-gray-700'>
+                      {audit.marketplaces.map((marketplace) => (
+                        <li
+                          key={marketplace.name}
+                          className='flex flex-wrap items-center justify-between gap-2 py-2'
+                        >
+                          <div>
+                            <span className='font-medium text-gray-900 dark:text-gray-100'>
+                              {marketplace.name}
+                            </span>
+                            {marketplace.source && (
+                              <code className='ml-2 text-xs font-mono text-gray-500 dark:text-gray-400'>
+                                {formatMarketplaceSource(marketplace.source)}
+                              </code>
+                            )}
+                            {!marketplace.declared && (
+                              <span className='ml-2 text-xs text-gray-500 dark:text-gray-400'>
+                                not in extraKnownMarketplaces
+                              </span>
+                            )}
+                          </div>
+                          {marketplace.registryName ? (
+                            <span className='badge badge-success'>
+                              {marketplace.registryName} · {marketplace.listedPlugins} plugins
+                            </span>
+                          ) : (
+                            <span className='badge badge-secondary'>Not in registry</span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                </div>
+              ))}
+          </div>
+        </div>
+      </MainLayout>
+    </>
+  );
+};
+
+export default SettingsAuditPage;
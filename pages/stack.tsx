@@ -0,0 +1,228 @@
+import React, { useMemo, useState } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { AlertTriangle, ArrowLeft, Check, Copy, Download, Layers, Trash2, X } from 'lucide-react';
+import MainLayout from '@/components/layout/MainLayout';
+import { useStack } from '@/contexts/StackContext';
+import { useConflictReport } from '@/hooks/useConflictReport';
+import { getPluginInstallTarget, getPluginKey } from '@/utils/install-commands';
+import { reviewStack } from '@/utils/plugin-stack';
+
+const TeamStackPage: React.FC = () => {
+  const { selection, removeFromStack, clearStack } = useStack();
+  const { report, loading: conflictsLoading } = useConflictReport();
+  const [copyStatus, setCopyStatus] = useState<'idle' | 'copied' | 'failed'>('idle');
+
+  const plugins = selection.selected;
+  const review = useMemo(() => reviewStack(plugins, report?.conflicts), [plugins, report]);
+  const errors = review.issues.filter((issue) => issue.severity === 'error');
+  const warnings = review.issues.filter((issue) => issue.severity === 'warning');
+
+  const copySettings = async () => {
+    try {
+      await navigator.clipboard.writeText(review.settings);
+      setCopyStatus('copied');
+      setTimeout(() => setCopyStatus('idle'), 2000);
+    } catch {
+      setCopyStatus('failed');
+    }
+  };
+
+  const downloadSettings = () => {
+    const blob = new Blob([`${review.settings}\n`], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'settings.json';
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <>
+      <Head>
+        <title>Team Stack - Claude Marketplace Aggregator</title>
+        <meta
+          name='description'
+          content='Collect Claude Code plugins from several marketplaces and export one .claude/settings.json for your team.'
+        />
+        <meta name='viewport' content='width=device-width, initial-scale=1' />
+        <link rel='icon' href='/favicon.ico' />
+      </Head>
+
+      <MainLayout>
+        <div className='min-h-screen bg-gray-50 dark:bg-gray-900'>
+          <div className='max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12'>
+            <Link
+              href='/plugins'
+              className='inline-flex items-center text-sm text-primary-600 dark:text-primary-400 hover:underline mb-6'
+            >
+              <ArrowLeft className='w-4 h-4 mr-1' />
+              All plugins
+            </Link>
+
+            <h1 className='text-3xl font-bold text-gray-900 dark:text-gray-100 mb-2'>
+              <Layers className='w-7 h-7 inline mr-2 text-primary-600 dark:text-primary-400' />
+              Team stack
+            </h1>
+            <p className='text-gray-600 dark:text-gray-300 mb-8'>
+              Plugins you add from any marketplace are collected here. Commit the generated file as{' '}
+              <code className='font-mono'>.claude/settings.json</code> in your project so everyone
+              who trusts the folder gets the same marketplaces and plugins. Already have one?{' '}
+              <Link
+                href='/settings-audit'
+                className='text-primary-600 dark:text-primary-400 hover:underline'
+              >
+                Audit it
+              </Link>
+              .
+            </p>
+
+            {plugins.length === 0 ? (
+              <div className='card text-center'>
+                <p className='text-gray-600 dark:text-gray-300 mb-4'>
+                  Your stack is empty. Use the stack button on a plugin to add it.
+                </p>
+                <Link href='/plugins' className='btn btn-primary'>
+                  Browse plugins
+                </Link>
+              </div>
+            ) : (
+              <div className='space-y-6'>
+                <div className='card'>
+                  <div className='flex items-center justify-between mb-4'>
+                    <h2 className='text-xl font-semibold text-gray-900 dark:text-gray-100'>
+                      {plugins.length} plugins
+                    </h2>
+                    <button onClick={clearStack} className='btn btn-ghost text-sm'>
+                      <Trash2 className='w-4 h-4 mr-1' />
+                      Clear
+                    </button>
+                  </div>
+                  <ul className='divide-y divide-gray-100 dark:divide-gray-700'>
+                    {plugins.map((plugin) => {
+                      const target = getPluginInstallTarget(plugin);
+                      return (
+                        <li key={plugin.id} className='flex items-center justify-between py-2'>
+                          <div className='min-w-0'>
+                            <Link
+                              href={`/plugins/${plugin.id}`}
+                              className='font-medium text-primary-600 dark:text-primary-400 hover:underline'
+                            >
+                              {plugin.name}
+                            </Link>
+                            <span className='ml-2 text-sm text-gray-500 dark:text-gray-400'>
+                              {plugin.marketplace}
+                            </span>
+                            {target && (
+                              <code className='block text-xs font-mono text-gray-500 dark:text-gray-400 truncate'>
+                                {getPluginKey(target)}
+                              </code>
+                            )}
+                          </div>
+                          <button
+                            onClick={() => removeFromStack(plugin.id)}
+                            className='btn-ghost p-2'
+                            aria-label={`Remove ${plugin.name} from the stack`}
+                          >
+                            <X className='w-4 h-4' />
+                          </button>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+
+                <div className='card'>
+                  <h2 className='text-xl font-semibold text-gray-900 dark:text-gray-100 mb-4'>
+                    <AlertTriangle className='w-5 h-5 inline mr-2 text-warning-500' />
+                    Review
+                  </h2>
+                  {review.issues.length === 0 ? (
+                    <p className='text-gray-600 dark:text-gray-300'>
+                      {conflictsLoading
+                        ? 'Checking for conflicts…'
+                        : 'No conflicts or missing metadata found.'}
+                    </p>
+                  ) : (
+                    <ul className='space-y-2'>
+                      {[...errors, ...warnings].map((issue) => (
+                        <li
+                          key={`${issue.kind}:${issue.pluginIds.join(',')}:${issue.message}`}
+                          className='flex items-start text-sm'
+                        >
+                          <span
+                            className={`badge mr-2 flex-shrink-0 ${
+                              issue.severity === 'error' ? 'badge-error' : 'badge-warning'
+                            }`}
+                          >
+                            {issue.severity}
+                          </span>
+                          <span className='text-gray-700 dark:text-gray-300'>{issue.message}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {review.issues.some((issue) => issue.kind === 'conflict') && (
+                    <Link
+                      href='/plugins/conflicts'
+                      className='inline-block mt-3 text-sm text-primary-600 dark:text-primary-400 hover:underline'
+                    >
+                      About plugin conflicts
+                    </Link>
+                  )}
+                </div>
+
+                <div className='card'>
+                  <div className='flex flex-wrap items-center justify-between gap-2 mb-4'>
+                    <h2 className='text-xl font-semibold text-gray-900 dark:text-gray-100'>
+                      .claude/settings.json
+                    </h2>
+                    <div className='flex gap-2'>
+                      <button
+                        onClick={copySettings}
+                        className='btn btn-secondary text-sm'
+                        disabled={review.targets.length === 0}
+                      >
+                        {copyStatus === 'copied' ? (
+                          <Check className='w-4 h-4 mr-1' />
+                        ) : (
+                          <Copy className='w-4 h-4 mr-1' />
+                        )}
+                        {copyStatus === 'copied' ? 'Copied!' : 'Copy'}
+                      </button>
+                      <button
+                        onClick={downloadSettings}
+                        className='btn btn-primary text-sm'
+                        disabled={review.targets.length === 0}
+                      >
+                        <Download className='w-4 h-4 mr-1' />
+                        Download
+                      </button>
+                    </div>
+                  </div>
+                  <pre className='p-4 bg-gray-900 text-gray-100 rounded-lg text-sm font-mono overflow-x-auto'>
+                    {review.settings}
+                  </pre>
+                  {copyStatus === 'failed' && (
+                    <p className='mt-3 text-sm text-red-600 dark:text-red-400'>
+                      Could not copy to the clipboard. Select the text above or download the file
+                      instead.
+                    </p>
+                  )}
+                  <p className='mt-3 text-sm text-gray-500 dark:text-gray-400'>
+                    Merge these keys into an existing settings file instead of replacing it.
+                  </p>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </MainLayout>
+    </>
+  );
+};
+
+export default TeamStackPage;
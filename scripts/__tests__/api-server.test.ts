@@ -0,0 +1,129 @@
+/**
+ * API Server Tests
+ *
+ * Tests for routing, filtering and pagination of the local API server
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { handleApiRequest, loadRegistryData, RegistryData } from '../api-server';
+
+const request = (data: RegistryData, url: string, headers = {}, apiKey?: string) =>
+  handleApiRequest(data, new URL(url, 'http://localhost'), headers, apiKey);
+
+describe('API server', () => {
+  let tempDir: string;
+  let data: RegistryData;
+
+  beforeAll(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'api-server-'));
+    fs.writeFileSync(
+      path.join(tempDir, 'complete.json'),
+      JSON.stringify({
+        marketplaces: [
+          {
+            id: '1',
+            name: 'alpha-tools',
+            description: 'Developer tooling',
+            url: 'https://github.com/alice/alpha-tools',
+            stars: 50,
+            forks: 2,
+            topics: ['claude'],
+            updatedAt: '2026-01-01T00:00:00Z',
+            hasManifest: true,
+          },
+          {
+            id: '2',
+            name: 'beta-security',
+            description: 'Security scanners',
+            url: 'https://github.com/bob/beta-security',
+            stars: 200,
+            forks: 10,
+            topics: [],
+            updatedAt: '2026-02-01T00:00:00Z',
+            hasManifest: false,
+          },
+        ],
+        plugins: [
+          {
+            id: '1-linter',
+            name: 'linter',
+            description: 'Lint your code',
+            version: '1.0.0',
+            author: 'alice',
+            isValid: true,
+            manifest: { keywords: ['lint', 'quality'] },
+            metadata: { marketplaceId: '1', marketplaceName: 'alpha-tools' },
+          },
+          {
+            id: '2-audit',
+            name: 'audit',
+            description: 'Audit dependencies',
+            version: '0.2.0',
+            author: { name: 'bob' },
+            isValid: false,
+            metadata: { marketplaceId: '2', marketplaceName: 'beta-security' },
+          },
+        ],
+        categories: [{ id: 'security', name: 'Security', marketplaces: ['beta-security'] }],
+        stats: { lastUpdated: '2026-02-02T00:00:00Z' },
+      })
+    );
+    data = loadRegistryData(tempDir);
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should normalize plugins and marketplaces from complete.json', () => {
+    expect(data.plugins).toHaveLength(2);
+    expect(data.plugins[1]).toMatchObject({ author: 'bob', category: 'Security', stars: 200 });
+    expect(data.marketplaces[0]).toMatchObject({ owner: 'alice', pluginCount: 1, verified: true });
+  });
+
+  it('should filter and paginate plugins', () => {
+    const result = request(data, '/api/plugins?tags=lint&verified=true');
+    expect(result.status).toBe(200);
+    expect(result.body).toMatchObject({
+      success: true,
+      data: [{ id: '1-linter' }],
+      pagination: { page: 1, total: 1, totalPages: 1, hasNext: false },
+    });
+
+    const paged = request(data, '/api/plugins?sort=stars&limit=1&offset=1');
+    expect(paged.body).toMatchObject({
+      data: [{ id: '1-linter' }],
+      pagination: { page: 2, total: 2, hasPrev: true, hasNext: false },
+    });
+  });
+
+  it('should reject invalid parameters with 400', () => {
+    expect(request(data, '/api/plugins?sort=popularity').status).toBe(400);
+    expect(request(data, '/api/marketplaces?limit=500').status).toBe(400);
+    expect(request(data, '/api/search').body).toMatchObject({ success: false });
+  });
+
+  it('should search plugins and marketplaces', () => {
+    const result = request(data, '/api/search?q=security');
+    expect(result.body).toMatchObject({
+      success: true,
+      data: {
+        results: { plugins: [{ id: '2-audit' }], marketplaces: [{ id: '2' }] },
+        total: { plugins: 1, marketplaces: 1 },
+      },
+    });
+  });
+
+  it('should require the API key for analytics when configured', () => {
+    expect(request(data, '/api/analytics', {}, 'secret').status).toBe(401);
+    expect(
+      request(data, '/api/analytics?type=plugins', { 'x-api-key': 'secret' }, 'secret')
+    ).toMatchObject({ status: 200, body: { data: { total: 2, verified: 1 } } });
+  });
+
+  it('should return 404 for unknown endpoints', () => {
+    expect(request(data, '/api/unknown').status).toBe(404);
+  });
+});
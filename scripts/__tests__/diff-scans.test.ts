@@ -0,0 +1,193 @@
+/**
+ * Scan Diff Tests
+ *
+ * Tests for comparing two scans and rendering the change report
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { gzipSync } from 'zlib';
+import DataBackupManager from '../backup-data';
+import {
+  createScanDiffReporter,
+  diffScans,
+  loadScanState,
+  renderChangeReportMarkdown,
+  ScannedPlugin,
+  ScanState,
+} from '../diff-scans';
+
+const plugin = (overrides: Partial<ScannedPlugin>): ScannedPlugin => ({
+  id: '1-demo',
+  name: 'demo',
+  marketplaceId: '1',
+  version: '1.0.0',
+  source: './plugins/demo',
+  isValid: true,
+  errors: [],
+  manifest: { name: 'demo', version: '1.0.0' },
+  ...overrides,
+});
+
+const previous: ScanState = {
+  scannedAt: '2026-01-01T00:00:00.000Z',
+  marketplaces: [
+    { id: '1', name: 'alpha', qualityScore: 60 },
+    { id: '2', name: 'beta' },
+  ],
+  plugins: [
+    plugin({ qualityScore: 70 }),
+    plugin({ id: '1-old-name', name: 'old-name', source: './plugins/tool' }),
+    plugin({ id: '2-gone', name: 'gone', marketplaceId: '2', source: './' }),
+  ],
+};
+
+const current: ScanState = {
+  scannedAt: '2026-01-02T00:00:00.000Z',
+  marketplaces: [
+    { id: '1', name: 'alpha', qualityScore: 65 },
+    { id: '3', name: 'gamma' },
+  ],
+  plugins: [
+    plugin({
+      version: '1.1.0',
+      isValid: false,
+      errors: ['Missing description'],
+      manifest: { name: 'demo', version: '1.1.0', license: 'MIT' },
+      qualityScore: 64,
+    }),
+    plugin({ id: '1-new-name', name: 'new-name', source: './plugins/tool' }),
+    plugin({ id: '3-fresh', name: 'fresh', marketplaceId: '3', source: './' }),
+  ],
+};
+
+describe('diffScans', () => {
+  const report = diffScans(previous, current, 'backup-1', '2026-01-02T01:00:00.000Z');
+
+  it('should report added and removed marketplaces and plugins', () => {
+    expect(report.marketplaces.added.map((mp) => mp.id)).toEqual(['3']);
+    expect(report.marketplaces.removed.map((mp) => mp.id)).toEqual(['2']);
+    expect(report.plugins.added.map((p) => p.id)).toEqual(['3-fresh']);
+    expect(report.plugins.removed.map((p) => p.id)).toEqual(['2-gone']);
+  });
+
+  it('should recognise renames by marketplace and source path', () => {
+    expect(report.plugins.renamed).toEqual([
+      {
+        id: '1-new-name',
+        name: 'new-name',
+        marketplaceId: '1',
+        previousId: '1-old-name',
+        previousName: 'old-name',
+      },
+    ]);
+  });
+
+  it('should report version bumps, manifest changes, quality deltas and new failures', () => {
+    expect(report.plugins.versionBumps).toMatchObject([
+      { id: '1-demo', previous: '1.0.0', current: '1.1.0' },
+    ]);
+    expect(report.plugins.manifestChanges).toMatchObject([
+      { id: '1-demo', changes: [{ field: 'license', current: 'MIT' }] },
+    ]);
+    expect(report.plugins.qualityChanges).toMatchObject([
+      { id: '1-demo', previous: 70, current: 64, delta: -6 },
+    ]);
+    expect(report.marketplaces.qualityChanges).toMatchObject([{ id: '1', delta: 5 }]);
+    expect(report.plugins.newlyInvalid).toMatchObject([
+      { id: '1-demo', errors: ['Missing description'] },
+    ]);
+    expect(report.summary).toEqual({
+      marketplacesAdded: 1,
+      marketplacesRemoved: 1,
+      pluginsAdded: 1,
+      pluginsRemoved: 1,
+      pluginsRenamed: 1,
+      versionBumps: 1,
+      manifestChanges: 1,
+      qualityChanges: 2,
+      newlyInvalid: 1,
+    });
+  });
+
+  it('should render a Markdown summary with a section per change type', () => {
+    const markdown = renderChangeReportMarkdown(report);
+
+    expect(markdown).toContain('# Ecosystem changes — 2026-01-02');
+    expect(markdown).toContain('| Renamed plugins | 1 |');
+    expect(markdown).toContain('- **old-name** → **new-name** (`1-new-name`)');
+    expect(markdown).toContain('- **demo** (`1-demo`): 70 → 64 (-6)');
+    expect(markdown).toContain('- Marketplace **alpha** (`1`): 60 → 65 (+5)');
+  });
+
+  it('should say so when nothing changed', () => {
+    expect(renderChangeReportMarkdown(diffScans(previous, previous, 'backup-1'))).toContain(
+      'No changes since the previous scan.'
+    );
+  });
+});
+
+describe('ScanDiffReporter', () => {
+  let tempDir: string;
+
+  const writeComplete = (dir: string, version: string, compress = false) => {
+    const complete = JSON.stringify({
+      stats: { lastUpdated: version === '1.0.0' ? previous.scannedAt : current.scannedAt },
+      marketplaces: [{ id: '1', name: 'alpha' }],
+      plugins: [{ name: 'demo', version, metadata: { marketplaceId: '1' } }],
+    });
+    fs.mkdirSync(dir, { recursive: true });
+    if (compress) {
+      fs.writeFileSync(path.join(dir, 'complete.json.gz'), gzipSync(complete));
+    } else {
+      fs.writeFileSync(path.join(dir, 'complete.json'), complete);
+    }
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'diff-scans-'));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should compare against the latest compressed backup and write JSON and Markdown', () => {
+    const dataDir = path.join(tempDir, 'data');
+    const backupDir = path.join(tempDir, 'backups');
+    writeComplete(dataDir, '2.0.0');
+    writeComplete(path.join(backupDir, 'daily', 'backup-1'), '1.0.0', true);
+    fs.writeFileSync(
+      path.join(backupDir, 'backups.json'),
+      JSON.stringify([{ id: 'backup-1', timestamp: previous.scannedAt }])
+    );
+
+    const reporter = createScanDiffReporter(dataDir, new DataBackupManager({ backupDir }));
+    const report = reporter.run();
+    if (!report) throw new Error('Expected a report');
+
+    expect(report.previous).toEqual({ backupId: 'backup-1', scannedAt: previous.scannedAt });
+    expect(report.plugins.versionBumps).toMatchObject([{ previous: '1.0.0', current: '2.0.0' }]);
+
+    const jsonPath = reporter.writeReport(report);
+    expect(jsonPath).toBe(path.join(dataDir, 'changes', '2026-01-02.json'));
+    expect(fs.existsSync(path.join(dataDir, 'changes', '2026-01-02.md'))).toBe(true);
+  });
+
+  it('should return null when there is no backup', () => {
+    const reporter = createScanDiffReporter(
+      tempDir,
+      new DataBackupManager({ backupDir: path.join(tempDir, 'backups') })
+    );
+    expect(reporter.run()).toBeNull();
+  });
+
+  it('should return null when complete.json cannot be read', () => {
+    expect(loadScanState(() => null)).toBeNull();
+    expect(loadScanState(() => '{not json')).toBeNull();
+  });
+});
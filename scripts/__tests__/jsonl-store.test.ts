@@ -0,0 +1,51 @@
+/**
+ * JSONL Store Tests
+ *
+ * Tests for reading and appending line-delimited JSON records
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createJsonlStore } from '../jsonl-store';
+
+interface Entry {
+  id: number;
+}
+
+const format = {
+  parse: (text: string): Entry[] =>
+    text
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line)),
+  serialize: (entry: Entry) => `${JSON.stringify(entry)}\n`,
+};
+
+describe('JsonlStore', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jsonl-store-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should load nothing before the first append', () => {
+    expect(createJsonlStore(path.join(tempDir, 'missing.jsonl'), format).load()).toEqual([]);
+  });
+
+  it('should append records in order and create the directory', () => {
+    const file = path.join(tempDir, 'history', 'entries.jsonl');
+    const store = createJsonlStore(file, format);
+
+    store.append([{ id: 1 }, { id: 2 }]);
+    store.append([]);
+    store.append([{ id: 3 }]);
+
+    expect(store.load()).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+    expect(fs.readFileSync(file, 'utf-8').split('\n')).toHaveLength(4);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Marketplace Duplicates Tests
+ *
+ * Tests for fingerprinting scanned marketplaces and linking forks and mirrors
+ */
+
+import {
+  getContentFingerprint,
+  groupDuplicateMarketplaces,
+  hashSkillBody,
+  ScannedMarketplace,
+} from '../marketplace-duplicates';
+
+const scanned = (
+  id: string,
+  repo: string,
+  overrides: Partial<ScannedMarketplace> = {}
+): ScannedMarketplace => ({
+  id,
+  name: repo.split('/')[1],
+  url: `https://github.com/${repo}`,
+  stars: 0,
+  createdAt: '2026-01-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('getContentFingerprint', () => {
+  it('should match copies listing the same plugins and skills in another order', () => {
+    const lint = { name: 'lint', source: './plugins/lint' };
+    const format = { name: 'format', source: './plugins/format' };
+    const skill = { bodyHash: hashSkillBody('# Review\n\nReview the diff.') };
+
+    expect(getContentFingerprint({ plugins: [lint, format] }, [skill])).toBe(
+      getContentFingerprint({ plugins: [format, { ...lint, author: 'Copycat' }] }, [skill])
+    );
+    expect(getContentFingerprint({ plugins: [lint] })).not.toBe(
+      getContentFingerprint({ plugins: [format] })
+    );
+    expect(getContentFingerprint(undefined, [{}])).toBeUndefined();
+  });
+});
+
+describe('groupDuplicateMarketplaces', () => {
+  it('should link duplicates both ways and replace links from an earlier scan', () => {
+    const manifest = { plugins: [{ name: 'lint', source: './plugins/lint' }] };
+    const marketplaces = [
+      scanned('1', 'acme/tools', { manifest, createdAt: '2026-02-01T00:00:00Z' }),
+      scanned('2', 'copy/tools', { manifest, createdAt: '2026-06-01T00:00:00Z' }),
+      scanned('3', 'fan/tools', { parent: 'acme/tools' }),
+      scanned('4', 'other/tools', {
+        duplicateOf: { id: '1', name: 'tools', url: 'https://github.com/acme/tools', kind: 'fork' },
+      }),
+    ];
+
+    expect(groupDuplicateMarketplaces(marketplaces)).toBe(2);
+    expect(marketplaces[1].duplicateOf).toEqual(
+      expect.objectContaining({ id: '1', kind: 'mirror' })
+    );
+    expect(marketplaces[2].duplicateOf).toEqual(expect.objectContaining({ id: '1', kind: 'fork' }));
+    expect(marketplaces[3].duplicateOf).toBeUndefined();
+    expect(marketplaces[0].duplicates?.map((ref) => [ref.id, ref.kind])).toEqual([
+      ['2', 'mirror'],
+      ['3', 'fork'],
+    ]);
+  });
+});
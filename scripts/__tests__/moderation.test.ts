@@ -0,0 +1,111 @@
+/**
+ * Moderation Tests
+ *
+ * Tests for applying moderation rules and keeping the audit trail across runs
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createModerationAuditStore, moderateManifestPlugins, Moderator } from '../moderation';
+import { createModerationPolicy, parseModerationConfig } from '../../src/utils/moderation';
+
+const blockRules = (rules: unknown[]) =>
+  createModerationPolicy(parseModerationConfig({ version: 'test', rules }));
+
+const takedown = {
+  id: 'takedown-1',
+  action: 'block',
+  repository: 'acme/tools',
+  reason: 'takedown',
+};
+
+describe('Moderator', () => {
+  let tempDir: string;
+  let auditPath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'moderation-'));
+    auditPath = path.join(tempDir, 'audit.jsonl');
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  const marketplaces = [{ repo: 'acme/tools' }, { repo: 'acme/other' }];
+  const run = (rules: unknown[], items = marketplaces) => {
+    const moderator = new Moderator(blockRules(rules), createModerationAuditStore(auditPath));
+    const visible = moderator.filter(items, (item) => ({
+      kind: 'marketplace',
+      marketplace: item.repo,
+    }));
+    moderator.save();
+    return { moderator, visible };
+  };
+
+  it('should record a hidden item once across runs', () => {
+    expect(run([takedown]).visible).toEqual([{ repo: 'acme/other' }]);
+    run([takedown]);
+
+    const events = createModerationAuditStore(auditPath).load();
+    expect(events).toEqual([
+      expect.objectContaining({
+        action: 'hidden',
+        kind: 'marketplace',
+        subject: 'acme/tools',
+        ruleId: 'takedown-1',
+        reason: 'takedown',
+      }),
+    ]);
+  });
+
+  it('should keep counting items that are no longer scanned', () => {
+    run([takedown]);
+
+    const { moderator } = run([takedown], [{ repo: 'acme/other' }]);
+    expect(moderator.getSummary().hidden).toEqual({ marketplace: 1, plugin: 0 });
+  });
+
+  it('should record a restore when an item reappears without a rule hiding it', () => {
+    run([takedown]);
+    const { moderator, visible } = run([]);
+
+    expect(visible).toHaveLength(2);
+    expect(
+      createModerationAuditStore(auditPath)
+        .load()
+        .map((event) => event.action)
+    ).toEqual(['hidden', 'restored']);
+    expect(moderator.getSummary().hidden.marketplace).toBe(0);
+  });
+
+  it('should drop hidden plugins from the manifest of a visible marketplace', () => {
+    const moderator = new Moderator(
+      blockRules([
+        {
+          id: 'malicious-1',
+          action: 'block',
+          repository: 'acme/tools',
+          plugin: 'stealer',
+          reason: 'malicious',
+        },
+      ]),
+      createModerationAuditStore(auditPath)
+    );
+    const marketplace = {
+      url: 'https://github.com/acme/tools',
+      manifest: { name: 'tools', plugins: [{ name: 'formatter' }, { name: 'stealer' }] },
+    };
+
+    const moderated = moderateManifestPlugins(moderator, marketplace);
+    moderator.save();
+
+    expect(moderated.manifest.plugins).toEqual([{ name: 'formatter' }]);
+    expect(moderated.manifest.name).toBe('tools');
+    expect(marketplace.manifest.plugins).toHaveLength(2);
+    expect(moderator.getSummary().hidden).toEqual({ marketplace: 0, plugin: 1 });
+  });
+});
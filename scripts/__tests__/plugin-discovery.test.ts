@@ -8,7 +8,7 @@
  */
 
 import { Octokit } from '@octokit/rest';
-import { PluginDiscovery, MarketplaceInfo } from '../plugin-discovery';
+import { PluginDiscovery, MarketplaceInfo, parseRepositoryRef } from '../plugin-discovery';
 
 describe('PluginDiscovery', () => {
   let discovery: PluginDiscovery;
@@ -108,4 +108,93 @@ describe('PluginDiscovery', () => {
       expect(result.id).toMatch(/^[a-z0-9-]+$/);
     });
   });
+
+  describe('processPluginEntry - Components', () => {
+    it('should record components declared in the plugin manifest', async () => {
+      mockOctokit.repos.getContent.mockResolvedValue({
+        data: {
+          content: Buffer.from(
+            JSON.stringify({
+              name: 'reviewer',
+              commands: ['./commands/review.md'],
+              hooks: './hooks/hooks.json',
+            })
+          ).toString('base64'),
+        },
+      });
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const result = await (discovery as any).processPluginEntry(
+        { name: 'reviewer', path: 'plugins/reviewer' },
+        mockMarketplace
+      );
+
+      expect(result.components).toEqual({
+        commands: ['./commands/review.md'],
+        hooks: ['./hooks/hooks.json'],
+      });
+    });
+  });
+});
+
+describe('PluginDiscovery.buildInventory', () => {
+  const encode = (content: string) => ({
+    data: { content: Buffer.from(content).toString('base64') },
+  });
+  const listing = (...items: Array<[string, string]>) => ({
+    data: items.map(([name, type]) => ({ name, type })),
+  });
+
+  it('should walk default locations and paths declared in the manifest', async () => {
+    const files: Record<string, unknown> = {
+      'plugins/reviewer/commands': listing(['review.md', 'file'], ['README.txt', 'file']),
+      'plugins/reviewer/commands/review.md': encode('---\ndescription: Review\n---\n'),
+      'plugins/reviewer/extra/fix.md': encode('Fix the build.'),
+      'plugins/reviewer/agents': listing(['auditor.md', 'file']),
+      'plugins/reviewer/agents/auditor.md': encode('---\nname: auditor\ntools: Read\n---\n'),
+      'plugins/reviewer/skills': listing(['pdf', 'dir']),
+      'plugins/reviewer/skills/pdf/SKILL.md': encode('---\nname: pdf\n---\n'),
+      'plugins/reviewer/hooks/hooks.json': encode(
+        JSON.stringify({ hooks: { Stop: [{ hooks: [{ type: 'command', command: 'x' }] }] } })
+      ),
+    };
+    const octokit = {
+      repos: {
+        getContent: jest.fn(async ({ path }: { path: string }) => {
+          if (path in files) return files[path];
+          throw Object.assign(new Error('Not Found'), { status: 404 });
+        }),
+      },
+    };
+    const discovery = new PluginDiscovery(octokit as unknown as Octokit);
+
+    const inventory = await discovery.buildInventory(
+      { owner: 'o', repo: 'r', path: './plugins/reviewer' },
+      { commands: ['./extra/fix.md'], mcpServers: { db: { command: 'db-server' } } }
+    );
+
+    expect(inventory.commands.map((c) => c.name)).toEqual(['review', 'fix']);
+    expect(inventory.commands[1].description).toBe('Fix the build.');
+    expect(inventory.agents[0]).toMatchObject({ name: 'auditor', tools: ['Read'] });
+    expect(inventory.skills).toEqual([{ name: 'pdf', path: 'skills/pdf' }]);
+    expect(inventory.hooks).toEqual([{ event: 'Stop', commands: ['x'] }]);
+    expect(inventory.mcpServers).toEqual([
+      { name: 'db', transport: 'stdio', command: 'db-server' },
+    ]);
+  });
+});
+
+describe('parseRepositoryRef', () => {
+  it('should accept owner/repo references and GitHub URLs', () => {
+    expect(parseRepositoryRef('external/repo')).toEqual({ owner: 'external', repo: 'repo' });
+    expect(parseRepositoryRef('https://github.com/test-owner/test-repo.git')).toEqual({
+      owner: 'test-owner',
+      repo: 'test-repo',
+    });
+  });
+
+  it('should reject other URLs', () => {
+    expect(parseRepositoryRef('https://gitlab.com/owner/repo')).toBeNull();
+    expect(parseRepositoryRef('')).toBeNull();
+  });
 });
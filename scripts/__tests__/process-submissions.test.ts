@@ -0,0 +1,157 @@
+/**
+ * Submission Processor Tests
+ *
+ * Tests for reviewing community marketplace submissions and promoting them to seeds
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { GitHubSearchService } from '../../src/services/github-search';
+import type { GitHubApiResponse } from '../../src/types/github';
+import type { ContentFetcher } from '../../src/utils/content-fetcher';
+import type { GitHubClient } from '../../src/utils/github-client';
+import { addDiscoverySeed } from '../discovery-config';
+import { parseSubmission, SubmissionProcessor } from '../process-submissions';
+
+const marketplace = (plugins: unknown[]) =>
+  JSON.stringify({ name: 'team-tools', owner: { name: 'Acme' }, plugins }, null, 2);
+
+const manifestFile: GitHubApiResponse<unknown> = {
+  success: true,
+  data: { type: 'file', path: '.claude-plugin/marketplace.json' },
+};
+
+// The search service runs for real on top of a mocked client, so reviews see the
+// responses it actually returns
+function createProcessor(
+  options: { manifestResponse?: GitHubApiResponse<unknown>; content?: string } = {}
+) {
+  const githubClient = {
+    getRepositoryContent: jest.fn().mockResolvedValue(options.manifestResponse ?? manifestFile),
+  };
+  const contentFetcher = {
+    fetchMarketplaceManifest: jest.fn().mockResolvedValue({
+      success: true,
+      data: { content: options.content ?? marketplace([{ name: 'lint', source: './lint' }]) },
+    }),
+  };
+  const processor = new SubmissionProcessor(
+    new GitHubSearchService(githubClient as unknown as GitHubClient),
+    contentFetcher as unknown as ContentFetcher
+  );
+  return { processor, githubClient };
+}
+
+describe('parseSubmission', () => {
+  it('should normalize GitHub URLs to owner/repo', () => {
+    expect(parseSubmission({ repository: 'https://github.com/acme/tools.git' })).toEqual({
+      repository: 'acme/tools',
+      reasons: [],
+    });
+  });
+
+  it('should reject submissions without a repository', () => {
+    expect(parseSubmission({ repository: 'not a repo', note: 1 }).reasons).toEqual([
+      expect.objectContaining({
+        code: 'invalid-submission',
+        message: expect.stringContaining('"repository"'),
+      }),
+      { code: 'invalid-submission', message: '"note" must be a string' },
+    ]);
+  });
+});
+
+describe('SubmissionProcessor', () => {
+  it('should accept repositories with a valid marketplace.json', async () => {
+    const { processor, githubClient } = createProcessor();
+
+    const review = await processor.review({ repository: 'Acme/Tools' }, ['other/repo']);
+
+    expect(review).toMatchObject({ status: 'accepted', repository: 'Acme/Tools', reasons: [] });
+    expect(githubClient.getRepositoryContent).toHaveBeenCalledWith(
+      'Acme',
+      'Tools',
+      '.claude-plugin/marketplace.json'
+    );
+  });
+
+  it('should reject seeds that are already listed without calling GitHub', async () => {
+    const { processor, githubClient } = createProcessor();
+
+    const review = await processor.review({ repository: 'acme/tools' }, ['Acme/Tools']);
+
+    expect(review.reasons.map((reason) => reason.code)).toEqual(['already-listed']);
+    expect(githubClient.getRepositoryContent).not.toHaveBeenCalled();
+  });
+
+  it('should reject repositories without a manifest', async () => {
+    const { processor } = createProcessor({
+      manifestResponse: { success: false, error: { message: 'Not Found', status: 404 } },
+    });
+
+    const review = await processor.review({ repository: 'acme/tools' }, []);
+
+    expect(review.status).toBe('rejected');
+    expect(review.reasons.map((reason) => reason.code)).toEqual(['no-manifest']);
+  });
+
+  it('should list manifest problems with their location', async () => {
+    const { processor } = createProcessor({
+      content: marketplace([{ name: 'Lint', source: '../lint' }]),
+    });
+
+    const review = await processor.review({ repository: 'acme/tools' }, []);
+
+    expect(review.status).toBe('rejected');
+    expect(review.reasons).toEqual([
+      expect.objectContaining({
+        code: 'invalid-manifest',
+        line: 8,
+        message: expect.stringContaining('kebab-case'),
+      }),
+      expect.objectContaining({ code: 'invalid-manifest', line: 9 }),
+    ]);
+  });
+
+  it.each([
+    ['a rate limit', { message: 'API rate limit exceeded', status: 403 }],
+    ['a server error', { message: 'Bad Gateway', status: 502 }],
+    ['a network error', { message: 'getaddrinfo ENOTFOUND api.github.com' }],
+  ])('should keep submissions queued after %s', async (_, error) => {
+    const { processor } = createProcessor({ manifestResponse: { success: false, error } });
+
+    const review = await processor.review({ repository: 'acme/tools' }, []);
+
+    expect(review).toMatchObject({ status: 'pending', error: error.message });
+  });
+});
+
+describe('addDiscoverySeed', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'discovery-config-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should append new seeds once and leave strategies untouched', () => {
+    const file = path.join(tempDir, 'discovery.json');
+    const config = {
+      version: '1',
+      seeds: ['acme/one'],
+      strategies: [{ name: 'topic', type: 'repo', query: 'topic:claude-plugins' }],
+    };
+    fs.writeFileSync(file, JSON.stringify(config));
+
+    expect(addDiscoverySeed('acme/two', file)).toBe(true);
+    expect(addDiscoverySeed('ACME/two', file)).toBe(false);
+    expect(JSON.parse(fs.readFileSync(file, 'utf-8'))).toEqual({
+      ...config,
+      seeds: ['acme/one', 'acme/two'],
+    });
+  });
+});
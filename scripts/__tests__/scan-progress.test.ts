@@ -0,0 +1,51 @@
+/**
+ * Scan Progress Tests
+ *
+ * Tests for resuming a marketplace scan interrupted by rate limiting
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ScanProgressStore } from '../scan-progress';
+
+describe('ScanProgressStore', () => {
+  let tempDir: string;
+  let progressPath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'scan-progress-'));
+    progressPath = path.join(tempDir, 'scan-progress.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should save every few records and resume from them', () => {
+    const store = new ScanProgressStore<{ id: string }>(progressPath);
+    store.record('Acme/Tools', { id: '1' }, 2);
+    expect(fs.existsSync(progressPath)).toBe(false);
+    store.record('acme/empty', null, 2);
+
+    const resumed = new ScanProgressStore<{ id: string }>(progressPath);
+    expect(resumed.load()).toBe(2);
+    expect(resumed.get('acme/tools')).toEqual({ id: '1' });
+    expect(resumed.has('Acme/Empty')).toBe(true);
+    expect(resumed.get('Acme/Empty')).toBeNull();
+    expect(resumed.getStartedAt()).toBe(store.getStartedAt());
+  });
+
+  it('should ignore stale progress and forget it once cleared', () => {
+    const store = new ScanProgressStore<{ id: string }>(progressPath);
+    store.record('acme/tools', { id: '1' });
+    store.save();
+
+    const tomorrow = new Date(Date.now() + 25 * 60 * 60 * 1000);
+    expect(new ScanProgressStore(progressPath).load(tomorrow)).toBe(0);
+
+    store.clear();
+    expect(fs.existsSync(progressPath)).toBe(false);
+    expect(new ScanProgressStore(progressPath).load()).toBe(0);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Scan State Tests
+ *
+ * Tests for the persisted per-repository scan state used by incremental scans
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ScanStateStore } from '../scan-state';
+
+describe('ScanStateStore', () => {
+  let tempDir: string;
+  let statePath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'scan-state-'));
+    statePath = path.join(tempDir, 'scan-state.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should start empty when no state file exists', () => {
+    const store = new ScanStateStore(statePath);
+    store.load();
+
+    expect(store.get('owner/repo')).toBeUndefined();
+  });
+
+  it('should round-trip state through disk with case-insensitive keys', () => {
+    const store = new ScanStateStore(statePath);
+    store.set('Owner/Repo', {
+      etag: 'W/"abc"',
+      pushedAt: '2026-01-01T00:00:00Z',
+      marketplaceId: '42',
+      lastScanned: '2026-01-01T00:00:00Z',
+    });
+    store.save();
+
+    const reloaded = new ScanStateStore(statePath);
+    reloaded.load();
+
+    expect(reloaded.get('owner/repo')).toMatchObject({
+      etag: 'W/"abc"',
+      pushedAt: '2026-01-01T00:00:00Z',
+      marketplaceId: '42',
+    });
+  });
+
+  it('should ignore state written with a different version', () => {
+    fs.writeFileSync(
+      statePath,
+      JSON.stringify({ version: 0, repositories: { 'owner/repo': { marketplaceId: '1' } } })
+    );
+
+    const store = new ScanStateStore(statePath);
+    store.load();
+
+    expect(store.get('owner/repo')).toBeUndefined();
+  });
+
+  it('should merge updates and keep the marketplace ID when touching an entry', () => {
+    const store = new ScanStateStore(statePath);
+    store.set('owner/repo', {
+      etag: 'old',
+      pushedAt: '2026-01-01T00:00:00Z',
+      marketplaceId: '42',
+      lastScanned: '2026-01-01T00:00:00Z',
+    });
+
+    store.touch('owner/repo', { etag: 'new' });
+
+    const state = store.get('owner/repo');
+    expect(state?.etag).toBe('new');
+    expect(state?.pushedAt).toBe('2026-01-01T00:00:00Z');
+    expect(state?.marketplaceId).toBe('42');
+    expect(state?.lastScanned).not.toBe('2026-01-01T00:00:00Z');
+  });
+
+  it('should not create entries when touching an unknown repository', () => {
+    const store = new ScanStateStore(statePath);
+    store.touch('owner/unknown', { etag: 'x' });
+
+    expect(store.get('owner/unknown')).toBeUndefined();
+  });
+});
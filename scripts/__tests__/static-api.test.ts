@@ -0,0 +1,118 @@
+/**
+ * Static API Tests
+ *
+ * Tests for the sharded JSON API tree written under public/data/api
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { buildStaticApi, StaticApiIndex, StaticApiInput, writeStaticApi } from '../static-api';
+
+const input: StaticApiInput = {
+  marketplaces: [
+    { id: '1', name: 'alpha', stars: 5 },
+    { id: '2', name: 'beta', stars: 50 },
+  ],
+  plugins: [
+    { id: '1-c', name: 'c', metadata: { marketplaceId: '1' }, manifest: { name: 'c' } },
+    { id: '1-a', name: 'a', metadata: { marketplaceId: '1' } },
+    { id: '2-b', name: 'b', marketplaceId: '2' },
+  ],
+  categories: [
+    { id: 'development', name: 'Development Tools', description: '', marketplaces: ['alpha'] },
+  ],
+  lastUpdated: '2026-01-01T00:00:00Z',
+};
+
+describe('buildStaticApi', () => {
+  it('should paginate plugins by name and marketplaces by stars', () => {
+    const files = buildStaticApi(input, 2);
+
+    expect(files.get('plugins/page/1.json')).toMatchObject({
+      data: [{ id: '1-a' }, { id: '2-b' }],
+      pagination: { page: 1, limit: 2, total: 3, totalPages: 2, hasNext: true, hasPrev: false },
+    });
+    expect(files.get('plugins/page/2.json')).toMatchObject({
+      data: [{ id: '1-c' }],
+      pagination: { page: 2, offset: 2, hasNext: false, hasPrev: true },
+    });
+    expect(files.get('marketplaces/page/1.json')).toMatchObject({
+      data: [{ id: '2' }, { id: '1' }],
+    });
+  });
+
+  it('should strip raw manifests from plugin payloads', () => {
+    const page = buildStaticApi(input).get('plugins/page/1.json') as {
+      data: Array<Record<string, unknown>>;
+    };
+    expect(page.data.every((plugin) => !('manifest' in plugin))).toBe(true);
+  });
+
+  it('should write per-marketplace and per-category files', () => {
+    const files = buildStaticApi(input);
+
+    expect(files.get('marketplaces/1.json')).toMatchObject({
+      marketplace: { id: '1' },
+      plugins: [{ id: '1-a' }, { id: '1-c' }],
+    });
+    expect(files.get('categories/development.json')).toMatchObject({
+      category: { id: 'development' },
+      marketplaces: [{ id: '1' }],
+      plugins: [{ id: '1-a' }, { id: '1-c' }],
+    });
+  });
+
+  it('should describe every file in the index manifest', () => {
+    const files = buildStaticApi(input, 2);
+    const index = files.get('index.json') as StaticApiIndex;
+
+    expect(index.plugins).toEqual({
+      total: 3,
+      pages: ['plugins/page/1.json', 'plugins/page/2.json'],
+    });
+    expect(index.categories[0]).toMatchObject({
+      pluginCount: 2,
+      path: 'categories/development.json',
+    });
+
+    const described = [
+      ...index.plugins.pages,
+      ...index.marketplaces.pages,
+      ...index.categories.map((category) => category.path),
+      ...index.marketplaceDetails.map((marketplace) => marketplace.path),
+    ];
+    expect(described.every((file) => files.has(file))).toBe(true);
+  });
+
+  it('should emit a single empty page when there is no data', () => {
+    const files = buildStaticApi({ ...input, plugins: [], marketplaces: [], categories: [] });
+    expect(files.get('plugins/page/1.json')).toMatchObject({
+      data: [],
+      pagination: { total: 0, totalPages: 1 },
+    });
+  });
+});
+
+describe('writeStaticApi', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'static-api-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should replace stale files from a previous run', () => {
+    const outputDir = path.join(tempDir, 'api');
+    fs.mkdirSync(path.join(outputDir, 'plugins', 'page'), { recursive: true });
+    fs.writeFileSync(path.join(outputDir, 'plugins', 'page', '9.json'), '{}');
+
+    const files = buildStaticApi(input);
+    expect(writeStaticApi(outputDir, files)).toBe(files.size);
+    expect(fs.existsSync(path.join(outputDir, 'plugins', 'page', '9.json'))).toBe(false);
+    expect(fs.existsSync(path.join(outputDir, 'categories', 'development.json'))).toBe(true);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Version History Tests
+ *
+ * Tests for recording plugin versions across scans and diffing manifests
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { VersionHistoryTracker, diffManifests, ObservedPlugin } from '../version-history';
+
+describe('diffManifests', () => {
+  it('should report added, removed and changed top-level fields', () => {
+    const changes = diffManifests(
+      { name: 'demo', version: '1.0.0', keywords: ['a'] },
+      { name: 'demo', version: '1.1.0', license: 'MIT' }
+    );
+
+    expect(changes).toEqual([
+      { field: 'keywords', previous: ['a'], current: undefined },
+      { field: 'license', previous: undefined, current: 'MIT' },
+      { field: 'version', previous: '1.0.0', current: '1.1.0' },
+    ]);
+  });
+
+  it('should return no changes for identical manifests', () => {
+    expect(diffManifests({ name: 'demo', tags: ['x'] }, { name: 'demo', tags: ['x'] })).toEqual([]);
+  });
+});
+
+describe('VersionHistoryTracker', () => {
+  let tempDir: string;
+  let tracker: VersionHistoryTracker;
+
+  const observe = (version: string, extra: Record<string, unknown> = {}): ObservedPlugin => ({
+    id: '42-demo',
+    name: 'demo',
+    marketplaceId: '42',
+    version,
+    manifest: { name: 'demo', version, ...extra },
+  });
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'version-history-'));
+    tracker = new VersionHistoryTracker(path.join(tempDir, 'version-history.json'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should record the first observed version', () => {
+    expect(tracker.record([observe('1.0.0')], '2026-01-01T00:00:00Z')).toBe(1);
+
+    const history = tracker.getHistory('42-demo');
+    expect(history?.currentVersion).toBe('1.0.0');
+    expect(history?.versions).toHaveLength(1);
+    expect(history?.versions[0].firstSeen).toBe('2026-01-01T00:00:00Z');
+  });
+
+  it('should only update lastSeen when the version is unchanged', () => {
+    tracker.record([observe('1.0.0')], '2026-01-01T00:00:00Z');
+    expect(tracker.record([observe('1.0.0')], '2026-01-02T00:00:00Z')).toBe(0);
+
+    const history = tracker.getHistory('42-demo');
+    expect(history?.versions).toHaveLength(1);
+    expect(history?.versions[0].lastSeen).toBe('2026-01-02T00:00:00Z');
+  });
+
+  it('should append a new version with the manifest diff, newest first', () => {
+    tracker.record([observe('1.0.0')], '2026-01-01T00:00:00Z');
+    tracker.record([observe('1.1.0', { license: 'MIT' })], '2026-01-03T00:00:00Z');
+
+    const history = tracker.getHistory('42-demo');
+    expect(history?.currentVersion).toBe('1.1.0');
+    expect(history?.versions.map((v) => v.version)).toEqual(['1.1.0', '1.0.0']);
+    expect(history?.versions[0].changes.map((c) => c.field)).toEqual(['license', 'version']);
+  });
+
+  it('should persist history and write per-plugin versions.json files', () => {
+    tracker.record([observe('1.0.0')]);
+    tracker.save();
+
+    const reloaded = new VersionHistoryTracker(path.join(tempDir, 'version-history.json'));
+    reloaded.load();
+    const outputDir = path.join(tempDir, 'public');
+    expect(reloaded.writePublicFiles(outputDir, ['42-demo', 'missing'])).toBe(1);
+
+    const written = JSON.parse(
+      fs.readFileSync(path.join(outputDir, '42-demo', 'versions.json'), 'utf-8')
+    );
+    expect(written.pluginId).toBe('42-demo');
+    expect(written.versions).toHaveLength(1);
+  });
+});
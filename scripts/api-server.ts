@@ -0,0 +1,606 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Local API Server
+ *
+ * Serves the endpoints documented on /docs/api (`/api/plugins`, `/api/marketplaces`,
+ * `/api/search`, `/api/analytics`) from the generated files in public/data, so the
+ * registry can be queried programmatically without the static site.
+ */
+
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import type { ApiResponse } from '../src/types/common';
+import type { PaginationInfo, PaginatedResponse } from '../src/types/ecosystem-stats';
+import { createPaginatedResponse } from '../src/types/ecosystem-stats-utils';
+
+const DEFAULT_PORT = 3001;
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+const FEATURED_MARKETPLACE_COUNT = 10;
+
+export interface ApiPlugin {
+  id: string;
+  name: string;
+  description: string;
+  version: string;
+  author: string;
+  category: string;
+  tags: string[];
+  repository: string;
+  marketplaceId: string;
+  marketplaceName: string;
+  stars: number;
+  downloads: number;
+  updatedAt: string;
+  verified: boolean;
+  featured: boolean;
+}
+
+export interface ApiMarketplace {
+  id: string;
+  name: string;
+  description: string;
+  url: string;
+  owner: string;
+  category: string;
+  topics: string[];
+  language: string;
+  license: string;
+  stars: number;
+  forks: number;
+  pluginCount: number;
+  updatedAt: string;
+  verified: boolean;
+  featured: boolean;
+}
+
+export interface RegistryData {
+  plugins: ApiPlugin[];
+  marketplaces: ApiMarketplace[];
+  /** public/data/stats.json (EcosystemStatsResponse) */
+  stats: Record<string, unknown> | null;
+  lastUpdated: string;
+}
+
+export interface ApiResult {
+  status: number;
+  body: unknown;
+}
+
+/**
+ * Error with an HTTP status, converted into an ApiResponse by the request handler
+ */
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// Records as written by the scanner and the data generator; every field may be missing
+interface RawMarketplace {
+  id?: string | number;
+  name?: string;
+  description?: string;
+  url?: string;
+  repository?: { url?: string; stars?: number; forks?: number };
+  owner?: { name?: string };
+  topics?: string[];
+  tags?: string[];
+  language?: string;
+  license?: string;
+  stars?: number;
+  forks?: number;
+  updatedAt?: string;
+  hasManifest?: boolean;
+  manifest?: unknown;
+}
+
+interface RawPlugin {
+  id: string;
+  name?: string;
+  description?: string;
+  version?: string;
+  author?: string | { name?: string };
+  repository?: string;
+  marketplaceId?: string | number;
+  marketplaceName?: string;
+  metadata?: { marketplaceId?: string | number; marketplaceName?: string };
+  manifest?: { category?: string; keywords?: string[]; tags?: string[] };
+  isValid?: boolean;
+}
+
+interface RawCompleteData {
+  categories?: Array<{ name?: string; marketplaces?: string[] }>;
+  stats?: { lastUpdated?: string };
+}
+
+const PLUGIN_SORT_FIELDS = ['name', 'stars', 'downloads', 'updated', 'author', 'category'] as const;
+const MARKETPLACE_SORT_FIELDS = ['name', 'stars', 'category', 'owner'] as const;
+const SEARCH_TYPES = ['plugins', 'marketplaces', 'all'] as const;
+const ANALYTICS_TYPES = [
+  'overview',
+  'plugins',
+  'marketplaces',
+  'searches',
+  'pageviews',
+  'events',
+] as const;
+const TIME_RANGES: Record<string, number> = { '24h': 1, '7d': 7, '30d': 30 };
+
+// ============================================================================
+// DATA LOADING
+// ============================================================================
+
+function readJson(filePath: string): unknown {
+  if (!fs.existsSync(filePath)) return null;
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+}
+
+/**
+ * Accept both the wrapped `{ <key>: [...] }` format written by the scanner and
+ * the plain array written by the data generator
+ */
+function unwrapArray<T>(data: unknown, key: string): T[] {
+  if (Array.isArray(data)) return data;
+  const wrapped = data && typeof data === 'object' ? (data as Record<string, unknown>)[key] : null;
+  return Array.isArray(wrapped) ? wrapped : [];
+}
+
+/**
+ * Load and normalize the registry from a public/data directory
+ */
+export function loadRegistryData(dataDir: string): RegistryData {
+  const complete = readJson(path.join(dataDir, 'complete.json')) as RawCompleteData | null;
+  const rawMarketplaces = unwrapArray<RawMarketplace>(
+    complete ?? readJson(path.join(dataDir, 'marketplaces.json')),
+    'marketplaces'
+  );
+  const rawPlugins = unwrapArray<RawPlugin>(
+    complete ?? readJson(path.join(dataDir, 'plugins.json')),
+    'plugins'
+  );
+  const categories = Array.isArray(complete?.categories) ? complete.categories : [];
+
+  const featuredIds = new Set(
+    [...rawMarketplaces]
+      .sort((a, b) => (b.stars ?? 0) - (a.stars ?? 0))
+      .slice(0, FEATURED_MARKETPLACE_COUNT)
+      .map((mp) => String(mp.id))
+  );
+
+  const pluginCounts = new Map<string, number>();
+  for (const plugin of rawPlugins) {
+    const marketplaceId = String(plugin.metadata?.marketplaceId ?? plugin.marketplaceId ?? '');
+    pluginCounts.set(marketplaceId, (pluginCounts.get(marketplaceId) || 0) + 1);
+  }
+
+  const marketplaces: ApiMarketplace[] = rawMarketplaces.map((mp) => {
+    const url: string = mp.url || mp.repository?.url || '';
+    const category = categories.find((cat) => (cat.marketplaces || []).includes(mp.name ?? ''));
+
+    return {
+      id: String(mp.id),
+      name: mp.name || '',
+      description: mp.description || '',
+      url,
+      owner: mp.owner?.name || url.split('/').slice(-2, -1)[0] || '',
+      category: category?.name || 'Uncategorized',
+      topics: mp.topics || mp.tags || [],
+      language: mp.language || 'Unknown',
+      license: mp.license || 'None',
+      stars: mp.stars ?? mp.repository?.stars ?? 0,
+      forks: mp.forks ?? mp.repository?.forks ?? 0,
+      pluginCount: pluginCounts.get(String(mp.id)) || 0,
+      updatedAt: mp.updatedAt || '',
+      verified: mp.hasManifest ?? !!mp.manifest,
+      featured: featuredIds.has(String(mp.id)),
+    };
+  });
+
+  const marketplaceById = new Map(marketplaces.map((mp) => [mp.id, mp]));
+
+  const plugins: ApiPlugin[] = rawPlugins.map((plugin) => {
+    const marketplaceId = String(plugin.metadata?.marketplaceId ?? plugin.marketplaceId ?? '');
+    const marketplace = marketplaceById.get(marketplaceId);
+    const manifest = plugin.manifest || {};
+
+    return {
+      id: plugin.id,
+      name: plugin.name || '',
+      description: plugin.description || '',
+      version: plugin.version || '',
+      author: typeof plugin.author === 'string' ? plugin.author : plugin.author?.name || '',
+      category: manifest.category || marketplace?.category || 'Uncategorized',
+      tags: manifest.keywords || manifest.tags || marketplace?.topics || [],
+      repository: plugin.repository || marketplace?.url || '',
+      marketplaceId,
+      marketplaceName: plugin.metadata?.marketplaceName ?? plugin.marketplaceName ?? '',
+      stars: marketplace?.stars ?? 0,
+      // Download counts are not collected yet
+      downloads: 0,
+      updatedAt: marketplace?.updatedAt || '',
+      verified: plugin.isValid ?? false,
+      featured: marketplace?.featured ?? false,
+    };
+  });
+
+  const stats = readJson(path.join(dataDir, 'stats.json')) as Record<string, unknown> | null;
+
+  return {
+    plugins,
+    marketplaces,
+    stats,
+    lastUpdated: complete?.stats?.lastUpdated || new Date().toISOString(),
+  };
+}
+
+// ============================================================================
+// QUERY HELPERS
+// ============================================================================
+
+function parseBoolean(params: URLSearchParams, name: string): boolean | undefined {
+  const value = params.get(name);
+  if (value === null || value === '') return undefined;
+  if (value === 'true' || value === '1') return true;
+  if (value === 'false' || value === '0') return false;
+  throw new ApiError(400, `Parameter "${name}" must be true or false`);
+}
+
+function parseInteger(params: URLSearchParams, name: string, fallback: number): number {
+  const value = params.get(name);
+  if (value === null || value === '') return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new ApiError(400, `Parameter "${name}" must be a non-negative integer`);
+  }
+  return parsed;
+}
+
+function parseEnum<T extends string>(
+  params: URLSearchParams,
+  name: string,
+  allowed: readonly T[],
+  fallback: T
+): T {
+  const value = params.get(name);
+  if (value === null || value === '') return fallback;
+  if (!(allowed as readonly string[]).includes(value)) {
+    throw new ApiError(400, `Parameter "${name}" must be one of: ${allowed.join(', ')}`);
+  }
+  return value as T;
+}
+
+function parsePage(params: URLSearchParams): { limit: number; offset: number } {
+  const limit = parseInteger(params, 'limit', DEFAULT_LIMIT);
+  if (limit === 0 || limit > MAX_LIMIT) {
+    throw new ApiError(400, `Parameter "limit" must be between 1 and ${MAX_LIMIT}`);
+  }
+  return { limit, offset: parseInteger(params, 'offset', 0) };
+}
+
+function equalsIgnoreCase(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function paginate<T>(
+  items: T[],
+  limit: number,
+  offset: number
+): { page: T[]; pagination: PaginationInfo } {
+  const total = items.length;
+  return {
+    page: items.slice(offset, offset + limit),
+    pagination: {
+      page: Math.floor(offset / limit) + 1,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+      hasNext: offset + limit < total,
+      hasPrev: offset > 0,
+      offset,
+    },
+  };
+}
+
+function sortBy<T>(items: T[], getValue: (item: T) => string | number, order: 'asc' | 'desc') {
+  const direction = order === 'asc' ? 1 : -1;
+  return [...items].sort((a, b) => {
+    const left = getValue(a);
+    const right = getValue(b);
+    if (typeof left === 'number' && typeof right === 'number') {
+      return (left - right) * direction;
+    }
+    return String(left).localeCompare(String(right)) * direction;
+  });
+}
+
+/**
+ * Text fields default to ascending order, numeric and date fields to descending
+ */
+function parseOrder(params: URLSearchParams, sort: string): 'asc' | 'desc' {
+  const textFields = ['name', 'author', 'category', 'owner'];
+  return parseEnum(params, 'order', ['asc', 'desc'], textFields.includes(sort) ? 'asc' : 'desc');
+}
+
+function matchesQuery(fields: Array<string | string[]>, query: string): boolean {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const haystack = fields.flat().join(' ').toLowerCase();
+  return terms.every((term) => haystack.includes(term));
+}
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+export function listPlugins(
+  data: RegistryData,
+  params: URLSearchParams
+): PaginatedResponse<ApiPlugin> {
+  const category = params.get('category');
+  const tags = (params.get('tags') || '')
+    .split(',')
+    .map((tag) => tag.trim().toLowerCase())
+    .filter(Boolean);
+  const author = params.get('author');
+  const verified = parseBoolean(params, 'verified');
+  const featured = parseBoolean(params, 'featured');
+  const sort = parseEnum(params, 'sort', PLUGIN_SORT_FIELDS, 'name');
+  const order = parseOrder(params, sort);
+  const { limit, offset } = parsePage(params);
+
+  const filtered = data.plugins.filter(
+    (plugin) =>
+      (!category || equalsIgnoreCase(plugin.category, category)) &&
+      (tags.length === 0 ||
+        tags.every((tag) => plugin.tags.some((t) => equalsIgnoreCase(t, tag)))) &&
+      (!author || equalsIgnoreCase(plugin.author, author)) &&
+      (verified === undefined || plugin.verified === verified) &&
+      (featured === undefined || plugin.featured === featured)
+  );
+
+  const sorted = sortBy(
+    filtered,
+    (plugin) => {
+      switch (sort) {
+        case 'stars':
+          return plugin.stars;
+        case 'downloads':
+          return plugin.downloads;
+        case 'updated':
+          return new Date(plugin.updatedAt).getTime() || 0;
+        default:
+          return plugin[sort];
+      }
+    },
+    order
+  );
+
+  const { page, pagination } = paginate(sorted, limit, offset);
+  return createPaginatedResponse(page, pagination);
+}
+
+export function listMarketplaces(
+  data: RegistryData,
+  params: URLSearchParams
+): PaginatedResponse<ApiMarketplace> {
+  const category = params.get('category');
+  const verified = parseBoolean(params, 'verified');
+  const featured = parseBoolean(params, 'featured');
+  const sort = parseEnum(params, 'sort', MARKETPLACE_SORT_FIELDS, 'name');
+  const order = parseOrder(params, sort);
+  const { limit, offset } = parsePage(params);
+
+  const filtered = data.marketplaces.filter(
+    (marketplace) =>
+      (!category || equalsIgnoreCase(marketplace.category, category)) &&
+      (verified === undefined || marketplace.verified === verified) &&
+      (featured === undefined || marketplace.featured === featured)
+  );
+
+  const sorted = sortBy(filtered, (marketplace) => marketplace[sort], order);
+  const { page, pagination } = paginate(sorted, limit, offset);
+  return createPaginatedResponse(page, pagination);
+}
+
+export function search(
+  data: RegistryData,
+  params: URLSearchParams
+): ApiResponse<{
+  query: string;
+  results: { plugins: ApiPlugin[]; marketplaces: ApiMarketplace[] };
+  total: { plugins: number; marketplaces: number };
+}> {
+  const query = (params.get('q') || '').trim();
+  if (!query) {
+    throw new ApiError(400, 'Parameter "q" is required');
+  }
+  const type = parseEnum(params, 'type', SEARCH_TYPES, 'all');
+  const { limit, offset } = parsePage(params);
+
+  const plugins =
+    type === 'marketplaces'
+      ? []
+      : data.plugins.filter((plugin) =>
+          matchesQuery(
+            [plugin.name, plugin.description, plugin.author, plugin.marketplaceName, plugin.tags],
+            query
+          )
+        );
+  const marketplaces =
+    type === 'plugins'
+      ? []
+      : data.marketplaces.filter((marketplace) =>
+          matchesQuery(
+            [marketplace.name, marketplace.description, marketplace.owner, marketplace.topics],
+            query
+          )
+        );
+
+  return {
+    success: true,
+    data: {
+      query,
+      results: {
+        plugins: plugins.slice(offset, offset + limit),
+        marketplaces: marketplaces.slice(offset, offset + limit),
+      },
+      total: { plugins: plugins.length, marketplaces: marketplaces.length },
+    },
+  };
+}
+
+export function getAnalytics(
+  data: RegistryData,
+  params: URLSearchParams
+): ApiResponse<Record<string, unknown>> {
+  const type = parseEnum(params, 'type', ANALYTICS_TYPES, 'overview');
+  const timeRange = parseEnum(params, 'timeRange', Object.keys(TIME_RANGES), '30d');
+  const limit = parseInteger(params, 'limit', 10);
+  const statsData = (data.stats?.data || {}) as Record<string, unknown>;
+
+  const since = Date.now() - TIME_RANGES[timeRange] * 24 * 60 * 60 * 1000;
+  const inRange = (points: unknown) =>
+    (Array.isArray(points) ? points : []).filter(
+      (point: { date?: string }) => new Date(point.date || 0).getTime() >= since
+    );
+
+  switch (type) {
+    case 'overview':
+      return {
+        success: true,
+        data: {
+          timeRange,
+          overview: statsData.overview ?? null,
+          trends: {
+            plugins: inRange(statsData.plugins),
+            marketplaces: inRange(statsData.marketplaces),
+          },
+          lastUpdated: data.lastUpdated,
+        },
+      };
+    case 'plugins':
+      return {
+        success: true,
+        data: {
+          timeRange,
+          total: data.plugins.length,
+          verified: data.plugins.filter((plugin) => plugin.verified).length,
+          categories: statsData.categories ?? [],
+          topPlugins: sortBy(data.plugins, (plugin) => plugin.stars, 'desc').slice(0, limit),
+        },
+      };
+    case 'marketplaces':
+      return {
+        success: true,
+        data: {
+          timeRange,
+          total: data.marketplaces.length,
+          withManifest: data.marketplaces.filter((marketplace) => marketplace.verified).length,
+          topMarketplaces: sortBy(data.marketplaces, (mp) => mp.stars, 'desc').slice(0, limit),
+        },
+      };
+    default:
+      // The static registry does not record visitor analytics
+      throw new ApiError(404, `Analytics type "${type}" is not available in local data`);
+  }
+}
+
+/**
+ * Route a request to its handler. Pure function so it can be tested without a socket.
+ */
+export function handleApiRequest(
+  data: RegistryData,
+  url: URL,
+  headers: http.IncomingHttpHeaders = {},
+  apiKey: string | undefined = process.env.API_KEY
+): ApiResult {
+  try {
+    switch (url.pathname.replace(/\/+$/, '')) {
+      case '/api/plugins':
+        return { status: 200, body: listPlugins(data, url.searchParams) };
+      case '/api/marketplaces':
+        return { status: 200, body: listMarketplaces(data, url.searchParams) };
+      case '/api/search':
+        return { status: 200, body: search(data, url.searchParams) };
+      case '/api/analytics':
+        // Only enforced when the server is started with API_KEY set
+        if (apiKey && headers['x-api-key'] !== apiKey) {
+          throw new ApiError(401, 'Missing or invalid API key');
+        }
+        return { status: 200, body: getAnalytics(data, url.searchParams) };
+      default:
+        throw new ApiError(404, `Unknown endpoint: ${url.pathname}`);
+    }
+  } catch (error) {
+    const status = error instanceof ApiError ? error.status : 500;
+    const body: ApiResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+    return { status, body };
+  }
+}
+
+export function createApiServer(data: RegistryData): http.Server {
+  return http.createServer((req, res) => {
+    // Only the path and query are used; a fixed base keeps malformed Host headers harmless
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-API-Key');
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    const result =
+      req.method === 'GET'
+        ? handleApiRequest(data, url, req.headers)
+        : { status: 405, body: { success: false, error: 'Method not allowed' } };
+
+    res.writeHead(result.status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(result.body, null, 2));
+    console.log(`${req.method} ${url.pathname}${url.search} → ${result.status}`);
+  });
+}
+
+// CLI execution
+async function main() {
+  const dataDirArg = process.argv.find((arg) => arg.startsWith('--data-dir='));
+  const dataDir = dataDirArg
+    ? path.resolve(dataDirArg.split('=')[1])
+    : path.join(process.cwd(), 'public', 'data');
+  const port = parseInt(process.env.API_PORT || String(DEFAULT_PORT));
+
+  console.log('🌐 Claude Marketplace API Server');
+  console.log(`Data directory: ${dataDir}`);
+
+  try {
+    const data = loadRegistryData(dataDir);
+    console.log(
+      `📁 Loaded ${data.plugins.length} plugins and ${data.marketplaces.length} marketplaces`
+    );
+    if (process.env.API_KEY) {
+      console.log('🔑 /api/analytics requires the X-API-Key header');
+    }
+
+    createApiServer(data).listen(port, () => {
+      console.log(`✅ Listening on http://localhost:${port}`);
+    });
+  } catch (error) {
+    console.error('❌ Failed to start API server:', error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
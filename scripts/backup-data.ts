@@ -9,7 +9,7 @@
 
 import fs from 'fs';
 import path from 'path';
-import { createGzip } from 'zlib';
+import { createGzip, gunzipSync } from 'zlib';
 import { pipeline } from 'stream/promises';
 import { createHash } from 'crypto';
 
@@ -27,7 +27,7 @@ interface BackupConfig {
   };
 }
 
-interface BackupInfo {
+export interface BackupInfo {
   id: string;
   timestamp: string;
   version: string;
@@ -500,6 +500,33 @@ class DataBackupManager {
       (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
     );
   }
+
+  /**
+   * Most recent backup whose files are still on disk (old daily backups are pruned)
+   */
+  public getLatestBackup(): BackupInfo | null {
+    return (
+      this.listBackups().find((backup) =>
+        fs.existsSync(path.join(this.config.backupDir, 'daily', backup.id))
+      ) ?? null
+    );
+  }
+
+  /**
+   * Read one backed-up file by its path relative to the source directory,
+   * decompressing it if needed. Returns null when the backup does not contain it.
+   */
+  public readBackupFile(backupId: string, relativePath: string): string | null {
+    const filePath = path.join(this.config.backupDir, 'daily', backupId, relativePath);
+
+    if (fs.existsSync(`${filePath}.gz`)) {
+      return gunzipSync(fs.readFileSync(`${filePath}.gz`)).toString('utf8');
+    }
+    if (fs.existsSync(filePath)) {
+      return fs.readFileSync(filePath, 'utf8');
+    }
+    return null;
+  }
 }
 
 // CLI interface
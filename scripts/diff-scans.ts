@@ -0,0 +1,488 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Scan Diff Report
+ *
+ * Compares the current public/data files with the latest backup created by
+ * DataBackupManager and writes public/data/changes/<date>.json plus a Markdown
+ * summary next to it.
+ *
+ * Usage: npm run diff:scans [-- --backup <backup-id>]
+ */
+
+import fs from 'fs';
+import path from 'path';
+import DataBackupManager from './backup-data';
+import { diffManifests, PluginManifestSnapshot } from './version-history';
+import { createPluginId, toPluginSlug } from '../src/utils/plugin-id';
+import type {
+  ScanChangeReport,
+  ScanChangeSubject,
+  ScanQualityChange,
+} from '../src/types/processing';
+
+/**
+ * Reads a data file by its path relative to public/data; null when it does not exist
+ */
+export type DataFileReader = (relativePath: string) => string | null;
+
+export interface ScannedMarketplace {
+  id: string;
+  name: string;
+  qualityScore?: number;
+}
+
+export interface ScannedPlugin {
+  /** UI plugin ID (see createPluginId) */
+  id: string;
+  name: string;
+  marketplaceId: string;
+  version: string;
+  /** Source path inside the marketplace, used to recognise renames */
+  source: string;
+  isValid: boolean;
+  errors: string[];
+  manifest: PluginManifestSnapshot;
+  qualityScore?: number;
+}
+
+export interface ScanState {
+  scannedAt: string;
+  marketplaces: ScannedMarketplace[];
+  plugins: ScannedPlugin[];
+}
+
+// Records as published in the data files; any field may be missing
+interface RawMarketplace {
+  id?: string | number;
+  name?: string;
+  qualityScore?: unknown;
+}
+
+interface RawPlugin {
+  name: string;
+  version?: string;
+  manifestPath?: string;
+  isValid?: boolean;
+  errors?: unknown;
+  manifest?: PluginManifestSnapshot;
+  marketplaceId?: string | number;
+  metadata?: { marketplaceId?: string | number };
+}
+
+interface RawCompleteData {
+  marketplaces?: unknown;
+  plugins?: unknown;
+  stats?: { lastUpdated?: string };
+}
+
+function readJson(read: DataFileReader, relativePath: string): unknown {
+  const text = read(relativePath);
+  if (text === null) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Load what one scan published from its data files
+ *
+ * @returns null when complete.json is missing or unreadable
+ */
+export function loadScanState(read: DataFileReader): ScanState | null {
+  const complete = readJson(read, 'complete.json') as RawCompleteData | null;
+  if (!complete || !Array.isArray(complete.marketplaces) || !Array.isArray(complete.plugins)) {
+    return null;
+  }
+  const rawMarketplaces: RawMarketplace[] = complete.marketplaces;
+  const rawPlugins: RawPlugin[] = complete.plugins;
+
+  // The scanner's marketplaces.json carries quality scores; the generator's array copy does not
+  const marketplaceQuality = new Map<string, number>();
+  const listed = readJson(read, 'marketplaces.json') as { marketplaces?: unknown } | null;
+  const listedMarketplaces: RawMarketplace[] = Array.isArray(listed?.marketplaces)
+    ? listed.marketplaces
+    : [];
+  for (const entry of listedMarketplaces) {
+    if (typeof entry?.qualityScore === 'number') {
+      marketplaceQuality.set(String(entry.id), entry.qualityScore);
+    }
+  }
+
+  const marketplaces: ScannedMarketplace[] = rawMarketplaces.map((mp) => ({
+    id: String(mp.id),
+    name: mp.name || '',
+    qualityScore: marketplaceQuality.get(String(mp.id)),
+  }));
+
+  const plugins: ScannedPlugin[] = rawPlugins.map((plugin) => {
+    const marketplaceId = String(plugin.metadata?.marketplaceId ?? plugin.marketplaceId ?? '');
+    const id = createPluginId(marketplaceId, plugin.name);
+    const details = readJson(
+      read,
+      path.posix.join('plugins', toPluginSlug(id), 'details.json')
+    ) as { quality?: { score?: unknown } } | null;
+    const score = details?.quality?.score;
+
+    return {
+      id,
+      name: plugin.name,
+      marketplaceId,
+      version: plugin.version || '',
+      source: plugin.manifestPath || '',
+      isValid: plugin.isValid !== false,
+      errors: Array.isArray(plugin.errors) ? plugin.errors : [],
+      manifest: plugin.manifest ?? {},
+      qualityScore: typeof score === 'number' ? score : undefined,
+    };
+  });
+
+  return { scannedAt: complete.stats?.lastUpdated || '', marketplaces, plugins };
+}
+
+const byId = (a: { id: string }, b: { id: string }) => a.id.localeCompare(b.id);
+
+const toSubject = (item: ScannedMarketplace | ScannedPlugin): ScanChangeSubject =>
+  'marketplaceId' in item
+    ? { id: item.id, name: item.name, marketplaceId: item.marketplaceId }
+    : { id: item.id, name: item.name };
+
+function qualityChange(
+  previous: ScannedMarketplace | ScannedPlugin,
+  current: ScannedMarketplace | ScannedPlugin
+): ScanQualityChange | null {
+  if (
+    previous.qualityScore === undefined ||
+    current.qualityScore === undefined ||
+    previous.qualityScore === current.qualityScore
+  ) {
+    return null;
+  }
+  return {
+    ...toSubject(current),
+    previous: previous.qualityScore,
+    current: current.qualityScore,
+    delta: current.qualityScore - previous.qualityScore,
+  };
+}
+
+/**
+ * Pair removed and added plugins that share a marketplace and source path.
+ * Only unambiguous pairs count as renames.
+ */
+function findRenames(
+  removed: ScannedPlugin[],
+  added: ScannedPlugin[]
+): Array<[ScannedPlugin, ScannedPlugin]> {
+  const group = (plugins: ScannedPlugin[]) => {
+    const groups = new Map<string, ScannedPlugin[]>();
+    for (const plugin of plugins) {
+      if (!plugin.source) continue;
+      const key = `${plugin.marketplaceId}\u0000${plugin.source}`;
+      groups.set(key, [...(groups.get(key) ?? []), plugin]);
+    }
+    return groups;
+  };
+
+  const addedBySource = group(added);
+  const pairs: Array<[ScannedPlugin, ScannedPlugin]> = [];
+
+  for (const [key, candidates] of group(removed)) {
+    const matches = addedBySource.get(key);
+    if (candidates.length === 1 && matches?.length === 1) {
+      pairs.push([candidates[0], matches[0]]);
+    }
+  }
+
+  return pairs;
+}
+
+/**
+ * Compare two scans
+ */
+export function diffScans(
+  previous: ScanState,
+  current: ScanState,
+  backupId: string,
+  generatedAt: string = new Date().toISOString()
+): ScanChangeReport {
+  const previousMarketplaces = new Map(previous.marketplaces.map((mp) => [mp.id, mp]));
+  const currentMarketplaces = new Map(current.marketplaces.map((mp) => [mp.id, mp]));
+  const previousPlugins = new Map(previous.plugins.map((plugin) => [plugin.id, plugin]));
+  const currentPlugins = new Map(current.plugins.map((plugin) => [plugin.id, plugin]));
+
+  const marketplaceQuality = current.marketplaces
+    .map((mp) => {
+      const earlier = previousMarketplaces.get(mp.id);
+      return earlier ? qualityChange(earlier, mp) : null;
+    })
+    .filter((change): change is ScanQualityChange => change !== null);
+
+  const addedPlugins = current.plugins.filter((plugin) => !previousPlugins.has(plugin.id));
+  const removedPlugins = previous.plugins.filter((plugin) => !currentPlugins.has(plugin.id));
+  const renames = findRenames(removedPlugins, addedPlugins);
+  const renamedIds = new Set(renames.flatMap(([before, after]) => [before.id, after.id]));
+
+  // Plugins present in both scans, including renamed ones
+  const matched: Array<[ScannedPlugin, ScannedPlugin]> = [
+    ...current.plugins.flatMap((plugin): Array<[ScannedPlugin, ScannedPlugin]> => {
+      const earlier = previousPlugins.get(plugin.id);
+      return earlier ? [[earlier, plugin]] : [];
+    }),
+    ...renames,
+  ].sort((a, b) => byId(a[1], b[1]));
+
+  const plugins: ScanChangeReport['plugins'] = {
+    added: addedPlugins
+      .filter((plugin) => !renamedIds.has(plugin.id))
+      .map(toSubject)
+      .sort(byId),
+    removed: removedPlugins
+      .filter((plugin) => !renamedIds.has(plugin.id))
+      .map(toSubject)
+      .sort(byId),
+    renamed: renames
+      .map(([before, after]) => ({
+        ...toSubject(after),
+        previousId: before.id,
+        previousName: before.name,
+      }))
+      .sort(byId),
+    versionBumps: matched
+      .filter(([before, after]) => before.version !== after.version)
+      .map(([before, after]) => ({
+        ...toSubject(after),
+        previous: before.version,
+        current: after.version,
+      })),
+    manifestChanges: matched
+      .map(([before, after]) => ({
+        ...toSubject(after),
+        // Versions and names are reported as bumps and renames
+        changes: diffManifests(before.manifest, after.manifest).filter(
+          (change) => change.field !== 'version' && change.field !== 'name'
+        ),
+      }))
+      .filter((entry) => entry.changes.length > 0),
+    qualityChanges: matched
+      .map(([before, after]) => qualityChange(before, after))
+      .filter((change): change is ScanQualityChange => change !== null),
+    newlyInvalid: matched
+      .filter(([before, after]) => before.isValid && !after.isValid)
+      .map(([, after]) => ({ ...toSubject(after), errors: after.errors })),
+  };
+
+  const marketplaces: ScanChangeReport['marketplaces'] = {
+    added: current.marketplaces
+      .filter((mp) => !previousMarketplaces.has(mp.id))
+      .map(toSubject)
+      .sort(byId),
+    removed: previous.marketplaces
+      .filter((mp) => !currentMarketplaces.has(mp.id))
+      .map(toSubject)
+      .sort(byId),
+    qualityChanges: marketplaceQuality.sort(byId),
+  };
+
+  return {
+    generatedAt,
+    previous: { backupId, scannedAt: previous.scannedAt },
+    current: { scannedAt: current.scannedAt },
+    summary: {
+      marketplacesAdded: marketplaces.added.length,
+      marketplacesRemoved: marketplaces.removed.length,
+      pluginsAdded: plugins.added.length,
+      pluginsRemoved: plugins.removed.length,
+      pluginsRenamed: plugins.renamed.length,
+      versionBumps: plugins.versionBumps.length,
+      manifestChanges: plugins.manifestChanges.length,
+      qualityChanges: marketplaces.qualityChanges.length + plugins.qualityChanges.length,
+      newlyInvalid: plugins.newlyInvalid.length,
+    },
+    marketplaces,
+    plugins,
+  };
+}
+
+const SUMMARY_LABELS: Record<keyof ScanChangeReport['summary'], string> = {
+  marketplacesAdded: 'New marketplaces',
+  marketplacesRemoved: 'Removed marketplaces',
+  pluginsAdded: 'New plugins',
+  pluginsRemoved: 'Removed plugins',
+  pluginsRenamed: 'Renamed plugins',
+  versionBumps: 'Version bumps',
+  manifestChanges: 'Manifest changes',
+  qualityChanges: 'Quality score changes',
+  newlyInvalid: 'Newly invalid plugins',
+};
+
+const formatDelta = (delta: number) => (delta > 0 ? `+${delta}` : String(delta));
+
+/**
+ * Render a change report as a Markdown summary
+ */
+export function renderChangeReportMarkdown(report: ScanChangeReport): string {
+  const { marketplaces, plugins } = report;
+  const lines = [
+    `# Ecosystem changes — ${report.current.scannedAt.slice(0, 10)}`,
+    '',
+    `Compared with backup \`${report.previous.backupId}\` (scanned ${report.previous.scannedAt || 'at an unknown time'}).`,
+    '',
+  ];
+
+  const total = Object.values(report.summary).reduce((sum, count) => sum + count, 0);
+  if (total === 0) {
+    lines.push('No changes since the previous scan.', '');
+    return lines.join('\n');
+  }
+
+  lines.push('| Change | Count |', '| --- | ---: |');
+  for (const [key, label] of Object.entries(SUMMARY_LABELS)) {
+    lines.push(`| ${label} | ${report.summary[key as keyof typeof SUMMARY_LABELS]} |`);
+  }
+  lines.push('');
+
+  const section = (title: string, items: string[]) => {
+    if (items.length === 0) return;
+    lines.push(`## ${title}`, '', ...items.map((item) => `- ${item}`), '');
+  };
+  const named = (subject: ScanChangeSubject) => `**${subject.name}** (\`${subject.id}\`)`;
+  const quality = (change: ScanQualityChange) =>
+    `${named(change)}: ${change.previous} → ${change.current} (${formatDelta(change.delta)})`;
+
+  section(SUMMARY_LABELS.marketplacesAdded, marketplaces.added.map(named));
+  section(SUMMARY_LABELS.marketplacesRemoved, marketplaces.removed.map(named));
+  section(SUMMARY_LABELS.pluginsAdded, plugins.added.map(named));
+  section(SUMMARY_LABELS.pluginsRemoved, plugins.removed.map(named));
+  section(
+    SUMMARY_LABELS.pluginsRenamed,
+    plugins.renamed.map((entry) => `**${entry.previousName}** → ${named(entry)}`)
+  );
+  section(
+    SUMMARY_LABELS.versionBumps,
+    plugins.versionBumps.map(
+      (entry) => `${named(entry)}: ${entry.previous || '(none)'} → ${entry.current || '(none)'}`
+    )
+  );
+  section(
+    SUMMARY_LABELS.manifestChanges,
+    plugins.manifestChanges.map(
+      (entry) =>
+        `${named(entry)}: ${entry.changes.map((change) => `\`${change.field}\``).join(', ')}`
+    )
+  );
+  section(SUMMARY_LABELS.qualityChanges, [
+    ...marketplaces.qualityChanges.map((change) => `Marketplace ${quality(change)}`),
+    ...plugins.qualityChanges.map(quality),
+  ]);
+  section(
+    SUMMARY_LABELS.newlyInvalid,
+    plugins.newlyInvalid.map(
+      (entry) => `${named(entry)}: ${entry.errors.join('; ') || 'no errors recorded'}`
+    )
+  );
+
+  return lines.join('\n');
+}
+
+export class ScanDiffReporter {
+  private dataDir: string;
+  private backupManager: DataBackupManager;
+
+  constructor(dataDir: string, backupManager: DataBackupManager) {
+    this.dataDir = dataDir;
+    this.backupManager = backupManager;
+  }
+
+  /**
+   * Diff the current data against a backup (the latest one by default)
+   *
+   * @returns null when there is no backup or either scan cannot be read
+   */
+  run(backupId?: string): ScanChangeReport | null {
+    const backup = backupId
+      ? this.backupManager.listBackups().find((entry) => entry.id === backupId)
+      : this.backupManager.getLatestBackup();
+
+    if (!backup) {
+      console.warn(
+        backupId
+          ? `⚠️ Backup not found: ${backupId}`
+          : 'ℹ️ No backup to compare against yet (create one with npm run backup:create)'
+      );
+      return null;
+    }
+
+    const current = loadScanState((relativePath) => {
+      const filePath = path.join(this.dataDir, relativePath);
+      return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : null;
+    });
+    const previous = loadScanState((relativePath) =>
+      this.backupManager.readBackupFile(backup.id, relativePath)
+    );
+
+    if (!current || !previous) {
+      console.warn(`⚠️ Could not read complete.json from ${current ? backup.id : this.dataDir}`);
+      return null;
+    }
+
+    if (!previous.scannedAt) previous.scannedAt = backup.timestamp;
+    return diffScans(previous, current, backup.id);
+  }
+
+  /**
+   * Write changes/<date>.json and changes/<date>.md under the data directory
+   */
+  writeReport(report: ScanChangeReport): string {
+    const changesDir = path.join(this.dataDir, 'changes');
+    if (!fs.existsSync(changesDir)) {
+      fs.mkdirSync(changesDir, { recursive: true });
+    }
+
+    const date = (report.current.scannedAt || report.generatedAt).slice(0, 10);
+    const jsonPath = path.join(changesDir, `${date}.json`);
+    fs.writeFileSync(jsonPath, JSON.stringify(report, null, 2));
+    fs.writeFileSync(path.join(changesDir, `${date}.md`), renderChangeReportMarkdown(report));
+    return jsonPath;
+  }
+}
+
+/**
+ * Create a reporter comparing public/data with the latest backup
+ */
+export function createScanDiffReporter(
+  dataDir: string = path.join(process.cwd(), 'public', 'data'),
+  backupManager: DataBackupManager = new DataBackupManager()
+): ScanDiffReporter {
+  return new ScanDiffReporter(dataDir, backupManager);
+}
+
+// CLI interface
+async function main(): Promise<void> {
+  const backupFlag = process.argv.indexOf('--backup');
+  const backupId = backupFlag === -1 ? undefined : process.argv[backupFlag + 1];
+
+  console.log('🔍 Comparing current scan with the previous backup...');
+
+  const reporter = createScanDiffReporter();
+  const report = reporter.run(backupId);
+  if (!report) return;
+
+  const reportPath = reporter.writeReport(report);
+  const changes = Object.entries(report.summary)
+    .filter(([, count]) => count > 0)
+    .map(([key, count]) => `${SUMMARY_LABELS[key as keyof typeof SUMMARY_LABELS]}: ${count}`);
+
+  console.log(changes.length > 0 ? `📊 ${changes.join(', ')}` : '📊 No changes');
+  console.log(`✅ Change report written to ${reportPath}`);
+}
+
+// Run if called directly
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('❌ Scan diff failed:', error);
+    process.exit(1);
+  });
+}
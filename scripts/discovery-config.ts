@@ -0,0 +1,74 @@
+/**
+ * Discovery Config Module
+ *
+ * Loads the marketplace scanner's seed repositories and search strategies, by default
+ * from config/discovery-strategies.json (override with DISCOVERY_CONFIG), adds seeds
+ * promoted from community submissions and keeps the per-scan yield history in
+ * data/history/discovery.jsonl.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  parseDiscoveryConfig,
+  parseDiscoveryYieldReports,
+  serializeDiscoveryYieldReport,
+} from '../src/utils/discovery-strategies';
+import type { DiscoveryConfig, DiscoveryYieldReport } from '../src/types/processing';
+import { loadJsonConfig } from './json-config';
+import { createJsonlStore, JsonlStore } from './jsonl-store';
+
+export function getDiscoveryConfigPath(): string {
+  return (
+    process.env.DISCOVERY_CONFIG || path.join(process.cwd(), 'config', 'discovery-strategies.json')
+  );
+}
+
+/**
+ * Read the discovery configuration and log the strategies in use
+ */
+export function loadDiscoveryConfig(filePath: string = getDiscoveryConfigPath()): DiscoveryConfig {
+  const config = loadJsonConfig(filePath, parseDiscoveryConfig);
+  const enabled = config.strategies.filter((strategy) => strategy.enabled).length;
+  console.log(
+    `🧭 Using discovery strategies v${config.version} (${config.seeds.length} seeds, ${enabled}/${config.strategies.length} strategies enabled)`
+  );
+  return config;
+}
+
+/**
+ * Add a repository (owner/repo) to the seed list. The file is rewritten as JSON, so
+ * strategies keep only the fields they set.
+ *
+ * @returns false when the repository was already a seed
+ */
+export function addDiscoverySeed(
+  repository: string,
+  filePath: string = getDiscoveryConfigPath()
+): boolean {
+  const raw = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  // Validate before writing so a broken config is never made worse
+  const { seeds } = parseDiscoveryConfig(raw);
+  if (seeds.some((seed) => seed.toLowerCase() === repository.toLowerCase())) {
+    return false;
+  }
+
+  raw.seeds = [...seeds, repository];
+  parseDiscoveryConfig(raw);
+  fs.writeFileSync(filePath, `${JSON.stringify(raw, null, 2)}\n`);
+  return true;
+}
+
+export type DiscoveryYieldStore = JsonlStore<DiscoveryYieldReport>;
+
+/**
+ * Create a store for the per-scan discovery yield, data/history/discovery.jsonl by default
+ */
+export function createDiscoveryYieldStore(
+  filePath: string = path.join(process.cwd(), 'data', 'history', 'discovery.jsonl')
+): DiscoveryYieldStore {
+  return createJsonlStore(filePath, {
+    parse: parseDiscoveryYieldReports,
+    serialize: serializeDiscoveryYieldReport,
+  });
+}
@@ -10,6 +10,52 @@
 import fs from 'fs';
 import path from 'path';
 import { format, parseISO } from 'date-fns';
+import { createPluginId, toPluginSlug } from '../src/utils/plugin-id';
+import { extractManifestComponents } from '../src/utils/plugin-components';
+import { inventoryFromComponents, parseMcpConfig } from '../src/utils/plugin-inventory';
+import {
+  buildConflictReport,
+  ConflictCandidate,
+  findPluginConflicts,
+  groupConflictsByPlugin,
+} from '../src/utils/plugin-conflicts';
+import { assessMcpServers } from '../src/utils/mcp-analysis';
+import type { QualityScorer } from '../src/utils/quality-score';
+import { createConfiguredQualityScorer } from './quality-config';
+import { createModerator, moderateManifestPlugins, toRepositoryName } from './moderation';
+import { excludeDuplicateMarketplaces } from '../src/utils/marketplace-duplicates';
+import type { MarketplaceDuplicateRef } from '../src/types/marketplace';
+import type { QualityBreakdown } from '../src/types/processing';
+import type {
+  McpRiskAssessment,
+  McpRiskIndex,
+  PluginComponents,
+  PluginDetails,
+  PluginInventory,
+  PluginRepositoryStats,
+} from '../src/types/plugin';
+import { createVersionHistoryTracker, ObservedPlugin } from './version-history';
+import { createScanTimeSeriesStore } from './scan-timeseries';
+import { getScanStoreOptions } from './scan-store';
+import { createScanStore, ScanRecord } from '../src/data/scan-store';
+import { createScanTimeSeries, type ScanTimeSeries } from '../src/utils/scan-timeseries';
+import {
+  DataProcessor,
+  getGrowthAggregation,
+  TIME_RANGES,
+  TimeRange,
+} from '../src/utils/data-processor';
+import type { ScanSnapshot } from '../src/types/processing';
+import { buildStaticApi, writeStaticApi } from './static-api';
+import { buildSearchIndex, SearchableDocument } from '../src/utils/search-index';
+import { setQueryField } from '../src/utils/search-query';
+import {
+  FeedItem,
+  FeedScope,
+  getFeedDirectory,
+  renderFeedFiles,
+  renderRssFeed,
+} from '../src/utils/feeds';
 
 interface Marketplace {
   id: string;
@@ -25,6 +71,9 @@ interface Marketplace {
   topics: string[];
   hasManifest: boolean;
   manifest?: any;
+  /** Set on forks and mirrors, which are left out of the totals */
+  duplicateOf?: MarketplaceDuplicateRef;
+  duplicates?: MarketplaceDuplicateRef[];
 }
 
 interface Plugin {
@@ -39,6 +88,12 @@ interface Plugin {
   errors: string[];
   warnings: string[];
   metadata: any;
+  /** Present on plugins saved by the scanner's plugin discovery */
+  marketplaceId?: string;
+  manifest?: Record<string, unknown>;
+  components?: PluginComponents;
+  inventory?: PluginInventory;
+  repositoryStats?: PluginRepositoryStats;
 }
 
 interface GeneratedData {
@@ -48,6 +103,8 @@ interface GeneratedData {
     totalMarketplaces: number;
     totalPlugins: number;
     validPlugins: number;
+    /** Forks and mirrors listed but not counted in the totals */
+    duplicateMarketplaces: number;
     lastUpdated: string;
     topLanguages: Array<{ language: string; count: number }>;
     topMarketplaces: Array<{ name: string; stars: number; url: string }>;
@@ -71,11 +128,13 @@ class DataGenerator {
   private inputDir: string;
   private outputDir: string;
   private websiteOutputDir: string;
+  private qualityScorer: QualityScorer;
 
   constructor() {
     this.inputDir = path.join(process.cwd(), 'data');
     this.outputDir = path.join(this.inputDir, 'generated');
     this.websiteOutputDir = path.join(process.cwd(), 'public', 'data');
+    this.qualityScorer = createConfiguredQualityScorer();
 
     // Ensure output directories exist
     [this.outputDir, this.websiteOutputDir].forEach((dir) => {
@@ -89,9 +148,11 @@ class DataGenerator {
     console.log('🔧 Starting data generation...');
 
     try {
-      // Load raw data
-      const marketplaces = this.loadMarketplaceData();
-      const plugins = this.loadPluginData();
+      // Load raw data, without the marketplaces and plugins hidden by moderation rules
+      const { marketplaces, plugins } = this.applyModeration(
+        this.loadMarketplaceData(),
+        this.loadPluginData()
+      );
 
       console.log(`📁 Loaded ${marketplaces.length} marketplaces and ${plugins.length} plugins`);
 
@@ -104,17 +165,32 @@ class DataGenerator {
         tags: this.generateTags(marketplaces),
       };
 
+      // Append this scan to the time series that growth trends are computed from
+      const scanHistory = this.recordScanSnapshot(data);
+
       // Save generated data
-      await this.saveGeneratedData(data);
+      await this.saveGeneratedData(data, scanHistory);
+
+      // Keep the full scan and its validation results in the scan store, if one is configured
+      await this.saveToScanStore(data);
+
+      // Record plugin versions seen in this scan
+      await this.generateVersionHistory(data);
+
+      // Publish scanned components and repository statistics for plugin detail pages
+      await this.generatePluginDetails(data);
 
       // Generate website-specific data files
       await this.generateWebsiteData(data);
 
+      // Build the full-text search index used by the plugins page
+      await this.generateSearchIndex(data);
+
       // Generate sitemap
       await this.generateSitemap(data);
 
-      // Generate RSS feed
-      await this.generateRSSFeed(data);
+      // Generate "what's new" feeds
+      await this.generateFeeds(data);
 
       // Generate static API files
       await this.generateStaticApiFiles(data);
@@ -165,6 +241,8 @@ class DataGenerator {
       topics: mp.topics || mp.tags || [],
       hasManifest: mp.hasManifest ?? !!mp.manifest,
       manifest: mp.manifest,
+      duplicateOf: mp.duplicateOf,
+      duplicates: mp.duplicates,
     }));
   }
 
@@ -219,6 +297,7 @@ class DataGenerator {
             skills: entry.skills || [],
             strict: entry.strict ?? false,
           },
+          manifest: entry,
         });
       }
 
@@ -267,21 +346,80 @@ class DataGenerator {
     return plugins;
   }
 
+  /**
+   * Drop hidden marketplaces and plugins, record the changes in the audit trail and
+   * publish how many items are hidden and why (public/data/moderation.json)
+   */
+  private applyModeration(
+    marketplaces: Marketplace[],
+    plugins: Plugin[]
+  ): { marketplaces: Marketplace[]; plugins: Plugin[] } {
+    const moderator = createModerator();
+    const marketplaceRepos = new Map(marketplaces.map((mp) => [mp.id, toRepositoryName(mp.url)]));
+
+    // Manifest entries are filtered too, since the site lists plugins from them
+    const visibleMarketplaces = moderator
+      .filter(marketplaces, (mp) => ({
+        kind: 'marketplace',
+        marketplace: toRepositoryName(mp.url),
+      }))
+      .map((mp) => moderateManifestPlugins(moderator, mp));
+    const visiblePlugins = moderator.filter(plugins, (plugin) => {
+      const marketplaceId = plugin.marketplaceId ?? plugin.metadata?.marketplaceId;
+      return {
+        kind: 'plugin',
+        marketplace: marketplaceRepos.get(marketplaceId) ?? toRepositoryName(plugin.repository),
+        repository: toRepositoryName(plugin.repository),
+        name: plugin.name,
+      };
+    });
+    moderator.save();
+
+    const summary = moderator.getSummary();
+    fs.writeFileSync(
+      path.join(this.websiteOutputDir, 'moderation.json'),
+      JSON.stringify(summary, null, 2)
+    );
+    console.log(
+      `🛡️ Moderation: ${summary.hidden.marketplace} marketplaces and ${summary.hidden.plugin} plugins hidden`
+    );
+
+    return { marketplaces: visibleMarketplaces, plugins: visiblePlugins };
+  }
+
+  /**
+   * Marketplaces and plugins that ecosystem totals count: forks and mirrors, and the
+   * plugins they list, are left out
+   */
+  private getCountedData(
+    marketplaces: Marketplace[],
+    plugins: Plugin[]
+  ): { marketplaces: Marketplace[]; plugins: Plugin[] } {
+    return excludeDuplicateMarketplaces(
+      marketplaces,
+      plugins,
+      (plugin) => plugin.marketplaceId ?? plugin.metadata?.marketplaceId
+    );
+  }
+
   private generateStats(marketplaces: Marketplace[], plugins: Plugin[]) {
+    const counted = this.getCountedData(marketplaces, plugins);
     const stats = {
-      totalMarketplaces: marketplaces.length,
-      totalPlugins: plugins.length,
-      validPlugins: plugins.filter((p) => p.isValid).length,
+      totalMarketplaces: counted.marketplaces.length,
+      totalPlugins: counted.plugins.length,
+      validPlugins: counted.plugins.filter((p) => p.isValid).length,
+      duplicateMarketplaces: marketplaces.length - counted.marketplaces.length,
       lastUpdated: new Date().toISOString(),
-      topLanguages: this.getTopLanguages(marketplaces),
-      topMarketplaces: this.getTopMarketplaces(marketplaces),
-      recentActivity: this.getRecentActivity(marketplaces),
+      topLanguages: this.getTopLanguages(counted.marketplaces),
+      topMarketplaces: this.getTopMarketplaces(counted.marketplaces),
+      recentActivity: this.getRecentActivity(counted.marketplaces),
     };
 
     console.log('📊 Generated statistics:');
     console.log(`  - Marketplaces: ${stats.totalMarketplaces}`);
     console.log(`  - Plugins: ${stats.totalPlugins}`);
     console.log(`  - Valid plugins: ${stats.validPlugins}`);
+    console.log(`  - Forks and mirrors (not counted): ${stats.duplicateMarketplaces}`);
 
     return stats;
   }
@@ -291,9 +429,10 @@ class DataGenerator {
    * Wraps real data in the EcosystemStatsResponse shape that OverviewMetrics,
    * GrowthTrends, CategoryAnalytics, and QualityIndicators expect.
    */
-  private generateEcosystemStats(data: GeneratedData): any {
+  private generateEcosystemStats(data: GeneratedData, scanHistory: ScanTimeSeries): any {
     const now = new Date();
-    const totalStars = data.marketplaces.reduce((s, m) => s + m.stars, 0);
+    const counted = this.getCountedData(data.marketplaces, data.plugins);
+    const totalStars = counted.marketplaces.reduce((s, m) => s + m.stars, 0);
 
     // Load previous snapshot to compute growth rates
     const historyPath = path.join(this.websiteOutputDir, 'history.json');
@@ -322,7 +461,7 @@ class DataGenerator {
       previous > 0 ? Number((((current - previous) / previous) * 100).toFixed(1)) : 0;
 
     // Unique authors from plugins
-    const uniqueAuthors = new Set(data.plugins.map((p) => p.author)).size;
+    const uniqueAuthors = new Set(counted.plugins.map((p) => p.author)).size;
     const estimatedDownloads = Math.floor(totalStars * 10 + data.stats.totalPlugins * 150);
 
     // ── Overview (for OverviewMetrics) ──
@@ -345,12 +484,12 @@ class DataGenerator {
     };
 
     // ── Growth data points (for GrowthTrends) ──
-    const growthPoints = this.generateDeterministicGrowth(data, history);
+    const growthRanges = this.generateGrowthTrends(scanHistory, now);
 
     // ── Categories (for CategoryAnalytics) ──
     const catMap: Record<string, string[]> = {};
-    for (const p of data.plugins) {
-      const mp = data.marketplaces.find((m) => m.id === p.metadata?.marketplaceId);
+    for (const p of counted.plugins) {
+      const mp = counted.marketplaces.find((m) => m.id === p.metadata?.marketplaceId);
       const topics = mp?.topics || [];
       for (const t of topics) {
         if (!catMap[t]) catMap[t] = [];
@@ -391,7 +530,7 @@ class DataGenerator {
         ],
       },
       maintenance: {
-        recentlyUpdated: data.marketplaces.filter((m) => {
+        recentlyUpdated: counted.marketplaces.filter((m) => {
           const updated = new Date(m.updatedAt);
           return now.getTime() - updated.getTime() < 30 * 24 * 60 * 60 * 1000;
         }).length,
@@ -426,8 +565,9 @@ class DataGenerator {
       success: true,
       data: {
         overview,
-        // GrowthTrends reads these directly from data
-        ...growthPoints,
+        // GrowthTrends reads the default range directly from data, other ranges from `ranges`
+        ...growthRanges['30d'],
+        ranges: growthRanges,
         // CategoryAnalytics
         categories,
         trending: categories.filter((c) => c.trending).map((c) => c.id),
@@ -447,55 +587,80 @@ class DataGenerator {
   }
 
   /**
-   * Build deterministic growth data (no Math.random) from history + current counts.
+   * Build GrowthTrends payloads for every time range from the recorded scan snapshots
    */
-  private generateDeterministicGrowth(
-    data: GeneratedData,
-    history: Array<{ date: string; marketplaces: number; plugins: number; stars: number }>
-  ) {
-    const now = new Date();
-    // Use history if available; otherwise synthesise from current counts
-    const points =
-      history.length >= 2
-        ? history.map((h) => ({
-            date: h.date.split('T')[0],
-            value: h.plugins,
-            marketplaces: h.marketplaces,
-            plugins: h.plugins,
-            developers: Math.floor(h.plugins * 0.05),
-            downloads: h.stars * 10 + h.plugins * 150,
-          }))
-        : Array.from({ length: 5 }, (_, i) => {
-            const d = new Date(now);
-            d.setDate(d.getDate() - (4 - i) * 7);
-            const progress = (i + 1) / 5;
-            return {
-              date: format(d, 'yyyy-MM-dd'),
-              value: Math.floor(data.stats.totalPlugins * progress),
-              marketplaces: Math.floor(data.stats.totalMarketplaces * progress),
-              plugins: Math.floor(data.stats.totalPlugins * progress),
-              developers: Math.floor(data.stats.totalPlugins * progress * 0.05),
-              downloads: Math.floor(data.stats.totalPlugins * progress * 150),
-            };
-          });
-
-    // Build TrendDataPoint arrays
-    const toTrendPoints = (key: 'plugins' | 'marketplaces' | 'developers' | 'downloads') =>
-      points.map((p, i) => ({
-        date: p.date,
-        value: (p as any)[key] as number,
-        change:
-          i > 0 ? ((p as any)[key] as number) - ((points[i - 1] as any)[key] as number) : undefined,
-      }));
+  private generateGrowthTrends(scanHistory: ScanTimeSeries, now: Date) {
+    const processor = new DataProcessor({ enableDebugLogging: false });
+    const ranges = {} as Record<TimeRange, ReturnType<typeof toTrends>>;
+
+    function toTrends(range: TimeRange) {
+      const points = processor.processGrowthTrends(scanHistory, range, now);
+      const series = (
+        key: 'plugins' | 'marketplaces' | 'developers' | 'downloads' | 'stars',
+        metadata?: (point: (typeof points)[number]) => Record<string, unknown>
+      ) =>
+        points.map((point, i) => ({
+          date: point.date.split('T')[0],
+          value: point[key] ?? 0,
+          change: i > 0 ? (point[key] ?? 0) - (points[i - 1][key] ?? 0) : undefined,
+          ...(metadata ? { metadata: metadata(point) } : {}),
+        }));
+
+      return {
+        plugins: series('plugins', (point) => ({
+          added: point.pluginsAdded,
+          removed: point.pluginsRemoved,
+        })),
+        marketplaces: series('marketplaces', (point) => ({
+          added: point.marketplacesAdded,
+          removed: point.marketplacesRemoved,
+        })),
+        developers: series('developers'),
+        downloads: series('downloads'),
+        stars: series('stars', (point) => ({ growth: point.starGrowth })),
+        period: range,
+        aggregation: getGrowthAggregation(range),
+      };
+    }
 
-    return {
-      plugins: toTrendPoints('plugins'),
-      marketplaces: toTrendPoints('marketplaces'),
-      developers: toTrendPoints('developers'),
-      downloads: toTrendPoints('downloads'),
-      period: '30d' as const,
-      aggregation: 'weekly' as const,
+    for (const range of TIME_RANGES) {
+      ranges[range] = toTrends(range);
+    }
+    return ranges;
+  }
+
+  /**
+   * Append a snapshot of this scan to data/history/scans.jsonl and return the full series
+   */
+  private recordScanSnapshot(data: GeneratedData): ScanTimeSeries {
+    const snapshot: ScanSnapshot = {
+      scannedAt: data.stats.lastUpdated,
+      marketplaces: {},
+      plugins: {},
     };
+
+    for (const marketplace of data.marketplaces) {
+      snapshot.marketplaces[marketplace.id] = { stars: marketplace.stars };
+    }
+
+    for (const plugin of data.plugins) {
+      const { id, marketplaceId, version } = this.toObservedPlugin(plugin);
+      const author = this.getAuthorName(plugin);
+
+      snapshot.plugins[id] = {
+        marketplaceId,
+        version,
+        ...(plugin.repositoryStats ? { stars: plugin.repositoryStats.stars } : {}),
+        ...(author ? { author } : {}),
+      };
+    }
+
+    const store = createScanTimeSeriesStore(path.join(this.inputDir, 'history', 'scans.jsonl'));
+    store.append([snapshot]);
+
+    const scanHistory = createScanTimeSeries(store.load());
+    console.log(`🕒 Recorded scan snapshot (${scanHistory.size} in time series)`);
+    return scanHistory;
   }
 
   private getTopLanguages(marketplaces: Marketplace[]): Array<{ language: string; count: number }> {
@@ -647,7 +812,7 @@ class DataGenerator {
       .slice(0, 50); // Top 50 tags
   }
 
-  private async saveGeneratedData(data: GeneratedData): Promise<void> {
+  private async saveGeneratedData(data: GeneratedData, scanHistory: ScanTimeSeries): Promise<void> {
     console.log('💾 Saving generated data...');
 
     // Save complete data
@@ -667,7 +832,7 @@ class DataGenerator {
     fs.writeFileSync(statsSimplePath, JSON.stringify(data.stats, null, 2));
 
     // Save comprehensive ecosystem stats in EcosystemStatsResponse format
-    const ecosystemStats = this.generateEcosystemStats(data);
+    const ecosystemStats = this.generateEcosystemStats(data, scanHistory);
     const statsPath = path.join(this.outputDir, 'stats.json');
     fs.writeFileSync(statsPath, JSON.stringify(ecosystemStats, null, 2));
 
@@ -678,6 +843,274 @@ class DataGenerator {
     console.log(`✅ Data saved to ${this.outputDir}`);
   }
 
+  /**
+   * Record observed plugin versions and publish per-plugin versions.json files
+   */
+  private async generateVersionHistory(data: GeneratedData): Promise<void> {
+    console.log('🏷️ Updating plugin version history...');
+
+    const tracker = createVersionHistoryTracker(
+      path.join(this.inputDir, 'plugins', 'version-history.json')
+    );
+    tracker.load();
+
+    const observed = data.plugins.map((plugin) => this.toObservedPlugin(plugin));
+    const newVersions = tracker.record(observed);
+    tracker.save();
+
+    const written = tracker.writePublicFiles(
+      path.join(this.websiteOutputDir, 'plugins'),
+      observed.map((plugin) => plugin.id)
+    );
+    console.log(`🏷️ Recorded ${newVersions} new versions, wrote ${written} versions.json files`);
+  }
+
+  /**
+   * Save marketplaces, plugins and validation results of this run to the scan store
+   * selected by SCAN_STORE. Does nothing when no store is configured.
+   */
+  private async saveToScanStore(data: GeneratedData): Promise<void> {
+    const options = getScanStoreOptions(process.env, this.inputDir);
+    if (!options) return;
+
+    const scan: ScanRecord = {
+      id: data.stats.lastUpdated,
+      scannedAt: data.stats.lastUpdated,
+      marketplaces: data.marketplaces.map((mp) => ({
+        id: String(mp.id),
+        name: mp.name,
+        stars: mp.stars,
+        data: { ...mp },
+      })),
+      plugins: [],
+      validations: [],
+    };
+
+    for (const plugin of data.plugins) {
+      const { id, marketplaceId, version } = this.toObservedPlugin(plugin);
+      scan.plugins.push({ id, name: plugin.name, marketplaceId, version, data: { ...plugin } });
+      scan.validations.push({
+        pluginId: id,
+        valid: plugin.isValid,
+        errors: plugin.errors ?? [],
+        warnings: plugin.warnings ?? [],
+        score: this.scorePlugin(plugin, this.assessMcpRisk(plugin)).score,
+      });
+    }
+
+    const store = await createScanStore(options);
+    try {
+      await store.saveScan(scan);
+      console.log(`🗄️ Saved scan ${scan.id} to the ${store.backend} scan store at ${options.path}`);
+    } finally {
+      await store.close();
+    }
+  }
+
+  /**
+   * Author name of a plugin; manifests may declare the author as { name, email }
+   */
+  private getAuthorName(plugin: Plugin): string | undefined {
+    const author: unknown = plugin.author;
+    return typeof author === 'string' ? author : (author as { name?: string } | undefined)?.name;
+  }
+
+  private toObservedPlugin(plugin: Plugin): ObservedPlugin {
+    const marketplaceId = plugin.metadata?.marketplaceId ?? plugin.marketplaceId ?? '';
+
+    return {
+      id: createPluginId(marketplaceId, plugin.name),
+      name: plugin.name,
+      marketplaceId,
+      version: plugin.version,
+      // Skill directories have no manifest; fall back to the fields we know
+      manifest: plugin.manifest ?? {
+        name: plugin.name,
+        description: plugin.description,
+        version: plugin.version,
+        author: plugin.author,
+      },
+    };
+  }
+
+  /**
+   * Write public/data/plugins/<id>/details.json with the components declared in each
+   * manifest, the inventory found in the plugin directory, the MCP risk assessment, the
+   * quality score breakdown, the repository statistics captured by the scanner and the
+   * name and hook conflicts with other plugins. Risk levels are also collected into
+   * public/data/mcp-risk.json for filtering the plugins list, and all conflicts into
+   * public/data/conflicts.json.
+   */
+  private async generatePluginDetails(data: GeneratedData): Promise<void> {
+    console.log('🧩 Writing plugin details...');
+
+    const outputDir = path.join(this.websiteOutputDir, 'plugins');
+    const lastUpdated = new Date().toISOString();
+    let withStats = 0;
+    const riskIndex: McpRiskIndex = { plugins: {}, lastUpdated };
+
+    const candidates: Array<ConflictCandidate & { plugin: Plugin }> = data.plugins.map((plugin) => {
+      const { id, marketplaceId } = this.toObservedPlugin(plugin);
+      const components = plugin.components ?? extractManifestComponents(plugin.manifest);
+      return {
+        pluginId: id,
+        name: plugin.name,
+        marketplaceId,
+        // Prefer the walked directory inventory; fall back to what the manifest declares
+        inventory: plugin.inventory ?? inventoryFromComponents(components),
+        plugin,
+      };
+    });
+    // Forks and mirrors would conflict with every plugin of their canonical marketplace,
+    // so only counted plugins are compared with each other
+    const counted = new Set(this.getCountedData(data.marketplaces, data.plugins).plugins);
+    const countedCandidates = candidates.filter((candidate) => counted.has(candidate.plugin));
+    const conflicts = findPluginConflicts(countedCandidates);
+    const conflictsByPlugin = groupConflictsByPlugin(conflicts);
+    const pluginIds = new Set(candidates.map((candidate) => candidate.pluginId));
+    const canonicalMarketplaceIds = new Map(
+      data.marketplaces.flatMap((mp) =>
+        mp.duplicateOf ? [[String(mp.id), mp.duplicateOf.id] as const] : []
+      )
+    );
+
+    for (const candidate of candidates) {
+      const { pluginId, plugin } = candidate;
+      const mcpRisk = this.assessMcpRisk(plugin);
+
+      // Plugins of a fork or mirror link to the same plugin in the canonical marketplace
+      // for their conflicts; those it does not list are compared with the counted plugins
+      let canonicalPluginId: string | undefined;
+      let pluginConflicts = conflictsByPlugin.get(pluginId) ?? [];
+      if (!counted.has(plugin)) {
+        const canonicalMarketplaceId = canonicalMarketplaceIds.get(candidate.marketplaceId);
+        const canonicalId =
+          canonicalMarketplaceId && createPluginId(canonicalMarketplaceId, plugin.name);
+        if (canonicalId && pluginIds.has(canonicalId)) {
+          canonicalPluginId = canonicalId;
+        } else {
+          pluginConflicts = findPluginConflicts([...countedCandidates, candidate]).filter(
+            (conflict) => conflict.plugins.some((party) => party.pluginId === pluginId)
+          );
+        }
+      }
+
+      const details: PluginDetails = {
+        pluginId,
+        components: plugin.components ?? extractManifestComponents(plugin.manifest),
+        inventory: plugin.inventory ?? null,
+        repository: plugin.repositoryStats ?? null,
+        mcpRisk,
+        quality: this.scorePlugin(plugin, mcpRisk),
+        ...(canonicalPluginId ? { canonicalPluginId } : { conflicts: pluginConflicts }),
+        lastUpdated,
+      };
+      if (details.repository) withStats++;
+      if (details.mcpRisk) riskIndex.plugins[pluginId] = details.mcpRisk.level;
+
+      const pluginDir = path.join(outputDir, toPluginSlug(pluginId));
+      if (!fs.existsSync(pluginDir)) {
+        fs.mkdirSync(pluginDir, { recursive: true });
+      }
+      fs.writeFileSync(path.join(pluginDir, 'details.json'), JSON.stringify(details, null, 2));
+    }
+
+    fs.writeFileSync(
+      path.join(this.websiteOutputDir, 'mcp-risk.json'),
+      JSON.stringify(riskIndex, null, 2)
+    );
+
+    const conflictReport = buildConflictReport(conflicts, lastUpdated);
+    fs.writeFileSync(
+      path.join(this.websiteOutputDir, 'conflicts.json'),
+      JSON.stringify(conflictReport, null, 2)
+    );
+
+    console.log(
+      `🧩 Wrote ${data.plugins.length} details.json files (${withStats} with repository stats, ` +
+        `${Object.keys(riskIndex.plugins).length} with MCP risk)`
+    );
+    console.log(
+      `⚔️ Found ${conflicts.length} conflicts across ${conflictReport.affectedPlugins} plugins`
+    );
+  }
+
+  private scorePlugin(plugin: Plugin, mcpRisk: McpRiskAssessment | null): QualityBreakdown {
+    const manifest = (plugin.manifest || {}) as {
+      license?: unknown;
+      homepage?: unknown;
+      keywords?: unknown;
+    };
+    const inventory = plugin.inventory;
+    const stats = plugin.repositoryStats;
+
+    return this.qualityScorer.score('plugin', {
+      description: plugin.description,
+      version: plugin.version,
+      license:
+        (typeof manifest.license === 'string' && manifest.license) || stats?.license || undefined,
+      author: this.getAuthorName(plugin),
+      homepage: typeof manifest.homepage === 'string' ? manifest.homepage : undefined,
+      keywords: Array.isArray(manifest.keywords) ? manifest.keywords : undefined,
+      componentCount: inventory
+        ? Object.values(inventory).reduce((sum, entries) => sum + entries.length, 0)
+        : undefined,
+      validation: Array.isArray(plugin.errors)
+        ? { errors: plugin.errors.length, warnings: plugin.warnings?.length ?? 0 }
+        : undefined,
+      stars: stats?.stars,
+      pushedAt: stats?.pushedAt,
+      mcpRisk: mcpRisk?.level,
+    });
+  }
+
+  /**
+   * Classify the plugin's MCP servers from its scanned inventory, or from an inline
+   * manifest configuration when the directory has not been walked. Returns null when
+   * the configuration is unknown.
+   */
+  private assessMcpRisk(plugin: Plugin): McpRiskAssessment | null {
+    if (plugin.inventory) return assessMcpServers(plugin.inventory.mcpServers);
+
+    // A root .mcp.json may exist even when the manifest declares nothing
+    const declared = plugin.manifest?.mcpServers;
+    if (typeof declared !== 'object' || declared === null) return null;
+    return assessMcpServers(parseMcpConfig(declared));
+  }
+
+  /**
+   * Write public/data/search-index.json, an inverted index over plugin names, tags,
+   * authors, marketplaces and descriptions
+   */
+  private async generateSearchIndex(data: GeneratedData): Promise<void> {
+    console.log('🔎 Building search index...');
+
+    const documents: SearchableDocument[] = data.plugins.map((plugin) => {
+      const manifest = (plugin.manifest || {}) as { keywords?: unknown; tags?: unknown };
+      const tags = [manifest.keywords, manifest.tags].flatMap((value) =>
+        Array.isArray(value) ? value.filter((tag): tag is string => typeof tag === 'string') : []
+      );
+
+      return {
+        id: createPluginId(
+          plugin.metadata?.marketplaceId ?? plugin.marketplaceId ?? '',
+          plugin.name
+        ),
+        name: plugin.name,
+        description: plugin.description,
+        tags,
+        author: this.getAuthorName(plugin),
+        marketplace: plugin.metadata?.marketplaceName,
+      };
+    });
+
+    const index = buildSearchIndex(documents, data.stats.lastUpdated);
+    fs.writeFileSync(path.join(this.websiteOutputDir, 'search-index.json'), JSON.stringify(index));
+    console.log(
+      `🔎 Indexed ${index.documents.length} plugins (${Object.keys(index.postings).length} terms)`
+    );
+  }
+
   private async generateWebsiteData(data: GeneratedData): Promise<void> {
     console.log('🌐 Generating website data...');
 
@@ -824,11 +1257,22 @@ class DataGenerator {
 
     fs.writeFileSync(analyticsPath, JSON.stringify(analyticsData, null, 2));
 
+    // Generate the sharded API tree (paginated plugins/marketplaces, per-category and
+    // per-marketplace files) so clients don't have to download complete.json
+    const apiFiles = buildStaticApi({
+      marketplaces: data.marketplaces,
+      plugins: data.plugins,
+      categories: data.categories,
+      lastUpdated: data.stats.lastUpdated,
+    });
+    const apiFileCount = writeStaticApi(path.join(publicDataDir, 'api'), apiFiles);
+
     console.log('🔧 Generated static API files:');
     console.log('  - health.json');
     console.log('  - status.json');
     console.log('  - metrics.json');
     console.log('  - analytics.json');
+    console.log(`  - api/ (${apiFileCount} files, see api/index.json)`);
   }
 
   private extractAllPlugins(marketplaces: any[]): any[] {
@@ -932,40 +1376,201 @@ class DataGenerator {
     console.log('🗺️ Generated sitemap.xml');
   }
 
-  private async generateRSSFeed(data: GeneratedData): Promise<void> {
-    console.log('📡 Generating RSS feed...');
+  /**
+   * Category the site lists a plugin under: the one declared by its entry in
+   * marketplace.json, or General (as in usePluginData), so category feeds exist for
+   * every category the site links a feed for
+   */
+  private getListedCategory(pluginId: string, marketplace: Marketplace | undefined): string {
+    const entries: Array<{ name?: unknown; category?: unknown }> = marketplace?.manifest?.plugins;
+    if (!marketplace || !Array.isArray(entries)) return 'General';
+
+    const entry = entries.find(
+      (candidate) =>
+        typeof candidate?.name === 'string' &&
+        createPluginId(marketplace.id, candidate.name) === pluginId
+    );
+    return typeof entry?.category === 'string' && entry.category ? entry.category : 'General';
+  }
 
-    const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://localhost:3000';
-    const currentDate = new Date().toUTCString();
-
-    const rss = `<?xml version="1.0" encoding="UTF-8"?>
-<rss version="2.0">
-  <channel>
-    <title>Claude Marketplace Aggregator</title>
-    <description>Latest Claude Code marketplaces and plugins</description>
-    <link>${baseUrl}</link>
-    <language>en-us</language>
-    <lastBuildDate>${currentDate}</lastBuildDate>
-    <generator>Claude Marketplace Aggregator</generator>
-    ${data.marketplaces
-      .slice(0, 20)
-      .map(
-        (mp) => `
-    <item>
-      <title>${mp.name}</title>
-      <description>${mp.description}</description>
-      <link>${mp.url}</link>
-      <guid>${mp.id}</guid>
-      <pubDate>${new Date(mp.updatedAt).toUTCString()}</pubDate>
-    </item>`
-      )
-      .join('')}
-  </channel>
-</rss>`;
+  /**
+   * Write RSS, Atom and JSON feeds of new plugins, version bumps and marketplace
+   * updates, for everything and per category, marketplace and author
+   */
+  private async generateFeeds(data: GeneratedData): Promise<void> {
+    console.log('📡 Generating feeds...');
+
+    const siteUrl = (process.env.NEXT_PUBLIC_SITE_URL || 'https://localhost:3000').replace(
+      /\/+$/,
+      ''
+    );
+    const marketplacesById = new Map(data.marketplaces.map((mp) => [String(mp.id), mp]));
+    const ownerOf = (mp: Marketplace | undefined): string | undefined =>
+      typeof mp?.manifest?.owner?.name === 'string' ? mp.manifest.owner.name : undefined;
+
+    const tracker = createVersionHistoryTracker(
+      path.join(this.inputDir, 'plugins', 'version-history.json')
+    );
+    tracker.load();
+
+    const entries: Array<{ item: FeedItem; scopes: FeedScope[] }> = [];
+
+    for (const plugin of data.plugins) {
+      const { id, marketplaceId } = this.toObservedPlugin(plugin);
+      const history = tracker.getHistory(id);
+      if (!history) continue;
+
+      const marketplace = marketplacesById.get(marketplaceId);
+      const category = this.getListedCategory(id, marketplace);
+      // The manifest author, plus the marketplace owner the site shows
+      const authors = Array.from(
+        new Set(
+          [this.getAuthorName(plugin), ownerOf(marketplace)].filter(
+            (author): author is string => !!author
+          )
+        )
+      );
+      const scopes: FeedScope[] = [
+        { type: 'all' },
+        { type: 'marketplace', key: marketplaceId },
+        { type: 'category', key: category },
+        ...authors.map((author) => ({ type: 'author' as const, key: author })),
+      ];
+      const url = `${siteUrl}/plugins/${encodeURIComponent(id)}`;
+      const tags = [category];
+
+      // History lists versions newest first; the oldest one is when the plugin appeared
+      const versions = [...history.versions].reverse();
+      versions.forEach((version, index) => {
+        const item: FeedItem =
+          index === 0
+            ? {
+                id: `plugin:${id}:added`,
+                kind: 'new-plugin',
+                title: `New plugin: ${plugin.name}`,
+                url,
+                summary: `${plugin.description || 'No description'} (${version.version} in ${
+                  marketplace?.name || plugin.metadata?.marketplaceName || marketplaceId
+                })`,
+                published: version.firstSeen,
+                authors,
+                tags,
+              }
+            : {
+                id: `plugin:${id}:${version.version}`,
+                kind: 'version',
+                title: `${plugin.name} ${version.version}`,
+                url,
+                summary: `Updated from ${versions[index - 1].version} to ${version.version}.${
+                  version.changes.length > 0
+                    ? ` Changed: ${version.changes.map((change) => change.field).join(', ')}.`
+                    : ''
+                }`,
+                published: version.firstSeen,
+                authors,
+                tags,
+              };
+        entries.push({ item, scopes });
+      });
+    }
 
-    const rssPath = path.join(process.cwd(), 'public', 'rss.xml');
-    fs.writeFileSync(rssPath, rss);
-    console.log('📡 Generated rss.xml');
+    for (const mp of data.marketplaces) {
+      const owner = ownerOf(mp);
+      entries.push({
+        item: {
+          id: `marketplace:${mp.id}:${mp.updatedAt}`,
+          kind: 'marketplace-update',
+          title: `${mp.name} updated`,
+          url: `${siteUrl}/marketplaces/${encodeURIComponent(mp.id)}`,
+          summary: mp.description || 'No description',
+          published: mp.updatedAt,
+          authors: owner ? [owner] : [],
+          tags: mp.topics,
+        },
+        scopes: [
+          { type: 'all' },
+          { type: 'marketplace', key: String(mp.id) },
+          ...(owner ? [{ type: 'author' as const, key: owner }] : []),
+        ],
+      });
+    }
+
+    // Group items by feed; scope keys that differ only in case share a feed
+    const feeds = new Map<string, { scope: FeedScope; items: FeedItem[] }>();
+    for (const { item, scopes } of entries) {
+      for (const scope of scopes) {
+        const directory = getFeedDirectory(scope);
+        const feed = feeds.get(directory) ?? { scope, items: [] };
+        feed.items.push(item);
+        feeds.set(directory, feed);
+      }
+    }
+
+    const publicDir = path.join(process.cwd(), 'public');
+    let written = 0;
+
+    for (const { scope, items } of feeds.values()) {
+      const latest = items
+        .filter((item) => !Number.isNaN(Date.parse(item.published)))
+        .sort((a, b) => Date.parse(b.published) - Date.parse(a.published))
+        .slice(0, 50);
+      const feed = {
+        scope,
+        ...this.describeFeed(scope, siteUrl, marketplacesById),
+        siteUrl,
+        updated: data.stats.lastUpdated,
+        items: latest,
+      };
+
+      for (const [file, content] of renderFeedFiles(feed)) {
+        const filePath = path.join(publicDir, file);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, content);
+      }
+
+      // Keep the original site-wide RSS location working for existing subscribers
+      if (scope.type === 'all') {
+        fs.writeFileSync(path.join(publicDir, 'rss.xml'), renderRssFeed(feed));
+      }
+      written++;
+    }
+
+    console.log(`📡 Generated ${written} feeds (RSS, Atom and JSON Feed)`);
+  }
+
+  private describeFeed(
+    scope: FeedScope,
+    siteUrl: string,
+    marketplacesById: Map<string, Marketplace>
+  ): { title: string; description: string; pageUrl: string } {
+    switch (scope.type) {
+      case 'all':
+        return {
+          title: "Claude Marketplace Aggregator: What's new",
+          description: 'New plugins, plugin releases and marketplace updates',
+          pageUrl: siteUrl,
+        };
+      case 'category':
+        return {
+          title: `${scope.key} plugins: What's new`,
+          description: `New plugins and releases in the ${scope.key} category`,
+          pageUrl: `${siteUrl}/plugins?category=${encodeURIComponent(scope.key)}`,
+        };
+      case 'marketplace': {
+        const name = marketplacesById.get(scope.key)?.name || scope.key;
+        return {
+          title: `${name}: What's new`,
+          description: `New plugins, releases and updates in the ${name} marketplace`,
+          pageUrl: `${siteUrl}/marketplaces/${encodeURIComponent(scope.key)}`,
+        };
+      }
+      case 'author':
+        return {
+          title: `${scope.key}: What's new`,
+          description: `New plugins, releases and marketplace updates by ${scope.key}`,
+          pageUrl: `${siteUrl}/plugins?q=${encodeURIComponent(setQueryField('', 'author', scope.key))}`,
+        };
+    }
   }
 }
 
@@ -988,7 +1593,7 @@ async function main() {
       console.log('  - Plugins data');
       console.log('  - Statistics');
       console.log('  - Categories and tags');
-      console.log('  - Sitemap and RSS feed');
+      console.log('  - Sitemap and RSS, Atom and JSON feeds');
       console.log('✅ Dry run completed successfully');
       return;
     }
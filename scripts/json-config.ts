@@ -0,0 +1,20 @@
+/**
+ * JSON Config Module
+ *
+ * Reads the versioned JSON files under config/ that the scanner and data generator
+ * are set up with.
+ */
+
+import fs from 'fs';
+
+/**
+ * Read a JSON config file and validate it with `parse`
+ *
+ * @throws Error when the file is missing or invalid, so a broken config fails the run
+ */
+export function loadJsonConfig<T>(filePath: string, parse: (raw: unknown) => T): T {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Config not found: ${filePath}`);
+  }
+  return parse(JSON.parse(fs.readFileSync(filePath, 'utf-8')));
+}
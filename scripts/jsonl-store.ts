@@ -0,0 +1,53 @@
+/**
+ * JSONL Store
+ *
+ * Append-only files with one JSON record per line, used for the histories and audit
+ * trails under data/. Each store brings its own parser and serializer, so records
+ * are validated the same way wherever the format is read.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+export interface JsonlFormat<T> {
+  /** Parse every record in the file's text */
+  parse: (text: string) => T[];
+  /** One record as a line, including its trailing newline */
+  serialize: (record: T) => string;
+}
+
+export class JsonlStore<T> {
+  private filePath: string;
+  private format: JsonlFormat<T>;
+
+  constructor(filePath: string, format: JsonlFormat<T>) {
+    this.filePath = filePath;
+    this.format = format;
+  }
+
+  /**
+   * Read every record, oldest first; empty when the file does not exist yet
+   */
+  load(): T[] {
+    if (!fs.existsSync(this.filePath)) {
+      return [];
+    }
+    return this.format.parse(fs.readFileSync(this.filePath, 'utf-8'));
+  }
+
+  append(records: T[]): void {
+    if (records.length === 0) return;
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    fs.appendFileSync(
+      this.filePath,
+      records.map((record) => this.format.serialize(record)).join('')
+    );
+  }
+}
+
+export function createJsonlStore<T>(filePath: string, format: JsonlFormat<T>): JsonlStore<T> {
+  return new JsonlStore(filePath, format);
+}
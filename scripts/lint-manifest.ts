@@ -0,0 +1,180 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Manifest Linter CLI
+ *
+ * Validates `.claude-plugin/marketplace.json` and `.claude-plugin/plugin.json` files
+ * against the Claude Code manifest schemas and reports problems with their line and
+ * column. Exits with status 1 when any error is found, so it can gate CI in
+ * marketplace repositories; `--format sarif` output can be uploaded to code scanning.
+ *
+ * Usage: npm run lint:manifest -- [files or directories] [--format text|json|sarif]
+ *                                 [--output <file>]
+ *        npm run lint:manifest -- --schema marketplace|plugin
+ *        npm run lint:manifest -- --write-schemas [directory]
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  detectManifestKind,
+  formatDiagnostics,
+  lintManifest,
+  ManifestDiagnostic,
+  toSarif,
+} from '../src/utils/manifest-lint';
+import {
+  MANIFEST_KINDS,
+  MANIFEST_SCHEMA_PATHS,
+  ManifestKind,
+  toManifestJsonSchema,
+} from '../src/utils/manifest-schema';
+
+const OUTPUT_FORMATS = ['text', 'json', 'sarif'] as const;
+type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export interface ManifestFile {
+  file: string;
+  kind: ManifestKind;
+}
+
+/**
+ * Manifests to lint for the given paths. Directories are searched for
+ * `.claude-plugin/marketplace.json` and `.claude-plugin/plugin.json`; files must be
+ * named marketplace.json or plugin.json.
+ */
+export function findManifestFiles(targets: string[]): ManifestFile[] {
+  return targets.flatMap((target): ManifestFile[] => {
+    if (fs.existsSync(target) && fs.statSync(target).isDirectory()) {
+      return MANIFEST_KINDS.map((kind) => ({
+        file: path.join(target, '.claude-plugin', `${kind}.json`),
+        kind,
+      })).filter(({ file }) => fs.existsSync(file));
+    }
+
+    const kind = detectManifestKind(target);
+    if (!kind) {
+      throw new Error(
+        `Cannot tell the manifest type of ${target}; expected marketplace.json or plugin.json`
+      );
+    }
+    return [{ file: target, kind }];
+  });
+}
+
+/**
+ * Lint manifest files, labelling diagnostics with paths relative to `cwd`
+ */
+export function lintManifestFiles(
+  manifests: ManifestFile[],
+  cwd: string = process.cwd()
+): ManifestDiagnostic[] {
+  return manifests.flatMap(({ file, kind }) =>
+    lintManifest(fs.readFileSync(file, 'utf-8'), path.relative(cwd, file) || file, kind)
+  );
+}
+
+/**
+ * Write the published JSON Schemas, e.g. public/schemas/marketplace.schema.json
+ */
+export function writeManifestSchemas(directory: string): string[] {
+  fs.mkdirSync(directory, { recursive: true });
+  return MANIFEST_KINDS.map((kind) => {
+    const file = path.join(directory, path.basename(MANIFEST_SCHEMA_PATHS[kind]));
+    fs.writeFileSync(file, `${JSON.stringify(toManifestJsonSchema(kind), null, 2)}\n`);
+    return file;
+  });
+}
+
+function getToolVersion(): string {
+  const packageJson = JSON.parse(
+    fs.readFileSync(path.join(__dirname, '..', 'package.json'), 'utf-8')
+  );
+  return packageJson.version;
+}
+
+function getFlag(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+// CLI interface
+function main(): void {
+  const args = process.argv.slice(2);
+
+  const schemaKind = getFlag(args, '--schema');
+  if (schemaKind !== undefined) {
+    if (!MANIFEST_KINDS.includes(schemaKind as ManifestKind)) {
+      console.error(`❌ --schema expects one of: ${MANIFEST_KINDS.join(', ')}`);
+      process.exit(2);
+    }
+    console.log(JSON.stringify(toManifestJsonSchema(schemaKind as ManifestKind), null, 2));
+    return;
+  }
+
+  if (args.includes('--write-schemas')) {
+    const directory = getFlag(args, '--write-schemas');
+    const files = writeManifestSchemas(
+      directory && !directory.startsWith('--')
+        ? directory
+        : path.join(process.cwd(), 'public', 'schemas')
+    );
+    files.forEach((file) => console.log(`📝 Wrote ${path.relative(process.cwd(), file)}`));
+    return;
+  }
+
+  const format = (getFlag(args, '--format') ?? 'text') as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) {
+    console.error(`❌ --format expects one of: ${OUTPUT_FORMATS.join(', ')}`);
+    process.exit(2);
+  }
+  const output = getFlag(args, '--output');
+
+  // Everything that is neither a flag nor a flag's value is a path to lint
+  const targets = args.filter(
+    (arg, index) => !arg.startsWith('--') && !['--format', '--output'].includes(args[index - 1])
+  );
+
+  const manifests = findManifestFiles(targets.length > 0 ? targets : ['.']);
+  if (manifests.length === 0) {
+    console.error('❌ No .claude-plugin/marketplace.json or .claude-plugin/plugin.json found');
+    process.exit(2);
+  }
+
+  const diagnostics = lintManifestFiles(manifests);
+  const errors = diagnostics.filter((diagnostic) => diagnostic.severity === 'error').length;
+  const warnings = diagnostics.length - errors;
+
+  let report: string;
+  if (format === 'sarif') {
+    report = JSON.stringify(toSarif(diagnostics, { toolVersion: getToolVersion() }), null, 2);
+  } else if (format === 'json') {
+    report = JSON.stringify(diagnostics, null, 2);
+  } else {
+    report = [
+      formatDiagnostics(diagnostics),
+      `${errors > 0 ? '❌' : '✅'} ${manifests.length} manifests checked: ${errors} errors, ${warnings} warnings`,
+    ]
+      .filter(Boolean)
+      .join('\n');
+  }
+
+  if (output) {
+    fs.writeFileSync(output, `${report}\n`);
+    console.log(`📝 Wrote ${output} (${errors} errors, ${warnings} warnings)`);
+  } else {
+    console.log(report);
+  }
+
+  process.exit(errors > 0 ? 1 : 0);
+}
+
+// Run if called directly
+if (require.main === module) {
+  try {
+    main();
+  } catch (error) {
+    console.error('❌ Manifest lint failed:', error instanceof Error ? error.message : error);
+    process.exit(2);
+  }
+}
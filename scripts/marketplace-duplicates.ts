@@ -0,0 +1,103 @@
+/**
+ * Marketplace Duplicates Module
+ *
+ * Fingerprints scanned marketplaces and groups forks and mirrors under their
+ * canonical marketplace (see src/utils/marketplace-duplicates.ts for the rules).
+ */
+
+import { createHash } from 'crypto';
+import {
+  findMarketplaceDuplicates,
+  normalizePluginManifest,
+  normalizeSkillBody,
+} from '../src/utils/marketplace-duplicates';
+import type { MarketplaceDuplicateRef } from '../src/types/marketplace';
+import { toRepositoryName } from './moderation';
+
+export function hashContent(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Hash of a SKILL.md body, stored on each detected skill
+ */
+export function hashSkillBody(content: string): string {
+  return hashContent(normalizeSkillBody(content));
+}
+
+/**
+ * Fingerprint of a marketplace's content: its manifest's plugin entries and the
+ * SKILL.md bodies found in the repository, in any order. Unset when it has neither,
+ * so empty repositories are never grouped together.
+ */
+export function getContentFingerprint(
+  manifest: { plugins?: unknown } | undefined,
+  skills: Array<{ bodyHash?: string }> = []
+): string | undefined {
+  const entries = Array.isArray(manifest?.plugins) ? manifest.plugins : [];
+  const parts = [
+    ...entries.map((entry) => `plugin:${hashContent(normalizePluginManifest(entry))}`),
+    ...skills.filter((skill) => skill.bodyHash).map((skill) => `skill:${skill.bodyHash}`),
+  ];
+  return parts.length > 0 ? hashContent(parts.sort().join('\n')) : undefined;
+}
+
+/**
+ * A marketplace as saved by the scanner
+ */
+export interface ScannedMarketplace {
+  id: string;
+  name: string;
+  url: string;
+  stars: number;
+  createdAt: string;
+  /** `owner/repo` this repository was forked from */
+  parent?: string;
+  manifest?: { plugins?: unknown };
+  plugins?: Array<{ bodyHash?: string }>;
+  contentHash?: string;
+  duplicateOf?: MarketplaceDuplicateRef;
+  duplicates?: MarketplaceDuplicateRef[];
+}
+
+/**
+ * Fingerprint every marketplace and link each fork or mirror with its canonical
+ * marketplace, replacing links from earlier scans
+ *
+ * @returns the number of marketplaces marked as duplicates
+ */
+export function groupDuplicateMarketplaces(marketplaces: ScannedMarketplace[]): number {
+  for (const marketplace of marketplaces) {
+    marketplace.contentHash = getContentFingerprint(marketplace.manifest, marketplace.plugins);
+    delete marketplace.duplicateOf;
+    delete marketplace.duplicates;
+  }
+
+  const links = findMarketplaceDuplicates(
+    marketplaces.map((mp) => ({
+      id: mp.id,
+      fullName: toRepositoryName(mp.url),
+      parent: mp.parent,
+      contentHash: mp.contentHash,
+      stars: mp.stars,
+      createdAt: mp.createdAt,
+    }))
+  );
+
+  const byId = new Map(marketplaces.map((mp) => [mp.id, mp]));
+  const toRef = (mp: ScannedMarketplace, kind: MarketplaceDuplicateRef['kind']) => ({
+    id: mp.id,
+    name: mp.name,
+    url: mp.url,
+    kind,
+  });
+
+  for (const [id, link] of links) {
+    const duplicate = byId.get(id);
+    const canonical = byId.get(link.canonicalId);
+    if (!duplicate || !canonical) continue;
+    duplicate.duplicateOf = toRef(canonical, link.kind);
+    canonical.duplicates = [...(canonical.duplicates ?? []), toRef(duplicate, link.kind)];
+  }
+  return links.size;
+}
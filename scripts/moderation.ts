@@ -0,0 +1,193 @@
+/**
+ * Moderation Module
+ *
+ * Loads the block and allow rules (config/moderation.json, override with
+ * MODERATION_CONFIG) for the scanner and data generator, and keeps the audit trail
+ * of hidden and restored items in data/moderation/audit.jsonl.
+ */
+
+import path from 'path';
+import {
+  createModerationPolicy,
+  getHiddenItems,
+  getModerationSubjectKey,
+  ModerationPolicy,
+  ModerationSubject,
+  parseModerationAuditEvents,
+  parseModerationConfig,
+  serializeModerationAuditEvent,
+  summarizeModeration,
+} from '../src/utils/moderation';
+import type { ModerationAuditEvent, ModerationSummary } from '../src/types/processing';
+import { loadJsonConfig } from './json-config';
+import { createJsonlStore, JsonlStore } from './jsonl-store';
+import { parseRepositoryRef } from './plugin-discovery';
+
+export function getModerationConfigPath(): string {
+  return process.env.MODERATION_CONFIG || path.join(process.cwd(), 'config', 'moderation.json');
+}
+
+/**
+ * Read the moderation rules and log how many are active
+ */
+export function loadModerationPolicy(
+  filePath: string = getModerationConfigPath()
+): ModerationPolicy {
+  const policy = createModerationPolicy(loadJsonConfig(filePath, parseModerationConfig));
+  console.log(
+    `🛡️ Using moderation rules v${policy.version} (${policy.getActiveRules().length} active)`
+  );
+  return policy;
+}
+
+/**
+ * `owner/repo` of a GitHub URL, or the value itself when it is not one
+ */
+export function toRepositoryName(url: string): string {
+  const ref = parseRepositoryRef(url);
+  return ref ? `${ref.owner}/${ref.repo}` : url;
+}
+
+export type ModerationAuditStore = JsonlStore<ModerationAuditEvent>;
+
+/**
+ * Create a store for the moderation audit trail, data/moderation/audit.jsonl by default
+ */
+export function createModerationAuditStore(
+  filePath: string = path.join(process.cwd(), 'data', 'moderation', 'audit.jsonl')
+): ModerationAuditStore {
+  return createJsonlStore(filePath, {
+    parse: parseModerationAuditEvents,
+    serialize: serializeModerationAuditEvent,
+  });
+}
+
+/**
+ * Applies the rules to scanned items and records each change in the audit trail:
+ * an item is logged when a rule first hides it and again when it reappears without
+ * a rule hiding it. Items that disappear from the scans stay counted as hidden.
+ */
+export class Moderator {
+  private policy: ModerationPolicy;
+  private store: ModerationAuditStore;
+  private events: ModerationAuditEvent[];
+  private hidden: Map<string, ModerationAuditEvent>;
+  private pending: ModerationAuditEvent[] = [];
+
+  constructor(policy: ModerationPolicy, store: ModerationAuditStore) {
+    this.policy = policy;
+    this.store = store;
+    this.events = store.load();
+    this.hidden = getHiddenItems(this.events);
+  }
+
+  /**
+   * Whether an item may be published
+   */
+  allows(subject: ModerationSubject): boolean {
+    const decision = this.policy.check(subject);
+    const event = {
+      at: new Date().toISOString(),
+      kind: subject.kind,
+      subject: getModerationSubjectKey(subject),
+    };
+    const key = `${event.kind}:${event.subject}`;
+    const previous = this.hidden.get(key);
+
+    if (decision.hidden && decision.rule) {
+      if (previous?.ruleId !== decision.rule.id) {
+        this.record(key, {
+          ...event,
+          action: 'hidden',
+          ruleId: decision.rule.id,
+          reason: decision.rule.reason,
+        });
+      }
+      return false;
+    }
+
+    if (previous) {
+      this.record(key, { ...event, action: 'restored', ruleId: decision.rule?.id });
+    }
+    return true;
+  }
+
+  filter<T>(items: T[], toSubject: (item: T) => ModerationSubject): T[] {
+    return items.filter((item) => this.allows(toSubject(item)));
+  }
+
+  /**
+   * Counts of everything hidden, including items recorded by earlier runs
+   */
+  getSummary(): ModerationSummary {
+    return summarizeModeration([...this.events, ...this.pending], this.policy.version);
+  }
+
+  /**
+   * Append this run's changes to the audit trail
+   *
+   * @returns the number of events written
+   */
+  save(): number {
+    const written = this.pending.length;
+    this.store.append(this.pending);
+    this.events.push(...this.pending);
+    this.pending = [];
+    return written;
+  }
+
+  private record(key: string, event: ModerationAuditEvent): void {
+    this.pending.push(event);
+    if (event.action === 'hidden') {
+      this.hidden.set(key, event);
+      console.log(
+        `  🛡️ Hidden ${event.kind} ${event.subject} (${event.reason}, rule ${event.ruleId})`
+      );
+    } else {
+      this.hidden.delete(key);
+      console.log(`  ↩️ Restored ${event.kind} ${event.subject}`);
+    }
+  }
+}
+
+/**
+ * `owner/repo` a marketplace manifest entry is sourced from, when it is not the
+ * marketplace repository itself
+ */
+function getManifestEntryRepository(source: unknown): string | undefined {
+  if (typeof source === 'string') {
+    return /^https?:\/\//.test(source) ? toRepositoryName(source) : undefined;
+  }
+  const repo = (source as { repo?: unknown } | null)?.repo;
+  return typeof repo === 'string' ? toRepositoryName(repo) : undefined;
+}
+
+/**
+ * Drop the manifest entries of hidden plugins from a marketplace. The site lists
+ * plugins from marketplace manifests, so filtering the plugin list alone would
+ * leave them visible.
+ */
+export function moderateManifestPlugins<
+  M extends { url: string; manifest?: { plugins?: unknown } | null },
+>(moderator: Moderator, marketplace: M): M {
+  const entries = marketplace.manifest?.plugins;
+  if (!Array.isArray(entries)) return marketplace;
+
+  const repository = toRepositoryName(marketplace.url);
+  const visible = moderator.filter(entries, (entry: { name?: unknown; source?: unknown }) => ({
+    kind: 'plugin',
+    marketplace: repository,
+    repository: getManifestEntryRepository(entry?.source),
+    name: typeof entry?.name === 'string' ? entry.name : undefined,
+  }));
+  if (visible.length === entries.length) return marketplace;
+
+  return { ...marketplace, manifest: { ...marketplace.manifest, plugins: visible } };
+}
+
+export function createModerator(
+  policy: ModerationPolicy = loadModerationPolicy(),
+  store: ModerationAuditStore = createModerationAuditStore()
+): Moderator {
+  return new Moderator(policy, store);
+}
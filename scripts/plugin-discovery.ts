@@ -8,10 +8,28 @@
  */
 
 import { Octokit } from '@octokit/rest';
+import type { PluginComponents, PluginInventory, PluginRepositoryStats } from '../src/types/plugin';
+import { extractManifestComponents } from '../src/utils/plugin-components';
+import {
+  parseAgentFile,
+  parseCommandFile,
+  parseHooksConfig,
+  parseMcpConfig,
+  parseSkillFile,
+} from '../src/utils/plugin-inventory';
 
 // Official plugin manifest path per Claude Code spec
 const PLUGIN_MANIFEST_PATH = '.claude-plugin/plugin.json' as const;
 
+// Default component locations relative to the plugin root
+const COMPONENT_PATHS = {
+  commands: 'commands',
+  agents: 'agents',
+  skills: 'skills',
+  hooks: 'hooks/hooks.json',
+  mcpServers: '.mcp.json',
+} as const;
+
 export interface DiscoveredPlugin {
   id: string;
   name: string;
@@ -25,6 +43,21 @@ export interface DiscoveredPlugin {
   isValid: boolean;
   errors: string[];
   manifest?: any;
+  /** Components declared in the plugin manifest */
+  components?: PluginComponents;
+  /** Components found by walking the plugin directory */
+  inventory?: PluginInventory;
+  /** Statistics of the repository hosting the plugin, attached by the scanner */
+  repositoryStats?: PluginRepositoryStats;
+}
+
+/**
+ * Where a plugin lives: repository and directory of the plugin root
+ */
+export interface PluginLocation {
+  owner: string;
+  repo: string;
+  path: string;
 }
 
 export interface MarketplaceInfo {
@@ -92,20 +125,22 @@ export class PluginDiscovery {
             .replace(/^-|-$/g, '')}`;
 
     try {
-      let manifest: any = null;
+      let location: PluginLocation;
 
       if (pluginRepo) {
         // External repository - fetch from that repo
         const [owner, repo] = pluginRepo.split('/');
-        manifest = await this.fetchPluginManifest(owner, repo, '');
+        location = { owner, repo, path: '' };
       } else if (pluginPath) {
         // Internal path within marketplace repo
-        manifest = await this.fetchPluginManifest(marketplace.owner, marketplace.repo, pluginPath);
+        location = { owner: marketplace.owner, repo: marketplace.repo, path: pluginPath };
       } else {
         // Plugin is the marketplace itself (single-plugin repo)
-        manifest = await this.fetchPluginManifest(marketplace.owner, marketplace.repo, '');
+        location = { owner: marketplace.owner, repo: marketplace.repo, path: '' };
       }
 
+      const manifest = await this.fetchPluginManifest(location.owner, location.repo, location.path);
+
       if (manifest) {
         return {
           id: pluginId,
@@ -120,6 +155,8 @@ export class PluginDiscovery {
           isValid: true,
           errors: [],
           manifest,
+          components: extractManifestComponents(manifest),
+          inventory: await this.buildInventory(location, manifest),
         };
       } else {
         errors.push('Plugin manifest not found at expected path');
@@ -175,6 +212,146 @@ export class PluginDiscovery {
     return null;
   }
 
+  /**
+   * Walk a plugin directory and build its component inventory. The default locations
+   * are always checked; paths declared in the manifest are added to them.
+   */
+  async buildInventory(location: PluginLocation, manifest: any): Promise<PluginInventory> {
+    const declared = extractManifestComponents(manifest);
+    const inventory: PluginInventory = {
+      commands: [],
+      agents: [],
+      skills: [],
+      hooks: [],
+      mcpServers: [],
+    };
+
+    const commandFiles = await this.collectMarkdownFiles(location, [
+      COMPONENT_PATHS.commands,
+      ...(declared.commands ?? []),
+    ]);
+    for (const file of commandFiles) {
+      const content = await this.fetchFile(location, file);
+      if (content !== null) inventory.commands.push(parseCommandFile(file, content));
+    }
+
+    const agentFiles = await this.collectMarkdownFiles(location, [
+      COMPONENT_PATHS.agents,
+      ...(declared.agents ?? []),
+    ]);
+    for (const file of agentFiles) {
+      const content = await this.fetchFile(location, file);
+      if (content !== null) inventory.agents.push(parseAgentFile(file, content));
+    }
+
+    const skillDirs = new Set([
+      ...(await this.listDirectory(location, COMPONENT_PATHS.skills))
+        .filter((item) => item.type === 'dir')
+        .map((item) => item.path),
+      ...(declared.skills ?? []).map((entry) => joinRepoPath(entry)),
+    ]);
+    for (const dir of skillDirs) {
+      const content = await this.fetchFile(location, `${dir}/SKILL.md`);
+      if (content !== null) inventory.skills.push(parseSkillFile(dir, content));
+    }
+
+    // Hooks and MCP servers come from their default files, a file the manifest points to,
+    // or an inline configuration in the manifest
+    for (const file of uniquePaths([COMPONENT_PATHS.hooks, manifest?.hooks])) {
+      inventory.hooks.push(...parseHooksConfig(await this.fetchJson(location, file)));
+    }
+    inventory.hooks.push(...parseHooksConfig(manifest?.hooks));
+
+    for (const file of uniquePaths([COMPONENT_PATHS.mcpServers, manifest?.mcpServers])) {
+      inventory.mcpServers.push(...parseMcpConfig(await this.fetchJson(location, file)));
+    }
+    inventory.mcpServers.push(...parseMcpConfig(manifest?.mcpServers));
+
+    return inventory;
+  }
+
+  /**
+   * Resolve file and directory entries to the markdown files they contain
+   */
+  private async collectMarkdownFiles(
+    location: PluginLocation,
+    entries: string[]
+  ): Promise<string[]> {
+    const files = new Set<string>();
+
+    for (const entry of uniquePaths(entries)) {
+      if (/\.md$/i.test(entry)) {
+        files.add(entry);
+        continue;
+      }
+      for (const item of await this.listDirectory(location, entry)) {
+        if (item.type === 'file' && /\.md$/i.test(item.name)) files.add(item.path);
+      }
+    }
+
+    return Array.from(files);
+  }
+
+  /**
+   * List a directory relative to the plugin root; missing directories list as empty
+   */
+  private async listDirectory(
+    location: PluginLocation,
+    dir: string
+  ): Promise<Array<{ name: string; path: string; type: string }>> {
+    try {
+      const response = await this.octokit.repos.getContent({
+        owner: location.owner,
+        repo: location.repo,
+        path: joinRepoPath(location.path, dir),
+      });
+
+      if (Array.isArray(response.data)) {
+        return response.data.map((item) => ({
+          name: item.name,
+          path: joinRepoPath(dir, item.name),
+          type: item.type,
+        }));
+      }
+    } catch {
+      // Directory not found
+    }
+
+    return [];
+  }
+
+  /**
+   * Fetch a file relative to the plugin root, or null when it does not exist
+   */
+  private async fetchFile(location: PluginLocation, file: string): Promise<string | null> {
+    try {
+      const response = await this.octokit.repos.getContent({
+        owner: location.owner,
+        repo: location.repo,
+        path: joinRepoPath(location.path, file),
+      });
+
+      if ('content' in response.data) {
+        return Buffer.from(response.data.content, 'base64').toString('utf-8');
+      }
+    } catch {
+      // File not found
+    }
+
+    return null;
+  }
+
+  private async fetchJson(location: PluginLocation, file: string): Promise<unknown> {
+    const content = await this.fetchFile(location, file);
+    if (content === null) return null;
+
+    try {
+      return JSON.parse(content);
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Validate all discovered plugins and return valid ones
    */
@@ -189,6 +366,40 @@ export class PluginDiscovery {
   }
 }
 
+/**
+ * Join repository path segments, dropping `./` prefixes and stray slashes
+ */
+export function joinRepoPath(...segments: string[]): string {
+  return segments
+    .map((segment) => segment.replace(/^(\.\/)+/, '').replace(/^\/+|\/+$/g, ''))
+    .filter((segment) => segment !== '' && segment !== '.')
+    .join('/');
+}
+
+/**
+ * Normalized, de-duplicated paths from a list of candidates; non-strings are skipped
+ */
+function uniquePaths(candidates: unknown[]): string[] {
+  const paths = candidates
+    .filter((candidate): candidate is string => typeof candidate === 'string')
+    .map((candidate) => joinRepoPath(candidate))
+    .filter(Boolean);
+  return Array.from(new Set(paths));
+}
+
+/**
+ * Resolve the GitHub repository of a discovered plugin. Plugins record either an
+ * `owner/repo` reference (external repositories) or the marketplace URL.
+ */
+export function parseRepositoryRef(repository: string): { owner: string; repo: string } | null {
+  const match = repository
+    .trim()
+    .replace(/\.git$/, '')
+    .match(/^(?:https?:\/\/github\.com\/)?([\w.-]+)\/([\w.-]+)\/?$/);
+
+  return match ? { owner: match[1], repo: match[2] } : null;
+}
+
 // Export singleton factory
 export function createPluginDiscovery(octokit: Octokit): PluginDiscovery {
   return new PluginDiscovery(octokit);
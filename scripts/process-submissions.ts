@@ -0,0 +1,338 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Submission Processor
+ *
+ * Reviews community submissions of marketplaces that GitHub search misses (new
+ * repositories that are not indexed yet, unusual names). Each submission is a JSON
+ * file in data/submissions/:
+ *
+ *   { "repository": "owner/repo", "submittedBy": "github-user", "note": "optional" }
+ *
+ * A repository with a valid `.claude-plugin/marketplace.json` is promoted into the
+ * seed list of the discovery config and its submission moved to
+ * data/submissions/accepted/. Anything else is moved to data/submissions/rejected/
+ * with the reasons. Submissions that could not be checked (API errors) stay queued.
+ *
+ * Usage: npm run process:submissions -- [--dry-run]
+ */
+
+// Load environment variables from .env.local for local development
+import { config } from 'dotenv';
+const envPath = process.env.NODE_ENV === 'production' ? '.env.production' : '.env.local';
+config({ path: envPath });
+
+import fs from 'fs';
+import path from 'path';
+import { createGitHubClient } from '../src/utils/github-client';
+import { createGitHubSearchService, GitHubSearchService } from '../src/services/github-search';
+import { ContentFetcher, createContentFetcher } from '../src/utils/content-fetcher';
+import { validateJsonContent } from '../src/utils/security';
+import { lintManifest } from '../src/utils/manifest-lint';
+import { parseRepositoryRef } from './plugin-discovery';
+import { addDiscoverySeed, loadDiscoveryConfig } from './discovery-config';
+
+const MANIFEST_FILE = '.claude-plugin/marketplace.json';
+
+/**
+ * A queued submission, as written to data/submissions/<name>.json
+ */
+export interface MarketplaceSubmission {
+  /** `owner/repo` or a github.com URL */
+  repository: string;
+  /** GitHub user who submitted the marketplace */
+  submittedBy?: string;
+  submittedAt?: string;
+  note?: string;
+}
+
+export type SubmissionRejectionCode =
+  | 'invalid-submission'
+  | 'already-listed'
+  | 'no-manifest'
+  | 'unsafe-manifest'
+  | 'invalid-manifest';
+
+export interface SubmissionRejectionReason {
+  code: SubmissionRejectionCode;
+  message: string;
+  /** Where in marketplace.json the problem is, for invalid-manifest reasons */
+  line?: number;
+  column?: number;
+}
+
+/**
+ * Outcome of reviewing a submission. `pending` means it could not be checked and
+ * stays in the queue.
+ */
+export interface SubmissionReview {
+  status: 'accepted' | 'rejected' | 'pending';
+  /** Normalized `owner/repo`, once the submission names a repository */
+  repository?: string;
+  reviewedAt: string;
+  reasons: SubmissionRejectionReason[];
+  warnings: string[];
+  /** Why the submission could not be checked */
+  error?: string;
+}
+
+/**
+ * Check a submission's shape and normalize its repository to `owner/repo`
+ */
+export function parseSubmission(raw: unknown): {
+  repository: string;
+  reasons: SubmissionRejectionReason[];
+} {
+  const submission = raw as Partial<MarketplaceSubmission> | null;
+  if (!submission || typeof submission !== 'object' || Array.isArray(submission)) {
+    return {
+      repository: '',
+      reasons: [{ code: 'invalid-submission', message: 'A submission must be a JSON object' }],
+    };
+  }
+
+  const reasons: SubmissionRejectionReason[] = [];
+  const ref =
+    typeof submission.repository === 'string' ? parseRepositoryRef(submission.repository) : null;
+  if (!ref) {
+    reasons.push({
+      code: 'invalid-submission',
+      message: '"repository" must be "owner/repo" or a https://github.com/owner/repo URL',
+    });
+  }
+  for (const field of ['submittedBy', 'submittedAt', 'note'] as const) {
+    if (submission[field] !== undefined && typeof submission[field] !== 'string') {
+      reasons.push({ code: 'invalid-submission', message: `"${field}" must be a string` });
+    }
+  }
+
+  return { repository: ref ? `${ref.owner}/${ref.repo}` : '', reasons };
+}
+
+/**
+ * Rejection reasons and warnings for a submitted marketplace.json
+ */
+export function reviewSubmittedManifest(content: string): {
+  reasons: SubmissionRejectionReason[];
+  warnings: string[];
+} {
+  const security = validateJsonContent(content);
+  if (!security.isValid) {
+    return {
+      reasons: security.errors.map((message) => ({ code: 'unsafe-manifest', message })),
+      warnings: security.warnings,
+    };
+  }
+
+  const diagnostics = lintManifest(content, MANIFEST_FILE, 'marketplace');
+  const reasons: SubmissionRejectionReason[] = diagnostics
+    .filter((diagnostic) => diagnostic.severity === 'error')
+    .map((diagnostic) => ({
+      code: 'invalid-manifest',
+      message: diagnostic.message,
+      line: diagnostic.line,
+      column: diagnostic.column,
+    }));
+  const warnings = [
+    ...security.warnings,
+    ...diagnostics
+      .filter((diagnostic) => diagnostic.severity === 'warning')
+      .map((diagnostic) => `${MANIFEST_FILE}:${diagnostic.line}: ${diagnostic.message}`),
+  ];
+
+  const plugins = (JSON.parse(content) as { plugins?: unknown }).plugins;
+  if (reasons.length === 0 && Array.isArray(plugins) && plugins.length === 0) {
+    reasons.push({
+      code: 'invalid-manifest',
+      message: 'The marketplace does not list any plugins',
+    });
+  }
+
+  return { reasons, warnings };
+}
+
+export class SubmissionProcessor {
+  private searchService: GitHubSearchService;
+  private contentFetcher: ContentFetcher;
+
+  constructor(searchService: GitHubSearchService, contentFetcher: ContentFetcher) {
+    this.searchService = searchService;
+    this.contentFetcher = contentFetcher;
+  }
+
+  /**
+   * Review one submission against the current seed list
+   */
+  async review(raw: unknown, seeds: string[]): Promise<SubmissionReview> {
+    const reviewedAt = new Date().toISOString();
+    const { repository, reasons } = parseSubmission(raw);
+    if (reasons.length > 0) {
+      return { status: 'rejected', reviewedAt, reasons, warnings: [] };
+    }
+
+    const reject = (
+      rejection: SubmissionRejectionReason[],
+      warnings: string[] = []
+    ): SubmissionReview => ({
+      status: 'rejected',
+      repository,
+      reviewedAt,
+      reasons: rejection,
+      warnings,
+    });
+    const retryLater = (error: string): SubmissionReview => ({
+      status: 'pending',
+      repository,
+      reviewedAt,
+      reasons: [],
+      warnings: [],
+      error,
+    });
+
+    if (seeds.some((seed) => seed.toLowerCase() === repository.toLowerCase())) {
+      return reject([
+        { code: 'already-listed', message: `${repository} is already a discovery seed` },
+      ]);
+    }
+
+    const [owner, repo] = repository.split('/');
+    const validation = await this.searchService.validateMarketplaceRepository(owner, repo);
+    if (!validation.success) {
+      return retryLater(validation.error?.message ?? 'Repository validation failed');
+    }
+    // The search service reports failed lookups as "not a marketplace" with the error
+    // attached; only a 404 means the manifest is missing
+    if (!validation.data && validation.error && validation.error.status !== 404) {
+      return retryLater(validation.error.message);
+    }
+    if (!validation.data) {
+      return reject([
+        {
+          code: 'no-manifest',
+          message: `${repository} has no ${MANIFEST_FILE} on its default branch, or is not a public repository`,
+        },
+      ]);
+    }
+
+    const manifest = await this.contentFetcher.fetchMarketplaceManifest(owner, repo);
+    if (!manifest.success || !manifest.data) {
+      return retryLater(manifest.error?.message ?? `Could not fetch ${MANIFEST_FILE}`);
+    }
+
+    const review = reviewSubmittedManifest(manifest.data.content);
+    if (review.reasons.length > 0) {
+      return reject(review.reasons, review.warnings);
+    }
+    return { status: 'accepted', repository, reviewedAt, reasons: [], warnings: review.warnings };
+  }
+}
+
+/**
+ * Create a submission processor authenticated with GITHUB_TOKEN
+ */
+export function createSubmissionProcessor(
+  token: string | undefined = process.env.GITHUB_TOKEN
+): SubmissionProcessor {
+  const githubClient = createGitHubClient({
+    token,
+    userAgent: 'claude-marketplace-aggregator/1.0.0',
+  });
+  return new SubmissionProcessor(
+    createGitHubSearchService(githubClient),
+    createContentFetcher(githubClient)
+  );
+}
+
+/**
+ * Move a reviewed submission to accepted/ or rejected/, with its review attached
+ */
+function archiveSubmission(file: string, raw: unknown, review: SubmissionReview): string {
+  const directory = path.join(path.dirname(file), review.status);
+  fs.mkdirSync(directory, { recursive: true });
+
+  const target = path.join(directory, path.basename(file));
+  const submission = raw && typeof raw === 'object' && !Array.isArray(raw) ? raw : { raw };
+  fs.writeFileSync(target, `${JSON.stringify({ ...submission, review }, null, 2)}\n`);
+  fs.unlinkSync(file);
+  return target;
+}
+
+// CLI interface
+async function main(): Promise<void> {
+  const dryRun = process.argv.includes('--dry-run');
+  const queueDir = path.join(process.cwd(), 'data', 'submissions');
+
+  console.log('📮 Marketplace Submission Processor');
+  console.log(`Mode: ${dryRun ? 'Dry Run' : 'Production'}`);
+
+  const files = fs.existsSync(queueDir)
+    ? fs
+        .readdirSync(queueDir)
+        .filter((name) => name.endsWith('.json'))
+        .sort()
+        .map((name) => path.join(queueDir, name))
+    : [];
+  if (files.length === 0) {
+    console.log('✅ No submissions queued');
+    return;
+  }
+
+  if (!process.env.GITHUB_TOKEN) {
+    console.error('❌ GITHUB_TOKEN environment variable is required');
+    process.exit(1);
+  }
+
+  const seeds = [...loadDiscoveryConfig().seeds];
+  const processor = createSubmissionProcessor();
+  const counts = { accepted: 0, rejected: 0, pending: 0 };
+
+  for (const file of files) {
+    const name = path.basename(file);
+    const text = fs.readFileSync(file, 'utf-8');
+    let raw: unknown = text;
+    let review: SubmissionReview;
+    try {
+      raw = JSON.parse(text);
+      review = await processor.review(raw, seeds);
+    } catch (error) {
+      if (!(error instanceof SyntaxError)) throw error;
+      review = {
+        status: 'rejected',
+        reviewedAt: new Date().toISOString(),
+        reasons: [{ code: 'invalid-submission', message: `Not valid JSON: ${error.message}` }],
+        warnings: [],
+      };
+    }
+    counts[review.status]++;
+
+    if (review.status === 'pending') {
+      console.log(`  ⏳ ${name}: could not be checked (${review.error}), keeping it queued`);
+      continue;
+    }
+
+    if (review.status === 'accepted') {
+      console.log(`  ✅ ${name}: ${review.repository} promoted to the seed list`);
+      seeds.push(review.repository as string);
+      if (!dryRun) addDiscoverySeed(review.repository as string);
+    } else {
+      console.log(`  ❌ ${name}: ${review.reasons.map((reason) => reason.message).join('; ')}`);
+    }
+    review.warnings.forEach((warning) => console.log(`     ⚠️ ${warning}`));
+
+    if (!dryRun) archiveSubmission(file, raw, review);
+  }
+
+  console.log(
+    `\n📊 ${counts.accepted} accepted, ${counts.rejected} rejected, ${counts.pending} still queued`
+  );
+  if (dryRun) {
+    console.log('🔍 Dry run: the seed list and the queue were left unchanged');
+  }
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('❌ Processing submissions failed:', error);
+    process.exit(1);
+  });
+}
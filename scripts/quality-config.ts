@@ -0,0 +1,31 @@
+/**
+ * Quality Config Module
+ *
+ * Loads the quality scoring weights for the scanner and data generator. The file
+ * defaults to config/quality-scoring.json and can be overridden with QUALITY_CONFIG.
+ */
+
+import path from 'path';
+import {
+  createQualityScorer,
+  parseQualityScoringConfig,
+  QualityScorer,
+} from '../src/utils/quality-score';
+import type { QualityScoringConfig } from '../src/types/processing';
+import { loadJsonConfig } from './json-config';
+
+export function getQualityConfigPath(): string {
+  return process.env.QUALITY_CONFIG || path.join(process.cwd(), 'config', 'quality-scoring.json');
+}
+
+export function loadQualityScoringConfig(
+  filePath: string = getQualityConfigPath()
+): QualityScoringConfig {
+  return loadJsonConfig(filePath, parseQualityScoringConfig);
+}
+
+export function createConfiguredQualityScorer(filePath?: string): QualityScorer {
+  const config = loadQualityScoringConfig(filePath);
+  console.log(`📐 Using quality scoring rules v${config.version}`);
+  return createQualityScorer(config);
+}
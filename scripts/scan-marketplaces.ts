@@ -15,53 +15,39 @@ config({ path: envPath });
 import { Octokit } from '@octokit/rest';
 import fs from 'fs';
 import path from 'path';
-import { createPluginDiscovery, MarketplaceInfo, DiscoveredPlugin } from './plugin-discovery';
-
-// Known Claude Code marketplaces and skill repositories to seed the scanner
-const KNOWN_MARKETPLACES = [
-  'anthropics/skills',
-  'ComposioHQ/awesome-claude-skills',
-  'anthropics/claude-code-plugins',
-  'anthropics/claude-plugins-official',
-];
-
-// Search strategies for discovering Claude Code plugins and skills
-const SEARCH_STRATEGIES = [
-  // Marketplace registries with manifest files
-  {
-    name: 'marketplace-manifest',
-    query: 'path:.claude-plugin marketplace.json',
-    type: 'code' as const,
-  },
-  { name: 'plugin-manifest', query: 'path:.claude-plugin plugin.json', type: 'code' as const },
-  // Skill definitions
-  { name: 'skill-files', query: 'filename:SKILL.md claude', type: 'code' as const },
-  // Repository topics
-  { name: 'topic-claude-plugins', query: 'topic:claude-plugins', type: 'repo' as const },
-  { name: 'topic-claude-skills', query: 'topic:claude-skills', type: 'repo' as const },
-  { name: 'topic-claude-code', query: 'topic:claude-code-plugin', type: 'repo' as const },
-  // Repository names
-  { name: 'name-awesome-skills', query: 'awesome-claude-skills in:name', type: 'repo' as const },
-  {
-    name: 'name-claude-marketplace',
-    query: 'claude-code-marketplace in:name',
-    type: 'repo' as const,
-  },
-  { name: 'name-claude-plugins', query: 'claude-plugins in:name', type: 'repo' as const },
-  // Description-based search
-  {
-    name: 'desc-claude-plugin',
-    query: '"claude code" plugin in:description',
-    type: 'repo' as const,
-  },
-  { name: 'desc-claude-skill', query: '"claude code" skill in:description', type: 'repo' as const },
-];
-
-interface SearchStrategy {
-  name: string;
-  query: string;
-  type: 'code' | 'repo';
-}
+import {
+  createPluginDiscovery,
+  MarketplaceInfo,
+  DiscoveredPlugin,
+  parseRepositoryRef,
+} from './plugin-discovery';
+import { createScanStateStore } from './scan-state';
+import { createScanProgressStore, ScanProgressStore } from './scan-progress';
+import { createGitHubClient, GitHubClient } from '../src/utils/github-client';
+import {
+  createGitHubTaskScheduler,
+  getGitHubBucket,
+  GITHUB_BUCKETS,
+  RateLimitWaitError,
+  TaskScheduler,
+} from '../src/utils/task-scheduler';
+import { createConfiguredQualityScorer } from './quality-config';
+import { createDiscoveryYieldStore, loadDiscoveryConfig } from './discovery-config';
+import { createModerator, Moderator, toRepositoryName } from './moderation';
+import { groupDuplicateMarketplaces, hashSkillBody } from './marketplace-duplicates';
+import {
+  createStrategyYield,
+  SEED_STRATEGY,
+  summarizeStrategyYields,
+} from '../src/utils/discovery-strategies';
+import type { MarketplaceDuplicateRef } from '../src/types/marketplace';
+import type { PluginRepositoryStats } from '../src/types/plugin';
+import type {
+  DiscoveryConfig,
+  DiscoveryStrategy,
+  QualityBreakdown,
+  StrategyYield,
+} from '../src/types/processing';
 
 // Official manifest paths per Claude Code spec
 // https://docs.anthropic.com/en/docs/claude-code/plugins
@@ -69,6 +55,29 @@ const MANIFEST_PATHS = {
   marketplace: '.claude-plugin/marketplace.json',
 } as const;
 
+// Seed repositories start first, then searches so candidates keep coming, then search results
+const PRIORITY = { seed: 2, search: 1, candidate: 0 } as const;
+
+// Times a repository is processed again after a request inside it was rate limited
+const RATE_LIMIT_RETRIES = 2;
+
+const DEFAULT_SCAN_CONCURRENCY = 4;
+
+/**
+ * Repositories processed at once, from SCAN_CONCURRENCY
+ */
+function getScanConcurrency(): number {
+  const value = process.env.SCAN_CONCURRENCY;
+  const concurrency = Number(value);
+  if (Number.isInteger(concurrency) && concurrency > 0) return concurrency;
+  if (value) {
+    console.warn(
+      `⚠️ Ignoring invalid SCAN_CONCURRENCY "${value}", using ${DEFAULT_SCAN_CONCURRENCY}`
+    );
+  }
+  return DEFAULT_SCAN_CONCURRENCY;
+}
+
 interface Marketplace {
   id: string;
   name: string;
@@ -84,6 +93,17 @@ interface Marketplace {
   manifest?: any;
   plugins?: any[];
   discoverySource?: string;
+  /** `owner/repo` this repository was forked from */
+  parent?: string;
+  /** Fingerprint of the plugin manifests and SKILL.md bodies */
+  contentHash?: string;
+  duplicateOf?: MarketplaceDuplicateRef;
+  duplicates?: MarketplaceDuplicateRef[];
+}
+
+interface ScannerOptions {
+  /** Ignore stored scan state and re-fetch every repository */
+  full?: boolean;
 }
 
 class MarketplaceScanner {
@@ -94,8 +114,30 @@ class MarketplaceScanner {
   private maxResults: number;
   private useMultiStrategy: boolean;
   private pluginDiscovery: ReturnType<typeof createPluginDiscovery>;
-
-  constructor() {
+  private qualityScorer: ReturnType<typeof createConfiguredQualityScorer>;
+  private discoveryConfig: DiscoveryConfig;
+  // What each seed list and search strategy found in this scan, in run order
+  private strategyYields: StrategyYield[] = [];
+  private moderator: Moderator;
+  private incremental: boolean;
+  private scanState: ReturnType<typeof createScanStateStore>;
+  private previousMarketplaces = new Map<string, Marketplace>();
+  private previousPlugins: DiscoveredPlugin[] = [];
+  // Marketplace IDs of repositories with nothing pushed since the previous scan
+  private unchangedRepositories = new Set<string>();
+  private githubClient: GitHubClient;
+  private scheduler: TaskScheduler;
+  private progress: ScanProgressStore<Marketplace>;
+  // Lowercase owner/repo of every repository queued in this scan
+  private queuedRepositories = new Set<string>();
+  // Processing of queued repositories, settled once each is recorded
+  private pendingCandidates: Promise<void>[] = [];
+  // When a request last hit the rate limit
+  private rateLimitedAt = 0;
+  // Set when the rate limit ran out for longer than the scheduler waits
+  private interruption?: RateLimitWaitError;
+
+  constructor(options: ScannerOptions = {}) {
     // Initialize GitHub client
     this.octokit = new Octokit({
       auth: process.env.GITHUB_TOKEN,
@@ -108,10 +150,43 @@ class MarketplaceScanner {
     this.maxResults = parseInt(process.env.SEARCH_RESULTS_LIMIT || '100');
     // Use multi-strategy by default unless a specific query is provided
     this.useMultiStrategy = !process.env.SEARCH_QUERY;
+    this.incremental = !options.full;
+
+    // Work is scheduled a repository at a time: each takes one token from the core bucket
+    // however many requests it makes, so local pacing is coarse. The rate limits every
+    // response reports feed the buckets and hold repositories back once the quota is spent.
+    this.scheduler = createGitHubTaskScheduler({ concurrency: getScanConcurrency() });
+    this.octokit.hook.after('request', (response) => {
+      this.recordRateLimit(response.headers);
+    });
+    this.octokit.hook.error('request', (error) => {
+      const { status, response } = error as {
+        status?: number;
+        response?: { headers: Record<string, string | number | undefined> };
+      };
+      this.recordRateLimit(response?.headers, status);
+      throw error;
+    });
 
     // Initialize plugin discovery
     this.pluginDiscovery = createPluginDiscovery(this.octokit);
 
+    this.qualityScorer = createConfiguredQualityScorer();
+    this.discoveryConfig = loadDiscoveryConfig();
+    this.moderator = createModerator();
+
+    // Parses the rate limit headers fed to the scheduler
+    this.githubClient = createGitHubClient({
+      token: process.env.GITHUB_TOKEN,
+      userAgent: 'claude-marketplace-aggregator/1.0.0',
+    });
+
+    // State is always written so a --full run primes the next incremental one
+    this.scanState = createScanStateStore(path.join(this.outputDir, 'scan-state.json'));
+    this.progress = createScanProgressStore<Marketplace>(
+      path.join(this.outputDir, 'scan-progress.json')
+    );
+
     // Ensure output directories exist
     if (!fs.existsSync(this.outputDir)) {
       fs.mkdirSync(this.outputDir, { recursive: true });
@@ -127,60 +202,263 @@ class MarketplaceScanner {
     console.log(
       `Strategy: ${this.useMultiStrategy ? 'Multi-strategy search' : `Single query: ${this.searchQuery}`}`
     );
+    console.log(`Scan mode: ${this.incremental ? 'Incremental' : 'Full'}`);
+
+    this.scanState.load();
+    if (this.incremental) {
+      this.loadPreviousResults();
+    }
+    const resumed = this.progress.load();
+    if (resumed > 0) {
+      console.log(
+        `⏯️ Resuming the scan started ${this.progress.getStartedAt()}: ${resumed} repositories already processed`
+      );
+    }
 
     const repoMap = new Map<string, Marketplace>();
 
     try {
-      // First, fetch known marketplaces
-      await this.fetchKnownMarketplaces(repoMap);
+      // Known marketplaces go first in the queue
+      this.queueKnownMarketplaces(repoMap);
 
       if (this.useMultiStrategy) {
         // Run multiple search strategies
         await this.runMultiStrategySearch(repoMap);
       } else {
         // Use single query (backward compatibility)
-        await this.runSingleQuerySearch(repoMap, this.searchQuery, 'custom-query');
+        await this.runRepositorySearch(repoMap, {
+          name: 'custom-query',
+          type: 'repo',
+          query: this.searchQuery,
+          enabled: true,
+          maxResults: this.maxResults,
+          maxPages: 3,
+        });
+      }
+
+      await Promise.all(this.pendingCandidates);
+      if (this.interruption) {
+        this.pause(this.interruption);
       }
 
       const marketplaces = Array.from(repoMap.values());
       console.log(`\n🎉 Scan complete! Found ${marketplaces.length} unique marketplaces`);
+
+      const duplicates = groupDuplicateMarketplaces(marketplaces);
+      if (duplicates > 0) {
+        console.log(`🪞 ${duplicates} forks and mirrors grouped under their canonical marketplace`);
+      }
+
+      const stats = this.scanState.getStats();
+      console.log(
+        `♻️ Repository state: ${stats.notModified} not modified (304), ${stats.unchanged} unchanged, ${stats.refreshed} refreshed`
+      );
       return marketplaces;
     } catch (error) {
-      console.error('❌ Scan failed:', error);
+      if (!(error instanceof RateLimitWaitError)) {
+        console.error('❌ Scan failed:', error);
+      }
       throw error;
     }
   }
 
-  private async fetchKnownMarketplaces(repoMap: Map<string, Marketplace>): Promise<void> {
-    console.log('\n📌 Fetching known marketplaces...');
+  private queueKnownMarketplaces(repoMap: Map<string, Marketplace>): void {
+    console.log('\n📌 Queueing known marketplaces...');
+    const yieldStats = this.startYield(SEED_STRATEGY, 'seed');
 
-    for (const repoPath of KNOWN_MARKETPLACES) {
+    for (const repoPath of this.discoveryConfig.seeds) {
       const [owner, repo] = repoPath.split('/');
-      try {
-        const response = await this.octokit.repos.get({ owner, repo });
-        const marketplace = await this.processRepository(response.data, 'known-seed');
-        if (marketplace) {
-          repoMap.set(marketplace.id, marketplace);
-          console.log(`  ✅ Seeded: ${repoPath}`);
-        }
-      } catch (error: any) {
-        if (error.status === 404) {
-          console.log(`  ⚠️ Known repo not found: ${repoPath}`);
-        } else {
-          console.error(`  ❌ Error fetching ${repoPath}:`, error.message);
-        }
+      yieldStats.candidates++;
+      if (!this.isAllowedRepository(repoPath)) continue;
+      this.queueCandidate(
+        repoMap,
+        yieldStats,
+        repoPath,
+        async () => {
+          try {
+            const marketplace = await this.fetchAndProcessRepository(owner, repo, SEED_STRATEGY);
+            if (marketplace) console.log(`  ✅ Seeded: ${repoPath}`);
+            return marketplace;
+          } catch (error: any) {
+            if (error.status === 404) {
+              console.log(`  ⚠️ Known repo not found: ${repoPath}`);
+            } else {
+              console.error(`  ❌ Error fetching ${repoPath}:`, error.message);
+            }
+            throw error;
+          }
+        },
+        PRIORITY.seed
+      );
+    }
+
+    console.log(`📌 Queued ${this.discoveryConfig.seeds.length} known marketplaces`);
+  }
+
+  /**
+   * Feed the rate limit a response reports to the scheduler. Exhausted limits and
+   * secondary limits (403 or 429 with Retry-After) also mark the time, so work done
+   * around that request is redone after the reset.
+   */
+  private recordRateLimit(
+    headers: Record<string, string | number | undefined> | undefined,
+    status?: number
+  ): void {
+    if (!headers) return;
+    const bucket = getGitHubBucket(headers['x-ratelimit-resource'] as string | undefined);
+
+    if (headers['x-ratelimit-limit']) {
+      const rateLimit = this.githubClient.extractRateLimitFromHeaders(headers);
+      if (rateLimit) this.scheduler.updateRateLimit(bucket, rateLimit.rate);
+    }
+
+    if (status === 403 || status === 429) {
+      const retryAfter = Number(headers['retry-after']);
+      if (retryAfter > 0) {
+        this.scheduler.updateRateLimit(bucket, {
+          limit: 1,
+          remaining: 0,
+          reset: Math.ceil(Date.now() / 1000) + retryAfter,
+          used: 0,
+        });
+      }
+      if (retryAfter > 0 || String(headers['x-ratelimit-remaining']) === '0') {
+        this.rateLimitedAt = Date.now();
       }
-      await this.delay(500);
     }
+  }
+
+  /**
+   * Queue a repository for processing and count the result in its source's yield.
+   * Repositories processed before an interruption are taken from the saved progress.
+   */
+  private queueCandidate(
+    repoMap: Map<string, Marketplace>,
+    yieldStats: StrategyYield,
+    fullName: string,
+    processRepository: () => Promise<Marketplace | null>,
+    priority: number = PRIORITY.candidate
+  ): void {
+    this.queuedRepositories.add(fullName.toLowerCase());
+
+    const result = this.progress.has(fullName)
+      ? Promise.resolve(this.progress.get(fullName) ?? null)
+      : this.processCandidate(fullName, processRepository, priority);
+
+    this.pendingCandidates.push(
+      result.then(
+        (marketplace) => {
+          this.recordCandidate(repoMap, yieldStats, marketplace);
+        },
+        (error) => {
+          if (error instanceof RateLimitWaitError) {
+            this.interruption = this.interruption ?? error;
+          } else {
+            yieldStats.failed++;
+          }
+        }
+      )
+    );
+  }
+
+  /**
+   * Process a repository through the scheduler. Results left incomplete by a rate
+   * limited request are not saved to the progress file.
+   */
+  private async processCandidate(
+    fullName: string,
+    processRepository: () => Promise<Marketplace | null>,
+    priority: number
+  ): Promise<Marketplace | null> {
+    const { result, rateLimited } = await this.scheduleRepository(processRepository, priority);
+    if (!rateLimited) {
+      this.progress.record(fullName, result);
+    }
+    return result;
+  }
+
+  /**
+   * Run work on one repository through the scheduler. A rate limited request leaves
+   * the result incomplete, so the work runs again once the limit allows, up to
+   * RATE_LIMIT_RETRIES times; `rateLimited` is still set on a result given up on.
+   */
+  private async scheduleRepository<T>(
+    run: () => Promise<T>,
+    priority: number
+  ): Promise<{ result: T; rateLimited: boolean }> {
+    for (let attempt = 0; ; attempt++) {
+      const outcome = await this.scheduler.schedule({
+        bucket: GITHUB_BUCKETS.core,
+        priority,
+        run: async () => {
+          const startedAt = Date.now();
+          const result = await run();
+          return { result, rateLimited: this.rateLimitedAt >= startedAt };
+        },
+      });
+
+      if (!outcome.rateLimited || attempt >= RATE_LIMIT_RETRIES) return outcome;
+    }
+  }
 
-    console.log(`📌 Seeded ${repoMap.size} known marketplaces`);
+  /**
+   * Whether an earlier source already queued a repository
+   */
+  private isQueued(fullName: string): boolean {
+    return this.queuedRepositories.has(fullName.toLowerCase());
+  }
+
+  /**
+   * Whether moderation rules let a repository be listed. Hidden repositories are
+   * not fetched at all.
+   */
+  private isAllowedRepository(fullName: string): boolean {
+    return this.moderator.allows({ kind: 'marketplace', marketplace: fullName });
+  }
+
+  /**
+   * Start counting what a discovery source finds
+   */
+  private startYield(strategy: string, type: StrategyYield['type']): StrategyYield {
+    const yieldStats = createStrategyYield(strategy, type);
+    this.strategyYields.push(yieldStats);
+    return yieldStats;
+  }
+
+  /**
+   * Add a processed candidate to the results and count it in its source's yield.
+   * Returns true when the repository was new.
+   */
+  private recordCandidate(
+    repoMap: Map<string, Marketplace>,
+    yieldStats: StrategyYield,
+    marketplace: Marketplace | null
+  ): boolean {
+    if (!marketplace) {
+      yieldStats.failed++;
+      return false;
+    }
+    if (repoMap.has(marketplace.id)) {
+      yieldStats.duplicates++;
+      return false;
+    }
+    repoMap.set(marketplace.id, marketplace);
+    yieldStats.new++;
+    if (marketplace.manifest) yieldStats.withManifest++;
+    return true;
   }
 
   private async runMultiStrategySearch(repoMap: Map<string, Marketplace>): Promise<void> {
-    console.log(`\n🔎 Running ${SEARCH_STRATEGIES.length} search strategies...`);
+    const strategies = this.discoveryConfig.strategies.filter((strategy) => strategy.enabled);
+    console.log(`\n🔎 Running ${strategies.length} search strategies...`);
 
-    for (const strategy of SEARCH_STRATEGIES) {
-      if (repoMap.size >= this.maxResults) {
+    for (const strategy of this.discoveryConfig.strategies) {
+      if (!strategy.enabled) {
+        console.log(`\n⏭️ Strategy disabled: ${strategy.name}`);
+        continue;
+      }
+      if (this.interruption) break;
+      if (this.queuedRepositories.size >= this.maxResults) {
         console.log(`  ⏹️ Max results (${this.maxResults}) reached, stopping search`);
         break;
       }
@@ -192,81 +470,110 @@ class MarketplaceScanner {
         if (strategy.type === 'code') {
           await this.runCodeSearch(repoMap, strategy);
         } else {
-          await this.runSingleQuerySearch(repoMap, strategy.query, strategy.name);
+          await this.runRepositorySearch(repoMap, strategy);
         }
       } catch (error: any) {
+        if (error instanceof RateLimitWaitError) {
+          this.interruption = this.interruption ?? error;
+          break;
+        }
         console.error(`   ❌ Strategy failed: ${error.message}`);
       }
-
-      await this.delay(2000); // Rate limiting between strategies
     }
   }
 
   private async runCodeSearch(
     repoMap: Map<string, Marketplace>,
-    strategy: SearchStrategy
+    strategy: DiscoveryStrategy
   ): Promise<void> {
-    const startSize = repoMap.size;
+    const yieldStats = this.startYield(strategy.name, strategy.type);
 
     try {
-      const searchResponse = await this.octokit.search.code({
-        q: strategy.query,
-        per_page: 100,
+      const searchResponse = await this.scheduler.schedule({
+        bucket: GITHUB_BUCKETS.codeSearch,
+        priority: PRIORITY.search,
+        run: () =>
+          this.octokit.search.code({
+            q: strategy.query,
+            per_page: Math.min(100, strategy.maxResults),
+          }),
       });
 
       console.log(`   Found ${searchResponse.data.total_count} code matches`);
 
       const processedRepos = new Set<string>();
+      let queued = 0;
       for (const item of searchResponse.data.items) {
         const repoFullName = item.repository.full_name;
         if (processedRepos.has(repoFullName)) continue;
         processedRepos.add(repoFullName);
 
-        if (repoMap.size >= this.maxResults) break;
+        if (
+          this.queuedRepositories.size >= this.maxResults ||
+          yieldStats.candidates >= strategy.maxResults
+        ) {
+          break;
+        }
+        yieldStats.candidates++;
 
-        try {
-          const repoResponse = await this.octokit.repos.get({
-            owner: item.repository.owner.login,
-            repo: item.repository.name,
-          });
-          const marketplace = await this.processRepository(repoResponse.data, strategy.name);
-          if (marketplace && !repoMap.has(marketplace.id)) {
-            repoMap.set(marketplace.id, marketplace);
-          }
-        } catch {
-          // Skip repos we can't access
+        // Found by an earlier source: no need to fetch it again
+        if (this.isQueued(repoFullName)) {
+          yieldStats.duplicates++;
+          continue;
         }
-        await this.delay(300);
+        if (!this.isAllowedRepository(repoFullName)) continue;
+
+        this.queueCandidate(repoMap, yieldStats, repoFullName, () =>
+          this.fetchAndProcessRepository(
+            item.repository.owner.login,
+            item.repository.name,
+            strategy.name
+          )
+        );
+        queued++;
       }
 
-      const newFound = repoMap.size - startSize;
-      console.log(`   ➕ Added ${newFound} new repositories`);
+      console.log(`   ➕ Queued ${queued} repositories`);
     } catch (error: any) {
       if (error.status === 422) {
         console.log(`   ⚠️ Query returned no results or is invalid`);
       } else {
+        yieldStats.error = error.message;
         throw error;
       }
     }
   }
 
-  private async runSingleQuerySearch(
+  private async runRepositorySearch(
     repoMap: Map<string, Marketplace>,
-    query: string,
-    source: string
+    strategy: DiscoveryStrategy
   ): Promise<void> {
-    const startSize = repoMap.size;
+    const yieldStats = this.startYield(strategy.name, strategy.type);
     let page = 1;
     const perPage = 100;
 
-    while (repoMap.size < this.maxResults) {
+    let queued = 0;
+
+    while (
+      this.queuedRepositories.size < this.maxResults &&
+      yieldStats.candidates < strategy.maxResults
+    ) {
       try {
-        const searchResponse = await this.octokit.search.repos({
-          q: query,
-          sort: 'updated',
-          order: 'desc',
-          per_page: Math.min(perPage, this.maxResults - repoMap.size),
-          page,
+        const searchResponse = await this.scheduler.schedule({
+          bucket: GITHUB_BUCKETS.search,
+          priority: PRIORITY.search,
+          run: () =>
+            this.octokit.search.repos({
+              q: strategy.query,
+              sort: 'updated',
+              order: 'desc',
+              per_page: Math.min(
+                perPage,
+                this.maxResults - this.queuedRepositories.size,
+                strategy.maxResults - yieldStats.candidates
+              ),
+              page,
+            }),
         });
 
         if (searchResponse.data.items.length === 0) {
@@ -278,43 +585,108 @@ class MarketplaceScanner {
         }
 
         for (const repo of searchResponse.data.items) {
-          if (repoMap.size >= this.maxResults) break;
+          if (this.queuedRepositories.size >= this.maxResults) break;
+          yieldStats.candidates++;
 
-          try {
-            const marketplace = await this.processRepository(repo, source);
-            if (marketplace && !repoMap.has(marketplace.id)) {
-              repoMap.set(marketplace.id, marketplace);
-            }
-          } catch {
-            // Skip repos we can't process
+          if (this.isQueued(repo.full_name)) {
+            yieldStats.duplicates++;
+            continue;
           }
+          if (!this.isAllowedRepository(repo.full_name)) continue;
+
+          this.queueCandidate(repoMap, yieldStats, repo.full_name, () =>
+            this.processRepository(repo, strategy.name)
+          );
+          queued++;
         }
 
         page++;
-        await this.delay(1000);
-
-        // Limit pages per strategy
-        if (page > 3) break;
+        if (page > strategy.maxPages) break;
       } catch (error: any) {
-        if (error.status === 422) {
+        if (error instanceof RateLimitWaitError) {
+          this.interruption = this.interruption ?? error;
+        } else if (error.status === 422) {
           console.log(`   ⚠️ Query returned no results`);
+        } else {
+          yieldStats.error = error.message;
         }
         break;
       }
     }
 
-    const newFound = repoMap.size - startSize;
-    console.log(`   ➕ Added ${newFound} new repositories`);
+    console.log(`   ➕ Queued ${queued} repositories`);
+  }
+
+  /**
+   * Load the previous scan output so unchanged repositories can be reused
+   */
+  private loadPreviousResults(): void {
+    const readJsonArray = <T>(filePath: string): T[] => {
+      try {
+        const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+        return Array.isArray(data) ? data : [];
+      } catch {
+        return [];
+      }
+    };
+
+    const marketplaces = readJsonArray<Marketplace>(path.join(this.outputDir, 'raw.json'));
+    this.previousMarketplaces = new Map(marketplaces.map((mp) => [mp.id, mp]));
+    this.previousPlugins = readJsonArray<DiscoveredPlugin>(path.join(this.pluginsDir, 'raw.json'));
+
+    console.log(
+      `♻️ Loaded previous scan: ${this.previousMarketplaces.size} marketplaces, ${this.previousPlugins.length} plugins`
+    );
+  }
+
+  private getCachedMarketplace(fullName: string): Marketplace | undefined {
+    const state = this.scanState.get(fullName);
+    return state ? this.previousMarketplaces.get(state.marketplaceId) : undefined;
+  }
+
+  /**
+   * Fetch and process a repository. In incremental mode the stored ETag is sent
+   * as If-None-Match; a 304 reuses the previous result and does not count
+   * against the rate limit.
+   */
+  private async fetchAndProcessRepository(
+    owner: string,
+    repo: string,
+    discoverySource: string
+  ): Promise<Marketplace | null> {
+    const fullName = `${owner}/${repo}`;
+    const cached = this.incremental ? this.getCachedMarketplace(fullName) : undefined;
+    const etag = cached ? this.scanState.get(fullName)?.etag : undefined;
+
+    try {
+      const response = await this.octokit.repos.get({
+        owner,
+        repo,
+        ...(etag && { headers: { 'if-none-match': etag } }),
+      });
+      return this.processRepository(response.data, discoverySource, response.headers.etag);
+    } catch (error: unknown) {
+      if (cached && (error as { status?: number }).status === 304) {
+        this.scanState.recordNotModified();
+        this.scanState.touch(fullName);
+        this.unchangedRepositories.add(cached.id);
+        return { ...cached, discoverySource };
+      }
+      throw error;
+    }
   }
 
   private async processRepository(
     repo: any,
-    discoverySource?: string
+    discoverySource?: string,
+    etag?: string
   ): Promise<Marketplace | null> {
+    const startedAt = Date.now();
     try {
-      // Use repo data directly if it has full details, otherwise fetch
+      // Use repo data directly if it has full details, otherwise fetch. Search results
+      // leave out the repository a fork was made from.
       let repoData = repo;
-      if (!repo.stargazers_count && repo.owner) {
+      if ((!repo.stargazers_count || (repo.fork && !repo.parent)) && repo.owner) {
         const response = await this.octokit.repos.get({
           owner: repo.owner.login,
           repo: repo.name,
@@ -335,18 +707,34 @@ class MarketplaceScanner {
         license: repoData.license?.name || 'None',
         topics: repoData.topics || [],
         discoverySource,
+        parent: repoData.parent?.full_name,
       };
 
-      // Try to fetch marketplace manifest
       const owner = repoData.owner?.login || repo.owner?.login;
       const repoName = repoData.name || repo.name;
+      const fullName = `${owner}/${repoName}`;
+      const previousState = this.scanState.get(fullName);
+
+      // Nothing pushed since the last scan: keep the previous manifest and skills
+      const cached = this.incremental ? this.getCachedMarketplace(fullName) : undefined;
+      if (cached && previousState?.pushedAt && previousState.pushedAt === repoData.pushed_at) {
+        marketplace.manifest = cached.manifest;
+        marketplace.plugins = cached.plugins;
+        this.scanState.touch(fullName, { etag: etag ?? previousState.etag });
+        this.scanState.recordUnchanged();
+        this.unchangedRepositories.add(marketplace.id);
+        return marketplace;
+      }
+
+      // Try to fetch marketplace manifest
+      let manifestFetched = true;
       try {
         const manifest = await this.fetchManifest(owner, repoName);
         if (manifest) {
           marketplace.manifest = manifest;
         }
       } catch {
-        // No manifest found, that's OK
+        manifestFetched = false;
       }
 
       // Check for skills in the repository
@@ -359,6 +747,18 @@ class MarketplaceScanner {
         // No skills found, that's OK
       }
 
+      // Without the manifest the next scan must process the repository again, even
+      // when nothing has been pushed
+      if (manifestFetched && this.rateLimitedAt < startedAt) {
+        this.scanState.set(fullName, {
+          etag,
+          pushedAt: repoData.pushed_at,
+          marketplaceId: marketplace.id,
+          lastScanned: new Date().toISOString(),
+        });
+      }
+      this.scanState.recordRefreshed();
+
       return marketplace;
     } catch {
       // Silently skip repos we can't process
@@ -366,24 +766,35 @@ class MarketplaceScanner {
     }
   }
 
-  private async fetchManifest(owner: string, repo: string): Promise<any | null> {
+  /**
+   * Read the marketplace manifest, or null when the repository has none
+   *
+   * @throws the request error for anything but a 404, so the repository is not
+   * recorded as scanned without its manifest
+   */
+  private async fetchManifest(owner: string, repo: string): Promise<unknown | null> {
     // Only check official marketplace manifest path per Claude Code spec
+    let content: string;
     try {
       const response = await this.octokit.repos.getContent({
         owner,
         repo,
         path: MANIFEST_PATHS.marketplace,
       });
-
-      if ('content' in response.data) {
-        const content = Buffer.from(response.data.content, 'base64').toString('utf-8');
-        return JSON.parse(content);
-      }
-    } catch {
+      if (!('content' in response.data)) return null;
+      content = Buffer.from(response.data.content, 'base64').toString('utf-8');
+    } catch (error) {
       // No manifest found - repo is not a spec-compliant marketplace
+      if ((error as { status?: number }).status === 404) return null;
+      throw error;
     }
 
-    return null;
+    try {
+      return JSON.parse(content);
+    } catch {
+      // An unparseable manifest counts as none until the next push
+      return null;
+    }
   }
 
   private async detectSkills(owner: string, repo: string): Promise<any[]> {
@@ -420,6 +831,7 @@ class MarketplaceScanner {
                     path: `${skillPath}/${item.name}`,
                     hasSkillMd: true,
                     description: this.extractSkillDescription(content),
+                    bodyHash: hashSkillBody(content),
                   });
                 }
               } catch {
@@ -448,6 +860,7 @@ class MarketplaceScanner {
           path: '.',
           hasSkillMd: true,
           description: this.extractSkillDescription(content),
+          bodyHash: hashSkillBody(content),
         });
       }
     } catch {
@@ -476,10 +889,6 @@ class MarketplaceScanner {
     return description;
   }
 
-  private delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-  }
-
   async saveResults(marketplaces: Marketplace[]): Promise<void> {
     console.log('💾 Saving scan results...');
 
@@ -499,6 +908,8 @@ class MarketplaceScanner {
       updatedAt: mp.updatedAt,
       topics: mp.topics,
       hasManifest: !!mp.manifest,
+      duplicateOf: mp.duplicateOf,
+      duplicates: mp.duplicates,
     }));
 
     const processedDataPath = path.join(this.outputDir, 'processed.json');
@@ -508,8 +919,13 @@ class MarketplaceScanner {
     const summary = {
       totalFound: marketplaces.length,
       withManifest: marketplaces.filter((mp) => !!mp.manifest).length,
+      duplicates: marketplaces.filter((mp) => mp.duplicateOf).length,
       lastUpdated: new Date().toISOString(),
       searchQuery: this.searchQuery,
+      discovery: {
+        configVersion: this.discoveryConfig.version,
+        strategies: this.strategyYields,
+      },
       languages: this.getLanguageStats(marketplaces),
       topRepos: marketplaces
         .sort((a, b) => b.stars - a.stars)
@@ -530,6 +946,24 @@ class MarketplaceScanner {
     console.log(`- Summary: ${summaryPath}`);
   }
 
+  /**
+   * Attach the marketplace quality score and the breakdown behind it
+   */
+  withQualityScore(marketplace: Marketplace): Marketplace & {
+    qualityScore: number;
+    qualityBreakdown: QualityBreakdown;
+  } {
+    const qualityBreakdown = this.qualityScorer.score('marketplace', {
+      stars: marketplace.stars,
+      forks: marketplace.forks,
+      updatedAt: marketplace.updatedAt,
+      license: marketplace.license,
+      topics: marketplace.topics,
+      pluginCount: marketplace.manifest?.plugins?.length ?? marketplace.plugins?.length ?? 0,
+    });
+    return { ...marketplace, qualityScore: qualityBreakdown.score, qualityBreakdown };
+  }
+
   async generateMarketplaceDataFile(marketplaces: Marketplace[]): Promise<void> {
     console.log('📄 Generating UI marketplace data file...');
 
@@ -540,20 +974,23 @@ class MarketplaceScanner {
       fs.mkdirSync(publicDataDir, { recursive: true });
     }
 
+    // Forks and mirrors are listed but left out of the totals
+    const counted = marketplaces.filter((mp) => !mp.duplicateOf);
     const marketplacesData = {
-      marketplaces: marketplaces,
+      marketplaces: marketplaces.map((marketplace) => this.withQualityScore(marketplace)),
       lastUpdated: new Date().toISOString(),
       totalCount: marketplaces.length,
       source: 'github-scan',
       summary: {
-        totalMarketplaces: marketplaces.length,
-        withManifests: marketplaces.filter((mp) => !!mp.manifest).length,
-        totalStars: marketplaces.reduce((sum, mp) => sum + mp.stars, 0),
+        totalMarketplaces: counted.length,
+        duplicateMarketplaces: marketplaces.length - counted.length,
+        withManifests: counted.filter((mp) => !!mp.manifest).length,
+        totalStars: counted.reduce((sum, mp) => sum + mp.stars, 0),
         averageStars:
-          marketplaces.length > 0
-            ? Math.round(marketplaces.reduce((sum, mp) => sum + mp.stars, 0) / marketplaces.length)
+          counted.length > 0
+            ? Math.round(counted.reduce((sum, mp) => sum + mp.stars, 0) / counted.length)
             : 0,
-        topLanguages: this.getLanguageStats(marketplaces),
+        topLanguages: this.getLanguageStats(counted),
       },
     };
 
@@ -576,45 +1013,170 @@ class MarketplaceScanner {
   }
 
   /**
-   * Discover plugins from all marketplaces with manifests
+   * Discover plugins from all marketplaces with manifests, several marketplaces at a
+   * time through the scheduler. Plugins keep the marketplace order. A marketplace whose
+   * discovery was rate limited is discovered again, as repositories are.
+   *
+   * @throws RateLimitWaitError when the rate limit runs out for longer than the
+   * scheduler waits, rather than saving a partial plugin list
    */
   async discoverPluginsFromMarketplaces(marketplaces: Marketplace[]): Promise<DiscoveredPlugin[]> {
     console.log('\n🔌 Discovering plugins from marketplaces...');
 
-    const allPlugins: DiscoveredPlugin[] = [];
     const marketplacesWithManifests = marketplaces.filter((mp) => mp.manifest);
 
     console.log(`Found ${marketplacesWithManifests.length} marketplaces with manifests`);
 
-    for (const marketplace of marketplacesWithManifests) {
-      // Extract owner from URL
-      const urlParts = marketplace.url.split('/');
-      const owner = urlParts[urlParts.length - 2];
-      const repo = urlParts[urlParts.length - 1];
+    try {
+      const results = await Promise.all(
+        marketplacesWithManifests.map(async (marketplace) => {
+          const { result, rateLimited } = await this.scheduleRepository(
+            () => this.discoverMarketplacePlugins(marketplace),
+            PRIORITY.candidate
+          );
+          if (rateLimited) {
+            console.warn(`  ⚠️ Plugins of ${marketplace.name} may be incomplete: rate limited`);
+          }
+          return result;
+        })
+      );
+      return results.flat();
+    } catch (error) {
+      if (error instanceof RateLimitWaitError) this.pause(error);
+      throw error;
+    }
+  }
 
-      console.log(`\n📦 Processing marketplace: ${owner}/${repo}`);
+  private async discoverMarketplacePlugins(marketplace: Marketplace): Promise<DiscoveredPlugin[]> {
+    // Extract owner from URL
+    const urlParts = marketplace.url.split('/');
+    const owner = urlParts[urlParts.length - 2];
+    const repo = urlParts[urlParts.length - 1];
+
+    console.log(`\n📦 Processing marketplace: ${owner}/${repo}`);
+
+    // Nothing pushed to the marketplace repository: reuse the plugins discovered last
+    // time. An unchanged manifest alone is not enough, since plugins stored in the
+    // repository may have changed. Plugins hosted in external repositories are only
+    // refreshed by a --full scan.
+    if (this.unchangedRepositories.has(marketplace.id)) {
+      const previous = this.previousPlugins.filter((p) => p.marketplaceId === marketplace.id);
+      if (previous.length > 0) {
+        console.log(`  ♻️ Repository unchanged, reusing ${previous.length} plugins`);
+        return previous;
+      }
+    }
 
-      const marketplaceInfo: MarketplaceInfo = {
-        owner,
-        repo,
-        id: marketplace.id,
-        name: marketplace.name,
-        url: marketplace.url,
-        manifest: marketplace.manifest,
-      };
+    const marketplaceInfo: MarketplaceInfo = {
+      owner,
+      repo,
+      id: marketplace.id,
+      name: marketplace.name,
+      url: marketplace.url,
+      manifest: marketplace.manifest,
+    };
 
-      try {
-        const plugins = await this.pluginDiscovery.discoverPlugins(marketplaceInfo);
-        allPlugins.push(...plugins);
-      } catch (error: any) {
-        console.error(`  ❌ Failed to discover plugins: ${error.message}`);
-      }
+    try {
+      return await this.pluginDiscovery.discoverPlugins(marketplaceInfo);
+    } catch (error: any) {
+      console.error(`  ❌ Failed to discover plugins: ${error.message}`);
+      return [];
+    }
+  }
+
+  /**
+   * Drop plugins hidden by moderation rules, matched by name and by the marketplace
+   * and plugin repositories
+   */
+  moderatePlugins(marketplaces: Marketplace[], plugins: DiscoveredPlugin[]): DiscoveredPlugin[] {
+    const marketplaceRepos = new Map(marketplaces.map((mp) => [mp.id, toRepositoryName(mp.url)]));
+    const visible = this.moderator.filter(plugins, (plugin) => ({
+      kind: 'plugin',
+      marketplace:
+        marketplaceRepos.get(plugin.marketplaceId) ?? toRepositoryName(plugin.repository),
+      repository: toRepositoryName(plugin.repository),
+      name: plugin.name,
+    }));
 
-      // Rate limiting
-      await this.delay(500);
+    if (visible.length < plugins.length) {
+      console.log(`🛡️ Moderation hid ${plugins.length - visible.length} plugins`);
     }
+    return visible;
+  }
+
+  /**
+   * Attach repository statistics to each plugin, several repositories at a time through
+   * the scheduler. Plugins sharing a repository reuse one request; when a request fails
+   * the statistics from the previous scan are kept.
+   */
+  async attachRepositoryStats(plugins: DiscoveredPlugin[]): Promise<void> {
+    console.log('\n📈 Fetching plugin repository statistics...');
+
+    const previousStats = new Map(
+      this.previousPlugins
+        .filter((p) => p.repositoryStats)
+        .map((p) => [p.id, p.repositoryStats] as const)
+    );
+    const requests = new Map<string, Promise<PluginRepositoryStats | undefined>>();
+
+    const results = await Promise.all(
+      plugins.map((plugin) => {
+        const ref = parseRepositoryRef(plugin.repository);
+        if (!ref) return undefined;
+
+        const key = `${ref.owner}/${ref.repo}`.toLowerCase();
+        if (!requests.has(key)) {
+          requests.set(key, this.fetchRepositoryStats(ref.owner, ref.repo));
+        }
+        return requests.get(key);
+      })
+    );
 
-    return allPlugins;
+    let fetched = 0;
+    plugins.forEach((plugin, index) => {
+      const stats = results[index];
+      if (stats) {
+        plugin.repositoryStats = stats;
+        fetched++;
+      } else {
+        plugin.repositoryStats = plugin.repositoryStats ?? previousStats.get(plugin.id);
+      }
+    });
+
+    console.log(`  ✅ Repository statistics for ${fetched}/${plugins.length} plugins`);
+  }
+
+  /**
+   * Statistics of one plugin repository, or undefined when they could not be fetched.
+   * A rate limited request is retried like repository processing.
+   */
+  private async fetchRepositoryStats(
+    owner: string,
+    repo: string
+  ): Promise<PluginRepositoryStats | undefined> {
+    try {
+      const { result } = await this.scheduleRepository(async () => {
+        try {
+          const { data } = await this.octokit.repos.get({ owner, repo });
+          return {
+            fullName: data.full_name,
+            stars: data.stargazers_count,
+            forks: data.forks_count,
+            openIssues: data.open_issues_count,
+            defaultBranch: data.default_branch,
+            license: data.license?.name || null,
+            pushedAt: data.pushed_at,
+            fetchedAt: new Date().toISOString(),
+          };
+        } catch {
+          return undefined;
+        }
+      }, PRIORITY.candidate);
+      return result;
+    } catch {
+      // The rate limit ran out for longer than the scheduler waits
+      return undefined;
+    }
   }
 
   /**
@@ -652,6 +1214,9 @@ class MarketplaceScanner {
         repository: p.repository,
         marketplaceId: p.marketplaceId,
         marketplaceName: p.marketplaceName,
+        components: p.components,
+        inventory: p.inventory,
+        repositoryStats: p.repositoryStats,
       })),
       lastUpdated: new Date().toISOString(),
       totalCount: valid.length,
@@ -684,11 +1249,78 @@ class MarketplaceScanner {
       }
     }
   }
+
+  /**
+   * Persist per-repository scan state for the next incremental run
+   */
+  saveScanState(): void {
+    this.scanState.save();
+    console.log(`💾 Saved scan state to ${path.join(this.outputDir, 'scan-state.json')}`);
+  }
+
+  /**
+   * Save what this scan has processed so far and stop it until the rate limit resets
+   */
+  private pause(error: RateLimitWaitError): never {
+    this.progress.save();
+    this.scanState.save();
+    throw error;
+  }
+
+  /**
+   * Forget the progress of this scan once its results are saved
+   */
+  clearProgress(): void {
+    this.progress.clear();
+  }
+
+  /**
+   * Record items hidden or restored by moderation in this scan
+   */
+  saveModerationAudit(): void {
+    const written = this.moderator.save();
+    if (written > 0) {
+      console.log(`🛡️ Recorded ${written} moderation changes in data/moderation/audit.jsonl`);
+    }
+  }
+
+  /**
+   * Append this scan's per-source yield to data/history/discovery.jsonl and point out
+   * sources that have not found a new repository with a manifest in recent scans
+   */
+  saveDiscoveryYield(): void {
+    const store = createDiscoveryYieldStore();
+    store.append([
+      {
+        scannedAt: new Date().toISOString(),
+        configVersion: this.discoveryConfig.version,
+        strategies: this.strategyYields,
+      },
+    ]);
+
+    console.log('\n🧭 Discovery yield (new / duplicate / with manifest / failed):');
+    for (const result of this.strategyYields) {
+      console.log(
+        `  ${result.strategy}: ${result.new} / ${result.duplicates} / ${result.withManifest} / ${result.failed}${result.error ? ` (❌ ${result.error})` : ''}`
+      );
+    }
+
+    const history = store.load();
+    const unproductive = summarizeStrategyYields(history).filter(
+      (summary) => summary.unproductive && summary.strategy !== SEED_STRATEGY
+    );
+    if (unproductive.length > 0) {
+      console.log(
+        `⚠️ No new marketplaces in the last 5 scans from: ${unproductive.map((summary) => summary.strategy).join(', ')}`
+      );
+    }
+  }
 }
 
 // CLI execution
 async function main() {
   const dryRun = process.argv.includes('--dry-run');
+  const full = process.argv.includes('--full') || process.env.FORCE_UPDATE === 'true';
 
   console.log('🚀 Claude Marketplace Scanner');
   console.log(`Mode: ${dryRun ? 'Dry Run' : 'Production'}`);
@@ -700,7 +1332,7 @@ async function main() {
   }
 
   try {
-    const scanner = new MarketplaceScanner();
+    const scanner = new MarketplaceScanner({ full });
 
     if (dryRun) {
       console.log('🔍 Dry run: Would scan for marketplaces...');
@@ -716,15 +1348,29 @@ async function main() {
     await scanner.generateMarketplaceDataFile(marketplaces);
 
     // Discover plugins from marketplaces with manifests
-    const plugins = await scanner.discoverPluginsFromMarketplaces(marketplaces);
+    const plugins = scanner.moderatePlugins(
+      marketplaces,
+      await scanner.discoverPluginsFromMarketplaces(marketplaces)
+    );
+    await scanner.attachRepositoryStats(plugins);
     await scanner.savePluginResults(plugins);
+    scanner.saveScanState();
+    scanner.saveDiscoveryYield();
+    scanner.saveModerationAudit();
+    scanner.clearProgress();
 
     console.log('');
     console.log('🎉 Scan completed successfully!');
     console.log(`📊 Found ${marketplaces.length} marketplaces`);
     console.log(`🔌 Discovered ${plugins.length} plugins`);
   } catch (error) {
-    console.error('❌ Scan failed:', error);
+    if (error instanceof RateLimitWaitError) {
+      console.error(
+        `⏸️ Scan paused: ${error.message}. Progress is saved in data/marketplaces/scan-progress.json; run the scan again to continue.`
+      );
+    } else {
+      console.error('❌ Scan failed:', error);
+    }
     process.exit(1);
   }
 }
@@ -0,0 +1,120 @@
+/**
+ * Scan Progress Module
+ *
+ * Records every repository the marketplace scanner has processed during a run, so a
+ * scan interrupted by rate limiting continues where it stopped instead of fetching
+ * them again. The file is removed once a scan completes.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+const SCAN_PROGRESS_VERSION = 1 as const;
+
+// Progress older than this belongs to an abandoned scan and is ignored
+const MAX_PROGRESS_AGE_MS = 24 * 60 * 60 * 1000;
+
+export interface ScanProgressFile<T> {
+  version: typeof SCAN_PROGRESS_VERSION;
+  startedAt: string;
+  updatedAt: string;
+  /** Processed repositories by lowercase `owner/repo`; null when not a marketplace */
+  repositories: Record<string, T | null>;
+}
+
+export class ScanProgressStore<T> {
+  private filePath: string;
+  private startedAt = new Date().toISOString();
+  private repositories: Record<string, T | null> = {};
+  private unsaved = 0;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Load the progress of an interrupted scan
+   *
+   * @returns the number of repositories already processed, 0 when starting fresh
+   */
+  load(now: Date = new Date()): number {
+    if (!fs.existsSync(this.filePath)) return 0;
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as Partial<
+        ScanProgressFile<T>
+      >;
+      const age = now.getTime() - Date.parse(data.updatedAt ?? '');
+      if (
+        data.version !== SCAN_PROGRESS_VERSION ||
+        !data.repositories ||
+        !(age < MAX_PROGRESS_AGE_MS)
+      ) {
+        return 0;
+      }
+      this.startedAt = data.startedAt ?? this.startedAt;
+      this.repositories = data.repositories;
+    } catch {
+      console.warn(`⚠️ Could not read scan progress at ${this.filePath}, starting fresh`);
+    }
+    return Object.keys(this.repositories).length;
+  }
+
+  getStartedAt(): string {
+    return this.startedAt;
+  }
+
+  has(fullName: string): boolean {
+    return this.key(fullName) in this.repositories;
+  }
+
+  get(fullName: string): T | null | undefined {
+    return this.repositories[this.key(fullName)];
+  }
+
+  /**
+   * Record a processed repository, saving every `saveEvery` records
+   */
+  record(fullName: string, result: T | null, saveEvery = 10): void {
+    this.repositories[this.key(fullName)] = result;
+    if (++this.unsaved >= saveEvery) this.save();
+  }
+
+  save(): void {
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    const data: ScanProgressFile<T> = {
+      version: SCAN_PROGRESS_VERSION,
+      startedAt: this.startedAt,
+      updatedAt: new Date().toISOString(),
+      repositories: this.repositories,
+    };
+    fs.writeFileSync(this.filePath, JSON.stringify(data, null, 2));
+    this.unsaved = 0;
+  }
+
+  /**
+   * Forget the progress once the scan has completed
+   */
+  clear(): void {
+    fs.rmSync(this.filePath, { force: true });
+    this.repositories = {};
+    this.unsaved = 0;
+  }
+
+  private key(fullName: string): string {
+    return fullName.toLowerCase();
+  }
+}
+
+/**
+ * Create a store for resuming an interrupted scan
+ */
+export function createScanProgressStore<T>(
+  filePath: string = path.join(process.cwd(), 'data', 'marketplaces', 'scan-progress.json')
+): ScanProgressStore<T> {
+  return new ScanProgressStore<T>(filePath);
+}
@@ -0,0 +1,133 @@
+/**
+ * Scan State Module
+ *
+ * Persists per-repository scan state (ETag, pushed_at) between runs
+ * so the marketplace scanner can skip repositories that have not changed.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+const SCAN_STATE_VERSION = 1 as const;
+
+export interface RepoScanState {
+  /** ETag returned by the last `GET /repos/{owner}/{repo}` */
+  etag?: string;
+  /** Repository `pushed_at` at the time of the last full processing */
+  pushedAt?: string;
+  /** Marketplace ID (GitHub repository ID) the state belongs to */
+  marketplaceId: string;
+  lastScanned: string;
+}
+
+export interface ScanStateFile {
+  version: typeof SCAN_STATE_VERSION;
+  updatedAt: string;
+  repositories: Record<string, RepoScanState>;
+}
+
+export interface ScanStateStats {
+  /** Conditional requests answered with 304 Not Modified */
+  notModified: number;
+  /** Repositories whose pushed_at matched the stored state */
+  unchanged: number;
+  /** Repositories fully re-processed */
+  refreshed: number;
+}
+
+export class ScanStateStore {
+  private filePath: string;
+  private repositories: Record<string, RepoScanState> = {};
+  private stats: ScanStateStats = { notModified: 0, unchanged: 0, refreshed: 0 };
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Load state from disk. A missing or unreadable file yields an empty state,
+   * which makes the next scan behave like a full scan.
+   */
+  load(): void {
+    if (!fs.existsSync(this.filePath)) {
+      this.repositories = {};
+      return;
+    }
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as Partial<ScanStateFile>;
+      this.repositories =
+        data.version === SCAN_STATE_VERSION && data.repositories ? data.repositories : {};
+    } catch {
+      console.warn(`⚠️ Could not read scan state at ${this.filePath}, starting fresh`);
+      this.repositories = {};
+    }
+  }
+
+  get(fullName: string): RepoScanState | undefined {
+    return this.repositories[this.key(fullName)];
+  }
+
+  set(fullName: string, state: RepoScanState): void {
+    this.repositories[this.key(fullName)] = state;
+  }
+
+  /**
+   * Merge a partial update into an existing entry, refreshing lastScanned
+   */
+  touch(fullName: string, patch: Partial<RepoScanState> = {}): void {
+    const existing = this.get(fullName);
+    const marketplaceId = patch.marketplaceId || existing?.marketplaceId;
+    if (!marketplaceId) return;
+
+    this.set(fullName, {
+      ...existing,
+      ...patch,
+      marketplaceId,
+      lastScanned: new Date().toISOString(),
+    });
+  }
+
+  recordNotModified(): void {
+    this.stats.notModified++;
+  }
+
+  recordUnchanged(): void {
+    this.stats.unchanged++;
+  }
+
+  recordRefreshed(): void {
+    this.stats.refreshed++;
+  }
+
+  getStats(): ScanStateStats {
+    return { ...this.stats };
+  }
+
+  save(): void {
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    const data: ScanStateFile = {
+      version: SCAN_STATE_VERSION,
+      updatedAt: new Date().toISOString(),
+      repositories: this.repositories,
+    };
+    fs.writeFileSync(this.filePath, JSON.stringify(data, null, 2));
+  }
+
+  private key(fullName: string): string {
+    return fullName.toLowerCase();
+  }
+}
+
+/**
+ * Create a default scan state store
+ */
+export function createScanStateStore(
+  filePath: string = path.join(process.cwd(), 'data', 'marketplaces', 'scan-state.json')
+): ScanStateStore {
+  return new ScanStateStore(filePath);
+}
@@ -0,0 +1,124 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Scan Store CLI
+ *
+ * The data generator saves every run to a scan store when SCAN_STORE is set to
+ * `json` or `sqlite` (SCAN_STORE_PATH overrides the location under data/store).
+ * This script queries that store.
+ */
+
+import path from 'path';
+import {
+  createScanStore,
+  IScanStore,
+  isScanStoreBackend,
+  SCAN_STORE_BACKENDS,
+  ScanStoreOptions,
+} from '../src/data/scan-store';
+
+/**
+ * Scan store configuration from the environment, or null when no store is configured
+ */
+export function getScanStoreOptions(
+  env: NodeJS.ProcessEnv = process.env,
+  dataDir: string = path.join(process.cwd(), 'data')
+): ScanStoreOptions | null {
+  const backend = env.SCAN_STORE;
+  if (!backend) return null;
+
+  if (!isScanStoreBackend(backend)) {
+    throw new Error(
+      `Unknown SCAN_STORE "${backend}", expected one of: ${SCAN_STORE_BACKENDS.join(', ')}`
+    );
+  }
+
+  return {
+    backend,
+    path:
+      env.SCAN_STORE_PATH ||
+      path.join(dataDir, 'store', backend === 'sqlite' ? 'scans.db' : 'scans'),
+  };
+}
+
+async function listScans(store: IScanStore): Promise<void> {
+  const scans = await store.listScans(20);
+  console.log(`📋 Latest scans (${store.backend}):`);
+  scans.forEach((scan) => {
+    console.log(
+      `  ${scan.id} - ${scan.marketplaceCount} marketplaces, ${scan.pluginCount} plugins, ` +
+        `${scan.invalidPluginCount} invalid`
+    );
+  });
+}
+
+async function listInvalid(store: IScanStore, scanId?: string): Promise<void> {
+  const invalid = await store.queryValidations({ scanId, valid: false });
+  console.log(
+    `❌ ${invalid.length} invalid plugins${invalid[0] ? ` in ${invalid[0].scanId}` : ''}`
+  );
+  invalid.forEach((validation) => {
+    console.log(`  ${validation.pluginId}: ${validation.errors.join('; ')}`);
+  });
+}
+
+async function showHistory(store: IScanStore, pluginId: string): Promise<void> {
+  const history = await store.getPluginHistory(pluginId);
+  console.log(`🕒 ${pluginId} appears in ${history.length} scans`);
+  history.forEach((entry) => {
+    const state = entry.valid === undefined ? '' : entry.valid ? ' valid' : ' invalid';
+    const score = entry.score === undefined ? '' : `, score ${entry.score}`;
+    console.log(`  ${entry.scannedAt} - ${entry.version || 'no version'}${state}${score}`);
+  });
+}
+
+// CLI interface
+async function main(): Promise<void> {
+  const command = process.argv[2];
+  const argument = process.argv[3];
+
+  const options = getScanStoreOptions();
+  if (!options) {
+    console.error(`❌ Set SCAN_STORE to one of: ${SCAN_STORE_BACKENDS.join(', ')}`);
+    process.exit(1);
+  }
+
+  const store = await createScanStore(options);
+  try {
+    switch (command) {
+      case 'list':
+        await listScans(store);
+        break;
+
+      case 'invalid':
+        await listInvalid(store, argument);
+        break;
+
+      case 'history':
+        if (!argument) {
+          console.error('❌ Plugin ID required for history');
+          process.exit(1);
+        }
+        await showHistory(store, argument);
+        break;
+
+      default:
+        console.log('Usage: SCAN_STORE=json|sqlite npm run store [command]');
+        console.log('Commands:');
+        console.log('  list               - List the latest scans');
+        console.log('  invalid [scanId]   - Invalid plugins in a scan (default: latest)');
+        console.log('  history <pluginId> - Versions and validation results across scans');
+        break;
+    }
+  } finally {
+    await store.close();
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('❌ Scan store query failed:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,25 @@
+/**
+ * Scan Time Series Store
+ *
+ * Appends one compact snapshot per data generation run to data/history/scans.jsonl,
+ * the history that growth trends are computed from.
+ */
+
+import path from 'path';
+import type { ScanSnapshot } from '../src/types/processing';
+import { parseScanSnapshots, serializeScanSnapshot } from '../src/utils/scan-timeseries';
+import { createJsonlStore, JsonlStore } from './jsonl-store';
+
+export type ScanTimeSeriesStore = JsonlStore<ScanSnapshot>;
+
+/**
+ * Create a store for the scan time series, data/history/scans.jsonl by default
+ */
+export function createScanTimeSeriesStore(
+  filePath: string = path.join(process.cwd(), 'data', 'history', 'scans.jsonl')
+): ScanTimeSeriesStore {
+  return createJsonlStore(filePath, {
+    parse: parseScanSnapshots,
+    serialize: serializeScanSnapshot,
+  });
+}
@@ -384,6 +384,17 @@ class SecurityTester {
         expectedValid: true,
         description: 'Valid plugin manifest',
       },
+      {
+        name: 'Claude Code plugin.json',
+        input: JSON.stringify({
+          name: 'test-plugin',
+          description: 'Only the name is required',
+          author: { name: 'Test Author' },
+          repository: 'https://github.com/test/repo',
+        }),
+        expectedValid: true,
+        description: 'Plugin manifest without type or category',
+      },
 
       // Invalid plugin manifests
       {
@@ -0,0 +1,228 @@
+/**
+ * Static API Module
+ *
+ * Builds a pre-paginated, pre-filtered JSON tree under public/data/api so that
+ * clients of the statically exported site can fetch a single page, category or
+ * marketplace instead of the full complete.json / plugins.json files.
+ *
+ * Layout:
+ *   api/index.json                   manifest of everything below
+ *   api/plugins/page/<n>.json        plugins, sorted by name
+ *   api/marketplaces/page/<n>.json   marketplaces, sorted by stars
+ *   api/categories/<id>.json         category with its marketplaces and plugins
+ *   api/marketplaces/<id>.json       marketplace with its plugins
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { PaginationInfo } from '../src/types/ecosystem-stats';
+
+const STATIC_API_VERSION = 1 as const;
+export const DEFAULT_PAGE_SIZE = 50;
+
+export interface StaticApiMarketplace {
+  id: string;
+  name: string;
+  stars: number;
+}
+
+export interface StaticApiPlugin {
+  id: string;
+  name: string;
+  metadata?: { marketplaceId?: string };
+  marketplaceId?: string;
+  manifest?: unknown;
+}
+
+export interface StaticApiCategory {
+  id: string;
+  name: string;
+  description: string;
+  /** Marketplace names assigned to this category */
+  marketplaces: string[];
+}
+
+export interface StaticApiInput<
+  M extends StaticApiMarketplace = StaticApiMarketplace,
+  P extends StaticApiPlugin = StaticApiPlugin,
+> {
+  marketplaces: M[];
+  plugins: P[];
+  categories: StaticApiCategory[];
+  lastUpdated: string;
+}
+
+export interface StaticApiPage<T> {
+  data: T[];
+  pagination: PaginationInfo;
+  lastUpdated: string;
+}
+
+export interface StaticApiIndex {
+  version: typeof STATIC_API_VERSION;
+  lastUpdated: string;
+  pageSize: number;
+  plugins: { total: number; pages: string[] };
+  marketplaces: { total: number; pages: string[] };
+  categories: Array<{
+    id: string;
+    name: string;
+    marketplaceCount: number;
+    pluginCount: number;
+    path: string;
+  }>;
+  marketplaceDetails: Array<{ id: string; name: string; pluginCount: number; path: string }>;
+}
+
+/** Relative file path (under api/) → JSON payload */
+export type StaticApiFiles = Map<string, unknown>;
+
+/**
+ * Make an ID safe to use as a file name
+ */
+export function toFileId(id: string): string {
+  return String(id)
+    .toLowerCase()
+    .replace(/[^a-z0-9._-]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+function getMarketplaceId(plugin: Omit<StaticApiPlugin, 'manifest'>): string {
+  return String(plugin.metadata?.marketplaceId ?? plugin.marketplaceId ?? '');
+}
+
+/**
+ * Drop the raw manifest from plugin payloads; it is only needed for version history
+ */
+function toApiPlugin<P extends StaticApiPlugin>(plugin: P): Omit<P, 'manifest'> {
+  const { manifest: _manifest, ...rest } = plugin;
+  return rest;
+}
+
+/**
+ * Split items into pages keyed by their file path
+ */
+export function paginateItems<T>(
+  items: T[],
+  pageSize: number,
+  basePath: string,
+  lastUpdated: string
+): Array<[string, StaticApiPage<T>]> {
+  const total = items.length;
+  const totalPages = Math.max(1, Math.ceil(total / pageSize));
+  const pages: Array<[string, StaticApiPage<T>]> = [];
+
+  for (let page = 1; page <= totalPages; page++) {
+    const offset = (page - 1) * pageSize;
+    pages.push([
+      `${basePath}/page/${page}.json`,
+      {
+        data: items.slice(offset, offset + pageSize),
+        pagination: {
+          page,
+          limit: pageSize,
+          total,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1,
+          offset,
+        },
+        lastUpdated,
+      },
+    ]);
+  }
+
+  return pages;
+}
+
+/**
+ * Build every static API file in memory
+ */
+export function buildStaticApi<M extends StaticApiMarketplace, P extends StaticApiPlugin>(
+  input: StaticApiInput<M, P>,
+  pageSize: number = DEFAULT_PAGE_SIZE
+): StaticApiFiles {
+  const { lastUpdated } = input;
+  const files: StaticApiFiles = new Map();
+
+  const plugins = [...input.plugins].map(toApiPlugin).sort((a, b) => a.name.localeCompare(b.name));
+  const marketplaces = [...input.marketplaces].sort((a, b) => b.stars - a.stars);
+
+  const pluginsByMarketplace = new Map<string, Array<Omit<P, 'manifest'>>>();
+  for (const plugin of plugins) {
+    const marketplaceId = getMarketplaceId(plugin);
+    pluginsByMarketplace.set(marketplaceId, [
+      ...(pluginsByMarketplace.get(marketplaceId) || []),
+      plugin,
+    ]);
+  }
+
+  const pluginPages = paginateItems(plugins, pageSize, 'plugins', lastUpdated);
+  const marketplacePages = paginateItems(marketplaces, pageSize, 'marketplaces', lastUpdated);
+  [...pluginPages, ...marketplacePages].forEach(([file, page]) => files.set(file, page));
+
+  const index: StaticApiIndex = {
+    version: STATIC_API_VERSION,
+    lastUpdated,
+    pageSize,
+    plugins: { total: plugins.length, pages: pluginPages.map(([file]) => file) },
+    marketplaces: { total: marketplaces.length, pages: marketplacePages.map(([file]) => file) },
+    categories: [],
+    marketplaceDetails: [],
+  };
+
+  for (const marketplace of marketplaces) {
+    const marketplacePlugins = pluginsByMarketplace.get(String(marketplace.id)) || [];
+    const file = `marketplaces/${toFileId(marketplace.id)}.json`;
+
+    files.set(file, { marketplace, plugins: marketplacePlugins, lastUpdated });
+    index.marketplaceDetails.push({
+      id: marketplace.id,
+      name: marketplace.name,
+      pluginCount: marketplacePlugins.length,
+      path: file,
+    });
+  }
+
+  for (const category of input.categories) {
+    const names = new Set(category.marketplaces);
+    const categoryMarketplaces = marketplaces.filter((mp) => names.has(mp.name));
+    const categoryPlugins = categoryMarketplaces.flatMap(
+      (mp) => pluginsByMarketplace.get(String(mp.id)) || []
+    );
+    const file = `categories/${toFileId(category.id)}.json`;
+
+    files.set(file, {
+      category: { id: category.id, name: category.name, description: category.description },
+      marketplaces: categoryMarketplaces,
+      plugins: categoryPlugins,
+      lastUpdated,
+    });
+    index.categories.push({
+      id: category.id,
+      name: category.name,
+      marketplaceCount: categoryMarketplaces.length,
+      pluginCount: categoryPlugins.length,
+      path: file,
+    });
+  }
+
+  files.set('index.json', index);
+  return files;
+}
+
+/**
+ * Replace the contents of the static API directory. Returns the number of files written.
+ */
+export function writeStaticApi(outputDir: string, files: StaticApiFiles): number {
+  // Start from an empty tree so removed marketplaces and trailing pages disappear
+  fs.rmSync(outputDir, { recursive: true, force: true });
+
+  for (const [file, payload] of files) {
+    const filePath = path.join(outputDir, file);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(payload));
+  }
+
+  return files.size;
+}
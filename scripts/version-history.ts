@@ -0,0 +1,191 @@
+/**
+ * Plugin Version History Module
+ *
+ * Records every plugin version observed across scans, together with the
+ * manifest fields that changed, and publishes per-plugin versions.json files.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type {
+  PluginManifestChange,
+  PluginVersionEntry,
+  PluginVersionHistory,
+} from '../src/types/plugin';
+import { toPluginSlug } from '../src/utils/plugin-id';
+
+const VERSION_HISTORY_VERSION = 1 as const;
+
+export type PluginManifestSnapshot = Record<string, unknown>;
+
+export interface ObservedPlugin {
+  /** UI plugin ID (see createPluginId) */
+  id: string;
+  name: string;
+  marketplaceId: string;
+  version: string;
+  manifest: PluginManifestSnapshot;
+}
+
+interface StoredPluginHistory {
+  pluginId: string;
+  name: string;
+  marketplaceId: string;
+  /** Manifest as last observed, used to diff the next version */
+  manifest: PluginManifestSnapshot;
+  /** Observed versions, oldest first */
+  versions: PluginVersionEntry[];
+}
+
+interface VersionHistoryFile {
+  version: typeof VERSION_HISTORY_VERSION;
+  updatedAt: string;
+  plugins: Record<string, StoredPluginHistory>;
+}
+
+/**
+ * Compare two manifests field by field (top-level keys only)
+ */
+export function diffManifests(
+  previous: PluginManifestSnapshot,
+  current: PluginManifestSnapshot
+): PluginManifestChange[] {
+  const fields = Array.from(new Set([...Object.keys(previous), ...Object.keys(current)])).sort();
+  const changes: PluginManifestChange[] = [];
+
+  for (const field of fields) {
+    if (JSON.stringify(previous[field]) !== JSON.stringify(current[field])) {
+      changes.push({ field, previous: previous[field], current: current[field] });
+    }
+  }
+
+  return changes;
+}
+
+export class VersionHistoryTracker {
+  private filePath: string;
+  private plugins: Record<string, StoredPluginHistory> = {};
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  load(): void {
+    if (!fs.existsSync(this.filePath)) {
+      this.plugins = {};
+      return;
+    }
+
+    try {
+      const data = JSON.parse(
+        fs.readFileSync(this.filePath, 'utf-8')
+      ) as Partial<VersionHistoryFile>;
+      this.plugins = data.version === VERSION_HISTORY_VERSION && data.plugins ? data.plugins : {};
+    } catch {
+      console.warn(`⚠️ Could not read version history at ${this.filePath}, starting fresh`);
+      this.plugins = {};
+    }
+  }
+
+  /**
+   * Record the plugins seen in the current scan. Returns the number of new versions.
+   */
+  record(observed: ObservedPlugin[], scannedAt: string = new Date().toISOString()): number {
+    let newVersions = 0;
+
+    for (const plugin of observed) {
+      const existing = this.plugins[plugin.id];
+
+      if (!existing) {
+        this.plugins[plugin.id] = {
+          pluginId: plugin.id,
+          name: plugin.name,
+          marketplaceId: plugin.marketplaceId,
+          manifest: plugin.manifest,
+          versions: [
+            { version: plugin.version, firstSeen: scannedAt, lastSeen: scannedAt, changes: [] },
+          ],
+        };
+        newVersions++;
+        continue;
+      }
+
+      const latest = existing.versions[existing.versions.length - 1];
+      if (latest && latest.version === plugin.version) {
+        latest.lastSeen = scannedAt;
+      } else {
+        existing.versions.push({
+          version: plugin.version,
+          firstSeen: scannedAt,
+          lastSeen: scannedAt,
+          changes: diffManifests(existing.manifest, plugin.manifest),
+        });
+        newVersions++;
+      }
+
+      existing.name = plugin.name;
+      existing.manifest = plugin.manifest;
+    }
+
+    return newVersions;
+  }
+
+  getHistory(pluginId: string): PluginVersionHistory | null {
+    const stored = this.plugins[pluginId];
+    if (!stored) return null;
+
+    const versions = [...stored.versions].reverse();
+    return {
+      pluginId: stored.pluginId,
+      name: stored.name,
+      marketplaceId: stored.marketplaceId,
+      currentVersion: versions[0]?.version ?? '',
+      versions,
+      lastUpdated: versions[0]?.lastSeen ?? '',
+    };
+  }
+
+  save(): void {
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    const data: VersionHistoryFile = {
+      version: VERSION_HISTORY_VERSION,
+      updatedAt: new Date().toISOString(),
+      plugins: this.plugins,
+    };
+    fs.writeFileSync(this.filePath, JSON.stringify(data, null, 2));
+  }
+
+  /**
+   * Write public/data/plugins/<slug>/versions.json for the given plugins
+   */
+  writePublicFiles(outputDir: string, pluginIds: string[]): number {
+    let written = 0;
+
+    for (const pluginId of pluginIds) {
+      const history = this.getHistory(pluginId);
+      if (!history) continue;
+
+      const pluginDir = path.join(outputDir, toPluginSlug(pluginId));
+      if (!fs.existsSync(pluginDir)) {
+        fs.mkdirSync(pluginDir, { recursive: true });
+      }
+      fs.writeFileSync(path.join(pluginDir, 'versions.json'), JSON.stringify(history, null, 2));
+      written++;
+    }
+
+    return written;
+  }
+}
+
+/**
+ * Create a default version history tracker
+ */
+export function createVersionHistoryTracker(
+  filePath: string = path.join(process.cwd(), 'data', 'plugins', 'version-history.json')
+): VersionHistoryTracker {
+  return new VersionHistoryTracker(filePath);
+}
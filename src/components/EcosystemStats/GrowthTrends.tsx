@@ -57,6 +57,8 @@ interface GrowthDataResponse {
   downloads: TrendDataPoint[];
   period: TimeRange;
   aggregation: 'daily' | 'weekly' | 'monthly';
+  /** The same series for every time range, computed from scan snapshots */
+  ranges?: Partial<Record<TimeRange, GrowthDataResponse>>;
 }
 
 /**
@@ -73,6 +75,11 @@ interface ChartDataPoint {
   marketplacesChange?: number;
   developersChange?: number;
   downloadsChange?: number;
+  /** Plugins and marketplaces added or removed since the previous point */
+  pluginsAdded?: number;
+  pluginsRemoved?: number;
+  marketplacesAdded?: number;
+  marketplacesRemoved?: number;
   [key: string]: any; // Add index signature for dynamic property access
 }
 
@@ -249,6 +256,10 @@ function transformDataForChart(growthData: GrowthDataResponse): ChartDataPoint[]
       marketplacesChange: marketplace?.change,
       developersChange: developer?.change,
       downloadsChange: download?.change,
+      pluginsAdded: plugin?.metadata?.added as number | undefined,
+      pluginsRemoved: plugin?.metadata?.removed as number | undefined,
+      marketplacesAdded: marketplace?.metadata?.added as number | undefined,
+      marketplacesRemoved: marketplace?.metadata?.removed as number | undefined,
     });
   }
 
@@ -304,6 +315,15 @@ const CustomTooltip: React.FC<CustomTooltipProps> = ({ active, payload, label })
                   {entry.payload[`${entry.dataKey}Change`]}
                 </span>
               )}
+              {entry.payload &&
+                entry.dataKey &&
+                (entry.payload[`${entry.dataKey}Added`] ||
+                  entry.payload[`${entry.dataKey}Removed`]) && (
+                  <span className='ml-2 text-xs text-gray-500 dark:text-gray-400'>
+                    (+{entry.payload[`${entry.dataKey}Added`] ?? 0} / −
+                    {entry.payload[`${entry.dataKey}Removed`] ?? 0})
+                  </span>
+                )}
             </div>
           </div>
         ))}
@@ -396,7 +416,10 @@ const GrowthTrends: React.FC<GrowthTrendsProps> = ({
         }
 
         // Use mock data if API returns empty data (for development)
-        const data = result.data || generateMockData(selectedTimeRange);
+        const data =
+          result.data?.ranges?.[selectedTimeRange] ||
+          result.data ||
+          generateMockData(selectedTimeRange);
 
         setGrowthData(data);
         setChartData(transformDataForChart(data));
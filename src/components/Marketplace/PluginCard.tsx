@@ -1,8 +1,10 @@
 import React, { useState } from 'react';
 import Link from 'next/link';
-import { Star, Download, ExternalLink, Github, Verified, Copy, Check } from 'lucide-react';
+import { Star, Download, ExternalLink, Github, Verified, Copy, Check, Layers } from 'lucide-react';
 import { MarketplacePlugin } from '../../data/mock-data';
 import { useClickTracking } from '../../utils/analytics/hooks';
+import { useStack } from '../../contexts/StackContext';
+import { getInstallCommands, getPluginInstallTarget } from '../../utils/install-commands';
 
 interface PluginCardProps {
   plugin: MarketplacePlugin;
@@ -17,6 +19,8 @@ const PluginCard: React.FC<PluginCardProps> = ({ plugin, className = '' }) => {
     'plugin',
     plugin.name
   );
+  const { isInStack, toggleInStack } = useStack();
+  const inStack = isInStack(plugin.id);
 
   const formatNumber = (num: number): string => {
     if (num >= 1000000) {
@@ -50,10 +54,8 @@ const PluginCard: React.FC<PluginCardProps> = ({ plugin, className = '' }) => {
     }
   };
 
-  const getInstallCommand = () => {
-    // Generate a mock install command for demonstration
-    return `npm install ${plugin.name.toLowerCase().replace(/\s+/g, '-')}`;
-  };
+  const installTarget = getPluginInstallTarget(plugin);
+  const installCommands = installTarget ? getInstallCommands(installTarget) : [];
 
   return (
     <div
@@ -161,15 +163,19 @@ const PluginCard: React.FC<PluginCardProps> = ({ plugin, className = '' }) => {
       </div>
 
       {/* Install Command */}
-      {isHovered && (
+      {isHovered && installTarget && (
         <div className='mb-4 p-2 bg-gray-50 dark:bg-gray-700/50 rounded-lg border border-gray-200 dark:border-gray-600 animate-fade-in'>
           <div className='flex items-center justify-between'>
-            <code className='text-xs text-gray-600 dark:text-gray-300 font-mono truncate'>
-              {getInstallCommand()}
+            <code
+              className='text-xs text-gray-600 dark:text-gray-300 font-mono truncate'
+              title={installCommands.join('\n')}
+            >
+              {installCommands[installCommands.length - 1]}
             </code>
             <button
               onClick={() => {
-                copyToClipboard(getInstallCommand());
+                // Copy both steps: the marketplace has to be added before installing from it
+                copyToClipboard(installCommands.join('\n'));
                 handleDownload();
               }}
               className='ml-2 p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors rounded'
@@ -212,14 +218,23 @@ const PluginCard: React.FC<PluginCardProps> = ({ plugin, className = '' }) => {
           >
             <Copy className='w-4 h-4 group-hover:scale-110 transition-transform' />
           </button>
+          <button
+            onClick={() => toggleInStack(plugin)}
+            className={`btn-ghost p-2 group ${inStack ? 'text-primary-600 dark:text-primary-400' : ''}`}
+            aria-label={inStack ? 'Remove from team stack' : 'Add to team stack'}
+            aria-pressed={inStack}
+            title={inStack ? 'Remove from team stack' : 'Add to team stack'}
+          >
+            <Layers className='w-4 h-4 group-hover:scale-110 transition-transform' />
+          </button>
         </div>
         <div className='flex items-center space-x-2 text-xs text-gray-500 dark:text-gray-400'>
           <span className='font-mono bg-gray-100 dark:bg-gray-700 px-1.5 py-0.5 rounded'>
-            v{plugin.version}
+            {plugin.version ? `v${plugin.version}` : 'Version unknown'}
           </span>
           <span className='text-gray-300 dark:text-gray-600'>•</span>
           <span className='truncate max-w-20' title={plugin.license}>
-            {plugin.license}
+            {plugin.license ?? 'License unknown'}
           </span>
         </div>
       </div>
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { Award, ChevronDown, ChevronUp } from 'lucide-react';
+import type { QualityBreakdown } from '../../types/processing';
+
+interface QualityScorePanelProps {
+  breakdown: QualityBreakdown | null | undefined;
+  /** Shown when no breakdown has been published yet */
+  emptyMessage?: string;
+  className?: string;
+}
+
+/**
+ * Quality score with a "Why this score" breakdown of every signal that contributed
+ */
+const QualityScorePanel: React.FC<QualityScorePanelProps> = ({
+  breakdown,
+  emptyMessage = 'No quality score has been calculated yet.',
+  className = '',
+}) => {
+  const [expanded, setExpanded] = useState(false);
+
+  if (!breakdown) {
+    return (
+      <div className={`card ${className}`}>
+        <h3 className='text-lg font-semibold text-gray-900 dark:text-gray-100 mb-2'>
+          Quality Score
+        </h3>
+        <p className='text-sm text-gray-500 dark:text-gray-400'>{emptyMessage}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`card ${className}`}>
+      <div className='flex items-center justify-between mb-3'>
+        <h3 className='text-lg font-semibold text-gray-900 dark:text-gray-100'>
+          <Award className='w-5 h-5 inline mr-2' />
+          Quality Score
+        </h3>
+        <span className='text-2xl font-bold text-gray-900 dark:text-gray-100'>
+          {breakdown.score}
+          <span className='text-sm font-normal text-gray-500 dark:text-gray-400'>/100</span>
+        </span>
+      </div>
+
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className='flex items-center text-sm font-medium text-primary-600 dark:text-primary-400 hover:underline'
+        aria-expanded={expanded}
+      >
+        Why this score?
+        {expanded ? (
+          <ChevronUp className='w-4 h-4 ml-1' />
+        ) : (
+          <ChevronDown className='w-4 h-4 ml-1' />
+        )}
+      </button>
+
+      {expanded && (
+        <div className='mt-4 space-y-3'>
+          {breakdown.signals.map((signal) => (
+            <div key={signal.id}>
+              <div className='flex justify-between text-sm'>
+                <span className='font-medium text-gray-700 dark:text-gray-300'>{signal.label}</span>
+                <span className='text-gray-600 dark:text-gray-400'>
+                  {signal.value === null ? '–' : signal.points} / {signal.maxPoints}
+                </span>
+              </div>
+              <div className='h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full mt-1'>
+                <div
+                  className='h-1.5 bg-primary-600 rounded-full'
+                  style={{ width: `${(signal.points / (signal.maxPoints || 1)) * 100}%` }}
+                />
+              </div>
+              <div
+                className={`text-xs mt-1 ${
+                  signal.value === null
+                    ? 'text-gray-400 dark:text-gray-500 italic'
+                    : 'text-gray-500 dark:text-gray-400'
+                }`}
+              >
+                {signal.detail}
+              </div>
+            </div>
+          ))}
+          <p className='text-xs text-gray-400 dark:text-gray-500 pt-2'>
+            Scoring rules v{breakdown.configVersion}. Signals that could not be measured earn no
+            points.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QualityScorePanel;
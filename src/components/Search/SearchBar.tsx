@@ -1,6 +1,16 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Search, Filter, X, Clock, TrendingUp } from 'lucide-react';
+import { Search, Filter, X, Clock, TrendingUp, Package, SlidersHorizontal } from 'lucide-react';
 import { validateSearchQuery, ValidationResult } from '@/utils/security';
+import type { SearchEngine } from '@/utils/search-index';
+import {
+  formatSearchQuery,
+  getQueryCompletions,
+  hasQuerySyntax,
+  parseSearchQuery,
+  QueryCompletion,
+  QueryCompletionSource,
+  QuerySyntaxError,
+} from '@/utils/search-query';
 import { useAnalytics } from '../../utils/analytics/hooks';
 
 interface SearchBarProps {
@@ -8,11 +18,17 @@ interface SearchBarProps {
   onFilterClick: () => void;
   placeholder?: string;
   className?: string;
+  /** When provided, the best-ranked matches are offered as suggestions */
+  searchEngine?: SearchEngine | null;
+  /** Enables `field:value` query syntax, completing values from this source */
+  completionSource?: QueryCompletionSource;
+  /** Current query (e.g. from the URL); the input follows it when it changes elsewhere */
+  value?: string;
 }
 
 interface SearchSuggestion {
   text: string;
-  type: 'recent' | 'popular';
+  type: 'match' | 'recent' | 'popular';
   count?: number;
 }
 
@@ -21,6 +37,9 @@ const SearchBar: React.FC<SearchBarProps> = ({
   onFilterClick,
   placeholder = 'Search plugins, marketplaces...',
   className = '',
+  searchEngine,
+  completionSource,
+  value,
 }) => {
   const [query, setQuery] = useState('');
   const [_isFocused, setIsFocused] = useState(false);
@@ -28,9 +47,25 @@ const SearchBar: React.FC<SearchBarProps> = ({
   const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
   const [recentSearches, setRecentSearches] = useState<string[]>([]);
   const [validationError, setValidationError] = useState<string>('');
+  const [syntaxError, setSyntaxError] = useState<QuerySyntaxError | null>(null);
+  const [completions, setCompletions] = useState<QueryCompletion[]>([]);
   const searchRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const { trackSearch, trackFilter } = useAnalytics();
+  const lastEmittedRef = useRef<string | undefined>(undefined);
+
+  // Follow external changes such as back/forward navigation, but not our own updates,
+  // which would overwrite what the user is typing with the sanitized query
+  useEffect(() => {
+    if (value === undefined || value === lastEmittedRef.current) return;
+    lastEmittedRef.current = value;
+    setQuery(value);
+  }, [value]);
+
+  const emitSearch = (searchQuery: string) => {
+    lastEmittedRef.current = searchQuery;
+    onSearch(searchQuery);
+  };
 
   // Popular search suggestions
   const popularSearches = [
@@ -56,7 +91,19 @@ const SearchBar: React.FC<SearchBarProps> = ({
 
   // Update suggestions based on query
   useEffect(() => {
-    if (query.length >= 2) {
+    const fieldCompletions =
+      completionSource && query ? getQueryCompletions(query, completionSource, 6) : [];
+    setCompletions(fieldCompletions);
+
+    if (query.length >= 2 || fieldCompletions.length > 0) {
+      const searchText = completionSource ? parseSearchQuery(query).text : query;
+      const matches = (searchText ? searchEngine?.search(searchText, { limit: 5 }) || [] : []).map(
+        ({ name }) => ({
+          text: name,
+          type: 'match' as const,
+        })
+      );
+
       const filteredRecent = recentSearches
         .filter((search) => search.toLowerCase().includes(query.toLowerCase()))
         .slice(0, 3)
@@ -67,12 +114,12 @@ const SearchBar: React.FC<SearchBarProps> = ({
         .slice(0, 3)
         .map(({ text, count }) => ({ text, count, type: 'popular' as const }));
 
-      setSuggestions([...filteredRecent, ...filteredPopular]);
+      setSuggestions([...matches, ...filteredRecent, ...filteredPopular]);
       setShowSuggestions(true);
     } else {
       setShowSuggestions(false);
     }
-  }, [query, recentSearches]);
+  }, [query, recentSearches, searchEngine, completionSource]);
 
   // Handle click outside to close suggestions
   useEffect(() => {
@@ -91,7 +138,48 @@ const SearchBar: React.FC<SearchBarProps> = ({
     performSearch(query);
   };
 
+  /**
+   * Parse field:value syntax and sanitize each value. Returns null when the query has
+   * syntax errors; while typing, an unfinished clause at the end is not reported.
+   */
+  const prepareStructuredQuery = (rawQuery: string, final: boolean): string | null => {
+    const parsed = parseSearchQuery(rawQuery);
+    const reported = parsed.errors.filter(
+      (error) =>
+        final ||
+        !(
+          error.end === rawQuery.length &&
+          (error.code === 'missing-value' || error.code === 'unterminated-quote')
+        )
+    );
+    setSyntaxError(reported[0] || null);
+    if (parsed.errors.length > 0) return null;
+
+    const sanitize = (value: string) => validateSearchQuery(value).sanitized || '';
+    return formatSearchQuery({
+      text: sanitize(parsed.text),
+      clauses: parsed.clauses
+        // Star ranges are already restricted to digits and comparison operators
+        .map((clause) =>
+          clause.field === 'stars' ? clause : { ...clause, value: sanitize(clause.value) }
+        )
+        .filter((clause) => clause.value),
+    });
+  };
+
   const performSearch = (searchQuery: string) => {
+    if (completionSource && hasQuerySyntax(searchQuery)) {
+      const structuredQuery = prepareStructuredQuery(searchQuery, true);
+      if (structuredQuery === null) return;
+
+      setValidationError('');
+      trackSearch(structuredQuery, 0);
+      emitSearch(structuredQuery);
+      setShowSuggestions(false);
+      return;
+    }
+    setSyntaxError(null);
+
     if (searchQuery.trim()) {
       // Validate input before proceeding
       const validation: ValidationResult = validateSearchQuery(searchQuery.trim());
@@ -120,7 +208,7 @@ const SearchBar: React.FC<SearchBarProps> = ({
       // Note: resultCount would be calculated from actual search results
       trackSearch(sanitizedQuery, 0); // This would be updated with actual result count
 
-      onSearch(sanitizedQuery);
+      emitSearch(sanitizedQuery);
       setShowSuggestions(false);
     }
   };
@@ -134,21 +222,38 @@ const SearchBar: React.FC<SearchBarProps> = ({
       setValidationError('');
     }
 
+    if (completionSource && hasQuerySyntax(newQuery)) {
+      const structuredQuery = prepareStructuredQuery(newQuery, false);
+      if (structuredQuery !== null) {
+        emitSearch(structuredQuery);
+      }
+      return;
+    }
+    setSyntaxError(null);
+
     // Trigger search on each keystroke (debounced would be better in production)
     if (newQuery.length === 0 || newQuery.length >= 2) {
       // Only trigger search if the input is valid
       if (newQuery.length === 0) {
-        onSearch(newQuery);
+        emitSearch(newQuery);
       } else {
         const validation: ValidationResult = validateSearchQuery(newQuery.trim());
         if (validation.isValid) {
           const sanitizedQuery = validation.sanitized || newQuery.trim();
-          onSearch(sanitizedQuery);
+          emitSearch(sanitizedQuery);
         }
       }
     }
   };
 
+  const handleCompletionClick = (completion: QueryCompletion) => {
+    setQuery(completion.value);
+    if (completion.kind === 'value') {
+      performSearch(completion.value);
+    }
+    inputRef.current?.focus();
+  };
+
   const handleSuggestionClick = (suggestion: SearchSuggestion) => {
     setQuery(suggestion.text);
     performSearch(suggestion.text);
@@ -162,7 +267,8 @@ const SearchBar: React.FC<SearchBarProps> = ({
 
   const clearQuery = () => {
     setQuery('');
-    onSearch('');
+    setSyntaxError(null);
+    emitSearch('');
     inputRef.current?.focus();
   };
 
@@ -193,6 +299,8 @@ const SearchBar: React.FC<SearchBarProps> = ({
             autoComplete='off'
             aria-label='Search plugins and marketplaces'
             aria-expanded={showSuggestions}
+            aria-invalid={syntaxError ? true : undefined}
+            aria-describedby={syntaxError ? 'search-syntax-error' : undefined}
             aria-haspopup='listbox'
             role='combobox'
           />
@@ -235,9 +343,84 @@ const SearchBar: React.FC<SearchBarProps> = ({
           </div>
         )}
 
+        {/* Query syntax error, with the offending part of the query highlighted */}
+        {syntaxError && !validationError && (
+          <div
+            id='search-syntax-error'
+            role='alert'
+            className='absolute z-50 w-full mt-2 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg shadow-sm'
+          >
+            <p className='text-sm text-red-600 dark:text-red-400 flex items-center'>
+              <X className='h-4 w-4 mr-2' />
+              {syntaxError.message}
+            </p>
+            <p className='mt-1 ml-6 font-mono text-xs text-gray-600 dark:text-gray-300 break-all'>
+              {query.slice(0, syntaxError.start)}
+              <mark className='bg-red-200 dark:bg-red-800 text-red-800 dark:text-red-100 rounded-sm'>
+                {query.slice(syntaxError.start, syntaxError.end)}
+              </mark>
+              {query.slice(syntaxError.end)}
+            </p>
+          </div>
+        )}
+
         {/* Search suggestions dropdown */}
-        {showSuggestions && !validationError && (
+        {showSuggestions && !validationError && !syntaxError && (
           <div className='absolute z-50 w-full mt-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl shadow-lg dark:shadow-gray-900/50 animate-slide-in'>
+            {/* Field and value completions for field:value syntax */}
+            {completions.length > 0 && (
+              <div className='p-3 border-b border-gray-200 dark:border-gray-700'>
+                <h3 className='text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-2 flex items-center'>
+                  <SlidersHorizontal className='h-3 w-3 mr-1' />
+                  Filters
+                </h3>
+                <div className='space-y-1'>
+                  {completions.map((completion) => (
+                    <button
+                      key={completion.value}
+                      type='button'
+                      onClick={() => handleCompletionClick(completion)}
+                      className='w-full text-left px-3 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors flex items-center justify-between group'
+                      role='option'
+                    >
+                      <span className='font-mono'>{completion.label}</span>
+                      {completion.description && (
+                        <span className='text-xs text-gray-500 dark:text-gray-400'>
+                          {completion.description}
+                        </span>
+                      )}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Best matches from the search index */}
+            {suggestions.filter((s) => s.type === 'match').length > 0 && (
+              <div className='p-3 border-b border-gray-200 dark:border-gray-700'>
+                <h3 className='text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-2 flex items-center'>
+                  <Package className='h-3 w-3 mr-1' />
+                  Top matches
+                </h3>
+                <div className='space-y-1'>
+                  {suggestions
+                    .filter((s) => s.type === 'match')
+                    .map((suggestion, index) => (
+                      <button
+                        key={`match-${index}`}
+                        type='button'
+                        onClick={() => handleSuggestionClick(suggestion)}
+                        className='w-full text-left px-3 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors flex items-center group'
+                        role='option'
+                      >
+                        <Package className='h-3 w-3 mr-2 text-gray-400 group-hover:text-primary-500' />
+                        {suggestion.text}
+                      </button>
+                    ))}
+                </div>
+              </div>
+            )}
+
             {/* Recent searches */}
             {suggestions.filter((s) => s.type === 'recent').length > 0 && (
               <div className='p-3 border-b border-gray-200 dark:border-gray-700'>
@@ -307,7 +490,7 @@ const SearchBar: React.FC<SearchBarProps> = ({
             )}
 
             {/* No results */}
-            {suggestions.length === 0 && query.length >= 2 && (
+            {suggestions.length === 0 && completions.length === 0 && query.length >= 2 && (
               <div className='p-4 text-center text-sm text-gray-500 dark:text-gray-400'>
                 No suggestions found for &quot;{query}&quot;
               </div>
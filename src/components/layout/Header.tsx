@@ -1,7 +1,8 @@
 import React, { useEffect, useRef } from 'react';
 import Link from 'next/link';
-import { Search, Menu, X, Github, Star } from 'lucide-react';
+import { Search, Menu, X, Github, Star, Layers } from 'lucide-react';
 import ThemeToggle from '../ui/ThemeToggle';
+import { useStack } from '../../contexts/StackContext';
 
 interface HeaderProps {
   className?: string;
@@ -11,6 +12,8 @@ const Header: React.FC<HeaderProps> = ({ className = '' }) => {
   const [isMenuOpen, setIsMenuOpen] = React.useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
   const buttonRef = useRef<HTMLButtonElement>(null);
+  const { selection } = useStack();
+  const stackSize = selection.selectedIds.length;
 
   const navigation = [
     { name: 'Home', href: '/', current: false },
@@ -117,6 +120,20 @@ const Header: React.FC<HeaderProps> = ({ className = '' }) => {
               <Search className='w-5 h-5' />
             </button>
 
+            {/* Team stack */}
+            <Link
+              href='/stack'
+              className='btn-ghost p-2 relative'
+              aria-label={`Team stack (${stackSize} plugins)`}
+            >
+              <Layers className='w-5 h-5' />
+              {stackSize > 0 && (
+                <span className='absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-primary-600 text-white text-xs font-medium flex items-center justify-center'>
+                  {stackSize}
+                </span>
+              )}
+            </Link>
+
             {/* GitHub button */}
             <a
               href='https://github.com/shrwnsan/claude-marketplace-registry'
@@ -0,0 +1,91 @@
+import React, { createContext, useContext, useState, useEffect, useMemo, ReactNode } from 'react';
+import type { SelectionState } from '../types/common';
+import type { MarketplacePlugin } from '../data/mock-data';
+import {
+  getSelectionState,
+  parseStoredStack,
+  StackPlugin,
+  toStackPlugin,
+} from '../utils/plugin-stack';
+
+interface StackContextType {
+  selection: SelectionState<StackPlugin>;
+  isInStack: (pluginId: string) => boolean;
+  addToStack: (plugin: MarketplacePlugin) => void;
+  removeFromStack: (pluginId: string) => void;
+  toggleInStack: (plugin: MarketplacePlugin) => void;
+  clearStack: () => void;
+}
+
+const StackContext = createContext<StackContextType | undefined>(undefined);
+
+interface StackProviderProps {
+  children: ReactNode;
+  storageKey?: string;
+}
+
+export const StackProvider: React.FC<StackProviderProps> = ({
+  children,
+  storageKey = 'claude-marketplace-stack',
+}) => {
+  const [plugins, setPlugins] = useState<StackPlugin[]>([]);
+  const [mounted, setMounted] = useState(false);
+
+  useEffect(() => {
+    // Get saved stack from localStorage
+    try {
+      setPlugins(parseStoredStack(localStorage.getItem(storageKey)));
+    } catch {
+      // localStorage not available
+    }
+    setMounted(true);
+  }, [storageKey]);
+
+  useEffect(() => {
+    // Don't overwrite the saved stack before it has been read
+    if (!mounted) return;
+
+    try {
+      localStorage.setItem(storageKey, JSON.stringify(plugins));
+    } catch {
+      // localStorage not available
+    }
+  }, [plugins, storageKey, mounted]);
+
+  const value = useMemo<StackContextType>(() => {
+    const selection = getSelectionState(plugins);
+    const ids = new Set(selection.selectedIds);
+
+    const addToStack = (plugin: MarketplacePlugin) => {
+      setPlugins((current) =>
+        current.some((item) => item.id === plugin.id)
+          ? current
+          : [...current, toStackPlugin(plugin)]
+      );
+    };
+
+    const removeFromStack = (pluginId: string) => {
+      setPlugins((current) => current.filter((item) => item.id !== pluginId));
+    };
+
+    return {
+      selection,
+      isInStack: (pluginId) => ids.has(pluginId),
+      addToStack,
+      removeFromStack,
+      toggleInStack: (plugin) =>
+        ids.has(plugin.id) ? removeFromStack(plugin.id) : addToStack(plugin),
+      clearStack: () => setPlugins([]),
+    };
+  }, [plugins]);
+
+  return <StackContext.Provider value={value}>{children}</StackContext.Provider>;
+};
+
+export const useStack = (): StackContextType => {
+  const context = useContext(StackContext);
+  if (context === undefined) {
+    throw new Error('useStack must be used within a StackProvider');
+  }
+  return context;
+};
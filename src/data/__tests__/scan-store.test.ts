@@ -0,0 +1,174 @@
+/**
+ * Scan Store Tests
+ *
+ * Runs the same behaviour checks against the JSON file and SQLite backends
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createScanStore, IScanStore, ScanRecord, ScanStoreBackend } from '../scan-store';
+import type { EcosystemStats } from '../ecosystem-stats';
+
+const scan = (id: string, version: string, valid: boolean): ScanRecord => ({
+  id,
+  scannedAt: id,
+  marketplaces: [{ id: '1', name: 'alpha', stars: 10, data: { id: '1', url: 'https://x' } }],
+  plugins: [
+    { id: '1-demo', name: 'demo', marketplaceId: '1', version, data: { name: 'demo' } },
+    { id: '1-other', name: 'other', marketplaceId: '1', version: '0.1.0', data: {} },
+  ],
+  validations: [
+    {
+      pluginId: '1-demo',
+      valid,
+      errors: valid ? [] : ['Missing description'],
+      warnings: [],
+      score: 70,
+    },
+    { pluginId: '1-other', valid: true, errors: [], warnings: ['No license'] },
+  ],
+});
+
+const first = scan('2026-01-01T00:00:00.000Z', '1.0.0', true);
+const second = scan('2026-01-02T00:00:00.000Z', '1.1.0', false);
+
+describe.each<ScanStoreBackend>(['json', 'sqlite'])('%s scan store', (backend) => {
+  let tempDir: string;
+  let store: IScanStore;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'scan-store-'));
+    store = await createScanStore({
+      backend,
+      path: path.join(tempDir, backend === 'sqlite' ? 'scans.db' : 'scans'),
+    });
+  });
+
+  afterEach(async () => {
+    await store.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should round-trip scans and list them newest first', async () => {
+    await store.saveScan(second);
+    await store.saveScan(first);
+
+    expect(await store.getScan(first.id)).toEqual(first);
+    expect(await store.getLatestScan()).toEqual(second);
+    expect(await store.listScans()).toEqual([
+      {
+        id: second.id,
+        scannedAt: second.scannedAt,
+        marketplaceCount: 1,
+        pluginCount: 2,
+        invalidPluginCount: 1,
+      },
+      {
+        id: first.id,
+        scannedAt: first.scannedAt,
+        marketplaceCount: 1,
+        pluginCount: 2,
+        invalidPluginCount: 0,
+      },
+    ]);
+  });
+
+  it('should replace a scan saved again with the same ID', async () => {
+    await store.saveScan(first);
+    await store.saveScan({ ...first, plugins: first.plugins.slice(0, 1) });
+
+    expect((await store.getScan(first.id))?.plugins).toHaveLength(1);
+    expect(await store.listScans()).toHaveLength(1);
+  });
+
+  it('should keep the last entry for an ID repeated within a scan', async () => {
+    const repeated: ScanRecord = {
+      ...first,
+      plugins: [...first.plugins, { ...first.plugins[0], version: '1.0.1' }],
+      validations: [...first.validations, { ...first.validations[0], valid: false }],
+    };
+
+    await store.saveScan(repeated);
+
+    const saved = await store.getScan(first.id);
+    expect(saved?.plugins.map((plugin) => [plugin.id, plugin.version])).toEqual([
+      ['1-demo', '1.0.1'],
+      ['1-other', '0.1.0'],
+    ]);
+    expect(saved?.validations.map((validation) => validation.valid)).toEqual([false, true]);
+    expect((await store.listScans())[0]).toMatchObject({ pluginCount: 2, invalidPluginCount: 1 });
+  });
+
+  it('should query validations of the latest or a given scan', async () => {
+    await store.saveScan(first);
+    await store.saveScan(second);
+
+    expect(await store.queryValidations({ valid: false })).toEqual([
+      {
+        scanId: second.id,
+        scannedAt: second.scannedAt,
+        pluginId: '1-demo',
+        valid: false,
+        errors: ['Missing description'],
+        warnings: [],
+        score: 70,
+      },
+    ]);
+    expect(await store.queryValidations({ scanId: first.id, valid: false })).toEqual([]);
+    expect(
+      (await store.queryValidations({ pluginId: '1-other' })).map((entry) => entry.warnings)
+    ).toEqual([['No license']]);
+  });
+
+  it('should return plugin history across scans, oldest first', async () => {
+    await store.saveScan(second);
+    await store.saveScan(first);
+
+    expect(await store.getPluginHistory('1-demo')).toEqual([
+      { scanId: first.id, scannedAt: first.scannedAt, version: '1.0.0', valid: true, score: 70 },
+      { scanId: second.id, scannedAt: second.scannedAt, version: '1.1.0', valid: false, score: 70 },
+    ]);
+    expect(await store.getPluginHistory('missing')).toEqual([]);
+  });
+
+  it('should delete scans', async () => {
+    await store.saveScan(first);
+
+    expect(await store.deleteScan(first.id)).toBe(true);
+    expect(await store.deleteScan(first.id)).toBe(false);
+    expect(await store.getScan(first.id)).toBeNull();
+    expect(await store.getPluginHistory('1-demo')).toEqual([]);
+  });
+
+  it('should cache ecosystem stats and track hits and misses', async () => {
+    const stats = { overview: { totalPlugins: 2 } } as unknown as EcosystemStats;
+
+    expect(await store.getEcosystemStats('ecosystem-stats')).toBeNull();
+    await store.storeEcosystemStats(stats);
+    expect(await store.getEcosystemStats('ecosystem-stats')).toEqual(stats);
+
+    expect(await store.getCacheStats()).toMatchObject({ totalEntries: 1, hits: 1, misses: 1 });
+    await store.clearCache();
+    expect(await store.getCacheStats()).toMatchObject({ totalEntries: 0, hits: 0, misses: 0 });
+  });
+});
+
+describe('sqlite scan store persistence', () => {
+  it('should keep scans after the database is reopened', async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'scan-store-'));
+    const options = { backend: 'sqlite' as const, path: path.join(tempDir, 'scans.db') };
+
+    try {
+      const writer = await createScanStore(options);
+      await writer.saveScan(first);
+      await writer.close();
+
+      const reader = await createScanStore(options);
+      expect(await reader.getScan(first.id)).toEqual(first);
+      await reader.close();
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
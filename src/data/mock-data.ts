@@ -1,3 +1,5 @@
+import type { McpRiskLevel, PluginCapability } from '../types/plugin';
+
 // Mock data types
 export interface MarketplacePlugin {
   id: string;
@@ -11,12 +13,22 @@ export interface MarketplacePlugin {
   stars: number;
   downloads: number;
   lastUpdated: string;
-  version: string;
-  license: string;
+  /** Unset when the manifest does not declare one */
+  version?: string;
+  /** Unset when the repository license is unknown */
+  license?: string;
   marketplace: string;
   marketplaceUrl: string;
+  /** ID of the marketplace the plugin is listed in, when loaded from scanned data */
+  marketplaceId?: string;
+  /** Name declared in the marketplace's marketplace.json, used by `/plugin install name@marketplace` */
+  marketplaceName?: string;
   featured: boolean;
   verified: boolean;
+  /** Component types declared in the plugin manifest */
+  capabilities?: PluginCapability[];
+  /** Highest MCP server risk, when the plugin directory has been scanned */
+  mcpRisk?: McpRiskLevel;
 }
 
 export interface Marketplace {
@@ -0,0 +1,151 @@
+/**
+ * Scan Store Base
+ *
+ * Implements the cache half of `IDataStorage` on top of a few entry accessors, so
+ * backends only decide where cache entries and scans are kept.
+ */
+
+import type { CacheEntry, CacheStats, EcosystemStats } from '../ecosystem-stats';
+import type { CollectionResult } from '../../services/ecosystem-data';
+import type {
+  IScanStore,
+  PluginHistoryEntry,
+  ScanRecord,
+  ScanStoreBackend,
+  ScanSummary,
+  ValidationQuery,
+  ValidationRecord,
+} from './types';
+
+export const ECOSYSTEM_STATS_KEY = 'ecosystem-stats';
+
+export const DEFAULT_CACHE_TTL = 6 * 60 * 60 * 1000; // 6 hours
+
+/**
+ * A scan with one marketplace, plugin and validation per ID. A repeated ID replaces
+ * the earlier entry in its place, so every backend stores the same record.
+ */
+export function normalizeScan(scan: ScanRecord): ScanRecord {
+  const latest = <T>(entries: T[], getId: (entry: T) => string): T[] =>
+    Array.from(new Map(entries.map((entry) => [getId(entry), entry])).values());
+
+  return {
+    ...scan,
+    marketplaces: latest(scan.marketplaces, (mp) => mp.id),
+    plugins: latest(scan.plugins, (plugin) => plugin.id),
+    validations: latest(scan.validations, (validation) => validation.pluginId),
+  };
+}
+
+export function summarizeScan(scan: ScanRecord): ScanSummary {
+  return {
+    id: scan.id,
+    scannedAt: scan.scannedAt,
+    marketplaceCount: scan.marketplaces.length,
+    pluginCount: scan.plugins.length,
+    invalidPluginCount: scan.validations.filter((validation) => !validation.valid).length,
+  };
+}
+
+export abstract class ScanStoreBase implements IScanStore {
+  abstract readonly backend: ScanStoreBackend;
+
+  protected cacheTtl: number;
+  private stats = { hits: 0, misses: 0 };
+
+  constructor(cacheTtl: number = DEFAULT_CACHE_TTL) {
+    this.cacheTtl = cacheTtl;
+  }
+
+  protected abstract readCacheEntry<T>(key: string): CacheEntry<T> | null;
+  protected abstract writeCacheEntry<T>(key: string, entry: CacheEntry<T>): void;
+  protected abstract deleteCacheEntry(key: string): void;
+  protected abstract listCacheEntries(): Array<CacheEntry<unknown>>;
+  protected abstract clearCacheEntries(): void;
+
+  abstract saveScan(scan: ScanRecord): Promise<void>;
+  abstract getScan(scanId: string): Promise<ScanRecord | null>;
+  abstract listScans(limit?: number): Promise<ScanSummary[]>;
+  abstract deleteScan(scanId: string): Promise<boolean>;
+  abstract queryValidations(query?: ValidationQuery): Promise<ValidationRecord[]>;
+  abstract getPluginHistory(pluginId: string): Promise<PluginHistoryEntry[]>;
+  abstract close(): Promise<void>;
+
+  async getLatestScan(): Promise<ScanRecord | null> {
+    const [latest] = await this.listScans(1);
+    return latest ? this.getScan(latest.id) : null;
+  }
+
+  async storeEcosystemStats(stats: EcosystemStats): Promise<void> {
+    this.putCached(ECOSYSTEM_STATS_KEY, stats);
+  }
+
+  async getEcosystemStats(key: string): Promise<EcosystemStats | null> {
+    return this.getCached<EcosystemStats>(key);
+  }
+
+  async storeCollectionResult<T>(key: string, result: CollectionResult<T>): Promise<void> {
+    this.putCached(key, result);
+  }
+
+  async getCollectionResult<T>(key: string): Promise<CollectionResult<T> | null> {
+    return this.getCached<CollectionResult<T>>(key);
+  }
+
+  async clearCache(): Promise<void> {
+    this.clearCacheEntries();
+    this.stats = { hits: 0, misses: 0 };
+  }
+
+  async getCacheStats(): Promise<CacheStats> {
+    const entries = this.listCacheEntries();
+    const now = Date.now();
+    const ages = entries.map((entry) => now - entry.createdAt);
+    const lookups = this.stats.hits + this.stats.misses;
+
+    return {
+      totalEntries: entries.length,
+      totalSize: entries.reduce((sum, entry) => sum + entry.size, 0),
+      hitRate: lookups > 0 ? (this.stats.hits / lookups) * 100 : 0,
+      hits: this.stats.hits,
+      misses: this.stats.misses,
+      oldestEntry: ages.length > 0 ? Math.max(...ages) : 0,
+      newestEntry: ages.length > 0 ? Math.min(...ages) : 0,
+    };
+  }
+
+  private putCached<T>(key: string, data: T): void {
+    const now = Date.now();
+    this.writeCacheEntry(key, {
+      data,
+      createdAt: now,
+      ttl: this.cacheTtl,
+      accessCount: 0,
+      lastAccessed: now,
+      size: JSON.stringify(data).length * 2, // Rough estimate, as in InMemoryDataStorage
+    });
+  }
+
+  private getCached<T>(key: string): T | null {
+    const entry = this.readCacheEntry<T>(key);
+
+    if (!entry) {
+      this.stats.misses++;
+      return null;
+    }
+
+    if (Date.now() - entry.createdAt > entry.ttl) {
+      this.deleteCacheEntry(key);
+      this.stats.misses++;
+      return null;
+    }
+
+    this.writeCacheEntry(key, {
+      ...entry,
+      accessCount: entry.accessCount + 1,
+      lastAccessed: Date.now(),
+    });
+    this.stats.hits++;
+    return entry.data;
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Scan Store
+ *
+ * Persistent storage for scans, validations and cached stats, with a JSON file
+ * backend and an embedded SQLite backend behind the same `IScanStore` interface.
+ */
+
+import { JsonFileScanStore } from './json-file-store';
+import type { IScanStore, ScanStoreBackend, ScanStoreOptions } from './types';
+
+export type {
+  IScanStore,
+  PluginHistoryEntry,
+  ScanRecord,
+  ScanStoreBackend,
+  ScanStoreOptions,
+  ScanSummary,
+  StoredMarketplace,
+  StoredPlugin,
+  StoredValidation,
+  ValidationQuery,
+  ValidationRecord,
+} from './types';
+export { DEFAULT_CACHE_TTL, normalizeScan, ScanStoreBase, summarizeScan } from './base';
+export { JsonFileScanStore } from './json-file-store';
+export type { SqliteScanStore } from './sqlite-store';
+
+export const SCAN_STORE_BACKENDS: readonly ScanStoreBackend[] = ['json', 'sqlite'];
+
+export function isScanStoreBackend(value: unknown): value is ScanStoreBackend {
+  return SCAN_STORE_BACKENDS.includes(value as ScanStoreBackend);
+}
+
+/**
+ * Create a scan store for the given backend. The SQLite backend is loaded on first
+ * use, so the native better-sqlite3 module is only required when it is selected.
+ */
+export async function createScanStore(options: ScanStoreOptions): Promise<IScanStore> {
+  switch (options.backend) {
+    case 'json':
+      return new JsonFileScanStore(options.path, options.cacheTtl);
+    case 'sqlite': {
+      const { SqliteScanStore } = await import('./sqlite-store');
+      return new SqliteScanStore(options.path, options.cacheTtl);
+    }
+    default:
+      throw new Error(`Unknown scan store backend: ${String(options.backend)}`);
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * JSON File Scan Store
+ *
+ * Keeps one JSON file per scan plus a small index, so a scan can be read without
+ * loading the others:
+ *
+ *   <dir>/index.json           scan summaries, newest first
+ *   <dir>/scans/<id>.json      one ScanRecord per file
+ *   <dir>/cache/<key>.json     cached stats and collection results
+ *
+ * Every file is written to a temporary file and renamed into place, so readers
+ * never see a partially written document.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { CacheEntry } from '../ecosystem-stats';
+import { createLogger } from '../../utils/logger';
+import { normalizeScan, ScanStoreBase, summarizeScan } from './base';
+import type {
+  PluginHistoryEntry,
+  ScanRecord,
+  ScanSummary,
+  ValidationQuery,
+  ValidationRecord,
+} from './types';
+
+const logger = createLogger('JsonFileScanStore');
+
+function writeFileAtomic(filePath: string, content: string): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, content);
+  fs.renameSync(tempPath, filePath);
+}
+
+function readJsonFile<T>(filePath: string): T | null {
+  if (!fs.existsSync(filePath)) return null;
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T;
+  } catch (error) {
+    logger.warn(`Ignoring unreadable ${filePath}:`, error);
+    return null;
+  }
+}
+
+// Scan IDs are usually ISO timestamps, which contain characters not allowed in file names
+const toFileName = (key: string) => `${encodeURIComponent(key)}.json`;
+
+export class JsonFileScanStore extends ScanStoreBase {
+  readonly backend = 'json' as const;
+
+  private directory: string;
+
+  constructor(directory: string, cacheTtl?: number) {
+    super(cacheTtl);
+    this.directory = directory;
+  }
+
+  async saveScan(record: ScanRecord): Promise<void> {
+    const scan = normalizeScan(record);
+    // Write the scan before the index refers to it
+    writeFileAtomic(this.scanPath(scan.id), JSON.stringify(scan));
+    const index = this.readIndex().filter((summary) => summary.id !== scan.id);
+    this.writeIndex([...index, summarizeScan(scan)]);
+  }
+
+  async getScan(scanId: string): Promise<ScanRecord | null> {
+    if (!this.readIndex().some((summary) => summary.id === scanId)) return null;
+    return readJsonFile<ScanRecord>(this.scanPath(scanId));
+  }
+
+  async listScans(limit?: number): Promise<ScanSummary[]> {
+    const index = this.readIndex();
+    return limit === undefined ? index : index.slice(0, limit);
+  }
+
+  async deleteScan(scanId: string): Promise<boolean> {
+    const index = this.readIndex();
+    const remaining = index.filter((summary) => summary.id !== scanId);
+    if (remaining.length === index.length) return false;
+
+    this.writeIndex(remaining);
+    fs.rmSync(this.scanPath(scanId), { force: true });
+    return true;
+  }
+
+  async queryValidations(query: ValidationQuery = {}): Promise<ValidationRecord[]> {
+    const scan = query.scanId ? await this.getScan(query.scanId) : await this.getLatestScan();
+    if (!scan) return [];
+
+    return scan.validations
+      .filter(
+        (validation) =>
+          (query.pluginId === undefined || validation.pluginId === query.pluginId) &&
+          (query.valid === undefined || validation.valid === query.valid)
+      )
+      .map((validation) => ({ ...validation, scanId: scan.id, scannedAt: scan.scannedAt }));
+  }
+
+  async getPluginHistory(pluginId: string): Promise<PluginHistoryEntry[]> {
+    const history: PluginHistoryEntry[] = [];
+
+    for (const summary of [...this.readIndex()].reverse()) {
+      const scan = readJsonFile<ScanRecord>(this.scanPath(summary.id));
+      const plugin = scan?.plugins.find((entry) => entry.id === pluginId);
+      if (!scan || !plugin) continue;
+
+      const validation = scan.validations.find((entry) => entry.pluginId === pluginId);
+      history.push({
+        scanId: scan.id,
+        scannedAt: scan.scannedAt,
+        version: plugin.version,
+        ...(validation ? { valid: validation.valid } : {}),
+        ...(validation?.score !== undefined ? { score: validation.score } : {}),
+      });
+    }
+
+    return history;
+  }
+
+  async close(): Promise<void> {
+    // Nothing is held open between calls
+  }
+
+  protected readCacheEntry<T>(key: string): CacheEntry<T> | null {
+    return readJsonFile<CacheEntry<T>>(path.join(this.directory, 'cache', toFileName(key)));
+  }
+
+  protected writeCacheEntry<T>(key: string, entry: CacheEntry<T>): void {
+    writeFileAtomic(path.join(this.directory, 'cache', toFileName(key)), JSON.stringify(entry));
+  }
+
+  protected deleteCacheEntry(key: string): void {
+    fs.rmSync(path.join(this.directory, 'cache', toFileName(key)), { force: true });
+  }
+
+  protected listCacheEntries(): Array<CacheEntry<unknown>> {
+    const cacheDir = path.join(this.directory, 'cache');
+    if (!fs.existsSync(cacheDir)) return [];
+
+    return fs
+      .readdirSync(cacheDir)
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => readJsonFile<CacheEntry<unknown>>(path.join(cacheDir, file)))
+      .filter((entry): entry is CacheEntry<unknown> => entry !== null);
+  }
+
+  protected clearCacheEntries(): void {
+    fs.rmSync(path.join(this.directory, 'cache'), { recursive: true, force: true });
+  }
+
+  private scanPath(scanId: string): string {
+    return path.join(this.directory, 'scans', toFileName(scanId));
+  }
+
+  private readIndex(): ScanSummary[] {
+    return readJsonFile<ScanSummary[]>(path.join(this.directory, 'index.json')) ?? [];
+  }
+
+  private writeIndex(index: ScanSummary[]): void {
+    const sorted = [...index].sort((a, b) => b.scannedAt.localeCompare(a.scannedAt));
+    writeFileAtomic(path.join(this.directory, 'index.json'), JSON.stringify(sorted, null, 2));
+  }
+}
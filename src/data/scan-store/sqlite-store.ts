@@ -0,0 +1,361 @@
+/**
+ * SQLite Scan Store
+ *
+ * Keeps scans in an embedded SQLite database (better-sqlite3). Each scan is saved
+ * in a single transaction, and marketplaces, plugins and validations are rows that
+ * can be queried with SQL directly:
+ *
+ *   sqlite3 data/store/scans.db "SELECT plugin_id, errors FROM validations WHERE valid = 0"
+ */
+
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import type { CacheEntry } from '../ecosystem-stats';
+import { normalizeScan, ScanStoreBase, summarizeScan } from './base';
+import type {
+  PluginHistoryEntry,
+  ScanRecord,
+  ScanSummary,
+  ValidationQuery,
+  ValidationRecord,
+} from './types';
+
+/** Bump together with a new entry in MIGRATIONS */
+const SCHEMA_VERSION = 1;
+
+const MIGRATIONS: Record<number, string> = {
+  1: `
+    CREATE TABLE scans (
+      id TEXT PRIMARY KEY,
+      scanned_at TEXT NOT NULL,
+      marketplace_count INTEGER NOT NULL,
+      plugin_count INTEGER NOT NULL,
+      invalid_plugin_count INTEGER NOT NULL
+    );
+    CREATE INDEX scans_by_time ON scans (scanned_at);
+
+    CREATE TABLE marketplaces (
+      scan_id TEXT NOT NULL REFERENCES scans (id) ON DELETE CASCADE,
+      id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      stars INTEGER NOT NULL,
+      data TEXT NOT NULL,
+      PRIMARY KEY (scan_id, id)
+    );
+
+    CREATE TABLE plugins (
+      scan_id TEXT NOT NULL REFERENCES scans (id) ON DELETE CASCADE,
+      id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      marketplace_id TEXT NOT NULL,
+      version TEXT NOT NULL,
+      data TEXT NOT NULL,
+      PRIMARY KEY (scan_id, id)
+    );
+    CREATE INDEX plugins_by_id ON plugins (id);
+
+    CREATE TABLE validations (
+      scan_id TEXT NOT NULL REFERENCES scans (id) ON DELETE CASCADE,
+      plugin_id TEXT NOT NULL,
+      valid INTEGER NOT NULL,
+      errors TEXT NOT NULL,
+      warnings TEXT NOT NULL,
+      score REAL,
+      PRIMARY KEY (scan_id, plugin_id)
+    );
+
+    CREATE TABLE cache (
+      key TEXT PRIMARY KEY,
+      data TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      ttl INTEGER NOT NULL,
+      access_count INTEGER NOT NULL,
+      last_accessed INTEGER NOT NULL,
+      size INTEGER NOT NULL
+    );
+  `,
+};
+
+interface ScanRow {
+  id: string;
+  scanned_at: string;
+  marketplace_count: number;
+  plugin_count: number;
+  invalid_plugin_count: number;
+}
+
+interface ValidationRow {
+  scan_id: string;
+  scanned_at: string;
+  plugin_id: string;
+  valid: number;
+  errors: string;
+  warnings: string;
+  score: number | null;
+}
+
+interface CacheRow {
+  data: string;
+  created_at: number;
+  ttl: number;
+  access_count: number;
+  last_accessed: number;
+  size: number;
+}
+
+const toSummary = (row: ScanRow): ScanSummary => ({
+  id: row.id,
+  scannedAt: row.scanned_at,
+  marketplaceCount: row.marketplace_count,
+  pluginCount: row.plugin_count,
+  invalidPluginCount: row.invalid_plugin_count,
+});
+
+const toValidation = (row: ValidationRow): ValidationRecord => ({
+  scanId: row.scan_id,
+  scannedAt: row.scanned_at,
+  pluginId: row.plugin_id,
+  valid: row.valid === 1,
+  errors: JSON.parse(row.errors),
+  warnings: JSON.parse(row.warnings),
+  ...(row.score !== null ? { score: row.score } : {}),
+});
+
+const toCacheEntry = <T>(row: CacheRow): CacheEntry<T> => ({
+  data: JSON.parse(row.data),
+  createdAt: row.created_at,
+  ttl: row.ttl,
+  accessCount: row.access_count,
+  lastAccessed: row.last_accessed,
+  size: row.size,
+});
+
+export class SqliteScanStore extends ScanStoreBase {
+  readonly backend = 'sqlite' as const;
+
+  private db: Database.Database;
+
+  constructor(filePath: string, cacheTtl?: number) {
+    super(cacheTtl);
+
+    if (filePath !== ':memory:') {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    }
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    this.migrate();
+  }
+
+  async saveScan(record: ScanRecord): Promise<void> {
+    // IDs are primary keys here; repeated ones replace earlier entries as in every backend
+    const scan = normalizeScan(record);
+    const summary = summarizeScan(scan);
+    const insertMarketplace = this.db.prepare(
+      'INSERT INTO marketplaces (scan_id, id, name, stars, data) VALUES (?, ?, ?, ?, ?)'
+    );
+    const insertPlugin = this.db.prepare(
+      'INSERT INTO plugins (scan_id, id, name, marketplace_id, version, data) VALUES (?, ?, ?, ?, ?, ?)'
+    );
+    const insertValidation = this.db.prepare(
+      'INSERT INTO validations (scan_id, plugin_id, valid, errors, warnings, score) VALUES (?, ?, ?, ?, ?, ?)'
+    );
+
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM scans WHERE id = ?').run(scan.id);
+      this.db
+        .prepare(
+          `INSERT INTO scans (id, scanned_at, marketplace_count, plugin_count, invalid_plugin_count)
+           VALUES (?, ?, ?, ?, ?)`
+        )
+        .run(
+          summary.id,
+          summary.scannedAt,
+          summary.marketplaceCount,
+          summary.pluginCount,
+          summary.invalidPluginCount
+        );
+
+      for (const mp of scan.marketplaces) {
+        insertMarketplace.run(scan.id, mp.id, mp.name, mp.stars, JSON.stringify(mp.data));
+      }
+      for (const plugin of scan.plugins) {
+        insertPlugin.run(
+          scan.id,
+          plugin.id,
+          plugin.name,
+          plugin.marketplaceId,
+          plugin.version,
+          JSON.stringify(plugin.data)
+        );
+      }
+      for (const validation of scan.validations) {
+        insertValidation.run(
+          scan.id,
+          validation.pluginId,
+          validation.valid ? 1 : 0,
+          JSON.stringify(validation.errors),
+          JSON.stringify(validation.warnings),
+          validation.score ?? null
+        );
+      }
+    })();
+  }
+
+  async getScan(scanId: string): Promise<ScanRecord | null> {
+    const scan = this.db.prepare('SELECT * FROM scans WHERE id = ?').get(scanId) as
+      | ScanRow
+      | undefined;
+    if (!scan) return null;
+
+    const marketplaces = this.db
+      .prepare('SELECT id, name, stars, data FROM marketplaces WHERE scan_id = ? ORDER BY rowid')
+      .all(scanId) as Array<{ id: string; name: string; stars: number; data: string }>;
+    const plugins = this.db
+      .prepare(
+        'SELECT id, name, marketplace_id, version, data FROM plugins WHERE scan_id = ? ORDER BY rowid'
+      )
+      .all(scanId) as Array<{
+      id: string;
+      name: string;
+      marketplace_id: string;
+      version: string;
+      data: string;
+    }>;
+
+    return {
+      id: scan.id,
+      scannedAt: scan.scanned_at,
+      marketplaces: marketplaces.map((row) => ({ ...row, data: JSON.parse(row.data) })),
+      plugins: plugins.map((row) => ({
+        id: row.id,
+        name: row.name,
+        marketplaceId: row.marketplace_id,
+        version: row.version,
+        data: JSON.parse(row.data),
+      })),
+      validations: (await this.queryValidations({ scanId })).map(
+        ({ scanId: _scanId, scannedAt: _scannedAt, ...validation }) => validation
+      ),
+    };
+  }
+
+  async listScans(limit?: number): Promise<ScanSummary[]> {
+    const rows = this.db
+      .prepare('SELECT * FROM scans ORDER BY scanned_at DESC LIMIT ?')
+      .all(limit ?? -1) as ScanRow[];
+    return rows.map(toSummary);
+  }
+
+  async deleteScan(scanId: string): Promise<boolean> {
+    return this.db.prepare('DELETE FROM scans WHERE id = ?').run(scanId).changes > 0;
+  }
+
+  async queryValidations(query: ValidationQuery = {}): Promise<ValidationRecord[]> {
+    const scanId = query.scanId ?? (await this.listScans(1))[0]?.id;
+    if (!scanId) return [];
+
+    const conditions = ['v.scan_id = @scanId'];
+    if (query.pluginId !== undefined) conditions.push('v.plugin_id = @pluginId');
+    if (query.valid !== undefined) conditions.push('v.valid = @valid');
+
+    const rows = this.db
+      .prepare(
+        `SELECT v.*, s.scanned_at FROM validations v JOIN scans s ON s.id = v.scan_id
+         WHERE ${conditions.join(' AND ')} ORDER BY v.rowid`
+      )
+      .all({
+        scanId,
+        pluginId: query.pluginId ?? null,
+        valid: query.valid === undefined ? null : query.valid ? 1 : 0,
+      }) as ValidationRow[];
+    return rows.map(toValidation);
+  }
+
+  async getPluginHistory(pluginId: string): Promise<PluginHistoryEntry[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT s.id AS scan_id, s.scanned_at, p.version, v.valid, v.score
+         FROM plugins p
+         JOIN scans s ON s.id = p.scan_id
+         LEFT JOIN validations v ON v.scan_id = p.scan_id AND v.plugin_id = p.id
+         WHERE p.id = ?
+         ORDER BY s.scanned_at`
+      )
+      .all(pluginId) as Array<{
+      scan_id: string;
+      scanned_at: string;
+      version: string;
+      valid: number | null;
+      score: number | null;
+    }>;
+
+    return rows.map((row) => ({
+      scanId: row.scan_id,
+      scannedAt: row.scanned_at,
+      version: row.version,
+      ...(row.valid !== null ? { valid: row.valid === 1 } : {}),
+      ...(row.score !== null ? { score: row.score } : {}),
+    }));
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+
+  protected readCacheEntry<T>(key: string): CacheEntry<T> | null {
+    const row = this.db.prepare('SELECT * FROM cache WHERE key = ?').get(key) as
+      | CacheRow
+      | undefined;
+    return row ? toCacheEntry<T>(row) : null;
+  }
+
+  protected writeCacheEntry<T>(key: string, entry: CacheEntry<T>): void {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO cache (key, data, created_at, ttl, access_count, last_accessed, size)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        key,
+        JSON.stringify(entry.data),
+        entry.createdAt,
+        entry.ttl,
+        entry.accessCount,
+        entry.lastAccessed,
+        entry.size
+      );
+  }
+
+  protected deleteCacheEntry(key: string): void {
+    this.db.prepare('DELETE FROM cache WHERE key = ?').run(key);
+  }
+
+  protected listCacheEntries(): Array<CacheEntry<unknown>> {
+    return (this.db.prepare('SELECT * FROM cache').all() as CacheRow[]).map(toCacheEntry);
+  }
+
+  protected clearCacheEntries(): void {
+    this.db.prepare('DELETE FROM cache').run();
+  }
+
+  /**
+   * Apply the migrations newer than the database's user_version
+   */
+  private migrate(): void {
+    const current = this.db.pragma('user_version', { simple: true }) as number;
+    if (current > SCHEMA_VERSION) {
+      throw new Error(
+        `Scan store schema version ${current} is newer than supported version ${SCHEMA_VERSION}`
+      );
+    }
+
+    for (let version = current + 1; version <= SCHEMA_VERSION; version++) {
+      this.db.transaction(() => {
+        this.db.exec(MIGRATIONS[version]);
+        this.db.pragma(`user_version = ${version}`);
+      })();
+    }
+  }
+}
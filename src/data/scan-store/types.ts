@@ -0,0 +1,104 @@
+/**
+ * Scan Store Types
+ *
+ * A scan store keeps every data generation run (marketplaces, plugins and their
+ * validation results) so past scans can be queried instead of re-reading whole
+ * JSON documents. It extends the ecosystem stats cache interface, so one store
+ * can back both.
+ */
+
+import type { IDataStorage } from '../ecosystem-stats';
+
+export type ScanStoreBackend = 'json' | 'sqlite';
+
+export interface StoredMarketplace {
+  id: string;
+  name: string;
+  stars: number;
+  /** Marketplace as written by the data generator */
+  data: Record<string, unknown>;
+}
+
+export interface StoredPlugin {
+  /** Plugin ID, see `createPluginId` */
+  id: string;
+  name: string;
+  marketplaceId: string;
+  version: string;
+  /** Plugin as written by the data generator */
+  data: Record<string, unknown>;
+}
+
+export interface StoredValidation {
+  pluginId: string;
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+  /** Quality score (0-100), when the plugin was scored */
+  score?: number;
+}
+
+/**
+ * Everything recorded for one scan. Saving a scan with an existing ID replaces it.
+ */
+export interface ScanRecord {
+  id: string;
+  scannedAt: string;
+  marketplaces: StoredMarketplace[];
+  plugins: StoredPlugin[];
+  validations: StoredValidation[];
+}
+
+export interface ScanSummary {
+  id: string;
+  scannedAt: string;
+  marketplaceCount: number;
+  pluginCount: number;
+  invalidPluginCount: number;
+}
+
+export interface ValidationQuery {
+  /** Scan to search; defaults to the latest scan */
+  scanId?: string;
+  pluginId?: string;
+  valid?: boolean;
+}
+
+export interface ValidationRecord extends StoredValidation {
+  scanId: string;
+  scannedAt: string;
+}
+
+export interface PluginHistoryEntry {
+  scanId: string;
+  scannedAt: string;
+  version: string;
+  valid?: boolean;
+  score?: number;
+}
+
+export interface ScanStoreOptions {
+  backend: ScanStoreBackend;
+  /** Directory for the JSON backend, database file for the SQLite backend */
+  path: string;
+  /** Time-to-live of cached stats and collection results in milliseconds */
+  cacheTtl?: number;
+}
+
+/**
+ * Persistent storage for scans, validations and cached stats
+ */
+export interface IScanStore extends IDataStorage {
+  readonly backend: ScanStoreBackend;
+  /** Store a scan atomically: readers see either the previous or the complete new scan */
+  saveScan(scan: ScanRecord): Promise<void>;
+  getScan(scanId: string): Promise<ScanRecord | null>;
+  getLatestScan(): Promise<ScanRecord | null>;
+  /** Scan summaries, newest first */
+  listScans(limit?: number): Promise<ScanSummary[]>;
+  deleteScan(scanId: string): Promise<boolean>;
+  queryValidations(query?: ValidationQuery): Promise<ValidationRecord[]>;
+  /** Version and validation state of a plugin in every scan that included it, oldest first */
+  getPluginHistory(pluginId: string): Promise<PluginHistoryEntry[]>;
+  close(): Promise<void>;
+}
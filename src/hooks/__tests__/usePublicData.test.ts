@@ -0,0 +1,71 @@
+/**
+ * usePublicData Hook Tests
+ *
+ * Tests for loading generated JSON files from public/
+ */
+
+import { renderHook } from '@testing-library/react';
+import { waitFor } from '@testing-library/dom';
+import { usePublicData } from '../usePublicData';
+
+global.fetch = jest.fn();
+
+describe('usePublicData Hook', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should load the file at the given path', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({ ok: true, json: async () => ({ total: 2 }) });
+
+    const { result } = renderHook(() =>
+      usePublicData<{ total: number }>('/data/report.json', { errorMessage: 'Failed' })
+    );
+
+    expect(result.current.loading).toBe(true);
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(global.fetch).toHaveBeenCalledWith('/data/report.json');
+    expect(result.current.data).toEqual({ total: 2 });
+    expect(result.current.error).toBeNull();
+  });
+
+  it('should not fetch without a path', () => {
+    const { result } = renderHook(() => usePublicData(undefined, { errorMessage: 'Failed' }));
+
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(result.current).toEqual({ data: null, loading: false, error: null });
+  });
+
+  it('should report a missing file as an error', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({ ok: false, status: 404 });
+
+    const { result } = renderHook(() =>
+      usePublicData('/data/report.json', { errorMessage: 'Failed to load the report' })
+    );
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(result.current.data).toBeNull();
+    expect(result.current.error).toBe('Failed to load the report');
+  });
+
+  it('should treat a missing optional file as no data', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({ ok: false, status: 404 });
+
+    const { result } = renderHook(() =>
+      usePublicData('/data/report.json', { errorMessage: 'Failed', optional: true })
+    );
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(result.current.data).toBeNull();
+    expect(result.current.error).toBeNull();
+  });
+});
@@ -0,0 +1,18 @@
+import type { PluginConflictReport } from '../types/plugin';
+import { usePublicData } from './usePublicData';
+
+interface UseConflictReportReturn {
+  report: PluginConflictReport | null;
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Load the ecosystem-wide plugin conflicts from public/data/conflicts.json
+ */
+export function useConflictReport(): UseConflictReportReturn {
+  const { data, loading, error } = usePublicData<PluginConflictReport>('/data/conflicts.json', {
+    errorMessage: 'Failed to load the conflicts report',
+  });
+  return { report: data, loading, error };
+}
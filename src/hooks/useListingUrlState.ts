@@ -0,0 +1,58 @@
+import { useCallback, useMemo } from 'react';
+import { useRouter } from 'next/router';
+import {
+  buildListingQueryString,
+  getDefaultListingState,
+  ListingState,
+  ListingStateOptions,
+  parseListingQuery,
+} from '../utils/url-state';
+
+interface UpdateOptions {
+  /** Replace the current history entry instead of pushing a new one (e.g. while typing) */
+  replace?: boolean;
+}
+
+interface UseListingUrlStateReturn<S extends string> {
+  state: ListingState<S>;
+  update: (patch: Partial<ListingState<S>>, options?: UpdateOptions) => void;
+  isReady: boolean;
+}
+
+/**
+ * Keep listing state (q, category, sort, view, page) in the query string.
+ * The URL is the single source of truth, so back/forward navigation restores the view.
+ * `options` should be a module-level constant so its identity is stable across renders.
+ */
+export function useListingUrlState<S extends string>(
+  options: ListingStateOptions<S>
+): UseListingUrlStateReturn<S> {
+  const router = useRouter();
+
+  // Query parameters are only available after hydration on statically exported pages
+  const state = useMemo(
+    () =>
+      router.isReady ? parseListingQuery(router.query, options) : getDefaultListingState(options),
+    [router.isReady, router.query, options]
+  );
+
+  const update = useCallback(
+    (patch: Partial<ListingState<S>>, { replace = false }: UpdateOptions = {}) => {
+      const url = `${router.pathname}${buildListingQueryString(
+        { ...state, ...patch },
+        options,
+        router.query
+      )}`;
+      if (url === router.asPath) return;
+
+      if (replace) {
+        router.replace(url, undefined, { shallow: true, scroll: false });
+      } else {
+        router.push(url, undefined, { shallow: true, scroll: false });
+      }
+    },
+    [router, state, options]
+  );
+
+  return { state, update, isReady: router.isReady };
+}
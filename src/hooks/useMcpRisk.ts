@@ -0,0 +1,24 @@
+import { useMemo } from 'react';
+import type { MarketplacePlugin } from '../data/mock-data';
+import type { McpRiskIndex } from '../types/plugin';
+import { usePublicData } from './usePublicData';
+
+/**
+ * Attach MCP risk levels from public/data/mcp-risk.json to the given plugins.
+ * Plugins are returned unchanged until the file loads, or when it is missing.
+ */
+export function useMcpRisk(plugins: MarketplacePlugin[]): MarketplacePlugin[] {
+  // Risk filters simply match nothing without the index
+  const { data: index } = usePublicData<McpRiskIndex>('/data/mcp-risk.json', {
+    errorMessage: 'Failed to load MCP risk levels',
+    optional: true,
+  });
+
+  return useMemo(() => {
+    if (!index) return plugins;
+    return plugins.map((plugin) => {
+      const mcpRisk = index.plugins[plugin.id];
+      return mcpRisk ? { ...plugin, mcpRisk } : plugin;
+    });
+  }, [plugins, index]);
+}
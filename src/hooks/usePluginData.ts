@@ -1,6 +1,23 @@
 import { useState, useEffect, useMemo } from 'react';
 import { useRealMarketplaceData } from './useRealMarketplaceData';
 import { mockPlugins, MarketplacePlugin } from '../data/mock-data';
+import { createPluginId } from '../utils/plugin-id';
+import type { PluginCapability } from '../types/plugin';
+
+/** Manifest keys that declare each plugin capability */
+const CAPABILITY_KEYS: Record<PluginCapability, string> = {
+  commands: 'commands',
+  agents: 'agents',
+  skills: 'skills',
+  hooks: 'hooks',
+  mcp: 'mcpServers',
+};
+
+function getCapabilities(plugin: Record<string, unknown>): PluginCapability[] {
+  return (Object.keys(CAPABILITY_KEYS) as PluginCapability[]).filter(
+    (capability) => plugin[CAPABILITY_KEYS[capability]] !== undefined
+  );
+}
 
 interface UsePluginDataReturn {
   plugins: MarketplacePlugin[];
@@ -34,7 +51,7 @@ export function usePluginData(): UsePluginDataReturn {
             if (marketplace.manifest?.plugins && Array.isArray(marketplace.manifest.plugins)) {
               marketplace.manifest.plugins.forEach((plugin: any, index: number) => {
                 extractedPlugins.push({
-                  id: `${marketplace.id}-${plugin.name}`,
+                  id: createPluginId(marketplace.id, plugin.name),
                   name: plugin.name || `Plugin ${index + 1}`,
                   description: plugin.description || 'No description available',
                   category: plugin.category || 'General',
@@ -43,14 +60,21 @@ export function usePluginData(): UsePluginDataReturn {
                   authorUrl: marketplace.repositoryUrl,
                   repositoryUrl: marketplace.repositoryUrl,
                   stars: marketplace.stars || 0, // Use marketplace stars since plugins don't have individual stars
-                  downloads: 0, // Not available in current data structure
+                  downloads: 0, // Not measured; detail pages do not show it
                   lastUpdated: marketplace.updatedAt || new Date().toISOString(),
-                  version: plugin.version || '1.0.0',
-                  license: marketplace.license || 'MIT',
+                  // Left unset when unknown so pages can say so instead of guessing
+                  version: typeof plugin.version === 'string' ? plugin.version : undefined,
+                  license: marketplace.license || undefined,
                   marketplace: marketplace.name,
                   marketplaceUrl: marketplace.url,
+                  marketplaceId: marketplace.id,
+                  marketplaceName:
+                    typeof marketplace.manifest.name === 'string'
+                      ? marketplace.manifest.name
+                      : undefined,
                   featured: index === 0, // Make first plugin featured
                   verified: marketplace.verified || false,
+                  capabilities: getCapabilities(plugin),
                 });
               });
             }
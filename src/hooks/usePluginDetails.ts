@@ -0,0 +1,21 @@
+import type { PluginDetails } from '../types/plugin';
+import { getPluginDataPath } from '../utils/plugin-id';
+import { usePublicData } from './usePublicData';
+
+interface UsePluginDetailsReturn {
+  details: PluginDetails | null;
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Load the scanned components and repository statistics for a plugin.
+ * A missing details.json is not an error: the plugin has not been scanned yet.
+ */
+export function usePluginDetails(pluginId: string | undefined): UsePluginDetailsReturn {
+  const { data, loading, error } = usePublicData<PluginDetails>(
+    pluginId ? getPluginDataPath(pluginId, 'details.json') : undefined,
+    { errorMessage: 'Failed to load plugin details', optional: true }
+  );
+  return { details: data, loading, error };
+}
@@ -0,0 +1,20 @@
+import type { ValidatedPluginRecord } from '../types/plugin';
+import { usePublicData } from './usePublicData';
+
+const NO_VALIDATIONS: ValidatedPluginRecord[] = [];
+
+interface UsePluginValidationsReturn {
+  validations: ValidatedPluginRecord[];
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Load the plugin validation output from public/data/plugins.json
+ */
+export function usePluginValidations(): UsePluginValidationsReturn {
+  const { data, loading, error } = usePublicData<ValidatedPluginRecord[]>('/data/plugins.json', {
+    errorMessage: 'Failed to load plugin validation results',
+  });
+  return { validations: Array.isArray(data) ? data : NO_VALIDATIONS, loading, error };
+}
@@ -0,0 +1,21 @@
+import type { PluginVersionHistory } from '../types/plugin';
+import { getPluginDataPath } from '../utils/plugin-id';
+import { usePublicData } from './usePublicData';
+
+interface UsePluginVersionsReturn {
+  history: PluginVersionHistory | null;
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Load the generated version history for a plugin.
+ * A missing versions.json is not an error: the plugin simply has no recorded history yet.
+ */
+export function usePluginVersions(pluginId: string | undefined): UsePluginVersionsReturn {
+  const { data, loading, error } = usePublicData<PluginVersionHistory>(
+    pluginId ? getPluginDataPath(pluginId, 'versions.json') : undefined,
+    { errorMessage: 'Failed to load version history', optional: true }
+  );
+  return { history: data, loading, error };
+}
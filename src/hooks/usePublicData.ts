@@ -0,0 +1,62 @@
+import { useState, useEffect } from 'react';
+
+interface UsePublicDataOptions {
+  /** Shown when the file cannot be loaded */
+  errorMessage: string;
+  /** Treat a missing file as no data rather than an error */
+  optional?: boolean;
+}
+
+interface UsePublicDataReturn<T> {
+  data: T | null;
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Load a generated JSON file from public/, e.g. `/data/conflicts.json`.
+ * Nothing is fetched while the path is undefined.
+ */
+export function usePublicData<T>(
+  path: string | undefined,
+  { errorMessage, optional = false }: UsePublicDataOptions
+): UsePublicDataReturn<T> {
+  const [data, setData] = useState<T | null>(null);
+  const [loading, setLoading] = useState(path !== undefined);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (path === undefined) return;
+
+    let cancelled = false;
+
+    async function fetchData(url: string) {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const response = await fetch(`${process.env.NEXT_PUBLIC_BASE_PATH || ''}${url}`);
+        if (!response.ok && !optional) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+
+        const result: T | null = response.ok ? await response.json() : null;
+        if (!cancelled) setData(result);
+      } catch {
+        if (cancelled) return;
+        setError(errorMessage);
+        setData(null);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    fetchData(path);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [path, errorMessage, optional]);
+
+  return { data, loading, error };
+}
@@ -0,0 +1,48 @@
+import { useMemo } from 'react';
+import type { MarketplacePlugin } from '../data/mock-data';
+import {
+  buildSearchIndex,
+  createSearchEngine,
+  SearchEngine,
+  SearchIndex,
+  SEARCH_INDEX_VERSION,
+} from '../utils/search-index';
+import { usePublicData } from './usePublicData';
+
+/**
+ * Provide a search engine for the given plugins.
+ * Uses the prebuilt public/data/search-index.json when it covers every plugin, and
+ * otherwise (index missing, outdated or mock data in use) indexes the plugins in memory.
+ */
+export function useSearchIndex(plugins: MarketplacePlugin[]): SearchEngine | null {
+  // Fall back to indexing in the browser when the file is missing or unreadable
+  const { data: index } = usePublicData<SearchIndex>('/data/search-index.json', {
+    errorMessage: 'Failed to load the search index',
+    optional: true,
+  });
+  const prebuilt = index?.version === SEARCH_INDEX_VERSION ? index : null;
+
+  return useMemo(() => {
+    if (plugins.length === 0) return null;
+
+    if (prebuilt) {
+      const indexedIds = new Set(prebuilt.documents.map((doc) => doc.id));
+      if (plugins.every((plugin) => indexedIds.has(plugin.id))) {
+        return createSearchEngine(prebuilt);
+      }
+    }
+
+    return createSearchEngine(
+      buildSearchIndex(
+        plugins.map((plugin) => ({
+          id: plugin.id,
+          name: plugin.name,
+          description: plugin.description,
+          tags: plugin.tags,
+          author: plugin.author,
+          marketplace: plugin.marketplace,
+        }))
+      )
+    );
+  }, [plugins, prebuilt]);
+}
@@ -18,6 +18,10 @@
 
 import { Marketplace, Plugin } from '../types';
 import { createLogger } from '@/utils/logger';
+import { createQualityScorer, QualityScorer } from '@/utils/quality-score';
+import { assessMcpServers } from '@/utils/mcp-analysis';
+import { parseMcpConfig } from '@/utils/plugin-inventory';
+import type { QualityBreakdown } from '../types/processing';
 
 const logger = createLogger('EcosystemDataService');
 
@@ -271,9 +275,14 @@ const dataCache = new DataCache();
  */
 export class EcosystemDataService {
   private config: CollectionConfig;
+  private scorer: QualityScorer;
 
-  constructor(config: Partial<CollectionConfig> = {}) {
+  constructor(
+    config: Partial<CollectionConfig> = {},
+    scorer: QualityScorer = createQualityScorer()
+  ) {
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.scorer = scorer;
     if (this.config.enableDebugLogging) {
       logger.debug('EcosystemDataService initialized with config:', this.config);
     }
@@ -574,7 +583,7 @@ export class EcosystemDataService {
       verified:
         repoData.owner.type === 'Organization' &&
         (repoData.stargazers_count >= 10 || repoData.forks_count >= 5),
-      qualityScore: this.calculateMarketplaceQuality(repoData, plugins),
+      ...this.calculateMarketplaceQuality(repoData, plugins),
       lastScanned: new Date().toISOString(),
       addedAt: repoData.created_at,
     };
@@ -613,7 +622,7 @@ export class EcosystemDataService {
       },
       marketplaceId: `${repoData.owner.login}-${repoData.name}`,
       validated: true, // Assume manifest plugins are validated
-      qualityScore: 85, // Default quality score for manifest plugins
+      ...this.calculatePluginQuality(plugin, repoData),
       lastScanned: new Date().toISOString(),
     }));
   }
@@ -623,34 +632,43 @@ export class EcosystemDataService {
    *
    * @param repoData - GitHub repository data
    * @param plugins - Array of plugins in the marketplace
-   * @returns Quality score (0-100)
+   * @returns Quality score (0-100) and its per-signal breakdown
    */
-  private calculateMarketplaceQuality(repoData: RawMarketplaceData, plugins: Plugin[]): number {
-    let score = 0;
-
-    // Base score from stars (max 30 points)
-    score += Math.min(repoData.stargazers_count / 100, 30);
-
-    // Fork contribution (max 15 points)
-    score += Math.min(repoData.forks_count / 50, 15);
-
-    // Plugin count contribution (max 25 points)
-    score += Math.min(plugins.length * 2, 25);
-
-    // Recent activity (max 15 points)
-    const daysSinceUpdate =
-      (Date.now() - new Date(repoData.updated_at).getTime()) / (1000 * 60 * 60 * 24);
-    if (daysSinceUpdate < 30) score += 15;
-    else if (daysSinceUpdate < 90) score += 10;
-    else if (daysSinceUpdate < 365) score += 5;
-
-    // License presence (max 5 points)
-    if (repoData.license) score += 5;
-
-    // Topics/Tags (max 10 points)
-    score += Math.min(repoData.topics.length * 2, 10);
+  private calculateMarketplaceQuality(
+    repoData: RawMarketplaceData,
+    plugins: Plugin[]
+  ): { qualityScore: number; qualityBreakdown: QualityBreakdown } {
+    const qualityBreakdown = this.scorer.score('marketplace', {
+      stars: repoData.stargazers_count,
+      forks: repoData.forks_count,
+      updatedAt: repoData.updated_at,
+      license: repoData.license?.key,
+      topics: repoData.topics,
+      pluginCount: plugins.length,
+    });
+    return { qualityScore: qualityBreakdown.score, qualityBreakdown };
+  }
 
-    return Math.min(Math.round(score), 100);
+  /**
+   * Calculate quality score for a plugin listed in a marketplace manifest
+   */
+  private calculatePluginQuality(
+    plugin: RawPluginManifest,
+    repoData: RawMarketplaceData
+  ): { qualityScore: number; qualityBreakdown: QualityBreakdown } {
+    const qualityBreakdown = this.scorer.score('plugin', {
+      description: plugin.description,
+      version: plugin.version,
+      license: plugin.license || repoData.license?.key,
+      author: plugin.author || repoData.owner.login,
+      homepage: plugin.homepage,
+      keywords: plugin.keywords,
+      // Servers in a separate .mcp.json are unknown without walking the plugin directory
+      mcpRisk: plugin.mcpServers
+        ? assessMcpServers(parseMcpConfig(plugin.mcpServers)).level
+        : undefined,
+    });
+    return { qualityScore: qualityBreakdown.score, qualityBreakdown };
   }
 
   /**
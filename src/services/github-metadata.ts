@@ -5,6 +5,7 @@
 
 import { GitHubClient, getDefaultGitHubClient } from '@/utils/github-client';
 import { createLogger } from '@/utils/logger';
+import { createQualityScorer, QualityScorer } from '@/utils/quality-score';
 import {
   GitHubRepository,
   GitHubCommit,
@@ -12,6 +13,7 @@ import {
   GitHubApiResponse,
   RepositoryMetadata,
 } from '@/types/github';
+import type { QualityBreakdown } from '@/types/processing';
 
 const logger = createLogger('GitHubMetadataService');
 
@@ -42,6 +44,8 @@ export interface EnhancedRepositoryMetadata extends RepositoryMetadata {
   hasTests?: boolean;
   hasCI?: boolean;
   codeHealthScore?: number; // 0-100
+  /** Per-signal explanation of codeHealthScore */
+  codeHealth?: QualityBreakdown;
 }
 
 /**
@@ -50,10 +54,16 @@ export interface EnhancedRepositoryMetadata extends RepositoryMetadata {
 export class GitHubMetadataService {
   private githubClient: GitHubClient;
   private config: MetadataConfig;
+  private scorer: QualityScorer;
   private cache: Map<string, { data: unknown; timestamp: number }> = new Map();
 
-  constructor(githubClient: GitHubClient, config: MetadataConfig = {}) {
+  constructor(
+    githubClient: GitHubClient,
+    config: MetadataConfig = {},
+    scorer: QualityScorer = createQualityScorer()
+  ) {
     this.githubClient = githubClient;
+    this.scorer = scorer;
     this.config = {
       fetchLanguages: true,
       fetchContributors: true,
@@ -143,16 +153,6 @@ export class GitHubMetadataService {
     };
   }
 
-  /**
-   * Calculate age in days from a date string
-   */
-  private calculateAgeInDays(dateString: string): number {
-    const date = new Date(dateString);
-    const now = new Date();
-    const diffTime = Math.abs(now.getTime() - date.getTime());
-    return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-  }
-
   /**
    * Calculate commit frequency (commits per week)
    */
@@ -189,53 +189,18 @@ export class GitHubMetadataService {
   }
 
   /**
-   * Calculate code health score (0-100)
+   * Score repository health with the quality scoring engine
    */
-  private calculateCodeHealthScore(metadata: RepositoryMetadata): number {
-    let score = 0;
-    const maxScore = 100;
-
-    // Age score (0-20 points)
-    const ageInDays = this.calculateAgeInDays(metadata.createdAt);
-    if (ageInDays > 365)
-      score += 20; // More than 1 year old
-    else if (ageInDays > 90)
-      score += 15; // More than 3 months old
-    else if (ageInDays > 30)
-      score += 10; // More than 1 month old
-    else score += 5; // Less than 1 month old
-
-    // Stars score (0-20 points)
-    if (metadata.stars > 1000) score += 20;
-    else if (metadata.stars > 100) score += 15;
-    else if (metadata.stars > 10) score += 10;
-    else if (metadata.stars > 0) score += 5;
-
-    // Forks score (0-15 points)
-    if (metadata.forks > 100) score += 15;
-    else if (metadata.forks > 10) score += 10;
-    else if (metadata.forks > 0) score += 5;
-
-    // Activity score (0-15 points)
-    const daysSinceLastUpdate = this.calculateAgeInDays(metadata.updatedAt);
-    if (daysSinceLastUpdate < 7)
-      score += 15; // Updated within week
-    else if (daysSinceLastUpdate < 30)
-      score += 10; // Updated within month
-    else if (daysSinceLastUpdate < 90) score += 5; // Updated within 3 months
-
-    // Description score (0-10 points)
-    if (metadata.description && metadata.description.length > 50) score += 10;
-    else if (metadata.description) score += 5;
-
-    // License score (0-10 points)
-    if (metadata.license) score += 10;
-
-    // Topics score (0-10 points)
-    if (metadata.topics.length > 3) score += 10;
-    else if (metadata.topics.length > 0) score += 5;
-
-    return Math.min(score, maxScore);
+  private calculateCodeHealth(metadata: RepositoryMetadata): QualityBreakdown {
+    return this.scorer.score('repository', {
+      stars: metadata.stars,
+      forks: metadata.forks,
+      createdAt: metadata.createdAt,
+      updatedAt: metadata.updatedAt,
+      description: metadata.description,
+      license: metadata.license,
+      topics: metadata.topics,
+    });
   }
 
   /**
@@ -336,7 +301,8 @@ export class GitHubMetadataService {
       await this.checkRepositoryFeatures(owner, repo, enhanced);
 
       // Calculate code health score
-      enhanced.codeHealthScore = this.calculateCodeHealthScore(enhanced);
+      enhanced.codeHealth = this.calculateCodeHealth(enhanced);
+      enhanced.codeHealthScore = enhanced.codeHealth.score;
 
       return {
         success: true,
@@ -634,9 +600,10 @@ export class GitHubMetadataService {
  */
 export function createGitHubMetadataService(
   githubClient: GitHubClient,
-  config?: MetadataConfig
+  config?: MetadataConfig,
+  scorer?: QualityScorer
 ): GitHubMetadataService {
-  return new GitHubMetadataService(githubClient, config);
+  return new GitHubMetadataService(githubClient, config, scorer);
 }
 
 /**
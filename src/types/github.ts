@@ -178,6 +178,8 @@ export interface GitHubRateLimit {
 // API error response
 export interface GitHubError {
   message: string;
+  /** HTTP status of the failed request; unset for network errors */
+  status?: number;
   documentation_url?: string;
   errors?: Array<{
     resource: string;
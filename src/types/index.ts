@@ -9,6 +9,8 @@ export type {
   MarketplaceListItem,
   MarketplaceCreateInput,
   MarketplaceUpdateInput,
+  MarketplaceDuplicateKind,
+  MarketplaceDuplicateRef,
 } from './marketplace';
 export type {
   Plugin,
@@ -18,6 +20,33 @@ export type {
   PluginManifest,
   PluginValidationResult,
   PluginSearchFilters,
+  PluginSearchExclusions,
+  PluginCapability,
+  PluginManifestChange,
+  PluginVersionEntry,
+  PluginVersionHistory,
+  PluginComponents,
+  PluginCommandInfo,
+  PluginAgentInfo,
+  PluginSkillInfo,
+  PluginHookInfo,
+  PluginMcpServerInfo,
+  McpTransport,
+  McpPackageRunner,
+  McpPackageRef,
+  McpRiskKind,
+  McpRiskLevel,
+  McpRiskFinding,
+  McpRiskAssessment,
+  McpRiskIndex,
+  PluginInventory,
+  PluginRepositoryStats,
+  PluginDetails,
+  PluginConflictKind,
+  PluginConflictParty,
+  PluginConflict,
+  PluginConflictReport,
+  ValidatedPluginRecord,
 } from './plugin';
 
 // GitHub API types
@@ -50,7 +79,33 @@ export type {
 } from './common';
 
 // Data processing types
-export type { QualityMetrics, ValidationResult, ProcessingResult, ScanResult } from './processing';
+export type {
+  QualityMetrics,
+  QualitySubject,
+  QualityScoringConfig,
+  QualitySignalScore,
+  QualityBreakdown,
+  ValidationResult,
+  ProcessingResult,
+  ScanResult,
+  ScanSnapshot,
+  MarketplaceSnapshotEntry,
+  PluginSnapshotEntry,
+  ScanChangeSubject,
+  ScanQualityChange,
+  ScanChangeReport,
+  DiscoveryStrategyType,
+  DiscoveryStrategy,
+  DiscoveryConfig,
+  StrategyYield,
+  DiscoveryYieldReport,
+  ModerationReason,
+  ModerationRule,
+  ModerationConfig,
+  ModeratedKind,
+  ModerationAuditEvent,
+  ModerationSummary,
+} from './processing';
 
 // Ecosystem Statistics types
 export type {
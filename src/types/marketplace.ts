@@ -37,10 +37,31 @@ export interface Marketplace {
   verified: boolean;
   /** Quality score (0-100) */
   qualityScore: number;
+  /** Per-signal explanation of qualityScore */
+  qualityBreakdown?: QualityBreakdown;
   /** Last scan timestamp */
   lastScanned: string;
   /** When this marketplace was added to the aggregator */
   addedAt: string;
+  /** Set when this marketplace forks or mirrors another; it is left out of ecosystem totals */
+  duplicateOf?: MarketplaceDuplicateRef;
+  /** Forks and mirrors grouped under this marketplace */
+  duplicates?: MarketplaceDuplicateRef[];
+}
+
+/**
+ * How a marketplace repeats another: a GitHub fork, or a copy with the same plugins
+ */
+export type MarketplaceDuplicateKind = 'fork' | 'mirror';
+
+/**
+ * Link between a canonical marketplace and one of its forks or mirrors
+ */
+export interface MarketplaceDuplicateRef {
+  id: string;
+  name: string;
+  url: string;
+  kind: MarketplaceDuplicateKind;
 }
 
 /**
@@ -103,3 +124,4 @@ export type MarketplaceUpdateInput = Partial<
 
 // Re-export Plugin type to avoid circular imports
 import type { Plugin } from './plugin';
+import type { QualityBreakdown } from './processing';
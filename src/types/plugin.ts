@@ -1,3 +1,5 @@
+import type { QualityBreakdown } from './processing';
+
 /**
  * Plugin interface representing a Claude Code plugin
  * Based on the PRD specification for plugin data structure
@@ -45,8 +47,12 @@ export interface Plugin {
   validated: boolean;
   /** Quality score (0-100) */
   qualityScore: number;
+  /** Per-signal explanation of qualityScore */
+  qualityBreakdown?: QualityBreakdown;
   /** Last scan timestamp */
   lastScanned: string;
+  /** Components found in the plugin directory */
+  inventory?: PluginInventory;
 }
 
 /**
@@ -144,6 +150,24 @@ export interface PluginValidationResult {
   score: number;
 }
 
+/**
+ * Component types a plugin can provide, as used by `has:` search filters
+ */
+export type PluginCapability = 'commands' | 'agents' | 'skills' | 'hooks' | 'mcp';
+
+/**
+ * Values excluded by negated search filters (e.g. `-tag:deprecated`)
+ */
+export interface PluginSearchExclusions {
+  categories?: string[];
+  tags?: string[];
+  authors?: string[];
+  marketplaces?: string[];
+  licenses?: string[];
+  has?: PluginCapability[];
+  mcpRisk?: McpRiskLevel[];
+}
+
 /**
  * Plugin search filters
  */
@@ -152,9 +176,287 @@ export interface PluginSearchFilters {
   tags?: string[];
   agents?: string[];
   commands?: string[];
+  /** Marketplace ID or name */
   marketplaceId?: string;
   validated?: boolean;
   minQualityScore?: number;
   author?: string;
   license?: string;
+  minStars?: number;
+  maxStars?: number;
+  /** Capabilities the plugin must provide */
+  has?: PluginCapability[];
+  /** MCP server risk levels to match, any of */
+  mcpRisk?: McpRiskLevel[];
+  exclude?: PluginSearchExclusions;
+}
+
+/**
+ * A single manifest field that changed between two observed versions
+ */
+export interface PluginManifestChange {
+  field: string;
+  previous?: unknown;
+  current?: unknown;
+}
+
+/**
+ * A plugin version observed by the scanner
+ */
+export interface PluginVersionEntry {
+  version: string;
+  /** First scan that saw this version */
+  firstSeen: string;
+  /** Most recent scan that saw this version */
+  lastSeen: string;
+  /** Manifest changes compared to the previously observed version */
+  changes: PluginManifestChange[];
+}
+
+/**
+ * Version history for a plugin, as published in public/data/plugins/<id>/versions.json
+ */
+export interface PluginVersionHistory {
+  pluginId: string;
+  name: string;
+  marketplaceId: string;
+  currentVersion: string;
+  /** Observed versions, newest first */
+  versions: PluginVersionEntry[];
+  lastUpdated: string;
+}
+
+/**
+ * Components declared in a plugin manifest. A missing key means the manifest does not
+ * declare that component type, so whether the plugin provides it is unknown.
+ */
+export interface PluginComponents {
+  /** Command file or directory paths */
+  commands?: string[];
+  /** Agent file or directory paths */
+  agents?: string[];
+  /** Skill directory paths */
+  skills?: string[];
+  /** Hook event names, or the path of a hooks configuration file */
+  hooks?: string[];
+  /** MCP server names, or the path of an MCP configuration file */
+  mcpServers?: string[];
+}
+
+/**
+ * A slash command defined by a `commands/*.md` file
+ */
+export interface PluginCommandInfo {
+  name: string;
+  description?: string;
+  /** Usage hint from the `argument-hint` frontmatter key */
+  argumentHint?: string;
+  /** Path relative to the plugin root */
+  path: string;
+}
+
+/**
+ * A subagent defined by an `agents/*.md` file
+ */
+export interface PluginAgentInfo {
+  name: string;
+  description?: string;
+  /** Tools the agent may use; absent when it inherits all tools */
+  tools?: string[];
+  model?: string;
+  path: string;
+}
+
+/**
+ * A skill defined by a `skills/<name>/SKILL.md` file
+ */
+export interface PluginSkillInfo {
+  name: string;
+  description?: string;
+  path: string;
+}
+
+/**
+ * A hook matcher group from `hooks/hooks.json` or the manifest
+ */
+export interface PluginHookInfo {
+  /** Hook event, e.g. `PreToolUse` */
+  event: string;
+  /** Tool name pattern the hook applies to */
+  matcher?: string;
+  /** Shell commands run by the hook */
+  commands: string[];
+}
+
+export type McpTransport = 'stdio' | 'http' | 'sse' | 'unknown';
+
+/**
+ * An MCP server from `.mcp.json` or the manifest
+ */
+export interface PluginMcpServerInfo {
+  name: string;
+  transport: McpTransport;
+  command?: string;
+  args?: string[];
+  url?: string;
+  /** Environment variables the server sets or references via `${VAR}` */
+  env?: string[];
+  /** Packages fetched at launch by a runner such as npx or uvx */
+  packages?: McpPackageRef[];
+}
+
+/**
+ * Tools that download and run a package when an MCP server starts
+ */
+export type McpPackageRunner = 'npx' | 'bunx' | 'pnpm' | 'yarn' | 'uvx' | 'pipx' | 'docker';
+
+/**
+ * A package an MCP server launch command fetches
+ */
+export interface McpPackageRef {
+  runner: McpPackageRunner;
+  name: string;
+  version?: string;
+  /** Whether the version is an exact release or digest rather than a range or tag */
+  pinned: boolean;
+}
+
+export type McpRiskKind = 'remote-endpoint' | 'unpinned-package' | 'shell-invocation';
+
+/** `none` means the plugin declares no MCP servers */
+export type McpRiskLevel = 'none' | 'low' | 'medium' | 'high';
+
+/**
+ * A risk found in an MCP server configuration
+ */
+export interface McpRiskFinding {
+  kind: McpRiskKind;
+  level: Exclude<McpRiskLevel, 'none'>;
+  /** Server name */
+  server: string;
+  message: string;
+}
+
+/**
+ * Risk classification of all MCP servers a plugin declares
+ */
+export interface McpRiskAssessment {
+  level: McpRiskLevel;
+  servers: number;
+  findings: McpRiskFinding[];
+}
+
+/**
+ * Components found by walking a plugin directory, including paths the manifest adds
+ */
+export interface PluginInventory {
+  commands: PluginCommandInfo[];
+  agents: PluginAgentInfo[];
+  skills: PluginSkillInfo[];
+  hooks: PluginHookInfo[];
+  mcpServers: PluginMcpServerInfo[];
+}
+
+/**
+ * Repository statistics captured by the scanner
+ */
+export interface PluginRepositoryStats {
+  fullName: string;
+  stars: number;
+  forks: number;
+  openIssues: number;
+  defaultBranch: string;
+  license: string | null;
+  pushedAt: string;
+  /** When the statistics were fetched from GitHub */
+  fetchedAt: string;
+}
+
+/**
+ * Component namespaces in which two installed plugins can collide
+ */
+export type PluginConflictKind = 'command' | 'agent' | 'mcpServer' | 'hook';
+
+/**
+ * A plugin taking part in a conflict
+ */
+export interface PluginConflictParty {
+  pluginId: string;
+  name: string;
+  marketplaceId: string;
+}
+
+/**
+ * Two or more plugins claiming the same command, agent or MCP server name, or
+ * registering hooks for the same event and tool
+ */
+export interface PluginConflict {
+  kind: PluginConflictKind;
+  /** `/review`, an agent or server name, or `PreToolUse Bash` for hooks */
+  name: string;
+  plugins: PluginConflictParty[];
+}
+
+/**
+ * Ecosystem-wide conflicts, as published in public/data/conflicts.json
+ */
+export interface PluginConflictReport {
+  conflicts: PluginConflict[];
+  /** Number of conflicts per kind */
+  summary: Record<PluginConflictKind, number>;
+  /** Plugins taking part in at least one conflict */
+  affectedPlugins: number;
+  lastUpdated: string;
+}
+
+/**
+ * Scanned plugin details, as published in public/data/plugins/<id>/details.json
+ */
+export interface PluginDetails {
+  pluginId: string;
+  components: PluginComponents;
+  /** Null when the plugin directory has not been walked */
+  inventory: PluginInventory | null;
+  /** Null when the repository could not be fetched */
+  repository: PluginRepositoryStats | null;
+  /** Null when the plugin's MCP configuration is unknown */
+  mcpRisk: McpRiskAssessment | null;
+  quality: QualityBreakdown;
+  /** Conflicts this plugin takes part in; absent in files written before conflict analysis */
+  conflicts?: PluginConflict[];
+  /**
+   * Set on plugins listed by a fork or mirror: the same plugin in the canonical
+   * marketplace, whose details list the conflicts instead
+   */
+  canonicalPluginId?: string;
+  lastUpdated: string;
+}
+
+/**
+ * MCP risk levels for the plugins list, as published in public/data/mcp-risk.json
+ */
+export interface McpRiskIndex {
+  /** Plugin ID → highest risk; plugins with an unknown configuration are left out */
+  plugins: Record<string, McpRiskLevel>;
+  lastUpdated: string;
+}
+
+/**
+ * Validation output for a plugin, as written to data/plugins/valid-plugins.json and
+ * published in public/data/plugins.json
+ */
+export interface ValidatedPluginRecord {
+  id: string;
+  name: string;
+  description: string;
+  version: string;
+  author: string;
+  repository: string;
+  isValid: boolean;
+  errors: string[];
+  warnings: string[];
+  metadata?: {
+    marketplaceId?: string;
+    marketplaceName?: string;
+  };
 }
@@ -2,6 +2,8 @@
  * Types related to data processing, validation, and scanning
  */
 
+import type { PluginManifestChange } from './plugin';
+
 /**
  * Quality metrics for marketplaces and plugins
  */
@@ -17,6 +19,48 @@ export interface QualityMetrics {
   lastCalculated: string;
 }
 
+/**
+ * Things the quality scoring engine rates
+ */
+export type QualitySubject = 'plugin' | 'marketplace' | 'repository';
+
+/**
+ * Signal weights per subject, as loaded from config/quality-scoring.json
+ */
+export interface QualityScoringConfig {
+  /** Changed whenever weights change, so stored scores record the rules that produced them */
+  version: string;
+  /** Signal ID → relative weight; signals without a weight (or weight 0) are not scored */
+  weights: Record<QualitySubject, Record<string, number>>;
+}
+
+/**
+ * One signal's contribution to a quality score
+ */
+export interface QualitySignalScore {
+  id: string;
+  label: string;
+  weight: number;
+  /** Normalized 0-1, or null when the signal could not be measured */
+  value: number | null;
+  /** Points earned out of maxPoints; all signals' maxPoints add up to 100 */
+  points: number;
+  maxPoints: number;
+  /** Why the signal got its value, e.g. "412 stars" */
+  detail: string;
+}
+
+/**
+ * A quality score with the per-signal breakdown that explains it
+ */
+export interface QualityBreakdown {
+  subject: QualitySubject;
+  /** 0-100 */
+  score: number;
+  configVersion: string;
+  signals: QualitySignalScore[];
+}
+
 /**
  * Validation result for manifests and data
  */
@@ -120,6 +164,89 @@ export interface MarketplaceScanResult {
   warnings: string[];
 }
 
+/**
+ * A marketplace as recorded in a scan snapshot
+ */
+export interface MarketplaceSnapshotEntry {
+  stars: number;
+}
+
+/**
+ * A plugin as recorded in a scan snapshot
+ */
+export interface PluginSnapshotEntry {
+  marketplaceId: string;
+  version: string;
+  /** Stars of the plugin's own repository, when it has one */
+  stars?: number;
+  author?: string;
+}
+
+/**
+ * Compact record of everything one scan saw, keyed by marketplace and plugin ID.
+ * Snapshots are appended to the scan time series after every data generation run.
+ */
+export interface ScanSnapshot {
+  scannedAt: string;
+  marketplaces: Record<string, MarketplaceSnapshotEntry>;
+  plugins: Record<string, PluginSnapshotEntry>;
+}
+
+/**
+ * A marketplace or plugin named in a scan change report
+ */
+export interface ScanChangeSubject {
+  id: string;
+  name: string;
+  /** Set for plugins */
+  marketplaceId?: string;
+}
+
+export interface ScanQualityChange extends ScanChangeSubject {
+  previous: number;
+  current: number;
+  delta: number;
+}
+
+/**
+ * Differences between two scans, published as public/data/changes/<date>.json
+ */
+export interface ScanChangeReport {
+  generatedAt: string;
+  /** The backup compared against */
+  previous: { backupId: string; scannedAt: string };
+  current: { scannedAt: string };
+  summary: Record<
+    | 'marketplacesAdded'
+    | 'marketplacesRemoved'
+    | 'pluginsAdded'
+    | 'pluginsRemoved'
+    | 'pluginsRenamed'
+    | 'versionBumps'
+    | 'manifestChanges'
+    | 'qualityChanges'
+    | 'newlyInvalid',
+    number
+  >;
+  marketplaces: {
+    added: ScanChangeSubject[];
+    removed: ScanChangeSubject[];
+    qualityChanges: ScanQualityChange[];
+  };
+  plugins: {
+    added: ScanChangeSubject[];
+    removed: ScanChangeSubject[];
+    /** Same marketplace and source path, different name */
+    renamed: Array<ScanChangeSubject & { previousId: string; previousName: string }>;
+    versionBumps: Array<ScanChangeSubject & { previous: string; current: string }>;
+    /** Manifest fields other than version that changed */
+    manifestChanges: Array<ScanChangeSubject & { changes: PluginManifestChange[] }>;
+    qualityChanges: ScanQualityChange[];
+    /** Valid in the previous scan, invalid now */
+    newlyInvalid: Array<ScanChangeSubject & { errors: string[] }>;
+  };
+}
+
 /**
  * Scan error information
  */
@@ -163,6 +290,126 @@ export interface ScanConfig {
   calculateQualityScores?: boolean;
 }
 
+/**
+ * `code` searches file contents; `repo` searches repository topics, names and descriptions
+ */
+export type DiscoveryStrategyType = 'code' | 'repo';
+
+/**
+ * A GitHub search the marketplace scanner runs to find candidate repositories
+ */
+export interface DiscoveryStrategy {
+  /** Stable identifier that yield statistics are recorded under */
+  name: string;
+  type: DiscoveryStrategyType;
+  query: string;
+  enabled: boolean;
+  /** Candidate repositories to examine at most */
+  maxResults: number;
+  /** Result pages to request at most (repository searches only) */
+  maxPages: number;
+}
+
+/**
+ * Discovery sources, as loaded from config/discovery-strategies.json
+ */
+export interface DiscoveryConfig {
+  /** Changed whenever sources change, so yield statistics record which set produced them */
+  version: string;
+  /** Repositories (owner/repo) fetched before any search runs */
+  seeds: string[];
+  strategies: DiscoveryStrategy[];
+}
+
+/**
+ * What one discovery source found during a scan
+ */
+export interface StrategyYield {
+  /** Strategy name, or `known-seed` for the seed repositories */
+  strategy: string;
+  type: DiscoveryStrategyType | 'seed';
+  /** Repositories returned by the search */
+  candidates: number;
+  /** Repositories no earlier source had found */
+  new: number;
+  /** Repositories an earlier source had already found */
+  duplicates: number;
+  /** New repositories with a `.claude-plugin/marketplace.json` */
+  withManifest: number;
+  /** Repositories that could not be fetched or processed */
+  failed: number;
+  /** Set when the search itself failed */
+  error?: string;
+}
+
+/**
+ * Yield of every discovery source in one scan, appended to data/history/discovery.jsonl
+ */
+export interface DiscoveryYieldReport {
+  scannedAt: string;
+  configVersion: string;
+  strategies: StrategyYield[];
+}
+
+/**
+ * Why a moderation rule hides (or keeps) an item
+ */
+export type ModerationReason = 'spam' | 'mirror' | 'takedown' | 'malicious' | 'other';
+
+/**
+ * A block or allow rule. Every field that is set must match; `plugin` rules only
+ * apply to plugins. Allow rules win over block rules, e.g. to keep one repository
+ * of a blocked owner.
+ */
+export interface ModerationRule {
+  /** Stable identifier recorded in the audit trail */
+  id: string;
+  action: 'block' | 'allow';
+  /** GitHub user or organization */
+  owner?: string;
+  /** `owner/repo` of a marketplace or plugin repository */
+  repository?: string;
+  /** Plugin name pattern, `*` matches any characters */
+  plugin?: string;
+  reason: ModerationReason;
+  note?: string;
+  /** The rule stops applying after this date */
+  expiresAt?: string;
+}
+
+/**
+ * Moderation rules, as loaded from config/moderation.json
+ */
+export interface ModerationConfig {
+  version: string;
+  rules: ModerationRule[];
+}
+
+export type ModeratedKind = 'marketplace' | 'plugin';
+
+/**
+ * An item hidden or restored by moderation, appended to data/moderation/audit.jsonl
+ */
+export interface ModerationAuditEvent {
+  at: string;
+  action: 'hidden' | 'restored';
+  kind: ModeratedKind;
+  /** `owner/repo` for marketplaces, `owner/repo:plugin-name` for plugins */
+  subject: string;
+  ruleId?: string;
+  reason?: ModerationReason;
+}
+
+/**
+ * Counts of hidden items, published as public/data/moderation.json
+ */
+export interface ModerationSummary {
+  lastUpdated: string;
+  configVersion: string;
+  hidden: Record<ModeratedKind, number>;
+  byReason: Partial<Record<ModerationReason, number>>;
+}
+
 /**
  * Data export options
  */
@@ -0,0 +1,116 @@
+/**
+ * Tests for discovery strategy configuration and yield statistics
+ */
+
+import {
+  createStrategyYield,
+  DEFAULT_DISCOVERY_CONFIG,
+  parseDiscoveryConfig,
+  parseDiscoveryYieldReports,
+  serializeDiscoveryYieldReport,
+  summarizeStrategyYields,
+} from '../discovery-strategies';
+import type { DiscoveryYieldReport, StrategyYield } from '../../types/processing';
+
+const report = (day: number, strategies: StrategyYield[]): DiscoveryYieldReport => ({
+  scannedAt: `2026-10-0${day}T00:00:00.000Z`,
+  configVersion: 'test',
+  strategies,
+});
+
+const yieldOf = (strategy: string, counts: Partial<StrategyYield> = {}): StrategyYield => ({
+  ...createStrategyYield(strategy, 'repo'),
+  ...counts,
+});
+
+describe('parseDiscoveryConfig', () => {
+  it('should accept the bundled configuration', () => {
+    expect(DEFAULT_DISCOVERY_CONFIG.seeds).toContain('anthropics/claude-plugins-official');
+    expect(DEFAULT_DISCOVERY_CONFIG.strategies.find((s) => s.type === 'code')).toBeDefined();
+  });
+
+  it('should fill in defaults for enabled flags and caps', () => {
+    const config = parseDiscoveryConfig({
+      version: '1',
+      defaults: { maxResults: 50 },
+      strategies: [
+        { name: 'topic', type: 'repo', query: 'topic:claude-plugins' },
+        { name: 'code', type: 'code', query: 'path:.claude-plugin', enabled: false, maxPages: 1 },
+      ],
+    });
+
+    expect(config.seeds).toEqual([]);
+    expect(config.strategies).toEqual([
+      {
+        name: 'topic',
+        type: 'repo',
+        query: 'topic:claude-plugins',
+        enabled: true,
+        maxResults: 50,
+        maxPages: 3,
+      },
+      {
+        name: 'code',
+        type: 'code',
+        query: 'path:.claude-plugin',
+        enabled: false,
+        maxResults: 50,
+        maxPages: 1,
+      },
+    ]);
+  });
+
+  it('should list every problem in an invalid configuration', () => {
+    expect(() =>
+      parseDiscoveryConfig({
+        version: '1',
+        seeds: ['not a repo'],
+        strategies: [
+          { name: 'a', type: 'repo', query: 'x' },
+          { name: 'a', type: 'users', query: '', maxResults: 0 },
+        ],
+      })
+    ).toThrow(
+      'Invalid discovery config: "seeds[0]" must be "owner/repo"; ' +
+        '"strategies[1].name" "a" is already used; "strategies[1].type" must be one of: code, repo; ' +
+        '"strategies[1].query" must be a non-empty string; "strategies[1].maxResults" must be a positive integer'
+    );
+  });
+});
+
+describe('discovery yield history', () => {
+  it('should round-trip reports and skip unreadable lines', () => {
+    const text =
+      serializeDiscoveryYieldReport(report(2, [yieldOf('b')])) +
+      '{"truncated\n' +
+      serializeDiscoveryYieldReport(report(1, [yieldOf('a')]));
+
+    expect(parseDiscoveryYieldReports(text).map((r) => r.strategies[0].strategy)).toEqual([
+      'a',
+      'b',
+    ]);
+  });
+
+  it('should flag strategies without new manifests in every recent scan', () => {
+    const reports = [1, 2, 3].map((day) =>
+      report(day, [
+        yieldOf('useful', {
+          candidates: 10,
+          new: day === 2 ? 1 : 0,
+          withManifest: day === 2 ? 1 : 0,
+        }),
+        yieldOf('stale', { candidates: 10, duplicates: 10 }),
+        ...(day === 3 ? [yieldOf('added-later')] : []),
+      ])
+    );
+
+    const summaries = summarizeStrategyYields(reports, 3);
+    expect(summaries.map((s) => [s.strategy, s.scans, s.duplicates, s.unproductive])).toEqual([
+      ['useful', 3, 0, false],
+      ['stale', 3, 30, true],
+      ['added-later', 1, 0, false],
+    ]);
+    // Too little history to judge
+    expect(summarizeStrategyYields(reports.slice(1), 3).some((s) => s.unproductive)).toBe(false);
+  });
+});
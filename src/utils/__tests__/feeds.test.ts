@@ -0,0 +1,125 @@
+/**
+ * Tests for feed rendering and feed paths
+ */
+
+import {
+  escapeXml,
+  FeedDocument,
+  getFeedDirectory,
+  getFeedLinks,
+  renderAtomFeed,
+  renderFeedFiles,
+  renderJsonFeed,
+  renderRssFeed,
+} from '../feeds';
+
+const feed: FeedDocument = {
+  scope: { type: 'author', key: 'Ada & Co' },
+  title: "Ada & Co: What's new",
+  description: 'New plugins <b>and</b> releases',
+  siteUrl: 'https://example.com/aggregator',
+  pageUrl: 'https://example.com/aggregator/plugins?q=author%3A%22Ada%20%26%20Co%22',
+  updated: '2026-03-01T00:00:00.000Z',
+  items: [
+    {
+      id: 'plugin:1-demo:1.1.0',
+      kind: 'version',
+      title: 'demo 1.1.0 <beta>',
+      url: 'https://example.com/aggregator/plugins/1-demo',
+      summary: 'Updated from 1.0.0 to 1.1.0. Changed: "description" & license.\u0007',
+      published: '2026-02-28T12:00:00.000Z',
+      authors: ['Ada & Co'],
+      tags: ['dev&ops'],
+    },
+  ],
+};
+
+const parseXml = (xml: string) => new DOMParser().parseFromString(xml, 'application/xml');
+
+describe('feed paths', () => {
+  it('should place scoped feeds under a slug of their key', () => {
+    expect(getFeedDirectory({ type: 'all' })).toBe('feeds');
+    expect(getFeedDirectory({ type: 'author', key: 'Ada & Co' })).toBe('feeds/authors/ada-co');
+    expect(getFeedDirectory({ type: 'category', key: 'Dev Tools' })).toBe(
+      'feeds/categories/dev-tools'
+    );
+  });
+
+  it('should build one alternate link per format under the base path', () => {
+    expect(getFeedLinks({ type: 'marketplace', key: '42' }, 'Demo', '/aggregator')).toEqual([
+      {
+        rel: 'alternate',
+        type: 'application/rss+xml',
+        title: 'Demo (RSS)',
+        href: '/aggregator/feeds/marketplaces/42/rss.xml',
+      },
+      {
+        rel: 'alternate',
+        type: 'application/atom+xml',
+        title: 'Demo (Atom)',
+        href: '/aggregator/feeds/marketplaces/42/atom.xml',
+      },
+      {
+        rel: 'alternate',
+        type: 'application/feed+json',
+        title: 'Demo (JSON Feed)',
+        href: '/aggregator/feeds/marketplaces/42/feed.json',
+      },
+    ]);
+  });
+});
+
+describe('feed rendering', () => {
+  it('should escape markup and drop control characters', () => {
+    expect(escapeXml(`<a href="x">'&'</a>\u0001`)).toBe(
+      '&lt;a href=&quot;x&quot;&gt;&apos;&amp;&apos;&lt;/a&gt;'
+    );
+  });
+
+  it('should render well-formed RSS with the original text', () => {
+    const doc = parseXml(renderRssFeed(feed));
+
+    expect(doc.getElementsByTagName('parsererror')).toHaveLength(0);
+    expect(doc.querySelector('item > title')?.textContent).toBe('demo 1.1.0 <beta>');
+    expect(doc.querySelector('item > category')?.textContent).toBe('dev&ops');
+    expect(doc.querySelector('channel > link')?.textContent).toBe(feed.pageUrl);
+  });
+
+  it('should render well-formed Atom with a self link and tag URI entry IDs', () => {
+    const doc = parseXml(renderAtomFeed(feed));
+
+    expect(doc.getElementsByTagName('parsererror')).toHaveLength(0);
+    expect(doc.querySelector('feed > link[rel="self"]')?.getAttribute('href')).toBe(
+      'https://example.com/aggregator/feeds/authors/ada-co/atom.xml'
+    );
+    expect(doc.querySelector('entry > id')?.textContent).toBe(
+      'tag:example.com,2025:plugin%3A1-demo%3A1.1.0'
+    );
+    expect(doc.querySelector('entry > author > name')?.textContent).toBe('Ada & Co');
+  });
+
+  it('should render JSON Feed 1.1', () => {
+    const json = JSON.parse(renderJsonFeed(feed));
+
+    expect(json).toMatchObject({
+      version: 'https://jsonfeed.org/version/1.1',
+      feed_url: 'https://example.com/aggregator/feeds/authors/ada-co/feed.json',
+      items: [
+        {
+          id: 'plugin:1-demo:1.1.0',
+          title: 'demo 1.1.0 <beta>',
+          date_published: '2026-02-28T12:00:00.000Z',
+          authors: [{ name: 'Ada & Co' }],
+        },
+      ],
+    });
+  });
+
+  it('should key every format by its file path', () => {
+    expect([...renderFeedFiles(feed).keys()]).toEqual([
+      'feeds/authors/ada-co/rss.xml',
+      'feeds/authors/ada-co/atom.xml',
+      'feeds/authors/ada-co/feed.json',
+    ]);
+  });
+});
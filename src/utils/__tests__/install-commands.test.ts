@@ -0,0 +1,80 @@
+/**
+ * Tests for plugin install command generation
+ */
+
+import {
+  buildTeamPluginSettings,
+  getInstallCommands,
+  getPluginInstallTarget,
+  parseMarketplaceSource,
+} from '../install-commands';
+
+describe('parseMarketplaceSource', () => {
+  it('should turn GitHub repository URLs into owner/repo', () => {
+    expect(parseMarketplaceSource('https://github.com/anthropics/skills')).toEqual({
+      source: 'github',
+      repo: 'anthropics/skills',
+    });
+    expect(parseMarketplaceSource('https://www.github.com/acme/tools.git/')).toEqual({
+      source: 'github',
+      repo: 'acme/tools',
+    });
+  });
+
+  it('should keep other repositories as git URLs and reject non-URLs', () => {
+    expect(parseMarketplaceSource('https://gitlab.com/acme/plugins.git')).toEqual({
+      source: 'git',
+      url: 'https://gitlab.com/acme/plugins.git',
+    });
+    expect(parseMarketplaceSource('Community Plugins')).toBeNull();
+    expect(parseMarketplaceSource(undefined)).toBeNull();
+  });
+});
+
+describe('getInstallCommands', () => {
+  it('should add the marketplace repository and install by manifest names', () => {
+    const target = getPluginInstallTarget({
+      name: 'document-skills',
+      marketplaceUrl: 'https://github.com/anthropics/skills',
+      marketplaceName: 'anthropic-agent-skills',
+    });
+
+    expect(target && getInstallCommands(target)).toEqual([
+      '/plugin marketplace add anthropics/skills',
+      '/plugin install document-skills@anthropic-agent-skills',
+    ]);
+  });
+
+  it('should fall back to the repository name without a scanned marketplace manifest', () => {
+    expect(
+      getPluginInstallTarget({
+        name: 'formatter',
+        marketplaceUrl: 'https://gitlab.com/acme/team-plugins.git',
+      })
+    ).toEqual({
+      plugin: 'formatter',
+      marketplace: 'team-plugins',
+      source: { source: 'git', url: 'https://gitlab.com/acme/team-plugins.git' },
+    });
+  });
+
+  it('should return no target when the marketplace repository is unknown', () => {
+    expect(getPluginInstallTarget({ name: 'formatter', marketplaceUrl: '' })).toBeNull();
+  });
+});
+
+describe('buildTeamPluginSettings', () => {
+  it('should list each marketplace once and enable every plugin', () => {
+    const source = { source: 'github' as const, repo: 'acme/plugins' };
+
+    expect(
+      buildTeamPluginSettings([
+        { plugin: 'formatter', marketplace: 'acme', source },
+        { plugin: 'reviewer', marketplace: 'acme', source },
+      ])
+    ).toEqual({
+      extraKnownMarketplaces: { acme: { source } },
+      enabledPlugins: { 'formatter@acme': true, 'reviewer@acme': true },
+    });
+  });
+});
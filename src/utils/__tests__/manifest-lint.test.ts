@@ -0,0 +1,151 @@
+/**
+ * Tests for the manifest linter and the JSON source positions it reports
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { findPosition, JsonSyntaxError, parseJsonSource } from '../json-source';
+import { detectManifestKind, lintManifest, toSarif } from '../manifest-lint';
+import { MANIFEST_KINDS, MANIFEST_SCHEMA_PATHS, toManifestJsonSchema } from '../manifest-schema';
+
+const json = (value: unknown) => JSON.stringify(value, null, 2);
+
+describe('parseJsonSource', () => {
+  it('should record where values and keys start', () => {
+    const source = parseJsonSource('{\n  "plugins": [\n    { "name": "a" }\n  ]\n}');
+
+    expect(source.value).toEqual({ plugins: [{ name: 'a' }] });
+    expect(findPosition(source, ['plugins', 0, 'name'])).toEqual({ line: 3, column: 15 });
+    expect(findPosition(source, ['plugins', 0, 'name'], { key: true })).toEqual({
+      line: 3,
+      column: 7,
+    });
+    // Missing values fall back to the closest parent
+    expect(findPosition(source, ['plugins', 0, 'source'])).toEqual({ line: 3, column: 5 });
+  });
+
+  it('should report syntax errors with their position', () => {
+    expect(() => parseJsonSource('{\n  "name": "x",\n}')).toThrow(JsonSyntaxError);
+    try {
+      parseJsonSource('{\n  "name": "x",\n}');
+    } catch (error) {
+      expect((error as JsonSyntaxError).position).toEqual({ line: 3, column: 1 });
+    }
+  });
+
+  it('should keep a __proto__ key as data', () => {
+    const { value } = parseJsonSource('{"__proto__": {"polluted": true}}');
+    expect(Object.keys(value as object)).toEqual(['__proto__']);
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+});
+
+describe('lintManifest', () => {
+  it('should accept plugin.json files that follow the Claude Code spec', () => {
+    const manifest = json({
+      name: 'code-review',
+      version: '1.2.0',
+      author: { name: 'Acme', email: 'dev@acme.dev' },
+      repository: 'https://github.com/acme/code-review',
+      commands: ['./commands/review.md'],
+      hooks: './hooks/hooks.json',
+      mcpServers: { github: { command: 'npx' } },
+    });
+
+    expect(lintManifest(manifest, 'plugin.json', 'plugin')).toEqual([]);
+  });
+
+  it('should report schema errors at the offending value', () => {
+    const manifest = json({
+      name: 'Team Tools',
+      owner: { name: 'Acme' },
+      plugins: [{ name: 'formatter', source: '../formatter' }, { name: 'linter' }],
+    });
+
+    expect(
+      lintManifest(manifest, 'marketplace.json', 'marketplace').map((diagnostic) => [
+        diagnostic.line,
+        diagnostic.ruleId,
+        diagnostic.message,
+      ])
+    ).toEqual([
+      [2, 'schema', 'name: Use kebab-case: lowercase letters, digits and hyphens'],
+      [
+        9,
+        'schema',
+        'plugins[0].source: Paths must be relative, start with "./" and not contain "../"',
+      ],
+      [11, 'schema', 'Missing required field "plugins[1].source"'],
+    ]);
+  });
+
+  it('should warn about unknown fields and loose versions and reject duplicate plugins', () => {
+    const manifest = json({
+      name: 'team-tools',
+      owner: { name: 'Acme' },
+      plugins: [
+        { name: 'formatter', source: './formatter', version: 'v1' },
+        { name: 'formatter', source: { source: 'github', repo: 'acme/formatter' }, type: 'x' },
+      ],
+    });
+
+    expect(
+      lintManifest(manifest, 'marketplace.json', 'marketplace').map((diagnostic) => [
+        diagnostic.severity,
+        diagnostic.ruleId,
+        diagnostic.pointer,
+      ])
+    ).toEqual([
+      ['warning', 'version-format', '/plugins/0/version'],
+      ['error', 'duplicate-plugin', '/plugins/1/name'],
+      ['warning', 'unknown-field', '/plugins/1/type'],
+    ]);
+  });
+
+  it('should report invalid JSON as a single syntax error', () => {
+    expect(lintManifest('{ "name": ', 'plugin.json', 'plugin')).toEqual([
+      expect.objectContaining({ ruleId: 'json-syntax', line: 1, column: 11 }),
+    ]);
+  });
+});
+
+describe('detectManifestKind', () => {
+  it('should tell manifests apart by file name', () => {
+    expect(detectManifestKind('.claude-plugin/marketplace.json')).toBe('marketplace');
+    expect(detectManifestKind('plugins/x/.claude-plugin/plugin.json')).toBe('plugin');
+    expect(detectManifestKind('package.json')).toBeNull();
+  });
+});
+
+describe('toSarif', () => {
+  it('should point results at the file, line and column', () => {
+    const diagnostics = lintManifest('{ "name": "x" }', '.claude-plugin/plugin.json', 'plugin');
+    const sarif = toSarif(
+      [...diagnostics, ...lintManifest('[]', '.claude-plugin/plugin.json', 'plugin')],
+      { toolVersion: '1.0.0' }
+    ) as { version: string; runs: Array<{ results: Array<Record<string, unknown>> }> };
+
+    expect(sarif.version).toBe('2.1.0');
+    expect(sarif.runs[0].results).toEqual([
+      expect.objectContaining({
+        ruleId: 'schema',
+        level: 'error',
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri: '.claude-plugin/plugin.json' },
+              region: { startLine: 1, startColumn: 1 },
+            },
+          },
+        ],
+      }),
+    ]);
+  });
+});
+
+describe('published JSON Schemas', () => {
+  it.each(MANIFEST_KINDS)('should match the %s schema in public/schemas', (kind) => {
+    const file = path.join(process.cwd(), 'public', MANIFEST_SCHEMA_PATHS[kind]);
+    expect(JSON.parse(fs.readFileSync(file, 'utf-8'))).toEqual(toManifestJsonSchema(kind));
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Tests for fork and mirror detection and their exclusion from ecosystem totals
+ */
+
+import {
+  DuplicateCandidate,
+  excludeDuplicateMarketplaces,
+  findMarketplaceDuplicates,
+  normalizePluginManifest,
+  normalizeSkillBody,
+} from '../marketplace-duplicates';
+import { DataProcessor } from '../data-processor';
+import type { CollectionResult } from '../../services/ecosystem-data';
+import type { Marketplace, Plugin } from '../../types';
+
+const candidate = (
+  id: string,
+  fullName: string,
+  overrides: Partial<DuplicateCandidate> = {}
+): DuplicateCandidate => ({
+  id,
+  fullName,
+  stars: 0,
+  createdAt: '2026-01-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('normalization', () => {
+  it('should compare plugin manifests regardless of key order and publisher fields', () => {
+    expect(
+      normalizePluginManifest({ name: 'lint', source: './plugins/lint', author: 'Acme' })
+    ).toBe(normalizePluginManifest({ source: ' ./plugins/lint', name: 'lint', author: 'Copy' }));
+    expect(normalizePluginManifest({ name: 'lint' })).not.toBe(
+      normalizePluginManifest({ name: 'format' })
+    );
+  });
+
+  it('should ignore SKILL.md frontmatter and whitespace differences', () => {
+    expect(normalizeSkillBody('---\nname: a\n---\n# Skill\r\n\r\n\r\nDo things.  \n')).toBe(
+      normalizeSkillBody('# Skill\n\nDo things.')
+    );
+  });
+});
+
+describe('findMarketplaceDuplicates', () => {
+  it('should group forks under the earliest scanned repository in the chain', () => {
+    const duplicates = findMarketplaceDuplicates([
+      candidate('1', 'acme/plugins'),
+      candidate('2', 'bob/plugins', { parent: 'Acme/Plugins' }),
+      candidate('3', 'carol/plugins', { parent: 'bob/plugins' }),
+      candidate('4', 'dave/plugins', { parent: 'unscanned/plugins' }),
+    ]);
+
+    expect(Object.fromEntries(duplicates)).toEqual({
+      '2': { canonicalId: '1', kind: 'fork' },
+      '3': { canonicalId: '1', kind: 'fork' },
+    });
+  });
+
+  it('should group copies with the same content under the oldest one', () => {
+    const duplicates = findMarketplaceDuplicates([
+      candidate('1', 'copy/tools', { contentHash: 'abc', createdAt: '2026-05-01T00:00:00Z' }),
+      candidate('2', 'acme/tools', { contentHash: 'abc', createdAt: '2026-02-01T00:00:00Z' }),
+      candidate('3', 'fan/tools', { parent: 'copy/tools' }),
+      candidate('4', 'other/tools', { contentHash: 'def' }),
+      candidate('5', 'empty/repo'),
+      candidate('6', 'empty/repo-2'),
+    ]);
+
+    expect(Object.fromEntries(duplicates)).toEqual({
+      '1': { canonicalId: '2', kind: 'mirror' },
+      '3': { canonicalId: '2', kind: 'fork' },
+    });
+  });
+});
+
+describe('excluding duplicates from totals', () => {
+  it('should leave forks, mirrors and their plugins out of the overview metrics', () => {
+    const marketplace = (id: string, duplicate = false) =>
+      ({
+        id,
+        verified: false,
+        repository: { stars: 10, forks: 0 },
+        ...(duplicate && {
+          duplicateOf: { id: 'a', name: 'A', url: 'https://github.com/acme/a', kind: 'fork' },
+        }),
+      }) as unknown as Marketplace;
+    const plugin = (id: string, marketplaceId: string, author: string) =>
+      ({ id, marketplaceId, author, stars: 0 }) as unknown as Plugin;
+    const collection = <T>(data: T[]) => ({ data }) as CollectionResult<T>;
+
+    const marketplaces = [marketplace('a'), marketplace('b', true)];
+    const plugins = [plugin('p1', 'a', 'acme'), plugin('p2', 'b', 'copycat')];
+
+    expect(excludeDuplicateMarketplaces(marketplaces, plugins, (p) => p.marketplaceId)).toEqual({
+      marketplaces: [marketplaces[0]],
+      plugins: [plugins[0]],
+    });
+
+    const overview = new DataProcessor({ enableDebugLogging: false }).processOverviewMetrics(
+      collection(marketplaces),
+      collection(plugins)
+    );
+    expect(overview).toMatchObject({ totalMarketplaces: 1, totalPlugins: 1, totalDevelopers: 1 });
+  });
+});
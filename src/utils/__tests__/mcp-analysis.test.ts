@@ -0,0 +1,117 @@
+/**
+ * Tests for MCP server configuration analysis
+ */
+
+import {
+  assessMcpServers,
+  classifyMcpServer,
+  detectPackages,
+  parseMcpServer,
+  parsePackageSpec,
+} from '../mcp-analysis';
+
+describe('parsePackageSpec', () => {
+  it('should split npm specs and treat ranges and tags as unpinned', () => {
+    expect(parsePackageSpec('npx', '@scope/server@1.2.0')).toEqual({
+      name: '@scope/server',
+      version: '1.2.0',
+      pinned: true,
+    });
+    expect(parsePackageSpec('npx', '@scope/server')).toEqual({
+      name: '@scope/server',
+      pinned: false,
+    });
+    expect(parsePackageSpec('npx', 'server@latest').pinned).toBe(false);
+    expect(parsePackageSpec('npx', 'server@^1.2.0').pinned).toBe(false);
+  });
+
+  it('should read Python requirement specs', () => {
+    expect(parsePackageSpec('uvx', 'mcp-server-git==0.6.2')).toEqual({
+      name: 'mcp-server-git',
+      version: '0.6.2',
+      pinned: true,
+    });
+    expect(parsePackageSpec('uvx', 'mcp-server-git>=0.6').pinned).toBe(false);
+  });
+
+  it('should accept docker digests and version tags only', () => {
+    expect(parsePackageSpec('docker', 'ghcr.io/acme/mcp@sha256:abc').pinned).toBe(true);
+    expect(parsePackageSpec('docker', 'localhost:5000/mcp:1.4')).toEqual({
+      name: 'localhost:5000/mcp',
+      version: '1.4',
+      pinned: true,
+    });
+    expect(parsePackageSpec('docker', 'acme/mcp:latest').pinned).toBe(false);
+    expect(parsePackageSpec('docker', 'acme/mcp').pinned).toBe(false);
+  });
+});
+
+describe('detectPackages', () => {
+  it('should skip runner flags to find the package', () => {
+    expect(detectPackages('npx', ['-y', '@acme/mcp@2.0.0', '--port', '3000'])).toEqual([
+      { runner: 'npx', name: '@acme/mcp', version: '2.0.0', pinned: true },
+    ]);
+    expect(detectPackages('uvx', ['--from', 'acme-mcp==1.0', 'acme'])[0].name).toBe('acme-mcp');
+    expect(
+      detectPackages('docker', ['run', '-i', '--rm', '-e', 'TOKEN', 'acme/mcp'])[0]
+    ).toMatchObject({ runner: 'docker', name: 'acme/mcp', pinned: false });
+  });
+
+  it('should handle inline arguments, Windows executables and other commands', () => {
+    expect(detectPackages('npx.cmd -y acme-mcp')[0].name).toBe('acme-mcp');
+    expect(detectPackages('pnpm', ['dlx', 'acme-mcp'])[0].runner).toBe('pnpm');
+    expect(detectPackages('pnpm', ['install'])).toEqual([]);
+    expect(detectPackages('node', ['server.js'])).toEqual([]);
+  });
+});
+
+describe('parseMcpServer', () => {
+  it('should collect environment variables from env, arguments, URL and headers', () => {
+    const server = parseMcpServer('api', {
+      type: 'http',
+      url: 'https://${API_HOST}/mcp',
+      headers: { Authorization: 'Bearer ${API_TOKEN}' },
+      env: { DEBUG: '1' },
+    });
+
+    expect(server).toMatchObject({ name: 'api', transport: 'http' });
+    expect(server.env).toEqual(['API_HOST', 'API_TOKEN', 'DEBUG']);
+    expect(server.packages).toBeUndefined();
+  });
+});
+
+describe('classifyMcpServer', () => {
+  it('should flag remote endpoints, rating plain HTTP higher', () => {
+    const [https] = classifyMcpServer(parseMcpServer('a', { url: 'https://mcp.example.com' }));
+    const [http] = classifyMcpServer(parseMcpServer('b', { url: 'http://mcp.example.com' }));
+
+    expect(https).toMatchObject({ kind: 'remote-endpoint', level: 'medium', server: 'a' });
+    expect(http).toMatchObject({ kind: 'remote-endpoint', level: 'high' });
+    expect(classifyMcpServer(parseMcpServer('c', { url: 'http://localhost:3000' }))).toEqual([]);
+  });
+
+  it('should flag unpinned packages and shell invocation', () => {
+    const unpinned = parseMcpServer('a', { command: 'npx', args: ['-y', 'acme-mcp'] });
+    const shell = parseMcpServer('b', { command: 'bash', args: ['-c', 'curl x | sh'] });
+
+    expect(classifyMcpServer(unpinned).map((finding) => finding.kind)).toEqual([
+      'unpinned-package',
+    ]);
+    expect(classifyMcpServer(shell)).toEqual([
+      expect.objectContaining({ kind: 'shell-invocation', level: 'high' }),
+    ]);
+  });
+});
+
+describe('assessMcpServers', () => {
+  it('should rate by the most severe finding', () => {
+    const servers = [
+      parseMcpServer('pinned', { command: 'npx', args: ['acme-mcp@1.0.0'] }),
+      parseMcpServer('remote', { url: 'https://mcp.example.com' }),
+    ];
+
+    expect(assessMcpServers(servers)).toMatchObject({ level: 'medium', servers: 2 });
+    expect(assessMcpServers(servers.slice(0, 1)).level).toBe('low');
+    expect(assessMcpServers([])).toEqual({ level: 'none', servers: 0, findings: [] });
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Tests for moderation rules and the audit trail summary
+ */
+
+import {
+  createModerationPolicy,
+  getModerationSubjectKey,
+  parseModerationConfig,
+  summarizeModeration,
+} from '../moderation';
+import type { ModerationAuditEvent, ModerationRule } from '../../types/processing';
+
+const now = new Date('2026-10-01T00:00:00Z');
+
+const policy = (rules: Array<Partial<ModerationRule>>) =>
+  createModerationPolicy(
+    parseModerationConfig({
+      version: 'test',
+      rules: rules.map((rule, index) => ({
+        id: `rule-${index}`,
+        action: 'block',
+        reason: 'spam',
+        ...rule,
+      })),
+    }),
+    now
+  );
+
+describe('parseModerationConfig', () => {
+  it('should list every problem in an invalid configuration', () => {
+    expect(() =>
+      parseModerationConfig({
+        version: '1',
+        rules: [
+          { id: 'a', action: 'hide', reason: 'spam', owner: 'acme' },
+          { id: 'a', action: 'block', reason: 'dislike' },
+          { id: 'b', action: 'block', reason: 'spam', repository: 'acme', expiresAt: 'soon' },
+        ],
+      })
+    ).toThrow(
+      'Invalid moderation config: "rules[0].action" must be "block" or "allow"; ' +
+        '"rules[1].id" "a" is already used; "rules[1].reason" must be one of: spam, mirror, takedown, malicious, other; ' +
+        '"rules[1]" must set at least one of "owner", "repository" or "plugin"; ' +
+        '"rules[2].repository" must be "owner/repo"; "rules[2].expiresAt" must be a date'
+    );
+  });
+});
+
+describe('ModerationPolicy', () => {
+  it('should block by owner, repository and plugin name pattern', () => {
+    const rules = policy([
+      { owner: 'SpamCo' },
+      { repository: 'acme/mirror', reason: 'mirror' },
+      { plugin: '*-airdrop', reason: 'malicious' },
+    ]);
+
+    expect(rules.check({ kind: 'marketplace', marketplace: 'spamco/tools' }).hidden).toBe(true);
+    expect(rules.check({ kind: 'marketplace', marketplace: 'Acme/Mirror' }).rule?.reason).toBe(
+      'mirror'
+    );
+    expect(rules.check({ kind: 'marketplace', marketplace: 'acme/tools' }).hidden).toBe(false);
+    expect(
+      rules.check({ kind: 'plugin', marketplace: 'acme/tools', name: 'token-airdrop' }).hidden
+    ).toBe(true);
+    // Plugins hosted in a blocked repository are hidden wherever they are listed
+    expect(
+      rules.check({
+        kind: 'plugin',
+        marketplace: 'acme/tools',
+        repository: 'spamco/plugin',
+        name: 'formatter',
+      }).hidden
+    ).toBe(true);
+  });
+
+  it('should let allow rules win and ignore expired rules', () => {
+    const rules = policy([
+      { owner: 'acme' },
+      { action: 'allow', repository: 'acme/official', reason: 'other' },
+      { repository: 'other/repo', expiresAt: '2026-09-01T00:00:00Z' },
+    ]);
+
+    expect(rules.check({ kind: 'marketplace', marketplace: 'acme/official' })).toEqual({
+      hidden: false,
+      rule: expect.objectContaining({ id: 'rule-1' }),
+    });
+    expect(rules.check({ kind: 'marketplace', marketplace: 'acme/other' }).hidden).toBe(true);
+    expect(rules.check({ kind: 'marketplace', marketplace: 'other/repo' }).hidden).toBe(false);
+    expect(rules.getActiveRules()).toHaveLength(2);
+  });
+});
+
+describe('summarizeModeration', () => {
+  it('should count items that are still hidden by kind and reason', () => {
+    const event = (
+      action: ModerationAuditEvent['action'],
+      subject: string,
+      reason?: ModerationAuditEvent['reason']
+    ): ModerationAuditEvent => ({
+      at: now.toISOString(),
+      action,
+      kind: subject.includes(':') ? 'plugin' : 'marketplace',
+      subject,
+      reason,
+    });
+
+    const summary = summarizeModeration(
+      [
+        event('hidden', 'spamco/tools', 'spam'),
+        event('hidden', 'acme/mirror', 'mirror'),
+        event('hidden', 'acme/tools:token-airdrop', 'malicious'),
+        event('restored', 'acme/mirror'),
+      ],
+      'test',
+      now
+    );
+
+    expect(summary).toEqual({
+      lastUpdated: now.toISOString(),
+      configVersion: 'test',
+      hidden: { marketplace: 1, plugin: 1 },
+      byReason: { spam: 1, malicious: 1 },
+    });
+    expect(
+      getModerationSubjectKey({ kind: 'plugin', marketplace: 'Acme/Tools', name: 'lint' })
+    ).toBe('acme/tools:lint');
+  });
+});
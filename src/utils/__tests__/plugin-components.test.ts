@@ -0,0 +1,59 @@
+/**
+ * Tests for plugin manifest component extraction
+ */
+
+import {
+  extractManifestComponents,
+  getComponentName,
+  isComponentPath,
+} from '../plugin-components';
+
+describe('extractManifestComponents', () => {
+  it('should read path lists and inline configurations', () => {
+    expect(
+      extractManifestComponents({
+        name: 'reviewer',
+        commands: ['./commands/review.md', './commands/fix.md'],
+        agents: './agents/',
+        skills: ['./skills/pdf'],
+        hooks: { hooks: { PreToolUse: [], PostToolUse: [] } },
+        mcpServers: { github: { command: 'npx' }, db: { url: 'http://localhost' } },
+      })
+    ).toEqual({
+      commands: ['./commands/review.md', './commands/fix.md'],
+      agents: ['./agents/'],
+      skills: ['./skills/pdf'],
+      hooks: ['PreToolUse', 'PostToolUse'],
+      mcpServers: ['github', 'db'],
+    });
+  });
+
+  it('should keep configuration file paths and unwrapped maps', () => {
+    expect(
+      extractManifestComponents({
+        hooks: './hooks/hooks.json',
+        mcpServers: { mcpServers: { search: {} } },
+      })
+    ).toEqual({ hooks: ['./hooks/hooks.json'], mcpServers: ['search'] });
+    expect(extractManifestComponents({ hooks: { Stop: [] } }).hooks).toEqual(['Stop']);
+  });
+
+  it('should leave undeclared component types out', () => {
+    expect(extractManifestComponents({ name: 'bare', commands: [] })).toEqual({ commands: [] });
+    expect(extractManifestComponents(null)).toEqual({});
+    expect(extractManifestComponents({ agents: 42 })).toEqual({});
+  });
+});
+
+describe('component entry helpers', () => {
+  it('should derive names from file and directory paths', () => {
+    expect(getComponentName('./agents/security-reviewer.md')).toBe('security-reviewer');
+    expect(getComponentName('./skills/pdf/')).toBe('pdf');
+  });
+
+  it('should tell paths from names', () => {
+    expect(isComponentPath('./hooks/hooks.json')).toBe(true);
+    expect(isComponentPath('.mcp.json')).toBe(true);
+    expect(isComponentPath('PreToolUse')).toBe(false);
+  });
+});
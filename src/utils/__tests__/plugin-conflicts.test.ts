@@ -0,0 +1,119 @@
+/**
+ * Tests for cross-plugin conflict analysis
+ */
+
+import {
+  buildConflictReport,
+  ConflictCandidate,
+  findPluginConflicts,
+  groupConflictsByPlugin,
+  parseHookMatcher,
+} from '../plugin-conflicts';
+import type { PluginInventory } from '../../types/plugin';
+
+const candidate = (pluginId: string, inventory: Partial<PluginInventory>): ConflictCandidate => ({
+  pluginId,
+  name: pluginId.split('-').slice(1).join('-'),
+  marketplaceId: pluginId.split('-')[0],
+  inventory,
+});
+
+const command = (name: string) => ({ name, path: `commands/${name}.md` });
+const hook = (event: string, matcher?: string) => ({ event, matcher, commands: ['./check.sh'] });
+
+describe('parseHookMatcher', () => {
+  it('should split alternatives and treat a missing or * matcher as every tool', () => {
+    expect(parseHookMatcher('Edit | Write')).toEqual(['Edit', 'Write']);
+    expect(parseHookMatcher(undefined)).toEqual(['*']);
+    expect(parseHookMatcher('*')).toEqual(['*']);
+    expect(parseHookMatcher('Bash|.*')).toEqual(['*']);
+  });
+});
+
+describe('findPluginConflicts', () => {
+  it('should report command, agent and MCP server names claimed by several plugins', () => {
+    const conflicts = findPluginConflicts([
+      candidate('1-reviewer', {
+        commands: [command('review'), command('lint')],
+        agents: [{ name: 'Planner', path: 'agents/planner.md' }],
+        mcpServers: [{ name: 'github', transport: 'stdio' }],
+      }),
+      candidate('2-review-kit', {
+        commands: [command('review')],
+        agents: [{ name: 'planner', path: 'agents/planner.md' }],
+      }),
+      candidate('3-gh', { mcpServers: [{ name: 'github', transport: 'http' }] }),
+    ]);
+
+    expect(conflicts).toEqual([
+      {
+        kind: 'command',
+        name: '/review',
+        plugins: [
+          { pluginId: '1-reviewer', name: 'reviewer', marketplaceId: '1' },
+          { pluginId: '2-review-kit', name: 'review-kit', marketplaceId: '2' },
+        ],
+      },
+      {
+        kind: 'agent',
+        name: 'Planner',
+        plugins: [
+          { pluginId: '1-reviewer', name: 'reviewer', marketplaceId: '1' },
+          { pluginId: '2-review-kit', name: 'review-kit', marketplaceId: '2' },
+        ],
+      },
+      {
+        kind: 'mcpServer',
+        name: 'github',
+        plugins: [
+          { pluginId: '1-reviewer', name: 'reviewer', marketplaceId: '1' },
+          { pluginId: '3-gh', name: 'gh', marketplaceId: '3' },
+        ],
+      },
+    ]);
+  });
+
+  it('should report tool hooks that overlap through names, wildcards and patterns', () => {
+    const conflicts = findPluginConflicts([
+      candidate('1-guard', { hooks: [hook('PreToolUse', 'Bash')] }),
+      candidate('2-audit', { hooks: [hook('PreToolUse', 'Edit|Bash'), hook('Stop')] }),
+      candidate('3-format', { hooks: [hook('PostToolUse', 'Edit|Write')] }),
+      candidate('4-logger', { hooks: [hook('PostToolUse', 'Wri.*'), hook('Stop')] }),
+    ]);
+
+    expect(conflicts.map((conflict) => [conflict.name, conflict.plugins.length])).toEqual([
+      ['PostToolUse Write', 2],
+      ['PreToolUse Bash', 2],
+    ]);
+  });
+
+  it('should not report a plugin that repeats a name in its own components', () => {
+    expect(
+      findPluginConflicts([
+        candidate('1-solo', {
+          hooks: [hook('PreToolUse', 'Bash'), hook('PreToolUse')],
+          commands: [command('run'), command('run')],
+        }),
+      ])
+    ).toEqual([]);
+  });
+});
+
+describe('buildConflictReport', () => {
+  it('should count conflicts per kind and the plugins involved', () => {
+    const conflicts = findPluginConflicts([
+      candidate('1-a', { commands: [command('deploy')], hooks: [hook('PreToolUse')] }),
+      candidate('2-b', { commands: [command('deploy')], hooks: [hook('PreToolUse', 'Bash')] }),
+      candidate('3-c', { commands: [command('other')] }),
+    ]);
+    const report = buildConflictReport(conflicts, '2026-01-01T00:00:00.000Z');
+
+    expect(report.summary).toEqual({ command: 1, agent: 0, mcpServer: 0, hook: 1 });
+    expect(report.affectedPlugins).toBe(2);
+    expect(
+      groupConflictsByPlugin(conflicts)
+        .get('1-a')
+        ?.map((conflict) => conflict.name)
+    ).toEqual(['/deploy', 'PreToolUse Bash']);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Tests for plugin inventory parsing
+ */
+
+import {
+  inventoryFromComponents,
+  parseAgentFile,
+  parseCommandFile,
+  parseFrontmatter,
+  parseHooksConfig,
+  parseMcpConfig,
+  parseSkillFile,
+} from '../plugin-inventory';
+
+describe('parseFrontmatter', () => {
+  it('should parse scalars, quoted values, inline and block lists', () => {
+    const { frontmatter, body } = parseFrontmatter(
+      [
+        '---',
+        'name: reviewer',
+        'description: "Reviews code: carefully"',
+        'tools: [Read, "Grep"]',
+        'aliases:',
+        '  - rev',
+        '  - cr',
+        'notes: >',
+        '  first line',
+        '  second line',
+        '---',
+        '# Title',
+      ].join('\n')
+    );
+
+    expect(frontmatter).toEqual({
+      name: 'reviewer',
+      description: 'Reviews code: carefully',
+      tools: ['Read', 'Grep'],
+      aliases: ['rev', 'cr'],
+      notes: 'first line second line',
+    });
+    expect(body).toBe('# Title');
+  });
+
+  it('should return the whole document when there is no frontmatter', () => {
+    expect(parseFrontmatter('# Only a heading')).toEqual({
+      frontmatter: {},
+      body: '# Only a heading',
+    });
+  });
+});
+
+describe('markdown component files', () => {
+  it('should read command names, descriptions and argument hints', () => {
+    expect(
+      parseCommandFile(
+        'commands/review.md',
+        '---\ndescription: Review the diff\nargument-hint: [file]\n---\nBody'
+      )
+    ).toEqual({
+      name: 'review',
+      description: 'Review the diff',
+      argumentHint: '[file]',
+      path: 'commands/review.md',
+    });
+  });
+
+  it('should read agent tools from comma-separated values', () => {
+    const agent = parseAgentFile(
+      'agents/auditor.md',
+      '---\nname: security-auditor\ntools: Read, Grep, Bash\nmodel: sonnet\n---\nAudits code.'
+    );
+
+    expect(agent).toMatchObject({
+      name: 'security-auditor',
+      description: 'Audits code.',
+      tools: ['Read', 'Grep', 'Bash'],
+      model: 'sonnet',
+    });
+  });
+
+  it('should fall back to the directory name and first paragraph for skills', () => {
+    expect(parseSkillFile('skills/pdf', '# PDF\n\nFill and merge PDF forms.')).toEqual({
+      name: 'pdf',
+      description: 'Fill and merge PDF forms.',
+      path: 'skills/pdf',
+    });
+  });
+});
+
+describe('parseHooksConfig', () => {
+  it('should list one entry per matcher group with its commands', () => {
+    expect(
+      parseHooksConfig({
+        hooks: {
+          PreToolUse: [
+            { matcher: 'Bash', hooks: [{ type: 'command', command: './check.sh' }] },
+            { hooks: [{ type: 'command', command: 'lint' }] },
+          ],
+          Stop: 'not-an-array',
+        },
+      })
+    ).toEqual([
+      { event: 'PreToolUse', matcher: 'Bash', commands: ['./check.sh'] },
+      { event: 'PreToolUse', matcher: undefined, commands: ['lint'] },
+    ]);
+  });
+
+  it('should ignore non-object configurations', () => {
+    expect(parseHooksConfig('./hooks/hooks.json')).toEqual([]);
+  });
+});
+
+describe('parseMcpConfig', () => {
+  it('should infer transports from the server definition', () => {
+    const servers = parseMcpConfig({
+      mcpServers: {
+        local: { command: 'npx', args: ['-y', 'server'] },
+        remote: { url: 'https://mcp.example.com' },
+        events: { type: 'sse', url: 'https://mcp.example.com/sse' },
+        broken: 'nope',
+      },
+    });
+
+    expect(servers.map((server) => [server.name, server.transport])).toEqual([
+      ['local', 'stdio'],
+      ['remote', 'http'],
+      ['events', 'sse'],
+    ]);
+    expect(servers[0].args).toEqual(['-y', 'server']);
+  });
+});
+
+describe('inventoryFromComponents', () => {
+  it('should resolve file lists and inline names but leave paths unknown', () => {
+    expect(
+      inventoryFromComponents({
+        commands: ['./commands/review.md'],
+        agents: ['./agents/'],
+        hooks: ['./hooks/hooks.json'],
+        mcpServers: ['github'],
+      })
+    ).toEqual({
+      commands: [{ name: 'review', path: './commands/review.md' }],
+      mcpServers: [{ name: 'github', transport: 'unknown' }],
+    });
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Tests for team plugin stacks
+ */
+
+import { getSelectionState, parseStoredStack, reviewStack, StackPlugin } from '../plugin-stack';
+
+const stackPlugin = (
+  id: string,
+  marketplaceUrl: string,
+  marketplaceName?: string
+): StackPlugin => ({
+  id,
+  name: id.split('-').slice(1).join('-'),
+  marketplace: id.split('-')[0],
+  marketplaceUrl,
+  marketplaceName,
+});
+
+describe('getSelectionState', () => {
+  it('should measure the selection against the available items', () => {
+    const selected = [{ id: 'a' }, { id: 'b' }];
+
+    expect(getSelectionState(selected, [{ id: 'a' }, { id: 'b' }])).toMatchObject({
+      selectedIds: ['a', 'b'],
+      isAllSelected: true,
+      isPartiallySelected: false,
+    });
+    expect(getSelectionState(selected, [{ id: 'a' }, { id: 'c' }])).toMatchObject({
+      isAllSelected: false,
+      isPartiallySelected: true,
+    });
+    expect(getSelectionState([], [])).toMatchObject({
+      isAllSelected: false,
+      isPartiallySelected: false,
+    });
+  });
+});
+
+describe('parseStoredStack', () => {
+  it('should drop malformed and repeated entries', () => {
+    const raw = JSON.stringify([
+      { id: '1-lint', name: 'lint', marketplace: 'acme', marketplaceUrl: 'https://x.dev/a' },
+      { id: '1-lint', name: 'lint again' },
+      { name: 'no id' },
+      null,
+    ]);
+
+    expect(parseStoredStack(raw)).toEqual([
+      {
+        id: '1-lint',
+        name: 'lint',
+        marketplace: 'acme',
+        marketplaceUrl: 'https://x.dev/a',
+        marketplaceName: undefined,
+      },
+    ]);
+    expect(parseStoredStack('not json')).toEqual([]);
+    expect(parseStoredStack('{}')).toEqual([]);
+    expect(parseStoredStack(null)).toEqual([]);
+  });
+});
+
+describe('reviewStack', () => {
+  it('should export plugins from several marketplaces into one settings file', () => {
+    const review = reviewStack([
+      stackPlugin('acme-formatter', 'https://github.com/acme/plugins', 'acme'),
+      stackPlugin('tools-reviewer', 'https://gitlab.com/tools/reviewers.git', 'tools'),
+    ]);
+
+    expect(review.issues).toEqual([]);
+    expect(JSON.parse(review.settings)).toEqual({
+      extraKnownMarketplaces: {
+        acme: { source: { source: 'github', repo: 'acme/plugins' } },
+        tools: { source: { source: 'git', url: 'https://gitlab.com/tools/reviewers.git' } },
+      },
+      enabledPlugins: { 'formatter@acme': true, 'reviewer@tools': true },
+    });
+  });
+
+  it('should flag missing marketplace metadata and leave unknown repositories out', () => {
+    const review = reviewStack([
+      stackPlugin('acme-formatter', ''),
+      stackPlugin('team-linter', 'https://github.com/team/plugins'),
+    ]);
+
+    expect(review.issues.map((issue) => [issue.kind, issue.severity, issue.pluginIds])).toEqual([
+      ['missing-source', 'error', ['acme-formatter']],
+      ['guessed-marketplace-name', 'warning', ['team-linter']],
+    ]);
+    expect(review.targets.map((target) => `${target.plugin}@${target.marketplace}`)).toEqual([
+      'linter@plugins',
+    ]);
+  });
+
+  it('should flag one marketplace name used by two repositories', () => {
+    const review = reviewStack([
+      stackPlugin('a-one', 'https://github.com/a/plugins', 'shared'),
+      stackPlugin('a-two', 'https://github.com/a/plugins', 'shared'),
+      stackPlugin('b-three', 'https://github.com/b/plugins', 'shared'),
+    ]);
+
+    expect(review.issues).toEqual([
+      expect.objectContaining({
+        kind: 'marketplace-clash',
+        severity: 'error',
+        pluginIds: ['a-one', 'a-two', 'b-three'],
+      }),
+    ]);
+  });
+
+  it('should report only conflicts between plugins in the stack', () => {
+    const party = (pluginId: string) => ({ pluginId, name: pluginId, marketplaceId: 'm' });
+    const review = reviewStack(
+      [
+        stackPlugin('m-review', 'https://github.com/m/plugins', 'm'),
+        stackPlugin('m-audit', 'https://github.com/m/plugins', 'm'),
+      ],
+      [
+        { kind: 'command', name: '/review', plugins: [party('m-review'), party('m-audit')] },
+        { kind: 'agent', name: 'planner', plugins: [party('m-review'), party('x-other')] },
+      ]
+    );
+
+    expect(review.issues).toEqual([
+      {
+        kind: 'conflict',
+        severity: 'warning',
+        pluginIds: ['m-review', 'm-audit'],
+        message: 'Command /review is claimed by review and audit.',
+      },
+    ]);
+  });
+});
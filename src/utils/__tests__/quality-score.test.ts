@@ -0,0 +1,98 @@
+/**
+ * Tests for the quality scoring engine
+ */
+
+import {
+  createQualityScorer,
+  DEFAULT_QUALITY_CONFIG,
+  parseQualityScoringConfig,
+} from '../quality-score';
+import type { QualityScoringConfig } from '../../types/processing';
+
+const now = new Date('2026-06-01T00:00:00Z');
+
+const config = (weights: Partial<QualityScoringConfig['weights']> = {}): QualityScoringConfig => ({
+  version: 'test',
+  weights: { plugin: {}, marketplace: {}, repository: {}, ...weights },
+});
+
+describe('QualityScorer', () => {
+  it('should score repositories on the same scale as the former code health score', () => {
+    const breakdown = createQualityScorer().score(
+      'repository',
+      {
+        stars: 250,
+        forks: 0,
+        createdAt: '2025-01-01T00:00:00Z',
+        updatedAt: '2026-05-20T00:00:00Z',
+        description: 'Short description',
+        license: 'MIT',
+        topics: ['claude', 'plugins'],
+      },
+      now
+    );
+
+    // age 20 + stars 15 + forks 0 + activity 10 + description 5 + license 10 + topics 5
+    expect(breakdown.score).toBe(65);
+    expect(breakdown.configVersion).toBe(DEFAULT_QUALITY_CONFIG.version);
+    expect(breakdown.signals.find((signal) => signal.id === 'stars')).toMatchObject({
+      points: 15,
+      maxPoints: 20,
+      detail: '250 stars',
+    });
+  });
+
+  it('should normalize weights to 100 and skip unweighted signals', () => {
+    const scorer = createQualityScorer(config({ plugin: { license: 1, author: 3 } }));
+    const breakdown = scorer.score('plugin', { license: 'MIT' }, now);
+
+    expect(breakdown.signals.map((signal) => [signal.id, signal.maxPoints])).toEqual([
+      ['license', 25],
+      ['author', 75],
+    ]);
+    expect(breakdown.score).toBe(25);
+  });
+
+  it('should report unmeasured signals without awarding points', () => {
+    const breakdown = createQualityScorer(
+      config({ plugin: { components: 1, popularity: 1 } })
+    ).score('plugin', { componentCount: 3 }, now);
+
+    expect(breakdown.score).toBe(50);
+    expect(breakdown.signals[1]).toMatchObject({ id: 'popularity', value: null, points: 0 });
+    expect(breakdown.signals[1].detail).toMatch(/^Not measured/);
+  });
+
+  it('should let registered signals add to or replace the built-in ones', () => {
+    const scorer = createQualityScorer(config({ marketplace: { plugins: 1, curated: 1 } }))
+      .register('marketplace', {
+        id: 'curated',
+        label: 'Curated',
+        evaluate: () => ({ value: 1, detail: 'Reviewed by maintainers' }),
+      })
+      .register('marketplace', {
+        id: 'plugins',
+        label: 'Plugins listed',
+        evaluate: (input) => ({ value: input.pluginCount > 0 ? 1 : 0, detail: 'Any plugins' }),
+      });
+
+    const breakdown = scorer.score('marketplace', { stars: 0, forks: 0, pluginCount: 1 }, now);
+    expect(breakdown.score).toBe(100);
+    expect(breakdown.signals.map((signal) => signal.id)).toEqual(['plugins', 'curated']);
+  });
+});
+
+describe('parseQualityScoringConfig', () => {
+  it('should accept the bundled configuration', () => {
+    expect(DEFAULT_QUALITY_CONFIG.weights.plugin.description).toBeGreaterThan(0);
+  });
+
+  it('should list every problem in an invalid configuration', () => {
+    expect(() =>
+      parseQualityScoringConfig({ weights: { plugin: { stars: -1 }, marketplace: {} } })
+    ).toThrow(
+      'Invalid quality scoring config: "version" must be a non-empty string; ' +
+        '"weights.plugin.stars" must be a non-negative number; "weights.repository" must be an object'
+    );
+  });
+});
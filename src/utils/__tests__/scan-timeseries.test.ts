@@ -0,0 +1,110 @@
+/**
+ * Tests for the scan time series and the growth trends computed from it
+ */
+
+import {
+  createScanTimeSeries,
+  diffSnapshots,
+  parseScanSnapshots,
+  serializeScanSnapshot,
+} from '../scan-timeseries';
+import { DataProcessor } from '../data-processor';
+import type { ScanSnapshot } from '../../types/processing';
+
+const snapshot = (
+  scannedAt: string,
+  marketplaces: Record<string, number>,
+  plugins: Record<string, string>
+): ScanSnapshot => ({
+  scannedAt,
+  marketplaces: Object.fromEntries(
+    Object.entries(marketplaces).map(([id, stars]) => [id, { stars }])
+  ),
+  plugins: Object.fromEntries(
+    Object.entries(plugins).map(([id, version]) => [
+      id,
+      { marketplaceId: id.split('-')[0], version, author: `author-${id}` },
+    ])
+  ),
+});
+
+const jan1 = snapshot(
+  '2026-01-01T00:00:00.000Z',
+  { a: 10 },
+  { 'a-one': '1.0.0', 'a-two': '1.0.0' }
+);
+const jan3 = snapshot(
+  '2026-01-03T00:00:00.000Z',
+  { a: 12, b: 5 },
+  { 'a-one': '1.1.0', 'b-three': '0.1.0' }
+);
+
+describe('diffSnapshots', () => {
+  it('should report additions, removals, version changes and star growth', () => {
+    expect(diffSnapshots(jan1, jan3)).toEqual({
+      pluginsAdded: ['b-three'],
+      pluginsRemoved: ['a-two'],
+      marketplacesAdded: ['b'],
+      marketplacesRemoved: [],
+      versionChanges: [{ pluginId: 'a-one', previous: '1.0.0', current: '1.1.0' }],
+      starGrowth: 7,
+    });
+  });
+});
+
+describe('ScanTimeSeries', () => {
+  it('should round-trip through JSON Lines and skip unreadable lines', () => {
+    const text =
+      serializeScanSnapshot(jan3) + '{"scannedAt": "trunc\n\n' + serializeScanSnapshot(jan1);
+    expect(parseScanSnapshots(text)).toEqual([jan1, jan3]);
+  });
+
+  it('should return the latest snapshot at or before a date', () => {
+    const series = createScanTimeSeries([jan3, jan1]);
+
+    expect(series.at(new Date('2025-12-31T00:00:00Z'))).toBeNull();
+    expect(series.at(new Date('2026-01-02T00:00:00Z'))).toBe(jan1);
+    expect(series.at(new Date('2026-01-03T00:00:00Z'))).toBe(jan3);
+  });
+
+  it('should replace a snapshot taken at the same instant', () => {
+    const series = createScanTimeSeries([jan1]).append({ ...jan1, marketplaces: {} });
+    expect(series.size).toBe(1);
+    expect(series.latest()?.marketplaces).toEqual({});
+  });
+});
+
+describe('DataProcessor.processGrowthTrends', () => {
+  const processor = new DataProcessor({ enableDebugLogging: false });
+
+  it('should compute daily points from the first recorded scan onwards', () => {
+    const points = processor.processGrowthTrends(
+      createScanTimeSeries([jan1, jan3]),
+      '7d',
+      new Date('2026-01-03T12:00:00.000Z')
+    );
+
+    expect(points.map((point) => point.date)).toEqual([
+      '2026-01-01T00:00:00.000Z',
+      '2026-01-02T00:00:00.000Z',
+      '2026-01-03T00:00:00.000Z',
+      '2026-01-03T12:00:00.000Z',
+    ]);
+    expect(points[1]).toMatchObject({ plugins: 2, pluginsAdded: 0, scannedAt: jan1.scannedAt });
+    expect(points[2]).toMatchObject({
+      plugins: 2,
+      marketplaces: 2,
+      developers: 2,
+      stars: 17,
+      downloads: 17 * 50,
+      pluginsAdded: 1,
+      pluginsRemoved: 1,
+      marketplacesAdded: 1,
+      starGrowth: 7,
+    });
+  });
+
+  it('should return no points without any recorded scans', () => {
+    expect(processor.processGrowthTrends(createScanTimeSeries(), '30d')).toEqual([]);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Tests for the full-text search index and query engine
+ */
+
+import {
+  buildSearchIndex,
+  createSearchEngine,
+  editDistance,
+  SearchableDocument,
+  stem,
+  tokenize,
+} from '../search-index';
+
+const documents: SearchableDocument[] = [
+  {
+    id: '1-security-scanner',
+    name: 'security-scanner',
+    description: 'Scans dependencies for known vulnerabilities',
+    tags: ['audit'],
+    author: 'alice',
+    marketplace: 'secure-tools',
+  },
+  {
+    id: '1-code-review',
+    name: 'code-review',
+    description: 'Automated review with security checks',
+    tags: ['quality'],
+    author: 'bob',
+    marketplace: 'secure-tools',
+  },
+  {
+    id: '2-test-runner',
+    name: 'test-runner',
+    description: 'Runs your testing suites',
+    tags: ['security', 'testing'],
+    author: 'carol',
+    marketplace: 'dev-kit',
+  },
+];
+
+describe('tokenize and stem', () => {
+  it('should split on punctuation and camelCase and drop stop words', () => {
+    expect(tokenize('The codeReview tool, for TypeScript')).toEqual([
+      'code',
+      'review',
+      'tool',
+      'type',
+      'script',
+    ]);
+  });
+
+  it('should reduce common suffixes to a shared stem', () => {
+    expect(stem('testing')).toBe('test');
+    expect(stem('tested')).toBe('test');
+    expect(stem('tests')).toBe('test');
+    expect(stem('running')).toBe('run');
+    expect(stem('libraries')).toBe('library');
+    expect(stem('class')).toBe('class');
+  });
+});
+
+describe('editDistance', () => {
+  it('should count substitutions, insertions and transpositions', () => {
+    expect(editDistance('review', 'reveiw', 2)).toBe(1);
+    expect(editDistance('secure', 'secur', 2)).toBe(1);
+    expect(editDistance('scanner', 'planner', 2)).toBe(2);
+  });
+
+  it('should stop early once the bound is exceeded', () => {
+    expect(editDistance('abc', 'xyz', 1)).toBe(2);
+  });
+});
+
+describe('SearchEngine', () => {
+  const engine = createSearchEngine(buildSearchIndex(documents, '2026-01-01T00:00:00Z'));
+
+  it('should rank name matches above tag and description matches', () => {
+    const ids = engine.search('security').map((result) => result.id);
+    expect(ids).toEqual(['1-security-scanner', '2-test-runner', '1-code-review']);
+  });
+
+  it('should match stemmed forms of a word', () => {
+    expect(engine.search('tests').map((result) => result.id)).toEqual(['2-test-runner']);
+  });
+
+  it('should tolerate typos', () => {
+    expect(engine.search('reveiw')[0]?.id).toBe('1-code-review');
+    expect(engine.search('secruity scanner')[0]?.id).toBe('1-security-scanner');
+  });
+
+  it('should match prefixes while typing', () => {
+    expect(engine.search('scan')[0]?.id).toBe('1-security-scanner');
+  });
+
+  it('should require every query term to match', () => {
+    expect(engine.search('security carol').map((result) => result.id)).toEqual(['2-test-runner']);
+    expect(engine.search('security nonexistentterm')).toEqual([]);
+  });
+
+  it('should respect the result limit and ignore empty queries', () => {
+    expect(engine.search('security', { limit: 1 })).toHaveLength(1);
+    expect(engine.search('   ')).toEqual([]);
+  });
+
+  it('should reject an index built with another format version', () => {
+    const index = buildSearchIndex(documents);
+    expect(() => createSearchEngine({ ...index, version: 99 as unknown as 1 })).toThrow(
+      'Unsupported search index version'
+    );
+  });
+});
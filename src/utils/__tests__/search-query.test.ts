@@ -0,0 +1,165 @@
+/**
+ * Tests for the structured search query language
+ */
+
+import type { MarketplacePlugin } from '../../data/mock-data';
+import {
+  formatSearchQuery,
+  getQueryCompletions,
+  hasQuerySyntax,
+  matchesPluginFilters,
+  parseSearchQuery,
+  setQueryField,
+  toSearchFilters,
+} from '../search-query';
+
+const plugin = (overrides: Partial<MarketplacePlugin> = {}): MarketplacePlugin => ({
+  id: '1-scanner',
+  name: 'scanner',
+  description: 'Security scanner',
+  category: 'Security',
+  tags: ['audit'],
+  author: 'Anthropic',
+  authorUrl: '',
+  repositoryUrl: '',
+  stars: 150,
+  downloads: 0,
+  lastUpdated: '2026-01-01T00:00:00Z',
+  version: '1.0.0',
+  license: 'MIT',
+  marketplace: 'official',
+  marketplaceUrl: '',
+  featured: false,
+  verified: true,
+  capabilities: ['mcp', 'commands'],
+  ...overrides,
+});
+
+describe('parseSearchQuery', () => {
+  it('should map clauses onto plugin filters and keep free text', () => {
+    const parsed = parseSearchQuery(
+      'category:security author:anthropic stars:>100 has:mcp -tag:deprecated lint'
+    );
+
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.text).toBe('lint');
+    expect(parsed.filters).toEqual({
+      category: 'security',
+      author: 'anthropic',
+      minStars: 101,
+      has: ['mcp'],
+      exclude: { tags: ['deprecated'] },
+    });
+  });
+
+  it('should support quoted values, aliases and star ranges', () => {
+    const parsed = parseSearchQuery('owner:"Jane Doe" tags:a,b stars:10..50 is:verified');
+
+    expect(parsed.filters).toMatchObject({
+      author: 'Jane Doe',
+      tags: ['a', 'b'],
+      minStars: 10,
+      maxStars: 50,
+      validated: true,
+    });
+  });
+
+  it('should report unknown fields with a suggestion and position', () => {
+    const query = 'lint catgory:security';
+    const [error] = parseSearchQuery(query).errors;
+
+    expect(error.code).toBe('unknown-field');
+    expect(error.message).toContain('Did you mean "category:"?');
+    expect(query.slice(error.start, error.end)).toBe('catgory:security');
+  });
+
+  it('should report invalid values, missing values and unterminated quotes', () => {
+    expect(parseSearchQuery('stars:lots').errors[0].code).toBe('invalid-value');
+    expect(parseSearchQuery('has:plugins').errors[0].code).toBe('invalid-value');
+    expect(parseSearchQuery('-stars:>5').errors[0].code).toBe('invalid-negation');
+    expect(parseSearchQuery('author:').errors[0].code).toBe('missing-value');
+    expect(parseSearchQuery('author:"Jane').errors[0].code).toBe('unterminated-quote');
+  });
+
+  it('should map onto the generic SearchFilters shape', () => {
+    expect(toSearchFilters(parseSearchQuery('review license:MIT stars:>=5'))).toMatchObject({
+      query: 'review',
+      license: 'MIT',
+      minStars: 5,
+    });
+  });
+});
+
+describe('formatSearchQuery and hasQuerySyntax', () => {
+  it('should round-trip clauses and free text', () => {
+    const parsed = parseSearchQuery('  -tag:old   author:"Jane Doe" review ');
+    expect(formatSearchQuery(parsed)).toBe('-tag:old author:"Jane Doe" review');
+  });
+
+  it('should detect field syntax', () => {
+    expect(hasQuerySyntax('code review')).toBe(false);
+    expect(hasQuerySyntax('review -tag:old')).toBe(true);
+  });
+});
+
+describe('matchesPluginFilters', () => {
+  it('should apply inclusion, range and capability filters', () => {
+    const { filters } = parseSearchQuery('category:security stars:>100 has:mcp author:anthropic');
+    expect(matchesPluginFilters(plugin(), filters)).toBe(true);
+    expect(matchesPluginFilters(plugin({ stars: 50 }), filters)).toBe(false);
+    expect(matchesPluginFilters(plugin({ capabilities: [] }), filters)).toBe(false);
+  });
+
+  it('should apply exclusions', () => {
+    const { filters } = parseSearchQuery('-tag:audit');
+    expect(matchesPluginFilters(plugin(), filters)).toBe(false);
+    expect(matchesPluginFilters(plugin({ tags: ['lint'] }), filters)).toBe(true);
+  });
+
+  it('should filter by MCP risk and skip plugins with an unknown risk', () => {
+    const { filters, errors } = parseSearchQuery('risk:medium,high');
+    expect(errors).toEqual([]);
+    expect(matchesPluginFilters(plugin({ mcpRisk: 'high' }), filters)).toBe(true);
+    expect(matchesPluginFilters(plugin({ mcpRisk: 'low' }), filters)).toBe(false);
+    expect(matchesPluginFilters(plugin(), filters)).toBe(false);
+
+    const excluded = parseSearchQuery('-risk:high').filters;
+    expect(matchesPluginFilters(plugin({ mcpRisk: 'high' }), excluded)).toBe(false);
+    expect(matchesPluginFilters(plugin(), excluded)).toBe(true);
+
+    expect(parseSearchQuery('risk:severe').errors[0].code).toBe('invalid-value');
+  });
+});
+
+describe('setQueryField', () => {
+  it('should replace clauses for the field and keep the rest of the query', () => {
+    expect(setQueryField('lint risk:high stars:>10 risk:low', 'risk', 'none')).toBe(
+      'lint stars:>10 risk:none'
+    );
+    expect(setQueryField('lint risk:high', 'risk', '')).toBe('lint');
+    expect(setQueryField('', 'risk', 'low')).toBe('risk:low');
+  });
+});
+
+describe('getQueryCompletions', () => {
+  it('should complete field names', () => {
+    expect(getQueryCompletions('lint ca').map((c) => c.value)).toEqual(['lint category:']);
+    expect(getQueryCompletions('-ta')[0]).toMatchObject({ kind: 'field', value: '-tag:' });
+  });
+
+  it('should complete values from the source, prefix matches first', () => {
+    const completions = getQueryCompletions('author:an', {
+      author: ['Jane Doe', 'Anthropic', 'Ann Lee'],
+    });
+    expect(completions.map((c) => c.value)).toEqual([
+      'author:Anthropic ',
+      'author:"Ann Lee" ',
+      'author:"Jane Doe" ',
+    ]);
+  });
+
+  it('should complete built-in values and ignore plain words', () => {
+    expect(getQueryCompletions('has:m').map((c) => c.label)).toEqual(['has:mcp', 'has:commands']);
+    expect(getQueryCompletions('review ')).toEqual([]);
+  });
+});
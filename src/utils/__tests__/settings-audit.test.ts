@@ -0,0 +1,138 @@
+/**
+ * Tests for auditing a team's settings.json against the registry
+ */
+
+import { auditTeamSettings, parseTeamSettings } from '../settings-audit';
+import { mockPlugins, MarketplacePlugin } from '../../data/mock-data';
+import type { ValidatedPluginRecord } from '../../types/plugin';
+
+const listed = (
+  id: string,
+  name: string,
+  marketplaceUrl: string,
+  marketplaceName?: string
+): MarketplacePlugin => ({
+  ...mockPlugins[0],
+  id,
+  name,
+  marketplaceUrl,
+  repositoryUrl: marketplaceUrl,
+  marketplaceName,
+});
+
+const validation = (id: string, name: string, repository: string): ValidatedPluginRecord => ({
+  id,
+  name,
+  description: '',
+  version: '1.0.0',
+  author: 'acme',
+  repository,
+  isValid: false,
+  errors: ['Missing description'],
+  warnings: [],
+});
+
+describe('parseTeamSettings', () => {
+  it('should read marketplaces and plugin keys', () => {
+    expect(
+      parseTeamSettings(
+        JSON.stringify({
+          permissions: { allow: [] },
+          extraKnownMarketplaces: {
+            acme: { source: { source: 'github', repo: 'acme/plugins' } },
+            local: { source: { source: 'directory', path: './plugins' } },
+          },
+          enabledPlugins: { 'formatter@acme': true, 'old@acme': false },
+        })
+      )
+    ).toEqual({
+      marketplaces: [
+        { name: 'acme', source: { source: 'github', repo: 'acme/plugins' } },
+        { name: 'local', source: null },
+      ],
+      plugins: [
+        { key: 'formatter@acme', plugin: 'formatter', marketplace: 'acme', enabled: true },
+        { key: 'old@acme', plugin: 'old', marketplace: 'acme', enabled: false },
+      ],
+    });
+  });
+
+  it('should reject text that is not a settings file', () => {
+    expect(() => parseTeamSettings('{ nope')).toThrow(/Not valid JSON/);
+    expect(() => parseTeamSettings('[]')).toThrow('Expected a settings object');
+    expect(() => parseTeamSettings('{"model": "opus"}')).toThrow(/No extraKnownMarketplaces/);
+  });
+});
+
+describe('auditTeamSettings', () => {
+  const registry = [
+    listed('1-formatter', 'formatter', 'https://github.com/acme/plugins', 'acme-tools'),
+    listed('1-reviewer', 'reviewer', 'https://github.com/acme/plugins', 'acme-tools'),
+    listed('2-docs', 'docs', 'https://github.com/docs/market'),
+  ];
+
+  it('should resolve declared marketplaces by repository and others by name', () => {
+    const audit = auditTeamSettings(
+      parseTeamSettings(
+        JSON.stringify({
+          extraKnownMarketplaces: {
+            team: { source: { source: 'git', url: 'https://github.com/acme/plugins.git' } },
+          },
+          enabledPlugins: {
+            'formatter@team': true,
+            'linter@team': true,
+            'docs@market': true,
+            'x@elsewhere': true,
+          },
+        })
+      ),
+      registry
+    );
+
+    expect(audit.plugins.map((entry) => [entry.key, entry.status, entry.match?.id])).toEqual([
+      ['formatter@team', 'found', '1-formatter'],
+      ['linter@team', 'missing', undefined],
+      ['docs@market', 'found', '2-docs'],
+      ['x@elsewhere', 'unknown-marketplace', undefined],
+    ]);
+    expect(audit.marketplaces).toEqual([
+      {
+        name: 'team',
+        source: { source: 'github', repo: 'acme/plugins' },
+        declared: true,
+        registryName: registry[0].marketplace,
+        listedPlugins: 2,
+      },
+      {
+        name: 'market',
+        source: { source: 'github', repo: 'docs/market' },
+        declared: false,
+        registryName: registry[2].marketplace,
+        listedPlugins: 1,
+      },
+      {
+        name: 'elsewhere',
+        source: null,
+        declared: false,
+        registryName: undefined,
+        listedPlugins: 0,
+      },
+    ]);
+  });
+
+  it('should attach validation output by ID or by name within the repository', () => {
+    const audit = auditTeamSettings(
+      parseTeamSettings(
+        JSON.stringify({ enabledPlugins: { 'formatter@acme-tools': true, 'docs@market': true } })
+      ),
+      registry,
+      [
+        validation('1-formatter', 'formatter', 'https://github.com/acme/plugins'),
+        validation('999-docs', 'docs', 'https://github.com/docs/market'),
+        validation('999-reviewer', 'reviewer', 'https://github.com/someone/else'),
+      ]
+    );
+
+    expect(audit.plugins.map((entry) => entry.validation?.id)).toEqual(['1-formatter', '999-docs']);
+  });
+});
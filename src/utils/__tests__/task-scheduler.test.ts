@@ -0,0 +1,132 @@
+/**
+ * Tests for the task scheduler: concurrency, priorities and rate limit buckets
+ */
+
+import {
+  createGitHubTaskScheduler,
+  getGitHubBucket,
+  GITHUB_BUCKETS,
+  RateLimitWaitError,
+  TaskScheduler,
+} from '../task-scheduler';
+
+// A clock that only moves when the scheduler sleeps
+const createClock = (start = Date.parse('2026-10-01T00:00:00Z')) => {
+  const clock = { now: start, sleeps: [] as number[] };
+  return {
+    clock,
+    now: () => clock.now,
+    sleep: async (ms: number) => {
+      clock.sleeps.push(ms);
+      clock.now += ms;
+    },
+  };
+};
+
+const deferred = () => {
+  let resolve!: () => void;
+  const promise = new Promise<void>((done) => (resolve = done));
+  return { promise, resolve };
+};
+
+describe('TaskScheduler', () => {
+  it('should never run more tasks at once than its concurrency', async () => {
+    const scheduler = new TaskScheduler({ concurrency: 2 });
+    let running = 0;
+    let highest = 0;
+
+    const results = await Promise.all(
+      [1, 2, 3, 4, 5].map((value) =>
+        scheduler.schedule({
+          run: async () => {
+            highest = Math.max(highest, ++running);
+            await Promise.resolve();
+            running--;
+            return value * 10;
+          },
+        })
+      )
+    );
+
+    expect(results).toEqual([10, 20, 30, 40, 50]);
+    expect(highest).toBe(2);
+    expect(scheduler.getStats()).toEqual({ queued: 0, running: 0, completed: 5, failed: 0 });
+  });
+
+  it('should fall back to the default concurrency when given an invalid one', async () => {
+    const scheduler = new TaskScheduler({ concurrency: NaN });
+
+    await expect(scheduler.schedule({ run: async () => 'ran' })).resolves.toBe('ran');
+  });
+
+  it('should start higher priority tasks first', async () => {
+    const scheduler = new TaskScheduler({ concurrency: 1 });
+    const blocker = deferred();
+    const order: string[] = [];
+    const task = (name: string, priority?: number) =>
+      scheduler.schedule({ priority, run: async () => void order.push(name) });
+
+    const first = scheduler.schedule({ run: () => blocker.promise });
+    const queued = [task('search result'), task('seed', 2), task('search', 1), task('seed 2', 2)];
+    blocker.resolve();
+    await Promise.all([first, ...queued]);
+
+    expect(order).toEqual(['seed', 'seed 2', 'search', 'search result']);
+    await expect(scheduler.onIdle()).resolves.toBeUndefined();
+  });
+
+  it('should hold tasks back until an exhausted rate limit resets', async () => {
+    const { clock, now, sleep } = createClock();
+    const scheduler = createGitHubTaskScheduler({ now, sleep });
+    scheduler.updateRateLimit(GITHUB_BUCKETS.core, {
+      limit: 5000,
+      remaining: 0,
+      reset: clock.now / 1000 + 60,
+      used: 5000,
+    });
+
+    const ranAt = await scheduler.schedule({ bucket: GITHUB_BUCKETS.core, run: async () => now() });
+
+    expect(clock.sleeps).toEqual([60_000]);
+    expect(ranAt).toBe(Date.parse('2026-10-01T00:01:00Z'));
+  });
+
+  it('should pace requests to a bucket and leave other buckets alone', async () => {
+    const { clock, now, sleep } = createClock();
+    const scheduler = createGitHubTaskScheduler({ concurrency: 10, now, sleep });
+
+    await Promise.all(
+      [1, 2, 3].map(() =>
+        scheduler.schedule({ bucket: GITHUB_BUCKETS.codeSearch, run: async () => undefined })
+      )
+    );
+    await scheduler.schedule({ run: async () => undefined });
+
+    // Two code searches may start back to back; the third waits for a token (10 per minute)
+    expect(clock.sleeps).toEqual([6000]);
+  });
+
+  it('should reject tasks that would wait past the longest allowed wait', async () => {
+    const { clock, now, sleep } = createClock();
+    const scheduler = createGitHubTaskScheduler({ now, sleep, maxWaitMs: 60_000 });
+    scheduler.updateRateLimit(GITHUB_BUCKETS.search, {
+      limit: 30,
+      remaining: 0,
+      reset: clock.now / 1000 + 3600,
+      used: 30,
+    });
+    const run = jest.fn();
+
+    const search = scheduler.schedule({ bucket: GITHUB_BUCKETS.search, run });
+    const other = scheduler.schedule({ bucket: GITHUB_BUCKETS.core, run: async () => 'done' });
+
+    await expect(search).rejects.toBeInstanceOf(RateLimitWaitError);
+    await expect(search).rejects.toMatchObject({
+      bucket: GITHUB_BUCKETS.search,
+      resumeAt: new Date('2026-10-01T01:00:00Z'),
+    });
+    await expect(other).resolves.toBe('done');
+    expect(run).not.toHaveBeenCalled();
+    expect(getGitHubBucket('code_search')).toBe(GITHUB_BUCKETS.codeSearch);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Tests for listing URL state serialization
+ */
+
+import {
+  buildListingQueryString,
+  getDefaultListingState,
+  ListingStateOptions,
+  parseListingQuery,
+} from '../url-state';
+
+type Sort = 'stars' | 'name' | 'updated';
+
+const options: ListingStateOptions<Sort> = {
+  sorts: ['stars', 'name', 'updated'],
+  defaultSort: 'stars',
+  categories: ['All', 'Testing', 'Security'],
+};
+
+describe('parseListingQuery', () => {
+  it('should read every listing parameter', () => {
+    expect(
+      parseListingQuery(
+        { q: 'review', category: 'Testing', sort: 'updated', view: 'list', page: '3' },
+        options
+      )
+    ).toEqual({ q: 'review', category: 'Testing', sort: 'updated', view: 'list', page: 3 });
+  });
+
+  it('should fall back to defaults for invalid values', () => {
+    expect(
+      parseListingQuery(
+        { category: 'Unknown', sort: 'popularity', view: 'table', page: '-2' },
+        options
+      )
+    ).toEqual(getDefaultListingState(options));
+  });
+
+  it('should match categories case-insensitively and take the first repeated value', () => {
+    const state = parseListingQuery({ category: 'security', q: ['a', 'b'] }, options);
+    expect(state.category).toBe('Security');
+    expect(state.q).toBe('a');
+  });
+});
+
+describe('buildListingQueryString', () => {
+  it('should emit parameters in canonical order and omit defaults', () => {
+    const state = {
+      ...getDefaultListingState(options),
+      page: 3,
+      sort: 'updated' as const,
+      category: 'Testing',
+      q: 'review',
+    };
+    expect(buildListingQueryString(state, options)).toBe(
+      '?q=review&category=Testing&sort=updated&page=3'
+    );
+  });
+
+  it('should return an empty string for the default view', () => {
+    expect(buildListingQueryString(getDefaultListingState(options), options)).toBe('');
+  });
+
+  it('should keep unrelated parameters after the listing parameters', () => {
+    const state = { ...getDefaultListingState(options), q: 'stars:>100 lint' };
+    expect(
+      buildListingQueryString(state, options, { utm_source: 'chat', q: 'old', ref: 'x' })
+    ).toBe('?q=stars%3A%3E100+lint&ref=x&utm_source=chat');
+  });
+
+  it('should round-trip through parseListingQuery', () => {
+    const state = {
+      q: 'code review',
+      category: 'Security',
+      sort: 'name' as const,
+      view: 'list' as const,
+      page: 2,
+    };
+    const params = new URLSearchParams(buildListingQueryString(state, options));
+    expect(parseListingQuery(Object.fromEntries(params), options)).toEqual(state);
+  });
+});
@@ -6,6 +6,7 @@
 import { GitHubClient, getDefaultGitHubClient } from './github-client';
 import { GitHubContent, GitHubApiResponse, ContentFetchOptions } from '@/types/github';
 import { validateManifest, SchemaValidationResult, ValidationContext } from './schema-validation';
+import { createGitHubTaskScheduler, GITHUB_BUCKETS, TaskScheduler } from './task-scheduler';
 
 /**
  * Fetched content with metadata
@@ -52,6 +53,10 @@ export interface ContentFetcherConfig {
   retryDelay?: number; // milliseconds
   enableSchemaValidation?: boolean;
   validationContext?: ValidationContext;
+  /** Manifests fetched at once by fetchMultipleManifests */
+  concurrency?: number;
+  /** Share one scheduler (and its rate limit buckets) with other fetchers */
+  scheduler?: TaskScheduler;
 }
 
 /**
@@ -61,9 +66,12 @@ export class ContentFetcher {
   private githubClient: GitHubClient;
   private config: ContentFetcherConfig;
   private cache: Map<string, { content: FetchedContent; timestamp: number }> = new Map();
+  private scheduler: TaskScheduler;
 
   constructor(githubClient: GitHubClient, config: ContentFetcherConfig = {}) {
     this.githubClient = githubClient;
+    this.scheduler =
+      config.scheduler ?? createGitHubTaskScheduler({ concurrency: config.concurrency ?? 4 });
     this.config = {
       maxFileSize: 1024 * 1024, // 1MB
       allowedEncodings: ['utf-8', 'base64', 'ascii'],
@@ -499,10 +507,12 @@ export class ContentFetcher {
   }
 
   /**
-   * Fetch multiple manifests in parallel
+   * Fetch multiple manifests, a few at a time through the scheduler. Repositories
+   * with a higher priority are fetched first; those still queued when the rate
+   * limit runs out for longer than the scheduler waits come back with an error.
    */
   async fetchMultipleManifests(
-    repositories: Array<{ owner: string; repo: string }>,
+    repositories: Array<{ owner: string; repo: string; priority?: number }>,
     options: ContentFetchOptions = {}
   ): Promise<
     GitHubApiResponse<
@@ -512,18 +522,33 @@ export class ContentFetcher {
     try {
       console.log(`Fetching manifests from ${repositories.length} repositories...`);
 
-      const promises = repositories.map(async ({ owner, repo }) => {
-        try {
-          const response = await this.fetchMarketplaceManifest(owner, repo, options);
-          if (response.success && response.data) {
-            return { owner, repo, content: response.data };
-          } else {
-            return { owner, repo, error: response.error?.message || 'Failed to fetch manifest' };
-          }
-        } catch (error: any) {
-          return { owner, repo, error: error.message || 'Unknown error' };
-        }
-      });
+      const promises = repositories.map(({ owner, repo, priority }) =>
+        this.scheduler
+          .schedule({
+            bucket: GITHUB_BUCKETS.core,
+            priority,
+            run: async () => {
+              try {
+                const response = await this.fetchMarketplaceManifest(owner, repo, options);
+                if (response.rateLimit) {
+                  this.scheduler.updateRateLimit(GITHUB_BUCKETS.core, response.rateLimit.rate);
+                }
+                if (response.success && response.data) {
+                  return { owner, repo, content: response.data };
+                } else {
+                  return {
+                    owner,
+                    repo,
+                    error: response.error?.message || 'Failed to fetch manifest',
+                  };
+                }
+              } catch (error: any) {
+                return { owner, repo, error: error.message || 'Unknown error' };
+              }
+            },
+          })
+          .catch((error: Error) => ({ owner, repo, error: error.message }))
+      );
 
       const results = await Promise.allSettled(promises);
       const manifestResults: Array<{
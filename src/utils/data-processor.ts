@@ -17,8 +17,15 @@
  * @version 1.0.0
  */
 
-import { Marketplace, Plugin } from '../types';
+import { Marketplace, Plugin, ScanSnapshot } from '../types';
 import { CollectionResult } from '../services/ecosystem-data';
+import {
+  diffSnapshots,
+  getSnapshotDevelopers,
+  getSnapshotStars,
+  ScanTimeSeries,
+} from './scan-timeseries';
+import { excludeDuplicateMarketplaces } from './marketplace-duplicates';
 
 /**
  * Interface for ecosystem overview metrics
@@ -62,6 +69,16 @@ export interface GrowthDataPoint {
   developers: number;
   /** Estimated downloads at this point in time */
   downloads: number;
+  /** When the scan behind this point ran (points computed from scan snapshots only) */
+  scannedAt?: string;
+  /** Total marketplace stars at this point in time */
+  stars?: number;
+  /** Changes since the previous point */
+  pluginsAdded?: number;
+  pluginsRemoved?: number;
+  marketplacesAdded?: number;
+  marketplacesRemoved?: number;
+  starGrowth?: number;
 }
 
 /**
@@ -148,6 +165,26 @@ export interface QualityMetrics {
  */
 export type TimeRange = '7d' | '30d' | '90d' | '6m' | '1y' | 'all';
 
+export const TIME_RANGES: TimeRange[] = ['7d', '30d', '90d', '6m', '1y', 'all'];
+
+export type GrowthAggregation = 'daily' | 'weekly' | 'monthly';
+
+/**
+ * Spacing of growth data points for a time range
+ */
+export function getGrowthAggregation(range: TimeRange): GrowthAggregation {
+  switch (range) {
+    case '7d':
+    case '30d':
+      return 'daily';
+    case '90d':
+    case '6m':
+      return 'weekly';
+    default:
+      return 'monthly';
+  }
+}
+
 /**
  * Configuration for data processing
  */
@@ -191,7 +228,8 @@ export class DataProcessor {
   }
 
   /**
-   * Process raw ecosystem data into comprehensive overview metrics
+   * Process raw ecosystem data into comprehensive overview metrics. Forks and mirrors
+   * of other marketplaces, and the plugins they list, are not counted.
    *
    * @param marketplaces - Collection result with marketplace data
    * @param plugins - Collection result with plugin data
@@ -205,8 +243,11 @@ export class DataProcessor {
       console.log('📊 Processing overview metrics...');
     }
 
-    const marketplaceData = marketplaces.data;
-    const pluginData = plugins.data;
+    const { marketplaces: marketplaceData, plugins: pluginData } = excludeDuplicateMarketplaces(
+      marketplaces.data,
+      plugins.data,
+      (plugin) => plugin.marketplaceId
+    );
 
     // Calculate basic counts
     const totalPlugins = pluginData.length;
@@ -250,39 +291,60 @@ export class DataProcessor {
   }
 
   /**
-   * Generate time-series growth data
+   * Generate time-series growth data from recorded scan snapshots
    *
-   * @param plugins - Collection result with plugin data
+   * Each point reflects the latest scan at or before its date, and additions,
+   * removals and star growth are measured against the previous point. The range
+   * starts no earlier than the first recorded scan.
+   *
+   * @param series - Scan snapshots recorded by the data generator
    * @param timeRange - Time range for growth data
+   * @param now - End of the time range
    * @returns Array of growth data points
    */
   processGrowthTrends(
-    plugins: CollectionResult<Plugin>,
-    timeRange: TimeRange = '1y'
+    series: ScanTimeSeries,
+    timeRange: TimeRange = '1y',
+    now: Date = new Date()
   ): GrowthDataPoint[] {
     if (this.config.enableDebugLogging) {
       console.log('📈 Processing growth trends for time range:', timeRange);
     }
 
-    const pluginData = plugins.data;
-    const now = new Date();
-    const startDate = this.getStartDateFromRange(now, timeRange);
+    const firstScan = series.first();
+    if (!firstScan) return [];
+
+    const rangeStart = this.getStartDateFromRange(now, timeRange);
+    const firstScanDate = new Date(firstScan.scannedAt);
+    const startDate = firstScanDate > rangeStart ? firstScanDate : rangeStart;
 
     // Generate data points at regular intervals
-    const intervals = this.getGrowthIntervals(startDate, now);
+    const intervals = this.getGrowthIntervals(startDate, now, getGrowthAggregation(timeRange));
     const growthData: GrowthDataPoint[] = [];
+    let previous: ScanSnapshot | null = null;
 
     for (const date of intervals) {
-      const pluginsToDate = this.getPluginsCreatedBefore(pluginData, date);
-      const developersToDate = this.getUniqueDevelopers(pluginsToDate);
+      const snapshot = series.at(date);
+      if (!snapshot) continue;
+
+      const diff = previous ? diffSnapshots(previous, snapshot) : null;
+      const stars = getSnapshotStars(snapshot);
 
       growthData.push({
         date: date.toISOString(),
-        plugins: pluginsToDate.length,
-        marketplaces: this.getMarketplacesCountAtDate(date), // Simplified for now
-        developers: developersToDate.length,
-        downloads: this.estimateTotalDownloads(pluginsToDate),
+        scannedAt: snapshot.scannedAt,
+        plugins: Object.keys(snapshot.plugins).length,
+        marketplaces: Object.keys(snapshot.marketplaces).length,
+        developers: getSnapshotDevelopers(snapshot),
+        downloads: stars * this.config.downloadEstimationFactor,
+        stars,
+        pluginsAdded: diff?.pluginsAdded.length ?? 0,
+        pluginsRemoved: diff?.pluginsRemoved.length ?? 0,
+        marketplacesAdded: diff?.marketplacesAdded.length ?? 0,
+        marketplacesRemoved: diff?.marketplacesRemoved.length ?? 0,
+        starGrowth: diff?.starGrowth ?? 0,
       });
+      previous = snapshot;
     }
 
     if (this.config.enableDebugLogging) {
@@ -621,14 +683,21 @@ export class DataProcessor {
   /**
    * Generate growth interval dates
    */
-  private getGrowthIntervals(startDate: Date, endDate: Date): Date[] {
+  private getGrowthIntervals(
+    startDate: Date,
+    endDate: Date,
+    aggregation: GrowthAggregation
+  ): Date[] {
     const intervals: Date[] = [];
     const currentDate = new Date(startDate);
 
-    // Generate weekly intervals for better granularity
     while (currentDate <= endDate) {
       intervals.push(new Date(currentDate));
-      currentDate.setDate(currentDate.getDate() + 7);
+      if (aggregation === 'monthly') {
+        currentDate.setMonth(currentDate.getMonth() + 1);
+      } else {
+        currentDate.setDate(currentDate.getDate() + (aggregation === 'weekly' ? 7 : 1));
+      }
     }
 
     // Ensure we include the end date
@@ -639,22 +708,6 @@ export class DataProcessor {
     return intervals;
   }
 
-  /**
-   * Get plugins created before a specific date
-   */
-  private getPluginsCreatedBefore(plugins: Plugin[], date: Date): Plugin[] {
-    return plugins.filter((p) => new Date(p.lastScanned) <= date);
-  }
-
-  /**
-   * Get marketplace count at a specific date (simplified)
-   */
-  private getMarketplacesCountAtDate(_date: Date): number {
-    // Simplified: assume all marketplaces existed from start
-    // In a real implementation, this would use marketplace creation dates
-    return 5;
-  }
-
   /**
    * Check if a date is recent
    */
@@ -720,10 +773,10 @@ export function processOverview(
 }
 
 export function processGrowth(
-  plugins: CollectionResult<Plugin>,
+  series: ScanTimeSeries,
   timeRange: TimeRange = '1y'
 ): GrowthDataPoint[] {
-  return dataProcessor.processGrowthTrends(plugins, timeRange);
+  return dataProcessor.processGrowthTrends(series, timeRange);
 }
 
 export function processCategories(plugins: CollectionResult<Plugin>): CategoryAnalytics[] {
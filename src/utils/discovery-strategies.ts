@@ -0,0 +1,217 @@
+/**
+ * Discovery Strategies
+ *
+ * Seed repositories and GitHub searches the marketplace scanner uses to find
+ * candidates, kept in a versioned configuration (config/discovery-strategies.json)
+ * so sources can be added or switched off without code changes. Each scan records
+ * what every source yielded, and the summary below points out the ones that have
+ * stopped finding anything new.
+ */
+
+import defaultConfig from '../../config/discovery-strategies.json';
+import type {
+  DiscoveryConfig,
+  DiscoveryStrategy,
+  DiscoveryStrategyType,
+  DiscoveryYieldReport,
+  StrategyYield,
+} from '../types/processing';
+
+const STRATEGY_TYPES: DiscoveryStrategyType[] = ['code', 'repo'];
+
+const REPOSITORY_NAME = /^[\w.-]+\/[\w.-]+$/;
+
+/** Caps for strategies that do not set their own */
+const FALLBACK_LIMITS = { maxResults: 100, maxPages: 3 };
+
+/** Source name that seed repositories are recorded under */
+export const SEED_STRATEGY = 'known-seed';
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+/**
+ * Validate a discovery configuration loaded from JSON and fill in the defaults:
+ * strategies are enabled unless `enabled` is false, and take `maxResults` and
+ * `maxPages` from `defaults` unless they set their own.
+ *
+ * @throws Error listing every problem found
+ */
+export function parseDiscoveryConfig(raw: unknown): DiscoveryConfig {
+  const problems: string[] = [];
+  const config = raw as Record<string, unknown> | null;
+
+  if (typeof config !== 'object' || config === null) {
+    throw new Error('Invalid discovery config: expected an object');
+  }
+  if (typeof config.version !== 'string' || !config.version) {
+    problems.push('"version" must be a non-empty string');
+  }
+
+  const defaults = { ...FALLBACK_LIMITS };
+  const rawDefaults = (config.defaults ?? {}) as Record<string, unknown>;
+  for (const key of ['maxResults', 'maxPages'] as const) {
+    if (rawDefaults[key] === undefined) continue;
+    if (isPositiveInteger(rawDefaults[key])) {
+      defaults[key] = rawDefaults[key];
+    } else {
+      problems.push(`"defaults.${key}" must be a positive integer`);
+    }
+  }
+
+  const seeds = Array.isArray(config.seeds) ? config.seeds : [];
+  if (config.seeds !== undefined && !Array.isArray(config.seeds)) {
+    problems.push('"seeds" must be an array');
+  }
+  seeds.forEach((seed, index) => {
+    if (typeof seed !== 'string' || !REPOSITORY_NAME.test(seed)) {
+      problems.push(`"seeds[${index}]" must be "owner/repo"`);
+    }
+  });
+
+  if (!Array.isArray(config.strategies)) {
+    problems.push('"strategies" must be an array');
+  }
+  const names = new Set<string>();
+  const strategies = (Array.isArray(config.strategies) ? config.strategies : []).map(
+    (entry: Record<string, unknown>, index): DiscoveryStrategy => {
+      const at = `"strategies[${index}]`;
+      if (typeof entry?.name !== 'string' || !entry.name) {
+        problems.push(`${at}.name" must be a non-empty string`);
+      } else if (entry.name === SEED_STRATEGY || names.has(entry.name)) {
+        problems.push(`${at}.name" "${entry.name}" is already used`);
+      } else {
+        names.add(entry.name);
+      }
+      if (!STRATEGY_TYPES.includes(entry?.type as DiscoveryStrategyType)) {
+        problems.push(`${at}.type" must be one of: ${STRATEGY_TYPES.join(', ')}`);
+      }
+      if (typeof entry?.query !== 'string' || !entry.query.trim()) {
+        problems.push(`${at}.query" must be a non-empty string`);
+      }
+      if (entry?.enabled !== undefined && typeof entry.enabled !== 'boolean') {
+        problems.push(`${at}.enabled" must be a boolean`);
+      }
+      for (const key of ['maxResults', 'maxPages'] as const) {
+        if (entry?.[key] !== undefined && !isPositiveInteger(entry[key])) {
+          problems.push(`${at}.${key}" must be a positive integer`);
+        }
+      }
+
+      return {
+        name: entry?.name as string,
+        type: entry?.type as DiscoveryStrategyType,
+        query: entry?.query as string,
+        enabled: entry?.enabled !== false,
+        maxResults: (entry?.maxResults as number | undefined) ?? defaults.maxResults,
+        maxPages: (entry?.maxPages as number | undefined) ?? defaults.maxPages,
+      };
+    }
+  );
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid discovery config: ${problems.join('; ')}`);
+  }
+  return { version: config.version as string, seeds: seeds as string[], strategies };
+}
+
+export const DEFAULT_DISCOVERY_CONFIG: DiscoveryConfig = parseDiscoveryConfig(defaultConfig);
+
+/**
+ * Empty yield counters for a discovery source
+ */
+export function createStrategyYield(strategy: string, type: StrategyYield['type']): StrategyYield {
+  return { strategy, type, candidates: 0, new: 0, duplicates: 0, withManifest: 0, failed: 0 };
+}
+
+function isDiscoveryYieldReport(value: unknown): value is DiscoveryYieldReport {
+  if (!value || typeof value !== 'object') return false;
+  const report = value as Partial<DiscoveryYieldReport>;
+  return (
+    typeof report.scannedAt === 'string' &&
+    !Number.isNaN(Date.parse(report.scannedAt)) &&
+    typeof report.configVersion === 'string' &&
+    Array.isArray(report.strategies)
+  );
+}
+
+/**
+ * Parse the JSON Lines yield history, oldest scan first. Unreadable lines are skipped.
+ */
+export function parseDiscoveryYieldReports(text: string): DiscoveryYieldReport[] {
+  const reports: DiscoveryYieldReport[] = [];
+
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const parsed: unknown = JSON.parse(line);
+      if (isDiscoveryYieldReport(parsed)) reports.push(parsed);
+    } catch {
+      // Skip partial lines
+    }
+  }
+
+  return reports.sort((a, b) => Date.parse(a.scannedAt) - Date.parse(b.scannedAt));
+}
+
+export function serializeDiscoveryYieldReport(report: DiscoveryYieldReport): string {
+  return `${JSON.stringify(report)}\n`;
+}
+
+/**
+ * A discovery source's yield totalled over recent scans
+ */
+export interface StrategyYieldSummary {
+  strategy: string;
+  /** Scans the source ran in */
+  scans: number;
+  candidates: number;
+  new: number;
+  duplicates: number;
+  withManifest: number;
+  failed: number;
+  /** Ran in every recent scan without finding a new repository with a manifest */
+  unproductive: boolean;
+}
+
+/**
+ * Total each source's yield over the last `window` scans. A source that ran in all
+ * of them without adding a repository with a manifest is flagged as unproductive,
+ * a candidate for pruning from the configuration.
+ */
+export function summarizeStrategyYields(
+  reports: DiscoveryYieldReport[],
+  window: number = 5
+): StrategyYieldSummary[] {
+  const recent = reports.slice(-window);
+  const summaries = new Map<string, StrategyYieldSummary>();
+
+  for (const report of recent) {
+    for (const result of report.strategies) {
+      const summary = summaries.get(result.strategy) ?? {
+        strategy: result.strategy,
+        scans: 0,
+        candidates: 0,
+        new: 0,
+        duplicates: 0,
+        withManifest: 0,
+        failed: 0,
+        unproductive: false,
+      };
+      summary.scans++;
+      summary.candidates += result.candidates;
+      summary.new += result.new;
+      summary.duplicates += result.duplicates;
+      summary.withManifest += result.withManifest;
+      summary.failed += result.failed;
+      summaries.set(result.strategy, summary);
+    }
+  }
+
+  return Array.from(summaries.values()).map((summary) => ({
+    ...summary,
+    unproductive:
+      recent.length === window && summary.scans === window && summary.withManifest === 0,
+  }));
+}
@@ -0,0 +1,227 @@
+/**
+ * "What's new" feeds
+ *
+ * Renders the same list of items as RSS 2.0, Atom and JSON Feed, and maps feed
+ * scopes (everything, a category, a marketplace or an author) to the files the
+ * data generator writes under public/feeds:
+ *
+ *   feeds/{rss.xml,atom.xml,feed.json}                  everything
+ *   feeds/categories/<slug>/{rss.xml,atom.xml,feed.json}
+ *   feeds/marketplaces/<slug>/...
+ *   feeds/authors/<slug>/...
+ */
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+export type FeedScope =
+  | { type: 'all' }
+  | { type: 'category' | 'marketplace' | 'author'; key: string };
+
+export const FEED_FORMATS: Record<FeedFormat, { file: string; mimeType: string; label: string }> = {
+  rss: { file: 'rss.xml', mimeType: 'application/rss+xml', label: 'RSS' },
+  atom: { file: 'atom.xml', mimeType: 'application/atom+xml', label: 'Atom' },
+  json: { file: 'feed.json', mimeType: 'application/feed+json', label: 'JSON Feed' },
+};
+
+const SCOPE_DIRECTORIES = {
+  category: 'categories',
+  marketplace: 'marketplaces',
+  author: 'authors',
+} as const;
+
+export type FeedItemKind = 'new-plugin' | 'version' | 'marketplace-update';
+
+export interface FeedItem {
+  /** Stable across runs so readers do not show an item twice */
+  id: string;
+  kind: FeedItemKind;
+  title: string;
+  /** Absolute URL of the page the item is about */
+  url: string;
+  summary: string;
+  published: string;
+  authors: string[];
+  tags: string[];
+}
+
+export interface FeedDocument {
+  scope: FeedScope;
+  title: string;
+  description: string;
+  /** Absolute site URL without a trailing slash */
+  siteUrl: string;
+  /** Absolute URL of the page this feed mirrors */
+  pageUrl: string;
+  updated: string;
+  items: FeedItem[];
+}
+
+/**
+ * Make a category, marketplace ID or author name safe to use as a path segment
+ */
+export function toFeedSlug(value: string): string {
+  return (
+    String(value)
+      .toLowerCase()
+      .replace(/[^a-z0-9._-]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'unknown'
+  );
+}
+
+/**
+ * Directory of a scope's feeds, relative to the site root
+ */
+export function getFeedDirectory(scope: FeedScope): string {
+  return scope.type === 'all'
+    ? 'feeds'
+    : `feeds/${SCOPE_DIRECTORIES[scope.type]}/${toFeedSlug(scope.key)}`;
+}
+
+export function getFeedPath(scope: FeedScope, format: FeedFormat): string {
+  return `${getFeedDirectory(scope)}/${FEED_FORMATS[format].file}`;
+}
+
+/**
+ * Attributes for `<link rel="alternate">` discovery tags, one per format
+ */
+export function getFeedLinks(
+  scope: FeedScope,
+  title: string,
+  basePath: string = process.env.NEXT_PUBLIC_BASE_PATH || ''
+): Array<{ rel: 'alternate'; type: string; title: string; href: string }> {
+  return (Object.keys(FEED_FORMATS) as FeedFormat[]).map((format) => ({
+    rel: 'alternate',
+    type: FEED_FORMATS[format].mimeType,
+    title: `${title} (${FEED_FORMATS[format].label})`,
+    href: `${basePath}/${getFeedPath(scope, format)}`,
+  }));
+}
+
+export function escapeXml(value: string): string {
+  return (
+    String(value)
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;')
+      // Control characters are not allowed in XML 1.0 documents
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+  );
+}
+
+const feedUrl = (feed: FeedDocument, format: FeedFormat) =>
+  `${feed.siteUrl}/${getFeedPath(feed.scope, format)}`;
+
+/**
+ * Globally unique Atom entry ID (RFC 4151 tag URI)
+ */
+function toTagUri(siteUrl: string, id: string): string {
+  let host = 'localhost';
+  try {
+    host = new URL(siteUrl).hostname;
+  } catch {
+    // Keep the fallback host
+  }
+  return `tag:${host},2025:${encodeURIComponent(id)}`;
+}
+
+export function renderRssFeed(feed: FeedDocument): string {
+  const items = feed.items
+    .map(
+      (item) => `
+    <item>
+      <title>${escapeXml(item.title)}</title>
+      <link>${escapeXml(item.url)}</link>
+      <guid isPermaLink="false">${escapeXml(item.id)}</guid>
+      <pubDate>${new Date(item.published).toUTCString()}</pubDate>
+      <description>${escapeXml(item.summary)}</description>${item.authors
+        .map((author) => `\n      <dc:creator>${escapeXml(author)}</dc:creator>`)
+        .join('')}${item.tags
+        .map((tag) => `\n      <category>${escapeXml(tag)}</category>`)
+        .join('')}
+    </item>`
+    )
+    .join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>${escapeXml(feed.title)}</title>
+    <description>${escapeXml(feed.description)}</description>
+    <link>${escapeXml(feed.pageUrl)}</link>
+    <atom:link href="${escapeXml(feedUrl(feed, 'rss'))}" rel="self" type="application/rss+xml" />
+    <language>en-us</language>
+    <lastBuildDate>${new Date(feed.updated).toUTCString()}</lastBuildDate>
+    <generator>Claude Marketplace Aggregator</generator>${items}
+  </channel>
+</rss>
+`;
+}
+
+export function renderAtomFeed(feed: FeedDocument): string {
+  const entries = feed.items
+    .map(
+      (item) => `
+  <entry>
+    <id>${escapeXml(toTagUri(feed.siteUrl, item.id))}</id>
+    <title>${escapeXml(item.title)}</title>
+    <link rel="alternate" href="${escapeXml(item.url)}" />
+    <published>${new Date(item.published).toISOString()}</published>
+    <updated>${new Date(item.published).toISOString()}</updated>
+    <summary>${escapeXml(item.summary)}</summary>${item.authors
+      .map((author) => `\n    <author><name>${escapeXml(author)}</name></author>`)
+      .join('')}${item.tags.map((tag) => `\n    <category term="${escapeXml(tag)}" />`).join('')}
+  </entry>`
+    )
+    .join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${escapeXml(feedUrl(feed, 'atom'))}</id>
+  <title>${escapeXml(feed.title)}</title>
+  <subtitle>${escapeXml(feed.description)}</subtitle>
+  <updated>${new Date(feed.updated).toISOString()}</updated>
+  <link rel="self" type="application/atom+xml" href="${escapeXml(feedUrl(feed, 'atom'))}" />
+  <link rel="alternate" type="text/html" href="${escapeXml(feed.pageUrl)}" />
+  <author><name>Claude Marketplace Aggregator</name></author>
+  <generator>Claude Marketplace Aggregator</generator>${entries}
+</feed>
+`;
+}
+
+export function renderJsonFeed(feed: FeedDocument): string {
+  return JSON.stringify(
+    {
+      version: 'https://jsonfeed.org/version/1.1',
+      title: feed.title,
+      description: feed.description,
+      home_page_url: feed.pageUrl,
+      feed_url: feedUrl(feed, 'json'),
+      language: 'en-US',
+      items: feed.items.map((item) => ({
+        id: item.id,
+        url: item.url,
+        title: item.title,
+        content_text: item.summary,
+        date_published: new Date(item.published).toISOString(),
+        ...(item.authors.length > 0 ? { authors: item.authors.map((name) => ({ name })) } : {}),
+        ...(item.tags.length > 0 ? { tags: item.tags } : {}),
+        _aggregator: { kind: item.kind },
+      })),
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Render a feed in every format, keyed by file path relative to the site root
+ */
+export function renderFeedFiles(feed: FeedDocument): Map<string, string> {
+  return new Map([
+    [getFeedPath(feed.scope, 'rss'), renderRssFeed(feed)],
+    [getFeedPath(feed.scope, 'atom'), renderAtomFeed(feed)],
+    [getFeedPath(feed.scope, 'json'), renderJsonFeed(feed)],
+  ]);
+}
@@ -200,6 +200,7 @@ export class GitHubClient {
         success: false,
         error: {
           message: error.message || 'Unknown GitHub API error',
+          status: typeof error.status === 'number' ? error.status : undefined,
           documentation_url: error.documentation_url,
           errors: error.errors,
         },
@@ -209,9 +210,10 @@ export class GitHubClient {
   }
 
   /**
-   * Extract rate limit information from response headers
+   * Extract rate limit information from response headers. Public so callers using
+   * Octokit directly can feed the limits to a TaskScheduler.
    */
-  private extractRateLimitFromHeaders(headers: any): GitHubRateLimit | null {
+  extractRateLimitFromHeaders(headers: any): GitHubRateLimit | null {
     try {
       return {
         resources: {
@@ -0,0 +1,114 @@
+/**
+ * Plugin install instructions
+ *
+ * Builds the Claude Code commands that install a plugin from its marketplace:
+ *
+ *   /plugin marketplace add owner/repo
+ *   /plugin install plugin-name@marketplace-name
+ *
+ * and the `.claude/settings.json` entries that make a team's project trust the
+ * marketplaces and enable the plugins for everyone who opens it.
+ */
+
+/**
+ * Where Claude Code fetches a marketplace from, in `extraKnownMarketplaces` format
+ */
+export type MarketplaceSource = { source: 'github'; repo: string } | { source: 'git'; url: string };
+
+export interface PluginInstallTarget {
+  /** Plugin name from the marketplace manifest */
+  plugin: string;
+  /** Marketplace name from its marketplace.json, which `name@marketplace` refers to */
+  marketplace: string;
+  source: MarketplaceSource;
+}
+
+/**
+ * Project settings that add marketplaces and enable plugins for a team
+ */
+export interface TeamPluginSettings {
+  extraKnownMarketplaces: Record<string, { source: MarketplaceSource }>;
+  enabledPlugins: Record<string, boolean>;
+}
+
+const GITHUB_REPO_URL = /^https?:\/\/(?:www\.)?github\.com\/([^/\s]+)\/([^/\s#?]+?)(?:\.git)?\/?$/i;
+
+/**
+ * Parse a marketplace repository URL. GitHub repositories become `owner/repo`;
+ * other URLs are kept as git URLs.
+ */
+export function parseMarketplaceSource(url: string | undefined): MarketplaceSource | null {
+  const trimmed = url?.trim();
+  if (!trimmed) return null;
+
+  const github = trimmed.match(GITHUB_REPO_URL);
+  if (github) return { source: 'github', repo: `${github[1]}/${github[2]}` };
+
+  return /^(https?|git|ssh):\/\//i.test(trimmed) || trimmed.startsWith('git@')
+    ? { source: 'git', url: trimmed }
+    : null;
+}
+
+/**
+ * The argument `/plugin marketplace add` takes for a source
+ */
+export function formatMarketplaceSource(source: MarketplaceSource): string {
+  return source.source === 'github' ? source.repo : source.url;
+}
+
+/**
+ * Resolve what to install for a plugin. The marketplace name falls back to the
+ * repository name when the marketplace manifest has not been scanned. Returns null
+ * when the marketplace repository is unknown.
+ */
+export function getPluginInstallTarget(plugin: {
+  name: string;
+  marketplaceUrl?: string;
+  marketplaceName?: string;
+}): PluginInstallTarget | null {
+  const source = parseMarketplaceSource(plugin.marketplaceUrl);
+  if (!source) return null;
+
+  const repositoryName = formatMarketplaceSource(source)
+    .replace(/\.git$|\/+$/g, '')
+    .split('/')
+    .pop();
+  const marketplace = plugin.marketplaceName?.trim() || repositoryName;
+  return marketplace ? { plugin: plugin.name, marketplace, source } : null;
+}
+
+/**
+ * The `enabledPlugins` key of a plugin: `name@marketplace`
+ */
+export function getPluginKey(target: PluginInstallTarget): string {
+  return `${target.plugin}@${target.marketplace}`;
+}
+
+/**
+ * Commands to run in a Claude Code session, in order
+ */
+export function getInstallCommands(target: PluginInstallTarget): string[] {
+  return [
+    `/plugin marketplace add ${formatMarketplaceSource(target.source)}`,
+    `/plugin install ${getPluginKey(target)}`,
+  ];
+}
+
+/**
+ * Settings for `.claude/settings.json` that add each marketplace once and enable
+ * every plugin
+ */
+export function buildTeamPluginSettings(targets: PluginInstallTarget[]): TeamPluginSettings {
+  const settings: TeamPluginSettings = { extraKnownMarketplaces: {}, enabledPlugins: {} };
+
+  for (const target of targets) {
+    settings.extraKnownMarketplaces[target.marketplace] = { source: target.source };
+    settings.enabledPlugins[getPluginKey(target)] = true;
+  }
+
+  return settings;
+}
+
+export function renderTeamPluginSettings(targets: PluginInstallTarget[]): string {
+  return JSON.stringify(buildTeamPluginSettings(targets), null, 2);
+}
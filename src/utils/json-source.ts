@@ -0,0 +1,228 @@
+/**
+ * JSON source positions
+ *
+ * A small JSON parser that remembers where each value starts, so problems found in
+ * the parsed data can be reported at a line and column of the original file.
+ */
+
+/** 1-based line and column */
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+export type JsonPath = Array<string | number>;
+
+export interface ParsedJsonSource {
+  value: unknown;
+  /** JSON pointer of every value → where it starts */
+  positions: Map<string, SourcePosition>;
+  /** JSON pointer of every object property → where its key starts */
+  keyPositions: Map<string, SourcePosition>;
+}
+
+/**
+ * Syntax error at a position in the source
+ */
+export class JsonSyntaxError extends Error {
+  constructor(
+    message: string,
+    public position: SourcePosition
+  ) {
+    super(message);
+    this.name = 'JsonSyntaxError';
+  }
+}
+
+/**
+ * RFC 6901 pointer for a path, e.g. ['plugins', 0, 'name'] → /plugins/0/name
+ */
+export function toJsonPointer(path: JsonPath): string {
+  return path
+    .map((segment) => `/${String(segment).replace(/~/g, '~0').replace(/\//g, '~1')}`)
+    .join('');
+}
+
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+/** true, false, null or a number, matched at lastIndex */
+const LITERAL = /true|false|null|-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+
+/**
+ * Parse JSON and record the position of every value. Throws JsonSyntaxError.
+ */
+export function parseJsonSource(text: string): ParsedJsonSource {
+  const positions = new Map<string, SourcePosition>();
+  const keyPositions = new Map<string, SourcePosition>();
+  // Skip a byte order mark, which editors on Windows like to add
+  let index = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+  let line = 1;
+  let lineStart = 0;
+
+  const position = (): SourcePosition => ({ line, column: index - lineStart + 1 });
+  const fail = (message: string): never => {
+    throw new JsonSyntaxError(message, position());
+  };
+  const describe = () => (index < text.length ? `'${text[index]}'` : 'end of file');
+
+  const skipWhitespace = () => {
+    while (index < text.length) {
+      const char = text[index];
+      if (char === '\n') {
+        line++;
+        lineStart = index + 1;
+      } else if (char !== ' ' && char !== '\t' && char !== '\r') {
+        return;
+      }
+      index++;
+    }
+  };
+
+  const expect = (char: string) => {
+    skipWhitespace();
+    if (text[index] !== char) fail(`Expected '${char}' but found ${describe()}`);
+    index++;
+  };
+
+  const parseString = (): string => {
+    index++; // opening quote
+    let result = '';
+    while (index < text.length) {
+      const char = text[index];
+      if (char === '"') {
+        index++;
+        return result;
+      }
+      if (char === '\n' || char < ' ') fail('Unterminated string');
+      if (char === '\\') {
+        const escape = text[index + 1];
+        if (escape === 'u') {
+          const hex = text.slice(index + 2, index + 6);
+          if (!/^[0-9a-fA-F]{4}$/.test(hex)) fail('Invalid unicode escape');
+          result += String.fromCharCode(parseInt(hex, 16));
+          index += 6;
+        } else if (escape in ESCAPES) {
+          result += ESCAPES[escape];
+          index += 2;
+        } else {
+          index++;
+          fail(`Invalid escape ${describe()}`);
+        }
+      } else {
+        result += char;
+        index++;
+      }
+    }
+    return fail('Unterminated string');
+  };
+
+  const parseValue = (path: JsonPath): unknown => {
+    skipWhitespace();
+    positions.set(toJsonPointer(path), position());
+
+    const char = text[index];
+    if (char === '{') {
+      index++;
+      const object: Record<string, unknown> = {};
+      skipWhitespace();
+      if (text[index] === '}') {
+        index++;
+        return object;
+      }
+      for (;;) {
+        skipWhitespace();
+        if (text[index] !== '"') fail(`Expected a property name but found ${describe()}`);
+        const keyPosition = position();
+        const key = parseString();
+        keyPositions.set(toJsonPointer([...path, key]), keyPosition);
+        expect(':');
+        // defineProperty keeps a "__proto__" key an ordinary property
+        Object.defineProperty(object, key, {
+          value: parseValue([...path, key]),
+          enumerable: true,
+          writable: true,
+          configurable: true,
+        });
+        skipWhitespace();
+        if (text[index] === ',') {
+          index++;
+        } else if (text[index] === '}') {
+          index++;
+          return object;
+        } else {
+          fail(`Expected ',' or '}' but found ${describe()}`);
+        }
+      }
+    }
+
+    if (char === '[') {
+      index++;
+      const array: unknown[] = [];
+      skipWhitespace();
+      if (text[index] === ']') {
+        index++;
+        return array;
+      }
+      for (;;) {
+        array.push(parseValue([...path, array.length]));
+        skipWhitespace();
+        if (text[index] === ',') {
+          index++;
+        } else if (text[index] === ']') {
+          index++;
+          return array;
+        } else {
+          fail(`Expected ',' or ']' but found ${describe()}`);
+        }
+      }
+    }
+
+    if (char === '"') return parseString();
+
+    LITERAL.lastIndex = index;
+    const literal = LITERAL.exec(text);
+    if (!literal) return fail(`Unexpected ${describe()}`);
+    index += literal[0].length;
+    return literal[0] === 'true'
+      ? true
+      : literal[0] === 'false'
+        ? false
+        : literal[0] === 'null'
+          ? null
+          : Number(literal[0]);
+  };
+
+  const value = parseValue([]);
+  skipWhitespace();
+  if (index < text.length) fail(`Unexpected ${describe()} after the end of the document`);
+
+  return { value, positions, keyPositions };
+}
+
+/**
+ * Position of the value at a path, or of its closest parent that exists. With `key`,
+ * the position of the property name instead of its value.
+ */
+export function findPosition(
+  source: ParsedJsonSource,
+  path: JsonPath,
+  { key = false }: { key?: boolean } = {}
+): SourcePosition {
+  const keyPosition = key ? source.keyPositions.get(toJsonPointer(path)) : undefined;
+  if (keyPosition) return keyPosition;
+
+  for (let length = path.length; length >= 0; length--) {
+    const position = source.positions.get(toJsonPointer(path.slice(0, length)));
+    if (position) return position;
+  }
+  return { line: 1, column: 1 };
+}
@@ -0,0 +1,280 @@
+/**
+ * Manifest linter
+ *
+ * Checks a marketplace.json or plugin.json against the Claude Code manifest schemas
+ * (see manifest-schema.ts) and reports each problem at its line and column, as
+ * text for terminals or as SARIF for code scanning tools.
+ */
+
+import { z } from 'zod';
+import {
+  findPosition,
+  JsonPath,
+  JsonSyntaxError,
+  parseJsonSource,
+  ParsedJsonSource,
+  toJsonPointer,
+} from './json-source';
+import { MANIFEST_SCHEMAS, ManifestKind } from './manifest-schema';
+
+export type ManifestRuleId =
+  | 'json-syntax'
+  | 'schema'
+  | 'unknown-field'
+  | 'version-format'
+  | 'duplicate-plugin';
+
+export type LintSeverity = 'error' | 'warning';
+
+export interface ManifestLintRule {
+  severity: LintSeverity;
+  description: string;
+}
+
+export const MANIFEST_LINT_RULES: Record<ManifestRuleId, ManifestLintRule> = {
+  'json-syntax': { severity: 'error', description: 'The manifest must be valid JSON' },
+  schema: { severity: 'error', description: 'The manifest must match the Claude Code schema' },
+  'unknown-field': {
+    severity: 'warning',
+    description: 'Claude Code ignores fields that are not part of the manifest',
+  },
+  'version-format': {
+    severity: 'warning',
+    description: 'Versions should follow semantic versioning (x.y.z)',
+  },
+  'duplicate-plugin': {
+    severity: 'error',
+    description: 'Plugin names must be unique within a marketplace',
+  },
+};
+
+export interface ManifestDiagnostic {
+  file: string;
+  ruleId: ManifestRuleId;
+  severity: LintSeverity;
+  message: string;
+  /** JSON pointer of the offending value; empty for the whole document */
+  pointer: string;
+  line: number;
+  column: number;
+}
+
+const SEMVER = /^\d+\.\d+\.\d+(?:-[\w.-]+)?(?:\+[\w.-]+)?$/;
+
+/**
+ * Manifest kind from a file name: marketplace.json or plugin.json
+ */
+export function detectManifestKind(file: string): ManifestKind | null {
+  const name = file.split(/[\\/]/).pop()?.toLowerCase();
+  if (name === 'marketplace.json') return 'marketplace';
+  if (name === 'plugin.json') return 'plugin';
+  return null;
+}
+
+/**
+ * Human-readable location of a path, e.g. plugins[0].source
+ */
+function formatPath(jsonPath: JsonPath): string {
+  return jsonPath
+    .map((segment, index) =>
+      typeof segment === 'number' ? `[${segment}]` : index === 0 ? segment : `.${segment}`
+    )
+    .join('');
+}
+
+function valueAt(value: unknown, jsonPath: JsonPath): unknown {
+  return jsonPath.reduce<unknown>(
+    (current, segment) =>
+      current && typeof current === 'object'
+        ? (current as Record<string | number, unknown>)[segment]
+        : undefined,
+    value
+  );
+}
+
+/**
+ * Find object fields the schema does not declare, descending into nested objects
+ * and arrays of objects
+ */
+function findUnknownFields(schema: z.ZodType, value: unknown, jsonPath: JsonPath): JsonPath[] {
+  let inner: z.ZodType = schema;
+  while (inner instanceof z.ZodOptional) inner = inner.unwrap() as z.ZodType;
+
+  if (inner instanceof z.ZodArray && Array.isArray(value)) {
+    return value.flatMap((item, index) =>
+      findUnknownFields(inner.element as z.ZodType, item, [...jsonPath, index])
+    );
+  }
+  if (!(inner instanceof z.ZodObject) || !value || typeof value !== 'object') return [];
+
+  const shape = inner.shape as Record<string, z.ZodType>;
+  return Object.entries(value as Record<string, unknown>).flatMap(([key, child]) =>
+    key in shape ? findUnknownFields(shape[key], child, [...jsonPath, key]) : [[...jsonPath, key]]
+  );
+}
+
+/**
+ * Paths of every version field in a manifest
+ */
+function findVersions(kind: ManifestKind, value: unknown): JsonPath[] {
+  if (kind === 'plugin') return [['version']];
+
+  const plugins = valueAt(value, ['plugins']);
+  return [
+    ['metadata', 'version'],
+    ...(Array.isArray(plugins) ? plugins.map((_, index) => ['plugins', index, 'version']) : []),
+  ];
+}
+
+/**
+ * Lint a manifest. `file` is only used to label the diagnostics.
+ */
+export function lintManifest(text: string, file: string, kind: ManifestKind): ManifestDiagnostic[] {
+  const diagnostics: ManifestDiagnostic[] = [];
+
+  let source: ParsedJsonSource;
+  try {
+    source = parseJsonSource(text);
+  } catch (error) {
+    if (!(error instanceof JsonSyntaxError)) throw error;
+    return [
+      {
+        file,
+        ruleId: 'json-syntax',
+        severity: 'error',
+        message: error.message,
+        pointer: '',
+        ...error.position,
+      },
+    ];
+  }
+
+  const report = (ruleId: ManifestRuleId, jsonPath: JsonPath, message: string) => {
+    diagnostics.push({
+      file,
+      ruleId,
+      severity: MANIFEST_LINT_RULES[ruleId].severity,
+      message,
+      pointer: toJsonPointer(jsonPath),
+      // Unknown fields are easier to spot by their name than by their value
+      ...findPosition(source, jsonPath, { key: ruleId === 'unknown-field' }),
+    });
+  };
+
+  const schema = MANIFEST_SCHEMAS[kind];
+  const result = schema.safeParse(source.value);
+  for (const issue of result.success ? [] : result.error.issues) {
+    const jsonPath = issue.path.filter(
+      (segment): segment is string | number => typeof segment !== 'symbol'
+    );
+    // Optional fields accept undefined, so an issue without a value is a missing field
+    const missing = jsonPath.length > 0 && valueAt(source.value, jsonPath) === undefined;
+
+    if (missing) {
+      // Point at the object that lacks the field
+      report('schema', jsonPath.slice(0, -1), `Missing required field "${formatPath(jsonPath)}"`);
+    } else {
+      const location = jsonPath.length > 0 ? `${formatPath(jsonPath)}: ` : '';
+      report('schema', jsonPath, `${location}${issue.message}`);
+    }
+  }
+
+  for (const fieldPath of findUnknownFields(schema, source.value, [])) {
+    report('unknown-field', fieldPath, `Unknown field "${formatPath(fieldPath)}"`);
+  }
+
+  for (const versionPath of findVersions(kind, source.value)) {
+    const version = valueAt(source.value, versionPath);
+    if (typeof version === 'string' && !SEMVER.test(version)) {
+      report(
+        'version-format',
+        versionPath,
+        `${formatPath(versionPath)} "${version}" is not a semantic version`
+      );
+    }
+  }
+
+  if (kind === 'marketplace') {
+    const plugins = valueAt(source.value, ['plugins']);
+    const seen = new Map<string, number>();
+    (Array.isArray(plugins) ? plugins : []).forEach((plugin, index) => {
+      const name = valueAt(plugin, ['name']);
+      if (typeof name !== 'string') return;
+      if (seen.has(name)) {
+        report(
+          'duplicate-plugin',
+          ['plugins', index, 'name'],
+          `Plugin "${name}" is already listed at plugins[${seen.get(name)}]`
+        );
+      } else {
+        seen.set(name, index);
+      }
+    });
+  }
+
+  return diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+/**
+ * One line per diagnostic: `file:line:column  severity  message  (rule)`
+ */
+export function formatDiagnostics(diagnostics: ManifestDiagnostic[]): string {
+  return diagnostics
+    .map(
+      (diagnostic) =>
+        `${diagnostic.file}:${diagnostic.line}:${diagnostic.column}  ${diagnostic.severity}  ` +
+        `${diagnostic.message}  (${diagnostic.ruleId})`
+    )
+    .join('\n');
+}
+
+export interface SarifOptions {
+  toolVersion: string;
+  informationUri?: string;
+}
+
+/**
+ * SARIF 2.1.0 log for code scanning tools such as GitHub code scanning. File names
+ * are used as artifact URIs, so pass them relative to the repository root.
+ */
+export function toSarif(
+  diagnostics: ManifestDiagnostic[],
+  options: SarifOptions
+): Record<string, unknown> {
+  const ruleIds = Object.keys(MANIFEST_LINT_RULES) as ManifestRuleId[];
+
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'lint-manifest',
+            version: options.toolVersion,
+            ...(options.informationUri && { informationUri: options.informationUri }),
+            rules: ruleIds.map((id) => ({
+              id,
+              shortDescription: { text: MANIFEST_LINT_RULES[id].description },
+              defaultConfiguration: { level: MANIFEST_LINT_RULES[id].severity },
+            })),
+          },
+        },
+        results: diagnostics.map((diagnostic) => ({
+          ruleId: diagnostic.ruleId,
+          ruleIndex: ruleIds.indexOf(diagnostic.ruleId),
+          level: diagnostic.severity,
+          message: { text: diagnostic.message },
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: { uri: diagnostic.file.replace(/\\/g, '/') },
+                region: { startLine: diagnostic.line, startColumn: diagnostic.column },
+              },
+            },
+          ],
+        })),
+      },
+    ],
+  };
+}
@@ -0,0 +1,137 @@
+/**
+ * Claude Code manifest schemas
+ *
+ * Zod schemas for `.claude-plugin/marketplace.json` and `.claude-plugin/plugin.json`
+ * as Claude Code reads them. They drive the manifest linter and are published as
+ * JSON Schema in public/schemas/ for editors and other tools.
+ */
+
+import { z } from 'zod';
+
+export type ManifestKind = 'marketplace' | 'plugin';
+
+export const MANIFEST_KINDS: ManifestKind[] = ['marketplace', 'plugin'];
+
+/** Where the published JSON Schema of each manifest lives, relative to the site root */
+export const MANIFEST_SCHEMA_PATHS: Record<ManifestKind, string> = {
+  marketplace: '/schemas/marketplace.schema.json',
+  plugin: '/schemas/plugin.schema.json',
+};
+
+const kebabCaseName = z
+  .string()
+  .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Use kebab-case: lowercase letters, digits and hyphens');
+
+const relativePath = z
+  .string()
+  .regex(/^\.\/(?!.*\.\.\/)/, 'Paths must be relative, start with "./" and not contain "../"');
+
+const pathList = z.union([relativePath, z.array(relativePath)], {
+  error: 'Expected a "./" path or an array of them',
+});
+
+/** A path to a JSON file or the configuration inline */
+const pathOrConfig = z.union([relativePath, z.record(z.string(), z.unknown())], {
+  error: 'Expected a "./" path to a JSON file or an inline configuration object',
+});
+
+const person = z.object({
+  name: z.string().min(1),
+  email: z.string().optional(),
+  url: z.string().optional(),
+});
+
+const pluginFields = {
+  version: z.string().optional().describe('Semantic version, e.g. 1.2.0'),
+  description: z.string().optional(),
+  author: person.optional(),
+  homepage: z.string().optional(),
+  repository: z.string().optional().describe('Source code URL'),
+  license: z.string().optional().describe('SPDX license identifier'),
+  keywords: z.array(z.string()).optional(),
+  commands: pathList.optional().describe('Command files or directories'),
+  agents: pathList.optional().describe('Agent files or directories'),
+  skills: pathList.optional().describe('Skill directories'),
+  outputStyles: pathList.optional().describe('Output style files or directories'),
+  hooks: pathOrConfig.optional().describe('Hooks configuration'),
+  mcpServers: pathOrConfig.optional().describe('MCP server configuration'),
+  lspServers: pathOrConfig.optional().describe('LSP server configuration'),
+};
+
+const gitRef = {
+  ref: z.string().optional().describe('Branch or tag'),
+  sha: z.string().optional().describe('Exact commit'),
+};
+
+const pluginSource = z.union(
+  [
+    relativePath,
+    z.object({
+      source: z.literal('github'),
+      repo: z.string().regex(/^[\w.-]+\/[\w.-]+$/, 'Expected "owner/repo"'),
+      ...gitRef,
+    }),
+    z.object({ source: z.literal('url'), url: z.string().url(), ...gitRef }),
+  ],
+  {
+    error:
+      'Expected a "./" path inside the marketplace repository, ' +
+      '{ "source": "github", "repo": "owner/repo" } or { "source": "url", "url": "..." }',
+  }
+);
+
+/**
+ * `.claude-plugin/plugin.json`
+ */
+export const pluginManifestSchema = z
+  .object({
+    name: kebabCaseName.describe('Unique plugin identifier'),
+    ...pluginFields,
+  })
+  .meta({ title: 'Claude Code plugin manifest' });
+
+/**
+ * A plugin entry in marketplace.json: the plugin manifest fields plus where to fetch it
+ */
+export const marketplacePluginSchema = z.object({
+  name: kebabCaseName.describe('Plugin name, used in `/plugin install name@marketplace`'),
+  source: pluginSource,
+  ...pluginFields,
+  category: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  strict: z
+    .boolean()
+    .optional()
+    .describe('Whether the plugin must ship its own plugin.json (default true)'),
+});
+
+/**
+ * `.claude-plugin/marketplace.json`
+ */
+export const marketplaceManifestSchema = z
+  .object({
+    name: kebabCaseName.describe('Marketplace identifier, used in `name@marketplace`'),
+    owner: person.describe('Marketplace maintainer'),
+    metadata: z
+      .object({
+        description: z.string().optional(),
+        version: z.string().optional(),
+        pluginRoot: z.string().optional().describe('Base directory for relative plugin sources'),
+      })
+      .optional(),
+    plugins: z.array(marketplacePluginSchema),
+  })
+  .meta({ title: 'Claude Code marketplace manifest' });
+
+export const MANIFEST_SCHEMAS: Record<ManifestKind, z.ZodType> = {
+  marketplace: marketplaceManifestSchema,
+  plugin: pluginManifestSchema,
+};
+
+/**
+ * JSON Schema of a manifest, as published in public/schemas/. Objects stay open:
+ * Claude Code ignores fields it does not know, so the linter only warns about them.
+ */
+export function toManifestJsonSchema(kind: ManifestKind): Record<string, unknown> {
+  return z.toJSONSchema(MANIFEST_SCHEMAS[kind], { io: 'input' }) as Record<string, unknown>;
+}
@@ -0,0 +1,153 @@
+/**
+ * Marketplace Duplicates
+ *
+ * Many discovered repositories are GitHub forks or copy-paste mirrors of popular
+ * marketplaces. The scanner groups them under one canonical marketplace: forks by
+ * the repository they were forked from, mirrors by a fingerprint of their plugin
+ * manifests and SKILL.md bodies. Duplicates stay listed and are linked from the
+ * canonical page, but are left out of ecosystem totals.
+ */
+
+import type { MarketplaceDuplicateKind } from '../types/marketplace';
+
+// Fields that name whoever published a copy rather than what it contains
+const PUBLISHER_FIELDS = new Set(['author', 'owner', 'homepage', 'repository']);
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, sortKeys((value as Record<string, unknown>)[key])])
+    );
+  }
+  return typeof value === 'string' ? value.trim() : value;
+}
+
+/**
+ * Stable text of a plugin manifest entry for comparing copies: keys sorted, strings
+ * trimmed and publisher fields dropped
+ */
+export function normalizePluginManifest(entry: unknown): string {
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+    return JSON.stringify(sortKeys(entry) ?? null);
+  }
+  const content = Object.fromEntries(
+    Object.entries(entry).filter(([key]) => !PUBLISHER_FIELDS.has(key))
+  );
+  return JSON.stringify(sortKeys(content));
+}
+
+/**
+ * Body of a SKILL.md without its frontmatter, with line endings, trailing spaces
+ * and blank lines normalized
+ */
+export function normalizeSkillBody(content: string): string {
+  const text = content.replace(/\r\n?/g, '\n');
+  const body = text.startsWith('---\n') ? text.replace(/^---\n[\s\S]*?\n---(\n|$)/, '') : text;
+  return body
+    .split('\n')
+    .map((line) => line.trimEnd())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * A scanned marketplace, as far as duplicate detection needs it
+ */
+export interface DuplicateCandidate {
+  id: string;
+  /** `owner/repo` */
+  fullName: string;
+  /** `owner/repo` this repository was forked from, for GitHub forks */
+  parent?: string;
+  /** Fingerprint of the plugin manifests and SKILL.md bodies; unset when there are none */
+  contentHash?: string;
+  stars: number;
+  createdAt: string;
+}
+
+export interface DuplicateLink {
+  canonicalId: string;
+  kind: MarketplaceDuplicateKind;
+}
+
+/**
+ * Which candidates duplicate another, keyed by candidate ID
+ *
+ * A fork is grouped under the furthest upstream scanned repository it descends from. Chain
+ * roots with the same content hash are mirrors of the oldest one among them (then
+ * the most starred). Forks of a mirror are grouped under the mirror's canonical entry.
+ */
+export function findMarketplaceDuplicates(
+  candidates: DuplicateCandidate[]
+): Map<string, DuplicateLink> {
+  const byName = new Map(candidates.map((c) => [c.fullName.toLowerCase(), c]));
+
+  const getRoot = (candidate: DuplicateCandidate): DuplicateCandidate => {
+    const seen = new Set<string>([candidate.id]);
+    let current = candidate;
+    let parent = current.parent ? byName.get(current.parent.toLowerCase()) : undefined;
+    while (parent && !seen.has(parent.id)) {
+      seen.add(parent.id);
+      current = parent;
+      parent = current.parent ? byName.get(current.parent.toLowerCase()) : undefined;
+    }
+    return current;
+  };
+
+  const roots = new Map(candidates.map((c) => [c.id, getRoot(c)]));
+
+  // The canonical root for every content hash
+  const canonicalByHash = new Map<string, DuplicateCandidate>();
+  for (const root of new Set(roots.values())) {
+    if (!root.contentHash) continue;
+    const current = canonicalByHash.get(root.contentHash);
+    if (!current || compareCanonical(root, current) < 0) {
+      canonicalByHash.set(root.contentHash, root);
+    }
+  }
+
+  const duplicates = new Map<string, DuplicateLink>();
+  for (const candidate of candidates) {
+    const root = roots.get(candidate.id) ?? candidate;
+    const canonical = (root.contentHash && canonicalByHash.get(root.contentHash)) || root;
+    if (canonical.id === candidate.id) continue;
+    duplicates.set(candidate.id, {
+      canonicalId: canonical.id,
+      kind: root.id === candidate.id ? 'mirror' : 'fork',
+    });
+  }
+  return duplicates;
+}
+
+// Oldest first, then most starred, then by ID so the choice is stable
+function compareCanonical(a: DuplicateCandidate, b: DuplicateCandidate): number {
+  const created = Date.parse(a.createdAt) - Date.parse(b.createdAt);
+  if (created) return created;
+  if (a.stars !== b.stars) return b.stars - a.stars;
+  return a.id.localeCompare(b.id);
+}
+
+/**
+ * Marketplaces and plugins counted in ecosystem totals: everything except forks
+ * and mirrors, and the plugins listed by them
+ */
+export function excludeDuplicateMarketplaces<M extends { id: string; duplicateOf?: unknown }, P>(
+  marketplaces: M[],
+  plugins: P[],
+  getMarketplaceId: (plugin: P) => string | undefined
+): { marketplaces: M[]; plugins: P[] } {
+  const duplicateIds = new Set(marketplaces.filter((mp) => mp.duplicateOf).map((mp) => mp.id));
+  if (duplicateIds.size === 0) return { marketplaces, plugins };
+
+  return {
+    marketplaces: marketplaces.filter((mp) => !duplicateIds.has(mp.id)),
+    plugins: plugins.filter((plugin) => {
+      const marketplaceId = getMarketplaceId(plugin);
+      return !marketplaceId || !duplicateIds.has(marketplaceId);
+    }),
+  };
+}
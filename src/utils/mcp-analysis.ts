@@ -0,0 +1,278 @@
+/**
+ * MCP server configuration analysis
+ *
+ * Parses MCP server entries from `.mcp.json` or a plugin manifest into a typed model
+ * (transport, launch command, URL, environment variables, packages fetched at launch)
+ * and classifies each server by risk: remote network endpoints, unpinned packages and
+ * shell invocation.
+ */
+
+import type {
+  McpPackageRef,
+  McpPackageRunner,
+  McpRiskAssessment,
+  McpRiskFinding,
+  McpRiskLevel,
+  McpTransport,
+  PluginMcpServerInfo,
+} from '../types/plugin';
+
+/** Risk levels from least to most severe */
+export const MCP_RISK_LEVELS: readonly McpRiskLevel[] = ['none', 'low', 'medium', 'high'];
+
+export const MCP_RISK_LABELS: Record<McpRiskLevel, string> = {
+  none: 'No MCP servers',
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+};
+
+const SHELLS = ['sh', 'bash', 'zsh', 'dash', 'fish', 'cmd', 'powershell', 'pwsh'];
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '0.0.0.0', '[::1]'];
+
+/** Runner flags that consume the following argument */
+const VALUE_FLAGS: Record<McpPackageRunner, string[]> = {
+  npx: ['-p', '--package', '-c', '--call'],
+  bunx: ['-p', '--package'],
+  pnpm: ['-p', '--package'],
+  yarn: ['-p', '--package'],
+  uvx: ['--from', '--with', '--python', '-p', '--index-url', '--extra-index-url'],
+  pipx: ['--spec', '--python', '--pip-args'],
+  docker: [
+    '-e',
+    '--env',
+    '--env-file',
+    '-v',
+    '--volume',
+    '--mount',
+    '-p',
+    '--publish',
+    '--name',
+    '--network',
+    '-w',
+    '--workdir',
+    '--entrypoint',
+    '-u',
+    '--user',
+  ],
+};
+
+/** Flags whose value is the package itself rather than the first positional argument */
+const PACKAGE_FLAGS: Partial<Record<McpPackageRunner, string[]>> = {
+  npx: ['-p', '--package'],
+  bunx: ['-p', '--package'],
+  pnpm: ['-p', '--package'],
+  yarn: ['-p', '--package'],
+  uvx: ['--from'],
+  pipx: ['--spec'],
+};
+
+/** Runners invoked through a subcommand, e.g. `pnpm dlx` or `docker run` */
+const SUBCOMMANDS: Partial<Record<McpPackageRunner, string>> = {
+  pnpm: 'dlx',
+  yarn: 'dlx',
+  pipx: 'run',
+  docker: 'run',
+};
+
+const EXACT_VERSION = /^v?\d+(\.\d+)*([-+.]?[0-9A-Za-z.]+)?$/;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toStringList(value: unknown): string[] | undefined {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string')
+    : undefined;
+}
+
+/**
+ * Executable name without directories or Windows extensions, e.g. `/usr/bin/npx.cmd` → `npx`
+ */
+function getExecutableName(command: string): string {
+  const base = command.trim().split(/\s+/)[0].split(/[\\/]/).pop() || '';
+  return base.replace(/\.(cmd|exe|bat)$/i, '').toLowerCase();
+}
+
+function getTransport(server: Record<string, unknown>): McpTransport {
+  if (server.type === 'stdio' || server.type === 'http' || server.type === 'sse') {
+    return server.type;
+  }
+  if (typeof server.command === 'string') return 'stdio';
+  if (typeof server.url === 'string') return 'http';
+  return 'unknown';
+}
+
+/**
+ * Names of `${VAR}` and `${VAR:-default}` references in a value
+ */
+export function extractEnvReferences(value: string): string[] {
+  return Array.from(value.matchAll(/\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-[^}]*)?\}/g), (m) => m[1]);
+}
+
+/**
+ * Split a package spec into name and version for the given runner
+ *
+ * @example
+ * ```ts
+ * parsePackageSpec('npx', '@scope/server@1.2.0') // { name: '@scope/server', version: '1.2.0', pinned: true }
+ * parsePackageSpec('uvx', 'mcp-server-git')      // { name: 'mcp-server-git', pinned: false }
+ * ```
+ */
+export function parsePackageSpec(
+  runner: McpPackageRunner,
+  spec: string
+): Omit<McpPackageRef, 'runner'> {
+  if (runner === 'docker') {
+    const digest = spec.indexOf('@sha256:');
+    if (digest > 0)
+      return { name: spec.slice(0, digest), version: spec.slice(digest + 1), pinned: true };
+    const tag = spec.lastIndexOf(':');
+    if (tag > spec.lastIndexOf('/')) {
+      const version = spec.slice(tag + 1);
+      return { name: spec.slice(0, tag), version, pinned: EXACT_VERSION.test(version) };
+    }
+    return { name: spec, pinned: false };
+  }
+
+  if (runner === 'uvx' || runner === 'pipx') {
+    const match = spec.match(/^([^=<>~!@\s]+)\s*(==|@|>=|<=|~=|>|<)\s*(\S+)$/);
+    if (!match) return { name: spec, pinned: false };
+    const [, name, operator, version] = match;
+    const exact = (operator === '==' || operator === '@') && !version.includes('*');
+    return { name, version, pinned: exact && EXACT_VERSION.test(version) };
+  }
+
+  // npm-style runners: the version follows the last `@` that is not the scope marker
+  const at = spec.lastIndexOf('@');
+  if (at <= 0) return { name: spec, pinned: false };
+  const version = spec.slice(at + 1);
+  return { name: spec.slice(0, at), version, pinned: EXACT_VERSION.test(version) };
+}
+
+/**
+ * Detect the package a launch command downloads, e.g. `npx -y @scope/server` or
+ * `docker run -i --rm image:tag`. Returns an empty list for other commands.
+ */
+export function detectPackages(command: string, args: string[] = []): McpPackageRef[] {
+  // `"command": "npx -y pkg"` is split the way a shell would, roughly
+  const [executable, ...inline] = command.trim().split(/\s+/);
+  const runner = getExecutableName(executable) as McpPackageRunner;
+  if (!(runner in VALUE_FLAGS)) return [];
+
+  let rest = [...inline, ...args];
+  const subcommand = SUBCOMMANDS[runner];
+  if (subcommand) {
+    if (rest[0] !== subcommand) return [];
+    rest = rest.slice(1);
+  }
+
+  const valueFlags = VALUE_FLAGS[runner];
+  const packageFlags = PACKAGE_FLAGS[runner] || [];
+  let spec: string | undefined;
+
+  for (let i = 0; i < rest.length && !spec; i++) {
+    const arg = rest[i];
+    const [flag, inlineValue] = arg.split(/=(.*)/);
+
+    if (packageFlags.includes(flag)) {
+      spec = inlineValue ?? rest[i + 1];
+    } else if (arg.startsWith('-')) {
+      if (inlineValue === undefined && valueFlags.includes(flag)) i++;
+    } else {
+      spec = arg;
+    }
+  }
+
+  return spec ? [{ runner, ...parsePackageSpec(runner, spec) }] : [];
+}
+
+/**
+ * Parse a single MCP server entry
+ */
+export function parseMcpServer(name: string, server: Record<string, unknown>): PluginMcpServerInfo {
+  const command = typeof server.command === 'string' ? server.command : undefined;
+  const args = toStringList(server.args);
+  const url = typeof server.url === 'string' ? server.url : undefined;
+  const headers = isRecord(server.headers) ? Object.values(server.headers) : [];
+
+  const env = new Set<string>(isRecord(server.env) ? Object.keys(server.env) : []);
+  [command, url, ...(args || []), ...headers]
+    .filter((value): value is string => typeof value === 'string')
+    .forEach((value) => extractEnvReferences(value).forEach((variable) => env.add(variable)));
+
+  const info: PluginMcpServerInfo = { name, transport: getTransport(server), command, args, url };
+  if (env.size > 0) info.env = Array.from(env).sort();
+  if (command) {
+    const packages = detectPackages(command, args);
+    if (packages.length > 0) info.packages = packages;
+  }
+  return info;
+}
+
+function isRemoteUrl(url: string): boolean {
+  const host = url.match(/^[a-z][a-z0-9+.-]*:\/\/([^/:?#]+|\[[^\]]+\])/i)?.[1]?.toLowerCase();
+  return !host || !LOCAL_HOSTS.includes(host);
+}
+
+/**
+ * Risks found in a single server configuration
+ */
+export function classifyMcpServer(server: PluginMcpServerInfo): McpRiskFinding[] {
+  const findings: McpRiskFinding[] = [];
+  const finding = (kind: McpRiskFinding['kind'], level: McpRiskFinding['level'], message: string) =>
+    findings.push({ kind, level, server: server.name, message });
+
+  if (server.url && isRemoteUrl(server.url)) {
+    const plainHttp = /^http:/i.test(server.url);
+    finding(
+      'remote-endpoint',
+      plainHttp ? 'high' : 'medium',
+      plainHttp
+        ? `Connects to a remote endpoint over unencrypted HTTP: ${server.url}`
+        : `Sends requests to a remote endpoint: ${server.url}`
+    );
+  }
+
+  for (const pkg of server.packages || []) {
+    if (!pkg.pinned) {
+      finding(
+        'unpinned-package',
+        'medium',
+        `Fetches ${pkg.name} via ${pkg.runner} without a pinned version, so each launch may run a different release`
+      );
+    }
+  }
+
+  if (server.command && SHELLS.includes(getExecutableName(server.command))) {
+    finding(
+      'shell-invocation',
+      'high',
+      `Launches through ${getExecutableName(server.command)}, which can run arbitrary shell commands`
+    );
+  }
+
+  return findings;
+}
+
+export function compareMcpRiskLevels(a: McpRiskLevel, b: McpRiskLevel): number {
+  return MCP_RISK_LEVELS.indexOf(a) - MCP_RISK_LEVELS.indexOf(b);
+}
+
+/**
+ * Classify every MCP server a plugin declares. Servers without findings still rate
+ * `low`, since they run code or exchange data outside Claude Code.
+ */
+export function assessMcpServers(servers: PluginMcpServerInfo[]): McpRiskAssessment {
+  const findings = servers.flatMap(classifyMcpServer);
+  const level = findings.reduce<McpRiskLevel>(
+    (highest, item) => (compareMcpRiskLevels(item.level, highest) > 0 ? item.level : highest),
+    servers.length > 0 ? 'low' : 'none'
+  );
+  return { level, servers: servers.length, findings };
+}
+
+export function isMcpRiskLevel(value: string): value is McpRiskLevel {
+  return (MCP_RISK_LEVELS as readonly string[]).includes(value);
+}
@@ -0,0 +1,260 @@
+/**
+ * Moderation
+ *
+ * Block and allow rules for marketplaces and plugins (config/moderation.json): spam,
+ * mirrors of other marketplaces, malicious content and authors' removal requests.
+ * The scanner and the data generator both apply them, and record every item they
+ * hide in an audit trail whose current state is published as counts per reason.
+ */
+
+import type {
+  ModeratedKind,
+  ModerationAuditEvent,
+  ModerationConfig,
+  ModerationReason,
+  ModerationRule,
+  ModerationSummary,
+} from '../types/processing';
+
+export const MODERATION_REASONS: ModerationReason[] = [
+  'spam',
+  'mirror',
+  'takedown',
+  'malicious',
+  'other',
+];
+
+const REPOSITORY_NAME = /^[\w.-]+\/[\w.-]+$/;
+const OWNER_NAME = /^[\w.-]+$/;
+
+/**
+ * Validate a moderation configuration loaded from JSON
+ *
+ * @throws Error listing every problem found
+ */
+export function parseModerationConfig(raw: unknown): ModerationConfig {
+  const problems: string[] = [];
+  const config = raw as Partial<ModerationConfig> | null;
+
+  if (typeof config !== 'object' || config === null) {
+    throw new Error('Invalid moderation config: expected an object');
+  }
+  if (typeof config.version !== 'string' || !config.version) {
+    problems.push('"version" must be a non-empty string');
+  }
+  if (!Array.isArray(config.rules)) {
+    problems.push('"rules" must be an array');
+  }
+
+  const ids = new Set<string>();
+  (Array.isArray(config.rules) ? config.rules : []).forEach((rule, index) => {
+    const at = `"rules[${index}]`;
+    if (typeof rule?.id !== 'string' || !rule.id) {
+      problems.push(`${at}.id" must be a non-empty string`);
+    } else if (ids.has(rule.id)) {
+      problems.push(`${at}.id" "${rule.id}" is already used`);
+    } else {
+      ids.add(rule.id);
+    }
+    if (rule?.action !== 'block' && rule?.action !== 'allow') {
+      problems.push(`${at}.action" must be "block" or "allow"`);
+    }
+    if (!MODERATION_REASONS.includes(rule?.reason)) {
+      problems.push(`${at}.reason" must be one of: ${MODERATION_REASONS.join(', ')}`);
+    }
+    if (!rule?.owner && !rule?.repository && !rule?.plugin) {
+      problems.push(`${at}" must set at least one of "owner", "repository" or "plugin"`);
+    }
+    if (rule?.owner !== undefined && !OWNER_NAME.test(String(rule.owner))) {
+      problems.push(`${at}.owner" must be a GitHub user or organization name`);
+    }
+    if (rule?.repository !== undefined && !REPOSITORY_NAME.test(String(rule.repository))) {
+      problems.push(`${at}.repository" must be "owner/repo"`);
+    }
+    if (rule?.plugin !== undefined && (typeof rule.plugin !== 'string' || !rule.plugin)) {
+      problems.push(`${at}.plugin" must be a non-empty name pattern`);
+    }
+    if (rule?.expiresAt !== undefined && Number.isNaN(Date.parse(String(rule.expiresAt)))) {
+      problems.push(`${at}.expiresAt" must be a date`);
+    }
+  });
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid moderation config: ${problems.join('; ')}`);
+  }
+  return config as ModerationConfig;
+}
+
+/**
+ * An item to check against the rules
+ */
+export interface ModerationSubject {
+  kind: ModeratedKind;
+  /** `owner/repo` of the marketplace */
+  marketplace: string;
+  /** `owner/repo` of the plugin's own repository, when it is not the marketplace */
+  repository?: string;
+  /** Plugin name; unset for marketplaces */
+  name?: string;
+}
+
+export interface ModerationDecision {
+  hidden: boolean;
+  /** The rule that decided, if any matched */
+  rule?: ModerationRule;
+}
+
+/**
+ * Audit trail name of a subject: `owner/repo` or `owner/repo:plugin-name`
+ */
+export function getModerationSubjectKey(subject: ModerationSubject): string {
+  const marketplace = subject.marketplace.toLowerCase();
+  return subject.kind === 'plugin' ? `${marketplace}:${subject.name ?? ''}` : marketplace;
+}
+
+function toPattern(glob: string): RegExp {
+  const escaped = glob.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+export class ModerationPolicy {
+  private config: ModerationConfig;
+  private now: Date;
+  private patterns = new Map<string, RegExp>();
+
+  constructor(config: ModerationConfig, now: Date = new Date()) {
+    this.config = config;
+    this.now = now;
+  }
+
+  get version(): string {
+    return this.config.version;
+  }
+
+  /**
+   * Rules that have not expired
+   */
+  getActiveRules(): ModerationRule[] {
+    return this.config.rules.filter(
+      (rule) => !rule.expiresAt || Date.parse(rule.expiresAt) > this.now.getTime()
+    );
+  }
+
+  /**
+   * Whether an item is hidden. Allow rules win over block rules.
+   */
+  check(subject: ModerationSubject): ModerationDecision {
+    const matching = this.getActiveRules().filter((rule) => this.matches(rule, subject));
+    const allow = matching.find((rule) => rule.action === 'allow');
+    if (allow) return { hidden: false, rule: allow };
+
+    const block = matching.find((rule) => rule.action === 'block');
+    return block ? { hidden: true, rule: block } : { hidden: false };
+  }
+
+  private matches(rule: ModerationRule, subject: ModerationSubject): boolean {
+    const repositories = [subject.marketplace, subject.repository]
+      .filter((repository): repository is string => !!repository)
+      .map((repository) => repository.toLowerCase());
+
+    if (rule.plugin) {
+      if (subject.kind !== 'plugin' || !subject.name) return false;
+      let pattern = this.patterns.get(rule.plugin);
+      if (!pattern) {
+        pattern = toPattern(rule.plugin);
+        this.patterns.set(rule.plugin, pattern);
+      }
+      if (!pattern.test(subject.name)) return false;
+    }
+    if (rule.repository && !repositories.includes(rule.repository.toLowerCase())) {
+      return false;
+    }
+    if (
+      rule.owner &&
+      !repositories.some((repository) => repository.split('/')[0] === rule.owner?.toLowerCase())
+    ) {
+      return false;
+    }
+    return true;
+  }
+}
+
+export function createModerationPolicy(
+  config: ModerationConfig,
+  now: Date = new Date()
+): ModerationPolicy {
+  return new ModerationPolicy(config, now);
+}
+
+function isModerationAuditEvent(value: unknown): value is ModerationAuditEvent {
+  if (!value || typeof value !== 'object') return false;
+  const event = value as Partial<ModerationAuditEvent>;
+  return (
+    typeof event.at === 'string' &&
+    (event.action === 'hidden' || event.action === 'restored') &&
+    (event.kind === 'marketplace' || event.kind === 'plugin') &&
+    typeof event.subject === 'string'
+  );
+}
+
+/**
+ * Parse the JSON Lines audit trail in the order it was written. Unreadable lines are skipped.
+ */
+export function parseModerationAuditEvents(text: string): ModerationAuditEvent[] {
+  const events: ModerationAuditEvent[] = [];
+
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const parsed: unknown = JSON.parse(line);
+      if (isModerationAuditEvent(parsed)) events.push(parsed);
+    } catch {
+      // Skip partial lines
+    }
+  }
+
+  return events;
+}
+
+export function serializeModerationAuditEvent(event: ModerationAuditEvent): string {
+  return `${JSON.stringify(event)}\n`;
+}
+
+/**
+ * Items hidden right now, keyed by kind and subject, from replaying the audit trail
+ */
+export function getHiddenItems(events: ModerationAuditEvent[]): Map<string, ModerationAuditEvent> {
+  const hidden = new Map<string, ModerationAuditEvent>();
+  for (const event of events) {
+    const key = `${event.kind}:${event.subject}`;
+    if (event.action === 'hidden') {
+      hidden.set(key, event);
+    } else {
+      hidden.delete(key);
+    }
+  }
+  return hidden;
+}
+
+/**
+ * Counts of hidden items by kind and reason, for the public data
+ */
+export function summarizeModeration(
+  events: ModerationAuditEvent[],
+  configVersion: string,
+  now: Date = new Date()
+): ModerationSummary {
+  const summary: ModerationSummary = {
+    lastUpdated: now.toISOString(),
+    configVersion,
+    hidden: { marketplace: 0, plugin: 0 },
+    byReason: {},
+  };
+
+  for (const event of getHiddenItems(events).values()) {
+    summary.hidden[event.kind]++;
+    const reason = event.reason ?? 'other';
+    summary.byReason[reason] = (summary.byReason[reason] ?? 0) + 1;
+  }
+  return summary;
+}
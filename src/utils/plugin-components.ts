@@ -0,0 +1,78 @@
+/**
+ * Plugin component utilities
+ *
+ * Reads the commands, agents, skills, hooks and MCP servers declared in a plugin manifest.
+ * Shared by the scanner, the data generator and inventory parsing.
+ */
+
+import type { PluginComponents } from '../types/plugin';
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** `commands` and `agents` are a path or a list of paths */
+function toPathList(value: unknown): string[] | undefined {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) {
+    return value.filter((item): item is string => typeof item === 'string');
+  }
+  return undefined;
+}
+
+/**
+ * `hooks` and `mcpServers` are either a path to a configuration file or an inline
+ * configuration, optionally wrapped in the same key as the standalone file uses
+ */
+function toConfigEntries(value: unknown, wrapperKey: string): string[] | undefined {
+  if (typeof value === 'string') return [value];
+  if (!isRecord(value)) return undefined;
+  return Object.keys(isRecord(value[wrapperKey]) ? value[wrapperKey] : value);
+}
+
+/**
+ * Extract the components a manifest declares. Component types the manifest does not
+ * mention are left out rather than reported as empty.
+ *
+ * @example
+ * ```ts
+ * extractManifestComponents({ commands: './commands/review.md', mcpServers: { db: {} } })
+ * // { commands: ['./commands/review.md'], mcpServers: ['db'] }
+ * ```
+ */
+export function extractManifestComponents(manifest: unknown): PluginComponents {
+  const components: PluginComponents = {};
+  if (!isRecord(manifest)) return components;
+
+  const commands = toPathList(manifest.commands);
+  if (commands) components.commands = commands;
+
+  const agents = toPathList(manifest.agents);
+  if (agents) components.agents = agents;
+
+  const skills = toPathList(manifest.skills);
+  if (skills) components.skills = skills;
+
+  const hooks = toConfigEntries(manifest.hooks, 'hooks');
+  if (hooks) components.hooks = hooks;
+
+  const mcpServers = toConfigEntries(manifest.mcpServers, 'mcpServers');
+  if (mcpServers) components.mcpServers = mcpServers;
+
+  return components;
+}
+
+/**
+ * Whether a declared component entry points to a file rather than naming an item
+ */
+export function isComponentPath(entry: string): boolean {
+  return entry.includes('/') || /\.(md|json)$/i.test(entry);
+}
+
+/**
+ * Display name of a command or agent file, e.g. `./commands/review.md` → `review`
+ */
+export function getComponentName(entry: string): string {
+  const base = entry.replace(/\/+$/, '').split('/').pop() || entry;
+  return base.replace(/\.md$/i, '');
+}
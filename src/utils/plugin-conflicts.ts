@@ -0,0 +1,192 @@
+/**
+ * Cross-plugin conflict analysis
+ *
+ * Indexes the command, agent and MCP server names and the tool hooks of every
+ * plugin, and reports names claimed by more than one plugin and hooks that run on
+ * the same event for the same tool. Installing two such plugins makes `/review`
+ * or a `PreToolUse` hook on `Bash` ambiguous.
+ */
+
+import type {
+  PluginConflict,
+  PluginConflictKind,
+  PluginConflictParty,
+  PluginConflictReport,
+  PluginInventory,
+} from '../types/plugin';
+
+export const PLUGIN_CONFLICT_KINDS: readonly PluginConflictKind[] = [
+  'command',
+  'agent',
+  'mcpServer',
+  'hook',
+];
+
+export const PLUGIN_CONFLICT_LABELS: Record<PluginConflictKind, string> = {
+  command: 'Command',
+  agent: 'Agent',
+  mcpServer: 'MCP server',
+  hook: 'Hook',
+};
+
+/**
+ * Hook events whose matcher selects tools. Other events (Stop, SessionStart, ...) run
+ * every registered hook without competing for a tool, so they are not reported.
+ */
+export const TOOL_HOOK_EVENTS = ['PreToolUse', 'PostToolUse', 'PermissionRequest'];
+
+/**
+ * A plugin and the components it is known to provide
+ */
+export interface ConflictCandidate extends PluginConflictParty {
+  inventory: Partial<PluginInventory>;
+}
+
+const WILDCARD = '*';
+const LITERAL_TOOL = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Split a hook matcher into the tool names or patterns it lists. A missing, empty or
+ * `*` matcher applies to every tool.
+ */
+export function parseHookMatcher(matcher: string | undefined): string[] {
+  const parts = (matcher ?? '')
+    .split('|')
+    .map((part) => part.trim())
+    .filter(Boolean);
+  return parts.length === 0 || parts.some((part) => part === WILDCARD || part === '.*')
+    ? [WILDCARD]
+    : parts;
+}
+
+function matchesTool(parts: string[], tool: string): boolean {
+  if (parts.includes(WILDCARD)) return true;
+  return parts.some((part) => {
+    if (LITERAL_TOOL.test(part)) return part === tool;
+    try {
+      return new RegExp(`^(?:${part})$`).test(tool);
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * Collect hook conflicts for one event. Every tool named by some matcher is checked
+ * against all matchers, so a wildcard or pattern hook conflicts with a hook that
+ * names the tool.
+ */
+function findHookConflicts(
+  event: string,
+  hooks: Array<{ party: PluginConflictParty; parts: string[] }>
+): PluginConflict[] {
+  const tools = new Set<string>();
+  for (const { parts } of hooks) {
+    for (const part of parts) {
+      if (part === WILDCARD || LITERAL_TOOL.test(part)) tools.add(part);
+    }
+  }
+
+  return Array.from(tools).map((tool) => ({
+    kind: 'hook' as const,
+    name: `${event} ${tool}`,
+    plugins: hooks
+      .filter(({ parts }) =>
+        tool === WILDCARD ? parts.includes(WILDCARD) : matchesTool(parts, tool)
+      )
+      .map(({ party }) => party),
+  }));
+}
+
+const toParty = ({ pluginId, name, marketplaceId }: ConflictCandidate): PluginConflictParty => ({
+  pluginId,
+  name,
+  marketplaceId,
+});
+
+/**
+ * Keep conflicts between at least two different plugins, listing each plugin once
+ */
+function distinctConflicts(conflicts: PluginConflict[]): PluginConflict[] {
+  return conflicts
+    .map((conflict) => ({
+      ...conflict,
+      plugins: Array.from(
+        new Map(conflict.plugins.map((party) => [party.pluginId, party])).values()
+      ).sort((a, b) => a.pluginId.localeCompare(b.pluginId)),
+    }))
+    .filter((conflict) => conflict.plugins.length > 1);
+}
+
+/**
+ * Find every name or hook collision between the given plugins. Component types a
+ * plugin's inventory does not list are unknown and cannot conflict.
+ */
+export function findPluginConflicts(candidates: ConflictCandidate[]): PluginConflict[] {
+  const named = new Map<string, PluginConflict>();
+  const claim = (kind: PluginConflictKind, name: string, party: PluginConflictParty) => {
+    const key = `${kind}:${name.toLowerCase()}`;
+    const conflict = named.get(key) ?? { kind, name, plugins: [] };
+    conflict.plugins.push(party);
+    named.set(key, conflict);
+  };
+  const hooksByEvent = new Map<string, Array<{ party: PluginConflictParty; parts: string[] }>>();
+
+  for (const candidate of candidates) {
+    const party = toParty(candidate);
+    const { commands, agents, mcpServers, hooks } = candidate.inventory;
+
+    commands?.forEach((command) => claim('command', `/${command.name.replace(/^\//, '')}`, party));
+    agents?.forEach((agent) => claim('agent', agent.name, party));
+    mcpServers?.forEach((server) => claim('mcpServer', server.name, party));
+    hooks
+      ?.filter((hook) => TOOL_HOOK_EVENTS.includes(hook.event))
+      .forEach((hook) => {
+        const entries = hooksByEvent.get(hook.event) ?? [];
+        entries.push({ party, parts: parseHookMatcher(hook.matcher) });
+        hooksByEvent.set(hook.event, entries);
+      });
+  }
+
+  const hookConflicts = Array.from(hooksByEvent.entries()).flatMap(([event, hooks]) =>
+    findHookConflicts(event, hooks)
+  );
+
+  return distinctConflicts([...named.values(), ...hookConflicts]).sort(
+    (a, b) =>
+      PLUGIN_CONFLICT_KINDS.indexOf(a.kind) - PLUGIN_CONFLICT_KINDS.indexOf(b.kind) ||
+      b.plugins.length - a.plugins.length ||
+      a.name.localeCompare(b.name)
+  );
+}
+
+/**
+ * Conflicts a plugin takes part in, keyed by plugin ID
+ */
+export function groupConflictsByPlugin(conflicts: PluginConflict[]): Map<string, PluginConflict[]> {
+  const byPlugin = new Map<string, PluginConflict[]>();
+  for (const conflict of conflicts) {
+    for (const party of conflict.plugins) {
+      byPlugin.set(party.pluginId, [...(byPlugin.get(party.pluginId) ?? []), conflict]);
+    }
+  }
+  return byPlugin;
+}
+
+export function buildConflictReport(
+  conflicts: PluginConflict[],
+  lastUpdated: string = new Date().toISOString()
+): PluginConflictReport {
+  const summary = Object.fromEntries(PLUGIN_CONFLICT_KINDS.map((kind) => [kind, 0])) as Record<
+    PluginConflictKind,
+    number
+  >;
+  conflicts.forEach((conflict) => summary[conflict.kind]++);
+
+  return {
+    conflicts,
+    summary,
+    affectedPlugins: groupConflictsByPlugin(conflicts).size,
+    lastUpdated,
+  };
+}
@@ -0,0 +1,35 @@
+/**
+ * Plugin identifier utilities
+ *
+ * Shared between the data generator and the UI so that per-plugin data files
+ * under public/data/plugins/ resolve to the same path on both sides.
+ */
+
+/**
+ * Build the plugin ID used by the UI (`/plugins/[id]`)
+ */
+export function createPluginId(marketplaceId: string, pluginName: string): string {
+  return `${marketplaceId}-${pluginName}`;
+}
+
+/**
+ * Convert a plugin ID into a filesystem- and URL-safe directory name
+ *
+ * @example
+ * ```ts
+ * toPluginSlug('1061953414-Document Skills') // "1061953414-document-skills"
+ * ```
+ */
+export function toPluginSlug(pluginId: string): string {
+  return pluginId
+    .toLowerCase()
+    .replace(/[^a-z0-9._-]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Public path of a per-plugin data file, e.g. `versions.json`
+ */
+export function getPluginDataPath(pluginId: string, file: string): string {
+  return `/data/plugins/${toPluginSlug(pluginId)}/${file}`;
+}
@@ -0,0 +1,230 @@
+/**
+ * Plugin inventory parsing
+ *
+ * Parses the files a Claude Code plugin carries (`commands/*.md`, `agents/*.md`,
+ * `skills/<name>/SKILL.md`, `hooks/hooks.json`, `.mcp.json`) into typed inventory
+ * entries. The scanner fetches the files; everything here is pure.
+ */
+
+import type {
+  PluginAgentInfo,
+  PluginCommandInfo,
+  PluginComponents,
+  PluginHookInfo,
+  PluginInventory,
+  PluginMcpServerInfo,
+  PluginSkillInfo,
+} from '../types/plugin';
+import { parseMcpServer } from './mcp-analysis';
+import { getComponentName, isComponentPath } from './plugin-components';
+
+export type FrontmatterValue = string | string[];
+
+export interface ParsedMarkdown {
+  frontmatter: Record<string, FrontmatterValue>;
+  body: string;
+}
+
+const MAX_DESCRIPTION_LENGTH = 200;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  if (
+    trimmed.length >= 2 &&
+    (trimmed[0] === '"' || trimmed[0] === "'") &&
+    trimmed[trimmed.length - 1] === trimmed[0]
+  ) {
+    return trimmed.slice(1, -1);
+  }
+  return trimmed;
+}
+
+/**
+ * Split YAML frontmatter from a markdown document. Supports the flat subset used by
+ * plugin files: scalars, quoted strings, `[a, b]` lists, `- item` lists and folded
+ * (`>`/`|`) blocks. Anything else is kept as a raw string.
+ */
+export function parseFrontmatter(markdown: string): ParsedMarkdown {
+  const match = markdown.match(/^\uFEFF?---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+  if (!match) return { frontmatter: {}, body: markdown };
+
+  const frontmatter: Record<string, FrontmatterValue> = {};
+  const lines = match[1].split(/\r?\n/);
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index++];
+    const field = line.match(/^([\w-]+)\s*:\s*(.*)$/);
+    if (!field) continue;
+
+    const [, key, rawValue] = field;
+    const value = rawValue.trim();
+
+    // Indented continuation lines and `- item` lines belong to this key
+    const nested: string[] = [];
+    while (index < lines.length && /^(\s+\S|-\s)/.test(lines[index])) {
+      nested.push(lines[index++].trim());
+    }
+
+    if (value.startsWith('[') && value.endsWith(']')) {
+      frontmatter[key] = value.slice(1, -1).split(',').map(unquote).filter(Boolean);
+    } else if (value === '' && nested.length > 0 && nested.every((item) => item.startsWith('-'))) {
+      frontmatter[key] = nested.map((item) => unquote(item.slice(1)));
+    } else if (value === '>' || value === '|' || value === '>-' || value === '|-') {
+      frontmatter[key] = nested.join(value.startsWith('>') ? ' ' : '\n');
+    } else {
+      frontmatter[key] = [unquote(value), ...nested].join(' ').trim();
+    }
+  }
+
+  return { frontmatter, body: markdown.slice(match[0].length) };
+}
+
+function getString(frontmatter: Record<string, FrontmatterValue>, key: string): string | undefined {
+  const value = frontmatter[key];
+  // Unquoted `[file]` parses as a list; render it the way it was written
+  if (Array.isArray(value)) return value.length > 0 ? `[${value.join(', ')}]` : undefined;
+  return value || undefined;
+}
+
+/** `tools: Read, Grep` and `tools: [Read, Grep]` are both accepted */
+function getList(frontmatter: Record<string, FrontmatterValue>, key: string): string[] | undefined {
+  const value = frontmatter[key];
+  if (value === undefined) return undefined;
+  const items = (Array.isArray(value) ? value : value.split(','))
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+/**
+ * First paragraph of a markdown body, skipping headings
+ */
+function getFirstParagraph(body: string): string | undefined {
+  const line = body
+    .split(/\r?\n/)
+    .map((item) => item.trim())
+    .find((item) => item !== '' && !item.startsWith('#'));
+  return line ? line.slice(0, MAX_DESCRIPTION_LENGTH) : undefined;
+}
+
+function getDescription(parsed: ParsedMarkdown): string | undefined {
+  return getString(parsed.frontmatter, 'description') ?? getFirstParagraph(parsed.body);
+}
+
+export function parseCommandFile(path: string, content: string): PluginCommandInfo {
+  const parsed = parseFrontmatter(content);
+  return {
+    name: getComponentName(path),
+    description: getDescription(parsed),
+    argumentHint: getString(parsed.frontmatter, 'argument-hint'),
+    path,
+  };
+}
+
+export function parseAgentFile(path: string, content: string): PluginAgentInfo {
+  const parsed = parseFrontmatter(content);
+  return {
+    name: getString(parsed.frontmatter, 'name') ?? getComponentName(path),
+    description: getDescription(parsed),
+    tools: getList(parsed.frontmatter, 'tools'),
+    model: getString(parsed.frontmatter, 'model'),
+    path,
+  };
+}
+
+/**
+ * @param path - Skill directory, e.g. `skills/pdf`
+ */
+export function parseSkillFile(path: string, content: string): PluginSkillInfo {
+  const parsed = parseFrontmatter(content);
+  return {
+    name: getString(parsed.frontmatter, 'name') ?? getComponentName(path),
+    description: getDescription(parsed),
+    path,
+  };
+}
+
+/**
+ * Parse a hooks configuration: `{ hooks: { Event: [{ matcher, hooks: [...] }] } }`
+ * or the event map on its own. Malformed entries are skipped.
+ */
+export function parseHooksConfig(config: unknown): PluginHookInfo[] {
+  if (!isRecord(config)) return [];
+  const events = isRecord(config.hooks) ? config.hooks : config;
+  const hooks: PluginHookInfo[] = [];
+
+  for (const [event, groups] of Object.entries(events)) {
+    if (!Array.isArray(groups)) continue;
+
+    for (const group of groups) {
+      if (!isRecord(group)) continue;
+      const handlers = Array.isArray(group.hooks) ? group.hooks : [];
+      hooks.push({
+        event,
+        matcher: typeof group.matcher === 'string' && group.matcher ? group.matcher : undefined,
+        commands: handlers
+          .map((handler) => (isRecord(handler) ? handler.command : undefined))
+          .filter((command): command is string => typeof command === 'string'),
+      });
+    }
+  }
+
+  return hooks;
+}
+
+/**
+ * Parse an MCP configuration: `{ mcpServers: { name: {...} } }` or the server map on
+ * its own. Malformed entries are skipped.
+ */
+export function parseMcpConfig(config: unknown): PluginMcpServerInfo[] {
+  if (!isRecord(config)) return [];
+  const servers = isRecord(config.mcpServers) ? config.mcpServers : config;
+
+  return Object.entries(servers)
+    .filter((entry): entry is [string, Record<string, unknown>] => isRecord(entry[1]))
+    .map(([name, server]) => parseMcpServer(name, server));
+}
+
+/**
+ * Best-effort inventory from manifest declarations alone, for plugins whose directory
+ * has not been walked. Component types that cannot be resolved without fetching files
+ * (directories, configuration file paths) stay undefined, i.e. unknown.
+ */
+export function inventoryFromComponents(components: PluginComponents): Partial<PluginInventory> {
+  const inventory: Partial<PluginInventory> = {};
+  const isFile = (entry: string) => /\.md$/i.test(entry);
+  const resolvable = (entries: string[] | undefined, check: (entry: string) => boolean) =>
+    entries !== undefined && entries.every(check);
+
+  if (resolvable(components.commands, isFile)) {
+    inventory.commands = (components.commands ?? []).map((path) => ({
+      name: getComponentName(path),
+      path,
+    }));
+  }
+  if (resolvable(components.agents, isFile)) {
+    inventory.agents = (components.agents ?? []).map((path) => ({
+      name: getComponentName(path),
+      path,
+    }));
+  }
+  if (components.skills !== undefined) {
+    inventory.skills = components.skills.map((path) => ({ name: getComponentName(path), path }));
+  }
+  if (resolvable(components.hooks, (entry) => !isComponentPath(entry))) {
+    inventory.hooks = (components.hooks ?? []).map((event) => ({ event, commands: [] }));
+  }
+  if (resolvable(components.mcpServers, (entry) => !isComponentPath(entry))) {
+    inventory.mcpServers = (components.mcpServers ?? []).map((name) => ({
+      name,
+      transport: 'unknown',
+    }));
+  }
+
+  return inventory;
+}
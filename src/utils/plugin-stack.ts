@@ -0,0 +1,201 @@
+/**
+ * Team plugin stacks
+ *
+ * A stack is a set of plugins, possibly from several marketplaces, that a team
+ * picks on the site and rolls out together through one `.claude/settings.json`.
+ * The stack is kept in the browser; these helpers restore it, review it for
+ * problems and render the settings file.
+ */
+
+import type { SelectionState } from '../types/common';
+import type { PluginConflict } from '../types/plugin';
+import type { MarketplacePlugin } from '../data/mock-data';
+import { PLUGIN_CONFLICT_LABELS } from './plugin-conflicts';
+import {
+  formatMarketplaceSource,
+  getPluginInstallTarget,
+  PluginInstallTarget,
+  renderTeamPluginSettings,
+} from './install-commands';
+
+/**
+ * What the stack remembers about a plugin, enough to export it without reloading
+ * the plugin data
+ */
+export interface StackPlugin {
+  id: string;
+  name: string;
+  marketplace: string;
+  marketplaceUrl: string;
+  marketplaceName?: string;
+}
+
+export type StackIssueKind =
+  | 'missing-source'
+  | 'guessed-marketplace-name'
+  | 'marketplace-clash'
+  | 'conflict';
+
+export interface StackIssue {
+  kind: StackIssueKind;
+  /** Errors change what gets exported; warnings only need a look */
+  severity: 'error' | 'warning';
+  pluginIds: string[];
+  message: string;
+}
+
+export interface StackReview {
+  /** Install targets of the plugins that make it into the settings */
+  targets: PluginInstallTarget[];
+  issues: StackIssue[];
+  /** `.claude/settings.json` contents */
+  settings: string;
+}
+
+export function toStackPlugin(plugin: MarketplacePlugin): StackPlugin {
+  return {
+    id: plugin.id,
+    name: plugin.name,
+    marketplace: plugin.marketplace,
+    marketplaceUrl: plugin.marketplaceUrl,
+    marketplaceName: plugin.marketplaceName,
+  };
+}
+
+/**
+ * Selection state of `selected`, measured against the `available` items when
+ * given (e.g. the plugins of one marketplace)
+ */
+export function getSelectionState<T extends { id: string }>(
+  selected: T[],
+  available?: { id: string }[]
+): SelectionState<T> {
+  const selectedIds = selected.map((item) => item.id);
+  if (!available) {
+    return {
+      selected,
+      selectedIds,
+      isAllSelected: false,
+      isPartiallySelected: selected.length > 0,
+    };
+  }
+
+  const ids = new Set(selectedIds);
+  const count = available.filter((item) => ids.has(item.id)).length;
+  return {
+    selected,
+    selectedIds,
+    isAllSelected: available.length > 0 && count === available.length,
+    isPartiallySelected: count > 0 && count < available.length,
+  };
+}
+
+/**
+ * Restore a stack saved with `JSON.stringify`, dropping malformed and repeated entries
+ */
+export function parseStoredStack(raw: string | null): StackPlugin[] {
+  if (!raw) return [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(parsed)) return [];
+
+  const seen = new Set<string>();
+  const plugins: StackPlugin[] = [];
+  for (const entry of parsed) {
+    if (
+      !entry ||
+      typeof entry.id !== 'string' ||
+      typeof entry.name !== 'string' ||
+      seen.has(entry.id)
+    ) {
+      continue;
+    }
+
+    seen.add(entry.id);
+    plugins.push({
+      id: entry.id,
+      name: entry.name,
+      marketplace: typeof entry.marketplace === 'string' ? entry.marketplace : '',
+      marketplaceUrl: typeof entry.marketplaceUrl === 'string' ? entry.marketplaceUrl : '',
+      marketplaceName:
+        typeof entry.marketplaceName === 'string' ? entry.marketplaceName : undefined,
+    });
+  }
+  return plugins;
+}
+
+/**
+ * Check a stack before exporting it: plugins without a marketplace repository
+ * are left out, marketplace names guessed from the repository or claimed by two
+ * repositories are flagged, and so are conflicts between the chosen plugins.
+ */
+export function reviewStack(plugins: StackPlugin[], conflicts: PluginConflict[] = []): StackReview {
+  const issues: StackIssue[] = [];
+  const targets: PluginInstallTarget[] = [];
+  const sources = new Map<string, { source: string; pluginIds: string[] }[]>();
+
+  for (const plugin of plugins) {
+    const target = getPluginInstallTarget(plugin);
+    if (!target) {
+      issues.push({
+        kind: 'missing-source',
+        severity: 'error',
+        pluginIds: [plugin.id],
+        message: `${plugin.name} has no known marketplace repository and is left out of the settings.`,
+      });
+      continue;
+    }
+
+    targets.push(target);
+    if (!plugin.marketplaceName?.trim()) {
+      issues.push({
+        kind: 'guessed-marketplace-name',
+        severity: 'warning',
+        pluginIds: [plugin.id],
+        message: `The marketplace of ${plugin.name} has not been scanned; its name "${target.marketplace}" is taken from the repository.`,
+      });
+    }
+
+    const source = formatMarketplaceSource(target.source);
+    const entries = sources.get(target.marketplace) ?? [];
+    const entry = entries.find((existing) => existing.source === source);
+    if (entry) {
+      entry.pluginIds.push(plugin.id);
+    } else {
+      entries.push({ source, pluginIds: [plugin.id] });
+    }
+    sources.set(target.marketplace, entries);
+  }
+
+  for (const [marketplace, entries] of sources) {
+    if (entries.length < 2) continue;
+    issues.push({
+      kind: 'marketplace-clash',
+      severity: 'error',
+      pluginIds: entries.flatMap((entry) => entry.pluginIds),
+      message: `Several repositories are named "${marketplace}" (${entries.map((entry) => entry.source).join(', ')}); only the last one is registered.`,
+    });
+  }
+
+  const names = new Map(plugins.map((plugin) => [plugin.id, plugin.name]));
+  for (const conflict of conflicts) {
+    const pluginIds = conflict.plugins
+      .map((party) => party.pluginId)
+      .filter((pluginId) => names.has(pluginId));
+    if (pluginIds.length < 2) continue;
+
+    issues.push({
+      kind: 'conflict',
+      severity: 'warning',
+      pluginIds,
+      message: `${PLUGIN_CONFLICT_LABELS[conflict.kind]} ${conflict.name} is claimed by ${pluginIds.map((pluginId) => names.get(pluginId)).join(' and ')}.`,
+    });
+  }
+
+  return { targets, issues, settings: renderTeamPluginSettings(targets) };
+}
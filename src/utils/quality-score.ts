@@ -0,0 +1,481 @@
+/**
+ * Quality scoring engine
+ *
+ * Rates plugins, marketplaces and repositories from a set of signals. Each signal
+ * normalizes one input to 0-1; weights come from a versioned configuration file
+ * (config/quality-scoring.json) so they can be tuned without code changes. Every score
+ * carries a per-signal breakdown explaining how it was reached.
+ */
+
+import defaultConfig from '../../config/quality-scoring.json';
+import type {
+  QualityBreakdown,
+  QualityScoringConfig,
+  QualitySignalScore,
+  QualitySubject,
+} from '../types/processing';
+import type { McpRiskLevel } from '../types/plugin';
+
+export interface RepositoryQualityInput {
+  stars: number;
+  forks: number;
+  createdAt?: string;
+  /** Last update or push */
+  updatedAt?: string;
+  description?: string | null;
+  license?: string | null;
+  topics?: string[];
+}
+
+export interface MarketplaceQualityInput extends RepositoryQualityInput {
+  pluginCount: number;
+}
+
+/**
+ * Plugin inputs. Undefined values are reported as "not measured" and earn no points.
+ */
+export interface PluginQualityInput {
+  description?: string;
+  version?: string;
+  license?: string;
+  author?: string;
+  homepage?: string;
+  keywords?: string[];
+  /** Commands, agents, skills, hooks and MCP servers found */
+  componentCount?: number;
+  validation?: { errors: number; warnings: number };
+  stars?: number;
+  /** Last push to the plugin repository */
+  pushedAt?: string;
+  mcpRisk?: McpRiskLevel;
+}
+
+export interface QualityInputs {
+  plugin: PluginQualityInput;
+  marketplace: MarketplaceQualityInput;
+  repository: RepositoryQualityInput;
+}
+
+export interface QualitySignalResult {
+  /** 0-1, or null when the input is unavailable */
+  value: number | null;
+  detail: string;
+}
+
+export interface QualitySignal<T> {
+  id: string;
+  label: string;
+  evaluate(input: T, now: Date): QualitySignalResult;
+}
+
+export const QUALITY_SUBJECTS: readonly QualitySubject[] = ['plugin', 'marketplace', 'repository'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function notMeasured(what: string): QualitySignalResult {
+  return { value: null, detail: `Not measured: ${what} unavailable` };
+}
+
+function plural(count: number, noun: string): string {
+  return `${count.toLocaleString()} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function daysSince(date: string | undefined, now: Date): number | null {
+  const time = date ? new Date(date).getTime() : NaN;
+  return Number.isNaN(time) ? null : Math.max(0, Math.floor((now.getTime() - time) / DAY_MS));
+}
+
+/**
+ * Value of the first tier whose threshold the amount exceeds, e.g. stars > 1000 → 1
+ */
+function tier(amount: number, tiers: Array<[number, number]>): number {
+  return tiers.find(([threshold]) => amount > threshold)?.[1] ?? 0;
+}
+
+function recency(date: string | undefined, now: Date, tiers: Array<[number, number]>) {
+  const days = daysSince(date, now);
+  if (days === null) return notMeasured('update date');
+  const value = tiers.find(([maxDays]) => days < maxDays)?.[1] ?? 0;
+  return { value, detail: `Updated ${plural(days, 'day')} ago` };
+}
+
+function presence(value: string | null | undefined, label: string): QualitySignalResult {
+  return value ? { value: 1, detail: `${label}: ${value}` } : { value: 0, detail: `No ${label}` };
+}
+
+function describe(description: string | null | undefined, fullLength: number) {
+  const length = description?.trim().length ?? 0;
+  if (length === 0) return { value: 0, detail: 'No description' };
+  return length > fullLength
+    ? { value: 1, detail: `Description of ${length} characters` }
+    : { value: 0.5, detail: `Short description (${length} characters)` };
+}
+
+const STAR_TIERS: Array<[number, number]> = [
+  [1000, 1],
+  [100, 0.75],
+  [10, 0.5],
+  [0, 0.25],
+];
+
+const repositorySignals: QualitySignal<RepositoryQualityInput>[] = [
+  {
+    id: 'age',
+    label: 'Repository age',
+    evaluate: (input, now) => {
+      const days = daysSince(input.createdAt, now);
+      if (days === null) return notMeasured('creation date');
+      const value = tier(days, [
+        [365, 1],
+        [90, 0.75],
+        [30, 0.5],
+      ]);
+      return { value: value || 0.25, detail: `Created ${plural(days, 'day')} ago` };
+    },
+  },
+  {
+    id: 'stars',
+    label: 'Stars',
+    evaluate: (input) => ({
+      value: tier(input.stars, STAR_TIERS),
+      detail: plural(input.stars, 'star'),
+    }),
+  },
+  {
+    id: 'forks',
+    label: 'Forks',
+    evaluate: (input) => ({
+      value: tier(input.forks, [
+        [100, 1],
+        [10, 2 / 3],
+        [0, 1 / 3],
+      ]),
+      detail: plural(input.forks, 'fork'),
+    }),
+  },
+  {
+    id: 'activity',
+    label: 'Recent activity',
+    evaluate: (input, now) =>
+      recency(input.updatedAt, now, [
+        [7, 1],
+        [30, 2 / 3],
+        [90, 1 / 3],
+      ]),
+  },
+  {
+    id: 'description',
+    label: 'Description',
+    evaluate: (input) => describe(input.description, 50),
+  },
+  {
+    id: 'license',
+    label: 'License',
+    evaluate: (input) => presence(input.license, 'license'),
+  },
+  {
+    id: 'topics',
+    label: 'Topics',
+    evaluate: (input) => {
+      const count = input.topics?.length ?? 0;
+      return {
+        value: tier(count, [
+          [3, 1],
+          [0, 0.5],
+        ]),
+        detail: plural(count, 'topic'),
+      };
+    },
+  },
+];
+
+const marketplaceSignals: QualitySignal<MarketplaceQualityInput>[] = [
+  {
+    id: 'stars',
+    label: 'Stars',
+    evaluate: (input) => ({
+      value: Math.min(input.stars / 3000, 1),
+      detail: plural(input.stars, 'star'),
+    }),
+  },
+  {
+    id: 'forks',
+    label: 'Forks',
+    evaluate: (input) => ({
+      value: Math.min(input.forks / 750, 1),
+      detail: plural(input.forks, 'fork'),
+    }),
+  },
+  {
+    id: 'plugins',
+    label: 'Plugins listed',
+    evaluate: (input) => ({
+      value: Math.min(input.pluginCount / 12.5, 1),
+      detail: plural(input.pluginCount, 'plugin'),
+    }),
+  },
+  {
+    id: 'activity',
+    label: 'Recent activity',
+    evaluate: (input, now) =>
+      recency(input.updatedAt, now, [
+        [30, 1],
+        [90, 2 / 3],
+        [365, 1 / 3],
+      ]),
+  },
+  {
+    id: 'license',
+    label: 'License',
+    evaluate: (input) => presence(input.license, 'license'),
+  },
+  {
+    id: 'topics',
+    label: 'Topics',
+    evaluate: (input) => {
+      const count = input.topics?.length ?? 0;
+      return { value: Math.min(count / 5, 1), detail: plural(count, 'topic') };
+    },
+  },
+];
+
+const pluginSignals: QualitySignal<PluginQualityInput>[] = [
+  {
+    id: 'description',
+    label: 'Description',
+    evaluate: (input) => describe(input.description, 40),
+  },
+  {
+    id: 'documentation',
+    label: 'Homepage',
+    evaluate: (input) => presence(input.homepage, 'homepage'),
+  },
+  {
+    id: 'version',
+    label: 'Versioning',
+    evaluate: (input) => {
+      if (!input.version) return { value: 0, detail: 'No version' };
+      return /^\d+\.\d+\.\d+([-+][0-9A-Za-z.-]+)?$/.test(input.version)
+        ? { value: 1, detail: `Semantic version ${input.version}` }
+        : { value: 0.5, detail: `Version "${input.version}" is not semantic` };
+    },
+  },
+  {
+    id: 'license',
+    label: 'License',
+    evaluate: (input) => presence(input.license, 'license'),
+  },
+  {
+    id: 'author',
+    label: 'Author',
+    evaluate: (input) => presence(input.author, 'author'),
+  },
+  {
+    id: 'keywords',
+    label: 'Keywords',
+    evaluate: (input) => {
+      const count = input.keywords?.length ?? 0;
+      return {
+        value: tier(count, [
+          [2, 1],
+          [0, 0.5],
+        ]),
+        detail: plural(count, 'keyword'),
+      };
+    },
+  },
+  {
+    id: 'components',
+    label: 'Components',
+    evaluate: (input) =>
+      input.componentCount === undefined
+        ? notMeasured('plugin directory scan')
+        : {
+            value: input.componentCount > 0 ? 1 : 0,
+            detail: plural(input.componentCount, 'component'),
+          },
+  },
+  {
+    id: 'validation',
+    label: 'Manifest validation',
+    evaluate: (input) => {
+      if (!input.validation) return notMeasured('validation result');
+      const { errors, warnings } = input.validation;
+      if (errors > 0) return { value: 0, detail: plural(errors, 'validation error') };
+      return {
+        value: Math.max(0, 1 - warnings * 0.25),
+        detail: warnings > 0 ? plural(warnings, 'validation warning') : 'Valid manifest',
+      };
+    },
+  },
+  {
+    id: 'popularity',
+    label: 'Repository stars',
+    evaluate: (input) =>
+      input.stars === undefined
+        ? notMeasured('repository statistics')
+        : { value: tier(input.stars, STAR_TIERS), detail: plural(input.stars, 'star') },
+  },
+  {
+    id: 'maintenance',
+    label: 'Maintenance',
+    evaluate: (input, now) =>
+      input.pushedAt === undefined
+        ? notMeasured('repository statistics')
+        : recency(input.pushedAt, now, [
+            [30, 1],
+            [90, 2 / 3],
+            [365, 1 / 3],
+          ]),
+  },
+  {
+    id: 'mcpRisk',
+    label: 'MCP server risk',
+    evaluate: (input) => {
+      switch (input.mcpRisk) {
+        case undefined:
+          return notMeasured('MCP configuration');
+        case 'none':
+          return { value: 1, detail: 'No MCP servers' };
+        case 'low':
+          return { value: 1, detail: 'Low-risk MCP servers' };
+        case 'medium':
+          return { value: 0.5, detail: 'Medium-risk MCP servers' };
+        case 'high':
+          return { value: 0, detail: 'High-risk MCP servers' };
+      }
+    },
+  },
+];
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Validate a scoring configuration loaded from JSON
+ *
+ * @throws Error listing every problem found
+ */
+export function parseQualityScoringConfig(raw: unknown): QualityScoringConfig {
+  const problems: string[] = [];
+  const config = raw as Partial<QualityScoringConfig> | null;
+
+  if (typeof config !== 'object' || config === null) {
+    throw new Error('Invalid quality scoring config: expected an object');
+  }
+  if (typeof config.version !== 'string' || !config.version) {
+    problems.push('"version" must be a non-empty string');
+  }
+
+  const weights = (config.weights ?? {}) as Partial<Record<QualitySubject, unknown>>;
+  for (const subject of QUALITY_SUBJECTS) {
+    const subjectWeights = weights[subject];
+    if (typeof subjectWeights !== 'object' || subjectWeights === null) {
+      problems.push(`"weights.${subject}" must be an object`);
+      continue;
+    }
+    for (const [signal, weight] of Object.entries(subjectWeights)) {
+      if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+        problems.push(`"weights.${subject}.${signal}" must be a non-negative number`);
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid quality scoring config: ${problems.join('; ')}`);
+  }
+  return config as QualityScoringConfig;
+}
+
+export const DEFAULT_QUALITY_CONFIG: QualityScoringConfig =
+  parseQualityScoringConfig(defaultConfig);
+
+/**
+ * Scores subjects with registered signals and configured weights
+ */
+export class QualityScorer {
+  private config: QualityScoringConfig;
+  private signals: { [S in QualitySubject]: QualitySignal<QualityInputs[S]>[] };
+
+  constructor(config: QualityScoringConfig) {
+    this.config = config;
+    this.signals = {
+      plugin: [...pluginSignals],
+      marketplace: [...marketplaceSignals],
+      repository: [...repositorySignals],
+    };
+  }
+
+  get version(): string {
+    return this.config.version;
+  }
+
+  /**
+   * Add a signal, or replace the built-in one with the same ID. It is only scored once
+   * the configuration gives it a weight.
+   */
+  register<S extends QualitySubject>(subject: S, signal: QualitySignal<QualityInputs[S]>): this {
+    const signals = this.signals[subject] as QualitySignal<QualityInputs[S]>[];
+    const existing = signals.findIndex((item) => item.id === signal.id);
+    if (existing === -1) {
+      signals.push(signal);
+    } else {
+      signals[existing] = signal;
+    }
+    return this;
+  }
+
+  /**
+   * Score a subject. Weights are normalized so the maximum is always 100; signals that
+   * cannot be measured keep their share of the maximum but earn no points.
+   */
+  score<S extends QualitySubject>(
+    subject: S,
+    input: QualityInputs[S],
+    now: Date = new Date()
+  ): QualityBreakdown {
+    const weights = this.config.weights[subject] ?? {};
+    const signals = (this.signals[subject] as QualitySignal<QualityInputs[S]>[]).filter(
+      (signal) => (weights[signal.id] ?? 0) > 0
+    );
+    const totalWeight = signals.reduce((sum, signal) => sum + weights[signal.id], 0);
+
+    const scores: QualitySignalScore[] = signals.map((signal) => {
+      const weight = weights[signal.id];
+      const result = signal.evaluate(input, now);
+      const value = result.value === null ? null : Math.min(Math.max(result.value, 0), 1);
+      const maxPoints = (weight / totalWeight) * 100;
+      return {
+        id: signal.id,
+        label: signal.label,
+        weight,
+        value,
+        points: round((value ?? 0) * maxPoints),
+        maxPoints: round(maxPoints),
+        detail: result.detail,
+      };
+    });
+
+    const total = signals.reduce((sum, signal, index) => {
+      const value = scores[index].value ?? 0;
+      return sum + value * (weights[signal.id] / totalWeight) * 100;
+    }, 0);
+
+    return {
+      subject,
+      score: Math.min(Math.round(total), 100),
+      configVersion: this.config.version,
+      signals: scores,
+    };
+  }
+}
+
+/**
+ * Create a scorer with the given configuration, by default config/quality-scoring.json
+ */
+export function createQualityScorer(
+  config: QualityScoringConfig = DEFAULT_QUALITY_CONFIG
+): QualityScorer {
+  return new QualityScorer(config);
+}
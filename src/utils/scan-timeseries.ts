@@ -0,0 +1,156 @@
+/**
+ * Scan Time Series
+ *
+ * Ordered scan snapshots with lookups by date and diffs between scans. The store
+ * is a JSON Lines file (one snapshot per line) so each run only has to append.
+ */
+
+import type { ScanSnapshot } from '../types/processing';
+
+/**
+ * What changed between two scan snapshots
+ */
+export interface SnapshotDiff {
+  pluginsAdded: string[];
+  pluginsRemoved: string[];
+  marketplacesAdded: string[];
+  marketplacesRemoved: string[];
+  /** Plugins present in both snapshots whose version changed */
+  versionChanges: Array<{ pluginId: string; previous: string; current: string }>;
+  /** Change in total marketplace stars */
+  starGrowth: number;
+}
+
+const byScanTime = (a: ScanSnapshot, b: ScanSnapshot): number =>
+  Date.parse(a.scannedAt) - Date.parse(b.scannedAt);
+
+function isScanSnapshot(value: unknown): value is ScanSnapshot {
+  if (!value || typeof value !== 'object') return false;
+  const snapshot = value as Partial<ScanSnapshot>;
+  return (
+    typeof snapshot.scannedAt === 'string' &&
+    !Number.isNaN(Date.parse(snapshot.scannedAt)) &&
+    !!snapshot.marketplaces &&
+    typeof snapshot.marketplaces === 'object' &&
+    !!snapshot.plugins &&
+    typeof snapshot.plugins === 'object'
+  );
+}
+
+/**
+ * Total stars across the marketplaces in a snapshot
+ */
+export function getSnapshotStars(snapshot: ScanSnapshot): number {
+  return Object.values(snapshot.marketplaces).reduce((sum, entry) => sum + entry.stars, 0);
+}
+
+/**
+ * Number of distinct plugin authors in a snapshot
+ */
+export function getSnapshotDevelopers(snapshot: ScanSnapshot): number {
+  const authors = new Set<string>();
+  for (const plugin of Object.values(snapshot.plugins)) {
+    if (plugin.author) authors.add(plugin.author);
+  }
+  return authors.size;
+}
+
+export function diffSnapshots(previous: ScanSnapshot, current: ScanSnapshot): SnapshotDiff {
+  const added = (before: object, after: object) =>
+    Object.keys(after).filter((id) => !(id in before));
+
+  const versionChanges: SnapshotDiff['versionChanges'] = [];
+  for (const [pluginId, plugin] of Object.entries(current.plugins)) {
+    const earlier = previous.plugins[pluginId];
+    if (earlier && earlier.version !== plugin.version) {
+      versionChanges.push({ pluginId, previous: earlier.version, current: plugin.version });
+    }
+  }
+
+  return {
+    pluginsAdded: added(previous.plugins, current.plugins),
+    pluginsRemoved: added(current.plugins, previous.plugins),
+    marketplacesAdded: added(previous.marketplaces, current.marketplaces),
+    marketplacesRemoved: added(current.marketplaces, previous.marketplaces),
+    versionChanges,
+    starGrowth: getSnapshotStars(current) - getSnapshotStars(previous),
+  };
+}
+
+/**
+ * Parse a JSON Lines store. Blank and unreadable lines are skipped so one
+ * truncated write does not lose the rest of the history.
+ */
+export function parseScanSnapshots(text: string): ScanSnapshot[] {
+  const snapshots: ScanSnapshot[] = [];
+
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const parsed: unknown = JSON.parse(line);
+      if (isScanSnapshot(parsed)) snapshots.push(parsed);
+    } catch {
+      // Skip partial lines
+    }
+  }
+
+  return snapshots.sort(byScanTime);
+}
+
+export function serializeScanSnapshot(snapshot: ScanSnapshot): string {
+  return `${JSON.stringify(snapshot)}\n`;
+}
+
+export class ScanTimeSeries {
+  private snapshots: ScanSnapshot[];
+
+  constructor(snapshots: ScanSnapshot[] = []) {
+    this.snapshots = [...snapshots].sort(byScanTime);
+  }
+
+  get size(): number {
+    return this.snapshots.length;
+  }
+
+  getSnapshots(): ScanSnapshot[] {
+    return [...this.snapshots];
+  }
+
+  first(): ScanSnapshot | null {
+    return this.snapshots[0] ?? null;
+  }
+
+  latest(): ScanSnapshot | null {
+    return this.snapshots[this.snapshots.length - 1] ?? null;
+  }
+
+  /**
+   * Add a snapshot in time order, replacing any snapshot taken at the same instant
+   */
+  append(snapshot: ScanSnapshot): this {
+    this.snapshots = this.snapshots.filter((s) => s.scannedAt !== snapshot.scannedAt);
+    this.snapshots.push(snapshot);
+    this.snapshots.sort(byScanTime);
+    return this;
+  }
+
+  /**
+   * The latest snapshot taken at or before the given date, or null before the first scan
+   */
+  at(date: Date): ScanSnapshot | null {
+    const time = date.getTime();
+    for (let i = this.snapshots.length - 1; i >= 0; i--) {
+      if (Date.parse(this.snapshots[i].scannedAt) <= time) {
+        return this.snapshots[i];
+      }
+    }
+    return null;
+  }
+}
+
+/**
+ * Create a time series from stored snapshots
+ */
+export function createScanTimeSeries(snapshots: ScanSnapshot[] = []): ScanTimeSeries {
+  return new ScanTimeSeries(snapshots);
+}
@@ -35,11 +35,15 @@ export interface MarketplaceManifestSchema extends BaseManifestSchema {
 }
 
 /**
- * Plugin manifest schema
+ * Plugin manifest schema. Only `name` is required by Claude Code.
  */
-export interface PluginManifestSchema extends BaseManifestSchema {
-  type: 'plugin';
-  category: string;
+export interface PluginManifestSchema
+  extends Partial<Omit<BaseManifestSchema, 'author' | 'repository'>> {
+  name: string;
+  author?: string | { name: string; email?: string; url?: string };
+  repository?: string | BaseManifestSchema['repository'];
+  type?: 'plugin';
+  category?: string;
   marketplace?: string;
   main?: string;
   files?: string[];
@@ -225,16 +229,13 @@ export function validatePluginManifest(
     const errors: string[] = [];
     const warnings: string[] = [];
 
-    // Required fields validation
-    const requiredFields = ['name', 'version', 'author', 'repository', 'type', 'category'];
-    for (const field of requiredFields) {
-      if (!data[field]) {
-        errors.push(`Required field '${field}' is missing`);
-      }
+    // Claude Code only requires a name; see manifest-schema.ts for the full spec
+    if (!data.name) {
+      errors.push(`Required field 'name' is missing`);
     }
 
-    // Type validation
-    if (data.type !== 'plugin') {
+    // Type validation (not part of plugin.json, but must not name another manifest)
+    if (data.type !== undefined && data.type !== 'plugin') {
       errors.push(`Invalid type. Expected 'plugin', got '${data.type}'`);
     }
 
@@ -252,13 +253,18 @@ export function validatePluginManifest(
       warnings.push('Version should follow semantic versioning (x.y.z)');
     }
 
-    // Author validation
-    if (data.author && typeof data.author !== 'string') {
-      errors.push('Author must be a string');
+    // Author validation: plugin.json uses { name, email, url }
+    if (data.author && typeof data.author !== 'string' && typeof data.author?.name !== 'string') {
+      errors.push('Author must be a string or an object with a name');
     }
 
-    // Repository validation
-    if (data.repository) {
+    // Repository validation: plugin.json uses a URL string
+    if (typeof data.repository === 'string') {
+      const urlValidation = validateUrl(data.repository, ['https:', 'http:']);
+      if (!urlValidation.isValid) {
+        errors.push(`Invalid repository URL: ${urlValidation.errors[0]}`);
+      }
+    } else if (data.repository) {
       const repoValidation = validateRepositoryInfo(data.repository);
       errors.push(...repoValidation.errors);
       warnings.push(...repoValidation.warnings);
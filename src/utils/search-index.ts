@@ -0,0 +1,310 @@
+/**
+ * Full-text search index
+ *
+ * The index is built once by scripts/generate-data.ts (public/data/search-index.json)
+ * and queried in the browser by SearchEngine. Both sides share the tokenizer and
+ * stemmer below so that query terms line up with indexed terms.
+ */
+
+export const SEARCH_INDEX_VERSION = 1 as const;
+
+/**
+ * Relative weight of a match in each field (name > tags > author/marketplace > description)
+ */
+export const SEARCH_FIELD_WEIGHTS = {
+  name: 10,
+  tags: 5,
+  author: 2,
+  marketplace: 2,
+  description: 1,
+} as const;
+
+export type SearchField = keyof typeof SEARCH_FIELD_WEIGHTS;
+
+/** Score multipliers for non-exact term matches */
+const PREFIX_MATCH_FACTOR = 0.6;
+const FUZZY_MATCH_FACTOR = 0.4;
+
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'by',
+  'for',
+  'from',
+  'in',
+  'is',
+  'it',
+  'of',
+  'on',
+  'or',
+  'the',
+  'to',
+  'with',
+]);
+
+export interface SearchableDocument {
+  id: string;
+  name: string;
+  description?: string;
+  tags?: string[];
+  author?: string;
+  marketplace?: string;
+}
+
+export interface SearchIndex {
+  version: typeof SEARCH_INDEX_VERSION;
+  generatedAt: string;
+  documents: Array<{ id: string; name: string }>;
+  /** Stemmed term → [document index, weighted term frequency] */
+  postings: Record<string, Array<[number, number]>>;
+}
+
+export interface SearchResult {
+  id: string;
+  name: string;
+  score: number;
+}
+
+export interface SearchOptions {
+  limit?: number;
+}
+
+/**
+ * Reduce a word to its stem with a light suffix-stripping stemmer
+ *
+ * @example
+ * ```ts
+ * stem('testing') // "test"
+ * stem('libraries') // "library"
+ * ```
+ */
+export function stem(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+
+  let result = word;
+  if (result.endsWith('ies') && result.length > 4) {
+    result = `${result.slice(0, -3)}y`;
+  } else if (result.endsWith('sses')) {
+    result = result.slice(0, -2);
+  } else if (/[^su]s$/.test(result) && !result.endsWith('ss')) {
+    result = result.slice(0, -1);
+  }
+
+  for (const suffix of ['ing', 'ed', 'ly']) {
+    if (result.endsWith(suffix) && result.length - suffix.length >= 3) {
+      result = result.slice(0, -suffix.length);
+      // running → runn → run
+      if (/([^aeiouls])\1$/.test(result)) {
+        result = result.slice(0, -1);
+      }
+      break;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Split text into lowercase words, dropping stop words
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 0 && !STOP_WORDS.has(token));
+}
+
+/**
+ * Tokenize and stem text into index terms
+ */
+export function toTerms(text: string): string[] {
+  return tokenize(text).map(stem);
+}
+
+/**
+ * Damerau-Levenshtein (optimal string alignment) distance, bounded by maxDistance
+ */
+export function editDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const beforePrevious = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, beforePrevious[j - 2] + 1);
+      }
+      row[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > maxDistance) return maxDistance + 1;
+  }
+
+  return row[b.length];
+}
+
+/**
+ * Number of typos tolerated for a query term of the given length
+ */
+function allowedTypos(term: string): number {
+  if (term.length >= 8) return 2;
+  if (term.length >= 4) return 1;
+  return 0;
+}
+
+/**
+ * Build an inverted index over the given documents
+ */
+export function buildSearchIndex(
+  documents: SearchableDocument[],
+  generatedAt: string = new Date().toISOString()
+): SearchIndex {
+  const postings: Record<string, Array<[number, number]>> = {};
+
+  documents.forEach((doc, docIndex) => {
+    const weights = new Map<string, number>();
+    const fields: Record<SearchField, string> = {
+      name: doc.name,
+      tags: (doc.tags || []).join(' '),
+      author: doc.author || '',
+      marketplace: doc.marketplace || '',
+      description: doc.description || '',
+    };
+
+    for (const [field, text] of Object.entries(fields) as Array<[SearchField, string]>) {
+      for (const term of toTerms(text)) {
+        weights.set(term, (weights.get(term) || 0) + SEARCH_FIELD_WEIGHTS[field]);
+      }
+    }
+
+    for (const [term, weight] of weights) {
+      if (!Object.prototype.hasOwnProperty.call(postings, term)) {
+        postings[term] = [];
+      }
+      postings[term].push([docIndex, weight]);
+    }
+  });
+
+  return {
+    version: SEARCH_INDEX_VERSION,
+    generatedAt,
+    documents: documents.map((doc) => ({ id: doc.id, name: doc.name })),
+    postings,
+  };
+}
+
+/**
+ * Ranked query engine over a prebuilt SearchIndex
+ */
+export class SearchEngine {
+  private index: SearchIndex;
+  private vocabulary: string[];
+
+  constructor(index: SearchIndex) {
+    if (index.version !== SEARCH_INDEX_VERSION) {
+      throw new Error(`Unsupported search index version: ${index.version}`);
+    }
+    this.index = index;
+    this.vocabulary = Object.keys(index.postings);
+  }
+
+  get size(): number {
+    return this.index.documents.length;
+  }
+
+  /**
+   * Return documents matching every query term, best match first.
+   * Each term matches exactly, as a prefix (while typing) or within a small edit distance.
+   */
+  search(query: string, options: SearchOptions = {}): SearchResult[] {
+    const queryTerms = Array.from(new Set(toTerms(query)));
+    if (queryTerms.length === 0) return [];
+
+    let scores: Map<number, number> | null = null;
+
+    for (const queryTerm of queryTerms) {
+      const termScores = this.scoreTerm(queryTerm);
+
+      if (scores === null) {
+        scores = termScores;
+      } else {
+        const combined = new Map<number, number>();
+        for (const [docIndex, score] of scores) {
+          const termScore = termScores.get(docIndex);
+          if (termScore !== undefined) {
+            combined.set(docIndex, score + termScore);
+          }
+        }
+        scores = combined;
+      }
+
+      if (scores.size === 0) return [];
+    }
+
+    const results = Array.from(scores || [], ([docIndex, score]) => ({
+      ...this.index.documents[docIndex],
+      score: Math.round(score * 1000) / 1000,
+    })).sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+
+    return options.limit ? results.slice(0, options.limit) : results;
+  }
+
+  /**
+   * Score every document containing a term that matches the query term
+   */
+  private scoreTerm(queryTerm: string): Map<number, number> {
+    const scores = new Map<number, number>();
+    const typos = allowedTypos(queryTerm);
+    const totalDocuments = this.index.documents.length;
+
+    for (const term of this.vocabulary) {
+      let factor = 0;
+      if (term === queryTerm) {
+        factor = 1;
+      } else if (queryTerm.length >= 2 && term.startsWith(queryTerm)) {
+        factor = PREFIX_MATCH_FACTOR;
+      } else if (typos > 0) {
+        const distance = editDistance(queryTerm, term, typos);
+        if (distance <= typos) {
+          factor = FUZZY_MATCH_FACTOR / distance;
+        }
+      }
+      if (factor === 0) continue;
+
+      const postings = this.index.postings[term];
+      const idf = Math.log(1 + totalDocuments / postings.length);
+
+      for (const [docIndex, weight] of postings) {
+        const score = weight * idf * factor;
+        // A document scores for its best-matching variant of the query term
+        if (score > (scores.get(docIndex) || 0)) {
+          scores.set(docIndex, score);
+        }
+      }
+    }
+
+    return scores;
+  }
+}
+
+/**
+ * Create a search engine over a prebuilt index
+ */
+export function createSearchEngine(index: SearchIndex): SearchEngine {
+  return new SearchEngine(index);
+}
@@ -0,0 +1,536 @@
+/**
+ * Structured search query language
+ *
+ * Parses queries such as `category:security author:anthropic stars:>100 has:mcp -tag:deprecated`
+ * into PluginSearchFilters plus the remaining free text, with positioned syntax errors
+ * for inline feedback and completions for field names and values.
+ */
+
+import type { SearchFilters } from '../types/common';
+import type {
+  McpRiskLevel,
+  PluginCapability,
+  PluginSearchExclusions,
+  PluginSearchFilters,
+} from '../types/plugin';
+import type { MarketplacePlugin } from '../data/mock-data';
+import { isMcpRiskLevel, MCP_RISK_LEVELS } from './mcp-analysis';
+import { editDistance } from './search-index';
+
+export type QueryField =
+  | 'category'
+  | 'tag'
+  | 'author'
+  | 'marketplace'
+  | 'license'
+  | 'stars'
+  | 'has'
+  | 'is'
+  | 'risk';
+
+export type QueryErrorCode =
+  | 'unknown-field'
+  | 'missing-value'
+  | 'invalid-value'
+  | 'invalid-negation'
+  | 'unterminated-quote';
+
+export interface QueryClause {
+  field: QueryField;
+  value: string;
+  negated: boolean;
+  /** Character offsets of the clause in the original query */
+  start: number;
+  end: number;
+}
+
+export interface QuerySyntaxError {
+  code: QueryErrorCode;
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface ParsedSearchQuery {
+  /** Free text left after removing field:value clauses */
+  text: string;
+  clauses: QueryClause[];
+  filters: PluginSearchFilters;
+  errors: QuerySyntaxError[];
+}
+
+export interface QueryCompletion {
+  kind: 'field' | 'value';
+  label: string;
+  description?: string;
+  /** Full query after accepting the completion */
+  value: string;
+}
+
+/** Known values per field, used for value completions */
+export type QueryCompletionSource = Partial<Record<QueryField, string[]>>;
+
+export const QUERY_FIELDS: Record<QueryField, string> = {
+  category: 'Plugin category',
+  tag: 'Plugin tag',
+  author: 'Plugin author',
+  marketplace: 'Marketplace name',
+  license: 'License, e.g. MIT',
+  stars: 'Stars, e.g. >100, <=50 or 10..100',
+  has: 'Provides commands, agents, skills, hooks or mcp',
+  is: 'Status, e.g. verified',
+  risk: 'MCP server risk: none, low, medium or high',
+};
+
+const FIELD_ALIASES: Record<string, QueryField> = {
+  cat: 'category',
+  tags: 'tag',
+  owner: 'author',
+  mcprisk: 'risk',
+};
+
+const CAPABILITY_ALIASES: Record<string, PluginCapability> = {
+  command: 'commands',
+  commands: 'commands',
+  agent: 'agents',
+  agents: 'agents',
+  skill: 'skills',
+  skills: 'skills',
+  hook: 'hooks',
+  hooks: 'hooks',
+  mcp: 'mcp',
+  'mcp-server': 'mcp',
+  'mcp-servers': 'mcp',
+};
+
+const STATUS_VALUES = ['verified'];
+const STAR_SUGGESTIONS = ['>10', '>100', '>1000'];
+
+/** Fields whose values can be excluded with a leading `-` */
+const EXCLUSION_KEYS: Partial<
+  Record<QueryField, Exclude<keyof PluginSearchExclusions, 'has' | 'mcpRisk'>>
+> = {
+  category: 'categories',
+  tag: 'tags',
+  author: 'authors',
+  marketplace: 'marketplaces',
+  license: 'licenses',
+};
+
+function resolveField(name: string): QueryField | undefined {
+  const lower = name.toLowerCase();
+  if (lower in QUERY_FIELDS) return lower as QueryField;
+  return FIELD_ALIASES[lower];
+}
+
+function suggestField(name: string): QueryField | undefined {
+  return (Object.keys(QUERY_FIELDS) as QueryField[]).find(
+    (field) => editDistance(name.toLowerCase(), field, 2) <= 2
+  );
+}
+
+function quoteValue(value: string): string {
+  return /\s/.test(value) ? `"${value}"` : value;
+}
+
+/**
+ * Parse a star filter: `100`, `>100`, `>=100`, `<50`, `<=50` or `10..100`
+ */
+function parseStarRange(value: string): { min?: number; max?: number } | null {
+  const range = value.match(/^(\d+)\.\.(\d+)$/);
+  if (range) {
+    return { min: Number(range[1]), max: Number(range[2]) };
+  }
+
+  const comparison = value.match(/^(>=|<=|>|<)?(\d+)$/);
+  if (!comparison) return null;
+
+  const amount = Number(comparison[2]);
+  switch (comparison[1]) {
+    case '>':
+      return { min: amount + 1 };
+    case '>=':
+      return { min: amount };
+    case '<':
+      return { max: Math.max(0, amount - 1) };
+    case '<=':
+      return { max: amount };
+    default:
+      return { min: amount, max: amount };
+  }
+}
+
+/**
+ * Apply a clause to the filters, returning an error if the value is invalid
+ */
+function applyClause(
+  filters: PluginSearchFilters,
+  clause: QueryClause
+): Pick<QuerySyntaxError, 'code' | 'message'> | null {
+  const { field, value, negated } = clause;
+  const invalid = (message: string) => ({ code: 'invalid-value' as const, message });
+
+  switch (field) {
+    case 'stars': {
+      if (negated) {
+        return { code: 'invalid-negation', message: '"stars:" cannot be negated' };
+      }
+      const range = parseStarRange(value);
+      if (!range) {
+        return invalid(`Invalid star filter "${value}". Use a number, >100, <=50 or 10..100`);
+      }
+      if (range.min !== undefined) filters.minStars = range.min;
+      if (range.max !== undefined) filters.maxStars = range.max;
+      return null;
+    }
+    case 'has': {
+      const capability = CAPABILITY_ALIASES[value.toLowerCase()];
+      if (!capability) {
+        return invalid(
+          `Unknown capability "${value}". Use one of: commands, agents, skills, hooks, mcp`
+        );
+      }
+      if (negated) {
+        filters.exclude = {
+          ...filters.exclude,
+          has: [...(filters.exclude?.has || []), capability],
+        };
+      } else {
+        filters.has = [...(filters.has || []), capability];
+      }
+      return null;
+    }
+    case 'risk': {
+      const levels = value.toLowerCase().split(',').filter(Boolean);
+      const unknown = levels.find((level) => !isMcpRiskLevel(level));
+      if (unknown !== undefined || levels.length === 0) {
+        return invalid(
+          `Unknown risk level "${unknown ?? value}". Use one of: ${MCP_RISK_LEVELS.join(', ')}`
+        );
+      }
+      if (negated) {
+        filters.exclude = {
+          ...filters.exclude,
+          mcpRisk: [...(filters.exclude?.mcpRisk || []), ...(levels as McpRiskLevel[])],
+        };
+      } else {
+        filters.mcpRisk = [...(filters.mcpRisk || []), ...(levels as McpRiskLevel[])];
+      }
+      return null;
+    }
+    case 'is':
+      if (!STATUS_VALUES.includes(value.toLowerCase())) {
+        return invalid(`Unknown status "${value}". Try is:verified`);
+      }
+      filters.validated = !negated;
+      return null;
+  }
+
+  if (negated) {
+    const key = EXCLUSION_KEYS[field];
+    if (key) {
+      filters.exclude = { ...filters.exclude, [key]: [...(filters.exclude?.[key] || []), value] };
+    }
+    return null;
+  }
+
+  switch (field) {
+    case 'category':
+      filters.category = value;
+      break;
+    case 'tag':
+      filters.tags = [...(filters.tags || []), ...value.split(',').filter(Boolean)];
+      break;
+    case 'author':
+      filters.author = value;
+      break;
+    case 'marketplace':
+      filters.marketplaceId = value;
+      break;
+    case 'license':
+      filters.license = value;
+      break;
+  }
+  return null;
+}
+
+/**
+ * Parse a structured search query
+ *
+ * @example
+ * ```ts
+ * parseSearchQuery('lint stars:>100 -tag:deprecated').filters
+ * // { minStars: 101, exclude: { tags: ['deprecated'] } }
+ * ```
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const clauses: QueryClause[] = [];
+  const errors: QuerySyntaxError[] = [];
+  const filters: PluginSearchFilters = {};
+  const words: string[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const negated = query[i] === '-' && i + 1 < query.length && /\S/.test(query[i + 1]);
+    if (negated) i++;
+
+    const nameStart = i;
+    while (i < query.length && /[a-zA-Z]/.test(query[i])) i++;
+    const name = query.slice(nameStart, i);
+
+    if (name && query[i] === ':') {
+      i++;
+      let value: string;
+
+      if (query[i] === '"') {
+        const closing = query.indexOf('"', i + 1);
+        if (closing === -1) {
+          errors.push({
+            code: 'unterminated-quote',
+            message: 'Missing closing quote',
+            start,
+            end: query.length,
+          });
+          break;
+        }
+        value = query.slice(i + 1, closing);
+        i = closing + 1;
+      } else {
+        const valueStart = i;
+        while (i < query.length && !/\s/.test(query[i])) i++;
+        value = query.slice(valueStart, i);
+      }
+
+      const field = resolveField(name);
+      if (!field) {
+        const suggestion = suggestField(name);
+        errors.push({
+          code: 'unknown-field',
+          message: suggestion
+            ? `Unknown filter "${name}:". Did you mean "${suggestion}:"?`
+            : `Unknown filter "${name}:". Available: ${Object.keys(QUERY_FIELDS).join(', ')}`,
+          start,
+          end: i,
+        });
+        continue;
+      }
+
+      if (!value.trim()) {
+        errors.push({
+          code: 'missing-value',
+          message: `Missing value for "${field}:"`,
+          start,
+          end: i,
+        });
+        continue;
+      }
+
+      const clause: QueryClause = { field, value: value.trim(), negated, start, end: i };
+      const error = applyClause(filters, clause);
+      if (error) {
+        errors.push({ ...error, start, end: i });
+      } else {
+        clauses.push(clause);
+      }
+      continue;
+    }
+
+    // Free text: a quoted phrase or a plain word
+    i = start;
+    if (query[i] === '"') {
+      const closing = query.indexOf('"', i + 1);
+      const end = closing === -1 ? query.length : closing;
+      words.push(query.slice(i + 1, end));
+      i = closing === -1 ? query.length : closing + 1;
+    } else {
+      while (i < query.length && !/\s/.test(query[i])) i++;
+      words.push(query.slice(start, i));
+    }
+  }
+
+  return {
+    text: words.join(' ').trim(),
+    clauses,
+    filters,
+    errors,
+  };
+}
+
+/**
+ * Whether the query uses any field:value syntax
+ */
+export function hasQuerySyntax(query: string): boolean {
+  return /(^|\s)-?[a-zA-Z]+:/.test(query);
+}
+
+/**
+ * Serialize clauses and free text back into a canonical query string
+ */
+export function formatSearchQuery(parsed: Pick<ParsedSearchQuery, 'text' | 'clauses'>): string {
+  return [
+    ...parsed.clauses.map(
+      (clause) => `${clause.negated ? '-' : ''}${clause.field}:${quoteValue(clause.value)}`
+    ),
+    parsed.text,
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
+
+/**
+ * Replace every clause for a field with a single `field:value` clause, or remove them
+ * when value is empty. The rest of the query is kept as typed, including invalid clauses.
+ *
+ * @example
+ * ```ts
+ * setQueryField('lint risk:high', 'risk', 'low') // 'lint risk:low'
+ * ```
+ */
+export function setQueryField(query: string, field: QueryField, value: string): string {
+  let result = query;
+  const clauses = parseSearchQuery(query).clauses.filter((clause) => clause.field === field);
+  for (const clause of clauses.reverse()) {
+    result = result.slice(0, clause.start) + result.slice(clause.end);
+  }
+  result = result.replace(/\s+/g, ' ').trim();
+  return value ? `${result} ${field}:${quoteValue(value)}`.trim() : result;
+}
+
+/**
+ * Map parsed plugin filters onto the generic SearchFilters shape
+ */
+export function toSearchFilters(parsed: ParsedSearchQuery): SearchFilters {
+  const { filters } = parsed;
+  return {
+    query: parsed.text || undefined,
+    category: filters.category,
+    tags: filters.tags,
+    author: filters.author,
+    license: filters.license,
+    minStars: filters.minStars,
+    minQualityScore: filters.minQualityScore,
+    verified: filters.validated,
+  };
+}
+
+function equalsIgnoreCase(a: string | undefined, b: string): boolean {
+  return (a || '').toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Check a plugin against parsed filters
+ */
+export function matchesPluginFilters(
+  plugin: MarketplacePlugin,
+  filters: PluginSearchFilters
+): boolean {
+  const capabilities = plugin.capabilities || [];
+  const tags = plugin.tags.map((tag) => tag.toLowerCase());
+  const exclude = filters.exclude || {};
+
+  return (
+    (!filters.category || equalsIgnoreCase(plugin.category, filters.category)) &&
+    (!filters.author || equalsIgnoreCase(plugin.author, filters.author)) &&
+    (!filters.license || equalsIgnoreCase(plugin.license, filters.license)) &&
+    (!filters.marketplaceId ||
+      equalsIgnoreCase(plugin.marketplace, filters.marketplaceId) ||
+      plugin.id.startsWith(`${filters.marketplaceId}-`)) &&
+    (filters.tags || []).every((tag) => tags.includes(tag.toLowerCase())) &&
+    (filters.has || []).every((capability) => capabilities.includes(capability)) &&
+    (filters.minStars === undefined || plugin.stars >= filters.minStars) &&
+    (filters.maxStars === undefined || plugin.stars <= filters.maxStars) &&
+    (filters.validated === undefined || plugin.verified === filters.validated) &&
+    (!filters.mcpRisk || (!!plugin.mcpRisk && filters.mcpRisk.includes(plugin.mcpRisk))) &&
+    !(exclude.categories || []).some((value) => equalsIgnoreCase(plugin.category, value)) &&
+    !(exclude.authors || []).some((value) => equalsIgnoreCase(plugin.author, value)) &&
+    !(exclude.licenses || []).some((value) => equalsIgnoreCase(plugin.license, value)) &&
+    !(exclude.marketplaces || []).some((value) => equalsIgnoreCase(plugin.marketplace, value)) &&
+    !(exclude.tags || []).some((tag) => tags.includes(tag.toLowerCase())) &&
+    !(exclude.has || []).some((capability) => capabilities.includes(capability)) &&
+    !(plugin.mcpRisk && (exclude.mcpRisk || []).includes(plugin.mcpRisk))
+  );
+}
+
+/**
+ * Collect known field values from plugins, most common first
+ */
+export function buildCompletionSource(plugins: MarketplacePlugin[]): QueryCompletionSource {
+  const rank = (values: Array<string | undefined>) => {
+    const counts = new Map<string, number>();
+    values
+      .filter((value): value is string => !!value)
+      .forEach((value) => counts.set(value, (counts.get(value) || 0) + 1));
+    return Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .map(([value]) => value);
+  };
+
+  return {
+    category: rank(plugins.map((plugin) => plugin.category)),
+    tag: rank(plugins.flatMap((plugin) => plugin.tags)),
+    author: rank(plugins.map((plugin) => plugin.author)),
+    marketplace: rank(plugins.map((plugin) => plugin.marketplace)),
+    license: rank(plugins.map((plugin) => plugin.license)),
+  };
+}
+
+/**
+ * Complete the field name or value at the end of the query
+ */
+export function getQueryCompletions(
+  query: string,
+  source: QueryCompletionSource = {},
+  limit: number = 8
+): QueryCompletion[] {
+  const match = query.match(/(^|\s)(-?)([a-zA-Z]*)(:?)"?([^\s"]*)$/);
+  if (!match || (!match[3] && !match[4])) return [];
+
+  const [token, leading, negation, name, colon, partial] = match;
+  const prefix = query.slice(0, query.length - token.length) + leading;
+
+  if (!colon) {
+    return (Object.keys(QUERY_FIELDS) as QueryField[])
+      .filter((field) => field.startsWith(name.toLowerCase()) && field !== name.toLowerCase())
+      .slice(0, limit)
+      .map((field) => ({
+        kind: 'field' as const,
+        label: `${negation}${field}:`,
+        description: QUERY_FIELDS[field],
+        value: `${prefix}${negation}${field}:`,
+      }));
+  }
+
+  const field = resolveField(name);
+  if (!field) return [];
+
+  const candidates =
+    field === 'has'
+      ? ['commands', 'agents', 'skills', 'hooks', 'mcp']
+      : field === 'is'
+        ? STATUS_VALUES
+        : field === 'stars'
+          ? STAR_SUGGESTIONS
+          : field === 'risk'
+            ? [...MCP_RISK_LEVELS]
+            : source[field] || [];
+  const needle = partial.toLowerCase();
+
+  return candidates
+    .filter((value) => value.toLowerCase().includes(needle) && value.toLowerCase() !== needle)
+    .sort(
+      (a, b) =>
+        Number(b.toLowerCase().startsWith(needle)) - Number(a.toLowerCase().startsWith(needle))
+    )
+    .slice(0, limit)
+    .map((value) => ({
+      kind: 'value' as const,
+      label: `${negation}${field}:${quoteValue(value)}`,
+      value: `${prefix}${negation}${name}:${quoteValue(value)} `,
+    }));
+}
@@ -0,0 +1,207 @@
+/**
+ * Team settings audit
+ *
+ * The reverse of the team stack export: read a project's `.claude/settings.json`
+ * and resolve its `extraKnownMarketplaces` and `enabledPlugins` against the
+ * registry, so a team can see which of its plugins are still listed, what the
+ * registry knows about them and which ones have disappeared.
+ */
+
+import type { MarketplacePlugin } from '../data/mock-data';
+import type { ValidatedPluginRecord } from '../types/plugin';
+import {
+  formatMarketplaceSource,
+  getPluginInstallTarget,
+  MarketplaceSource,
+  parseMarketplaceSource,
+} from './install-commands';
+
+export interface ImportedMarketplace {
+  name: string;
+  /** Null for sources the registry cannot scan, such as local directories */
+  source: MarketplaceSource | null;
+}
+
+export interface ImportedPlugin {
+  /** `name@marketplace` as written in `enabledPlugins` */
+  key: string;
+  plugin: string;
+  marketplace: string;
+  enabled: boolean;
+}
+
+export interface ImportedSettings {
+  marketplaces: ImportedMarketplace[];
+  plugins: ImportedPlugin[];
+}
+
+/**
+ * - found: listed by its marketplace in the registry
+ * - missing: the marketplace is in the registry but no longer lists the plugin
+ * - unknown-marketplace: the registry has not seen the marketplace
+ */
+export type PluginAuditStatus = 'found' | 'missing' | 'unknown-marketplace';
+
+export interface PluginAuditEntry extends ImportedPlugin {
+  status: PluginAuditStatus;
+  /** Registry listing, when found */
+  match?: MarketplacePlugin;
+  /** Validation output, when found and validated */
+  validation?: ValidatedPluginRecord;
+}
+
+export interface MarketplaceAuditEntry {
+  name: string;
+  source: MarketplaceSource | null;
+  /** Whether `extraKnownMarketplaces` declares it, rather than only `enabledPlugins` keys */
+  declared: boolean;
+  /** Registry marketplace name, when the registry knows the marketplace */
+  registryName?: string;
+  /** Plugins the registry lists for the marketplace */
+  listedPlugins: number;
+}
+
+export interface SettingsAudit {
+  marketplaces: MarketplaceAuditEntry[];
+  plugins: PluginAuditEntry[];
+}
+
+function toMarketplaceSource(value: unknown): MarketplaceSource | null {
+  if (!value || typeof value !== 'object') return null;
+
+  const source = value as Record<string, unknown>;
+  if (source.source === 'github' && typeof source.repo === 'string') {
+    return { source: 'github', repo: source.repo };
+  }
+  if (source.source === 'git' && typeof source.url === 'string') {
+    // GitHub URLs given as git sources resolve to the same repository
+    return parseMarketplaceSource(source.url) ?? { source: 'git', url: source.url };
+  }
+  return null;
+}
+
+/**
+ * Parse the contents of a `.claude/settings.json`. Throws with a readable message
+ * when the text is not a settings object; other settings keys are ignored.
+ */
+export function parseTeamSettings(text: string): ImportedSettings {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Expected a settings object');
+  }
+
+  const { extraKnownMarketplaces, enabledPlugins } = parsed as Record<string, unknown>;
+  const marketplaces: ImportedMarketplace[] = Object.entries(
+    extraKnownMarketplaces && typeof extraKnownMarketplaces === 'object'
+      ? (extraKnownMarketplaces as Record<string, { source?: unknown }>)
+      : {}
+  ).map(([name, entry]) => ({ name, source: toMarketplaceSource(entry?.source) }));
+
+  const plugins: ImportedPlugin[] = Object.entries(
+    enabledPlugins && typeof enabledPlugins === 'object'
+      ? (enabledPlugins as Record<string, unknown>)
+      : {}
+  ).map(([key, enabled]) => {
+    const at = key.lastIndexOf('@');
+    return {
+      key,
+      plugin: at > 0 ? key.slice(0, at) : key,
+      marketplace: at > 0 ? key.slice(at + 1) : '',
+      enabled: enabled === true,
+    };
+  });
+
+  if (marketplaces.length === 0 && plugins.length === 0) {
+    throw new Error('No extraKnownMarketplaces or enabledPlugins found');
+  }
+  return { marketplaces, plugins };
+}
+
+function sourceKey(url: string | undefined): string | undefined {
+  const source = parseMarketplaceSource(url);
+  return source ? formatMarketplaceSource(source).toLowerCase() : undefined;
+}
+
+/**
+ * Find the validation output for a listed plugin. Validation IDs use the marketplace
+ * ID recorded by the validator, so fall back to the name within the same repository.
+ */
+function findValidation(
+  plugin: MarketplacePlugin,
+  validations: ValidatedPluginRecord[]
+): ValidatedPluginRecord | undefined {
+  const repositories = new Set(
+    [plugin.marketplaceUrl, plugin.repositoryUrl].map(sourceKey).filter(Boolean)
+  );
+  return (
+    validations.find((record) => record.id === plugin.id) ??
+    validations.find(
+      (record) => record.name === plugin.name && repositories.has(sourceKey(record.repository))
+    )
+  );
+}
+
+/**
+ * Resolve imported settings against the registry's plugins. Declared marketplaces
+ * are matched by repository first, so a team may register a marketplace under a
+ * different name; other marketplaces are matched by name.
+ */
+export function auditTeamSettings(
+  settings: ImportedSettings,
+  plugins: MarketplacePlugin[],
+  validations: ValidatedPluginRecord[] = []
+): SettingsAudit {
+  const byName = new Map<string, MarketplacePlugin[]>();
+  const bySource = new Map<string, MarketplacePlugin[]>();
+  for (const plugin of plugins) {
+    const target = getPluginInstallTarget(plugin);
+    if (!target) continue;
+
+    const source = formatMarketplaceSource(target.source).toLowerCase();
+    byName.set(target.marketplace, [...(byName.get(target.marketplace) ?? []), plugin]);
+    bySource.set(source, [...(bySource.get(source) ?? []), plugin]);
+  }
+
+  const declared = new Map(settings.marketplaces.map((entry) => [entry.name, entry]));
+  const names = [
+    ...settings.marketplaces.map((entry) => entry.name),
+    ...settings.plugins
+      .map((entry) => entry.marketplace)
+      .filter((name) => name && !declared.has(name)),
+  ].filter((name, index, all) => all.indexOf(name) === index);
+
+  const listings = new Map<string, MarketplacePlugin[] | undefined>();
+  const marketplaces = names.map((name): MarketplaceAuditEntry => {
+    const source = declared.get(name)?.source ?? null;
+    const listed =
+      (source && bySource.get(formatMarketplaceSource(source).toLowerCase())) || byName.get(name);
+    listings.set(name, listed);
+
+    const first = listed?.[0];
+    return {
+      name,
+      source: source ?? (first && getPluginInstallTarget(first)?.source) ?? null,
+      declared: declared.has(name),
+      registryName: first?.marketplace,
+      listedPlugins: listed?.length ?? 0,
+    };
+  });
+
+  return {
+    marketplaces,
+    plugins: settings.plugins.map((entry): PluginAuditEntry => {
+      const listed = listings.get(entry.marketplace);
+      if (!listed) return { ...entry, status: 'unknown-marketplace' };
+
+      const match = listed.find((plugin) => plugin.name === entry.plugin);
+      if (!match) return { ...entry, status: 'missing' };
+
+      return { ...entry, status: 'found', match, validation: findValidation(match, validations) };
+    }),
+  };
+}
@@ -0,0 +1,311 @@
+/**
+ * Task Scheduler
+ *
+ * Runs queued asynchronous tasks with bounded concurrency and per-host token buckets.
+ * Each bucket paces requests locally and, once responses report their rate limit,
+ * holds tasks back when the remaining quota is spent until the limit resets. Tasks
+ * with a higher priority start first. A task that would have to wait longer than
+ * `maxWaitMs` is rejected with a RateLimitWaitError so callers can save their
+ * progress and resume after the reset instead of sleeping through it.
+ */
+
+import type { GitHubRateLimit } from '@/types/github';
+
+/**
+ * Local pacing for one bucket
+ */
+export interface TokenBucketOptions {
+  /** Requests that may start back to back */
+  capacity: number;
+  /** Tokens added per second, up to capacity */
+  refillPerSecond: number;
+}
+
+/**
+ * Rate limit figures as reported by response headers
+ */
+export type RateLimitWindow = GitHubRateLimit['rate'];
+
+export class TokenBucket {
+  private options: TokenBucketOptions;
+  private tokens: number;
+  private updatedAt: number;
+  // Quota reported by the server, until it resets
+  private quota?: { remaining: number; resetAt: number };
+
+  constructor(options: TokenBucketOptions, now: number = Date.now()) {
+    this.options = options;
+    this.tokens = options.capacity;
+    this.updatedAt = now;
+  }
+
+  /**
+   * Milliseconds until a token is available; 0 when one is available now
+   */
+  getWait(now: number): number {
+    this.refill(now);
+    if (this.quota && this.quota.remaining <= 0) {
+      return Math.max(0, this.quota.resetAt - now);
+    }
+    if (this.tokens >= 1) return 0;
+    return Math.ceil(((1 - this.tokens) / this.options.refillPerSecond) * 1000);
+  }
+
+  /**
+   * Take a token, if one is available
+   */
+  take(now: number): boolean {
+    if (this.getWait(now) > 0) return false;
+    this.tokens -= 1;
+    if (this.quota) this.quota.remaining -= 1;
+    return true;
+  }
+
+  /**
+   * Apply the quota reported by a response. Responses without rate limit
+   * headers (limit 0) are ignored.
+   */
+  applyRateLimit(rate: RateLimitWindow): void {
+    if (!rate.limit) return;
+    this.quota = { remaining: rate.remaining, resetAt: rate.reset * 1000 };
+  }
+
+  private refill(now: number): void {
+    const elapsed = Math.max(0, now - this.updatedAt) / 1000;
+    this.tokens = Math.min(
+      this.options.capacity,
+      this.tokens + elapsed * this.options.refillPerSecond
+    );
+    this.updatedAt = now;
+    if (this.quota && now >= this.quota.resetAt) {
+      this.quota = undefined;
+    }
+  }
+}
+
+/**
+ * Raised for a task that would have to wait for a rate limit reset longer than
+ * the scheduler allows
+ */
+export class RateLimitWaitError extends Error {
+  constructor(
+    public bucket: string,
+    public resumeAt: Date
+  ) {
+    super(`Rate limit for ${bucket} exhausted until ${resumeAt.toISOString()}`);
+    this.name = 'RateLimitWaitError';
+  }
+}
+
+export interface ScheduledTask<T> {
+  run: () => Promise<T>;
+  /** Bucket to take a token from, usually the host the task calls */
+  bucket?: string;
+  /** Higher starts first; tasks of equal priority start in the order scheduled */
+  priority?: number;
+}
+
+export interface TaskSchedulerOptions {
+  /** Tasks running at once */
+  concurrency?: number;
+  /** Pacing per bucket; tasks for other buckets are only limited by concurrency */
+  buckets?: Record<string, TokenBucketOptions>;
+  /** Longest wait for a rate limit reset before tasks are rejected */
+  maxWaitMs?: number;
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface TaskSchedulerStats {
+  queued: number;
+  running: number;
+  completed: number;
+  failed: number;
+}
+
+interface QueuedTask {
+  task: ScheduledTask<unknown>;
+  sequence: number;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+export class TaskScheduler {
+  private concurrency: number;
+  private maxWaitMs: number;
+  private now: () => number;
+  private sleep: (ms: number) => Promise<void>;
+  private buckets = new Map<string, TokenBucket>();
+  private queue: QueuedTask[] = [];
+  private sequence = 0;
+  private running = 0;
+  private waiting = false;
+  private stats = { completed: 0, failed: 0 };
+  private idleCallbacks: Array<() => void> = [];
+
+  constructor(options: TaskSchedulerOptions = {}) {
+    // A missing or invalid concurrency would otherwise never start a task
+    const concurrency = Math.floor(options.concurrency ?? NaN);
+    this.concurrency = Number.isFinite(concurrency) ? Math.max(1, concurrency) : 4;
+    this.maxWaitMs = options.maxWaitMs ?? 5 * 60 * 1000;
+    this.now = options.now ?? Date.now;
+    this.sleep = options.sleep ?? ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+
+    for (const [name, bucketOptions] of Object.entries(options.buckets ?? {})) {
+      this.buckets.set(name, new TokenBucket(bucketOptions, this.now()));
+    }
+  }
+
+  /**
+   * Queue a task; the returned promise settles with the task's result
+   */
+  schedule<T>(task: ScheduledTask<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push({
+        task: task as ScheduledTask<unknown>,
+        sequence: this.sequence++,
+        resolve: resolve as (value: unknown) => void,
+        reject,
+      });
+      this.queue.sort(
+        (a, b) => (b.task.priority ?? 0) - (a.task.priority ?? 0) || a.sequence - b.sequence
+      );
+      this.pump();
+    });
+  }
+
+  /**
+   * Feed the rate limit reported by a response into a bucket
+   */
+  updateRateLimit(bucket: string, rate: RateLimitWindow): void {
+    this.buckets.get(bucket)?.applyRateLimit(rate);
+  }
+
+  /**
+   * Resolves once nothing is queued or running
+   */
+  onIdle(): Promise<void> {
+    if (this.queue.length === 0 && this.running === 0) return Promise.resolve();
+    return new Promise((resolve) => this.idleCallbacks.push(resolve));
+  }
+
+  getStats(): TaskSchedulerStats {
+    return { queued: this.queue.length, running: this.running, ...this.stats };
+  }
+
+  private pump(): void {
+    while (this.running < this.concurrency && this.queue.length > 0) {
+      const now = this.now();
+      let shortestWait = Infinity;
+
+      // The first task in priority order whose bucket has a token
+      const index = this.queue.findIndex((entry) => {
+        const bucket = entry.task.bucket ? this.buckets.get(entry.task.bucket) : undefined;
+        const wait = bucket ? bucket.getWait(now) : 0;
+        shortestWait = Math.min(shortestWait, wait);
+        return wait === 0;
+      });
+
+      if (index === -1) {
+        if (shortestWait > this.maxWaitMs) {
+          this.rejectWaitingTasks(now);
+          continue;
+        }
+        this.wait(shortestWait);
+        return;
+      }
+
+      const [entry] = this.queue.splice(index, 1);
+      if (entry.task.bucket) this.buckets.get(entry.task.bucket)?.take(now);
+      this.start(entry);
+    }
+    this.checkIdle();
+  }
+
+  private start(entry: QueuedTask): void {
+    this.running++;
+    Promise.resolve()
+      .then(() => entry.task.run())
+      .then(
+        (value) => {
+          this.stats.completed++;
+          entry.resolve(value);
+        },
+        (error) => {
+          this.stats.failed++;
+          entry.reject(error);
+        }
+      )
+      .finally(() => {
+        this.running--;
+        this.pump();
+      });
+  }
+
+  private wait(ms: number): void {
+    if (this.waiting) return;
+    this.waiting = true;
+    this.sleep(ms).then(() => {
+      this.waiting = false;
+      this.pump();
+    });
+  }
+
+  // Reject every queued task whose bucket would make it wait past maxWaitMs
+  private rejectWaitingTasks(now: number): void {
+    this.queue = this.queue.filter((entry) => {
+      const bucket = entry.task.bucket ? this.buckets.get(entry.task.bucket) : undefined;
+      const wait = bucket ? bucket.getWait(now) : 0;
+      if (wait <= this.maxWaitMs) return true;
+
+      this.stats.failed++;
+      entry.reject(new RateLimitWaitError(entry.task.bucket ?? '', new Date(now + wait)));
+      return false;
+    });
+  }
+
+  private checkIdle(): void {
+    if (this.queue.length > 0 || this.running > 0) return;
+    const callbacks = this.idleCallbacks;
+    this.idleCallbacks = [];
+    callbacks.forEach((callback) => callback());
+  }
+}
+
+export function createTaskScheduler(options: TaskSchedulerOptions = {}): TaskScheduler {
+  return new TaskScheduler(options);
+}
+
+/**
+ * Buckets for the GitHub API: search has its own, much lower limits than other
+ * requests, and code search lower still
+ */
+export const GITHUB_BUCKETS = {
+  core: 'api.github.com',
+  search: 'api.github.com/search',
+  codeSearch: 'api.github.com/search/code',
+} as const;
+
+const GITHUB_BUCKET_OPTIONS: Record<string, TokenBucketOptions> = {
+  [GITHUB_BUCKETS.core]: { capacity: 10, refillPerSecond: 5 },
+  [GITHUB_BUCKETS.search]: { capacity: 5, refillPerSecond: 30 / 60 },
+  [GITHUB_BUCKETS.codeSearch]: { capacity: 2, refillPerSecond: 10 / 60 },
+};
+
+/**
+ * Bucket for a response, from its `x-ratelimit-resource` header
+ */
+export function getGitHubBucket(resource: string | undefined): string {
+  if (resource === 'search') return GITHUB_BUCKETS.search;
+  if (resource === 'code_search') return GITHUB_BUCKETS.codeSearch;
+  return GITHUB_BUCKETS.core;
+}
+
+/**
+ * Scheduler preconfigured with the GitHub API buckets
+ */
+export function createGitHubTaskScheduler(
+  options: Omit<TaskSchedulerOptions, 'buckets'> = {}
+): TaskScheduler {
+  return new TaskScheduler({ ...options, buckets: GITHUB_BUCKET_OPTIONS });
+}
@@ -0,0 +1,112 @@
+/**
+ * Listing URL state
+ *
+ * Serializes the state of listing pages (search, category, sort, view mode, page) to
+ * and from the query string so that filtered views can be bookmarked and shared.
+ */
+
+import type { ParsedUrlQuery } from 'querystring';
+
+export type ListingViewMode = 'grid' | 'list';
+
+export interface ListingState<S extends string = string> {
+  q: string;
+  category: string;
+  sort: S;
+  view: ListingViewMode;
+  page: number;
+}
+
+export interface ListingStateOptions<S extends string = string> {
+  sorts: readonly S[];
+  defaultSort: S;
+  /** Allowed categories; other values fall back to the default */
+  categories?: readonly string[];
+}
+
+/** Canonical parameter order in generated URLs */
+export const LISTING_PARAMS = ['q', 'category', 'sort', 'view', 'page'] as const;
+
+const DEFAULT_CATEGORY = 'All';
+const DEFAULT_VIEW: ListingViewMode = 'grid';
+
+function firstValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+export function getDefaultListingState<S extends string>(
+  options: ListingStateOptions<S>
+): ListingState<S> {
+  return {
+    q: '',
+    category: DEFAULT_CATEGORY,
+    sort: options.defaultSort,
+    view: DEFAULT_VIEW,
+    page: 1,
+  };
+}
+
+/**
+ * Read listing state from a parsed query, ignoring invalid values
+ */
+export function parseListingQuery<S extends string>(
+  query: ParsedUrlQuery,
+  options: ListingStateOptions<S>
+): ListingState<S> {
+  const state = getDefaultListingState(options);
+
+  const q = firstValue(query.q);
+  if (q) state.q = q;
+
+  const category = firstValue(query.category);
+  if (category) {
+    const match = options.categories
+      ? options.categories.find((value) => value.toLowerCase() === category.toLowerCase())
+      : category;
+    if (match) state.category = match;
+  }
+
+  const sort = firstValue(query.sort);
+  if (sort && (options.sorts as readonly string[]).includes(sort)) {
+    state.sort = sort as S;
+  }
+
+  const view = firstValue(query.view);
+  if (view === 'grid' || view === 'list') state.view = view;
+
+  const page = Number(firstValue(query.page));
+  if (Number.isInteger(page) && page > 1) state.page = page;
+
+  return state;
+}
+
+/**
+ * Build a query string with parameters in canonical order, omitting default values.
+ * Unrelated parameters are kept, sorted by name, after the listing parameters.
+ */
+export function buildListingQueryString<S extends string>(
+  state: ListingState<S>,
+  options: ListingStateOptions<S>,
+  extra: ParsedUrlQuery = {}
+): string {
+  const defaults = getDefaultListingState(options);
+  const params = new URLSearchParams();
+
+  for (const key of LISTING_PARAMS) {
+    const value = String(state[key]).trim();
+    if (value && value !== String(defaults[key])) {
+      params.append(key, value);
+    }
+  }
+
+  for (const key of Object.keys(extra).sort()) {
+    if ((LISTING_PARAMS as readonly string[]).includes(key)) continue;
+    const values = extra[key];
+    for (const value of Array.isArray(values) ? values : [values]) {
+      if (value !== undefined) params.append(key, value);
+    }
+  }
+
+  const queryString = params.toString();
+  return queryString ? `?${queryString}` : '';
+}